@@ -1 +1,2 @@
 export * from './useStreamingField'
+export * from './usePresence'
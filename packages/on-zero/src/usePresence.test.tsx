@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+
+import { createSchema, string, table } from '@rocicorp/zero'
+import { createLocalRealtime, defineStreamingFields } from 'orez-lite/realtime'
+import { act } from 'react'
+import { createRoot, type Root } from 'react-dom/client'
+import { afterEach, beforeEach, expect, test } from 'vitest'
+
+import { createUsePresence, type PresenceView } from './usePresence'
+
+declare global {
+  // eslint-disable-next-line no-var
+  var IS_REACT_ACT_ENVIRONMENT: boolean | undefined
+}
+globalThis.IS_REACT_ACT_ENVIRONMENT = true
+
+const doc = table('doc').columns({ id: string(), body: string() }).primaryKey('id')
+const streaming = defineStreamingFields(createSchema({ tables: [doc] }), {})
+
+let container: HTMLDivElement
+let root: Root
+
+beforeEach(() => {
+  container = document.createElement('div')
+  document.body.appendChild(container)
+  root = createRoot(container)
+})
+
+afterEach(() => {
+  act(() => root.unmount())
+  container.remove()
+})
+
+// the join is answered after its authorization settles, a few ticks later
+const settle = () => act(() => new Promise((resolve) => setTimeout(resolve, 0)))
+
+test('joins on mount, publishes its state, and leaves on unmount', async () => {
+  const realtime = createLocalRealtime({ manifest: streaming.manifest })
+  const usePresence = createUsePresence(() => realtime.store)
+  let seen: PresenceView<{ cursor: number }> | undefined
+  let renders = 0
+
+  function Cursor({ cursor }: { cursor: number }) {
+    renders++
+    // a fresh object every render must not resend an unchanged slot
+    seen = usePresence('doc:1', { cursor })
+    return null
+  }
+
+  act(() => root.render(<Cursor cursor={1} />))
+  await settle()
+  expect(seen).toMatchObject({
+    status: 'joined',
+    peers: [{ id: seen!.self, state: { cursor: 1 } }],
+    others: [],
+  })
+
+  const before = seen
+  const rendersBefore = renders
+  act(() => root.render(<Cursor cursor={1} />))
+  await settle()
+  expect(renders).toBe(rendersBefore + 1)
+  expect(seen).toBe(before)
+
+  act(() => root.render(<Cursor cursor={2} />))
+  await settle()
+  expect(seen!.peers[0].state).toEqual({ cursor: 2 })
+
+  act(() => root.render(<></>))
+  expect(realtime.store.readPresence('doc:1').status).toBe('joining')
+})
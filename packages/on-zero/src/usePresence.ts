@@ -0,0 +1,107 @@
+// React binding for presence rooms: cursors, "is typing", who's online.
+//
+//   const { others, broadcast } = usePresence(`doc:${id}`, { cursor })
+//
+// Mounting the hook is what joins. The room is left when the last component
+// holding it unmounts, and the host drops this connection's slot when the
+// socket closes, so nothing here needs an explicit "I'm gone".
+//
+// `state` is this connection's whole slot. It is compared by value, so passing
+// a fresh `{ cursor }` object every render sends nothing until the cursor moves.
+
+import { canonicalEncode } from 'orez-lite/realtime'
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+
+import type {
+  PresenceBroadcast,
+  PresencePeer,
+  PresenceState,
+  PresenceStatus,
+  RealtimeStore,
+} from 'orez-lite/realtime'
+
+export type { PresenceBroadcast, PresenceStatus }
+
+// The wire carries `unknown`; the hook hands it back as the caller's own state
+// type, since every page in a room runs the same application code.
+export type TypedPresencePeer<State> = Omit<PresencePeer, 'state'> & {
+  // null until the peer sets its slot
+  readonly state: State | null
+}
+
+export type PresenceView<State> = {
+  readonly status: PresenceStatus
+  readonly self: string | null
+  readonly peers: readonly TypedPresencePeer<State>[]
+  readonly others: readonly TypedPresencePeer<State>[]
+  // to everyone else in the room; dropped while not joined
+  readonly broadcast: (event: string, payload?: unknown) => void
+}
+
+export type UsePresenceOptions = {
+  readonly onBroadcast?: (broadcast: PresenceBroadcast) => void
+}
+
+// `room` may be null so a component can join conditionally while still calling
+// the hook unconditionally. `state` undefined leaves the slot untouched.
+export type UsePresence = <State = unknown>(
+  room: string | null | undefined,
+  state?: State,
+  options?: UsePresenceOptions
+) => PresenceView<State>
+
+const NOT_JOINED: PresenceState = { status: 'joining', self: null, peers: [], others: [] }
+
+export function createUsePresence(
+  getStore: () => RealtimeStore | undefined
+): UsePresence {
+  return function usePresence<State = unknown>(
+    room: string | null | undefined,
+    state?: State,
+    options?: UsePresenceOptions
+  ): PresenceView<State> {
+    const store = getStore()
+
+    // read through a ref so an inline handler does not rejoin the room every
+    // render, which would tell every other peer we left and came back
+    const onBroadcast = useRef(options?.onBroadcast)
+    onBroadcast.current = options?.onBroadcast
+
+    const subscribe = useCallback(
+      (onChange: () => void) => {
+        if (!store || !room) return () => {}
+        return store.joinRoom(room, onChange, (broadcast) =>
+          onBroadcast.current?.(broadcast)
+        )
+      },
+      [store, room]
+    )
+
+    // the store caches a room's snapshot until a frame changes it, and hands
+    // back one constant for a room it has not joined, so this is stable as
+    // useSyncExternalStore requires without a per-hook slot
+    const getSnapshot = useCallback(
+      () => (store && room ? store.readPresence(room) : NOT_JOINED),
+      [store, room]
+    )
+    const snapshot = useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
+
+    const encoded = state === undefined ? undefined : canonicalEncode(state)
+    useEffect(() => {
+      if (!store || !room || state === undefined) return
+      store.setPresence(room, state)
+    }, [store, room, encoded])
+
+    const broadcast = useCallback(
+      (event: string, payload?: unknown) => {
+        if (store && room) store.broadcast(room, event, payload ?? null)
+      },
+      [store, room]
+    )
+
+    return useMemo(
+      () => ({ ...(snapshot as PresenceView<State>), broadcast }),
+      [snapshot, broadcast]
+    )
+  }
+}
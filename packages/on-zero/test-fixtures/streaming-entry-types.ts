@@ -1,4 +1,5 @@
 import {
+  createUsePresence,
   createUseStreamingField,
   createUseStreamingFields,
   type StreamingFieldHandle,
@@ -11,6 +12,11 @@ declare const handle: StreamingFieldHandle
 
 const useStreamingField = createUseStreamingField(() => store)
 const useStreamingFields = createUseStreamingFields(() => store)
+const usePresence = createUsePresence(() => store)
 
 useStreamingField(handle, 'durable')
 useStreamingFields([{ key: 'message', handle, base: 'durable' }])
+const presence = usePresence('doc:1', { cursor: 1 }, { onBroadcast: () => {} })
+const cursor: number | undefined = presence.others[0]?.state?.cursor
+presence.broadcast('typing')
+void cursor
@@ -1,13 +1,17 @@
-import { createSchema, number, string, table } from '@rocicorp/zero'
+import { boolean, createSchema, number, string, table } from '@rocicorp/zero'
 // @ts-expect-error - CJS module
 import BedrockSqlite from 'bedrock-sqlite'
 import { describe, expect, it } from 'vitest'
 
 import {
+  avg,
   count,
+  countDistinct,
   defineAggregates,
   aggregateMigrationStatements,
+  max,
   mergeAggregateDefinitions,
+  min,
   sum,
   withOptimisticAggregates,
 } from './aggregate.js'
@@ -124,6 +128,81 @@ function changes(db: InstanceType<typeof BedrockSqlite.Database>, sql: string) {
   return after - before
 }
 
+// a client transaction over in-memory tables that answers the queries
+// withOptimisticAggregates builds: equality conditions, nested under `and`
+// when a read filters on more than one column
+function clientTransaction(
+  tables: Record<string, Array<Record<string, unknown>>>,
+  primaryKeys: Record<string, readonly string[]>,
+  onWrite: (tableName: string, operation: string) => void = () => {}
+) {
+  const findIndex = (tableName: string, input: Readonly<Record<string, unknown>>) =>
+    tables[tableName]!.findIndex((row) =>
+      primaryKeys[tableName]!.every((key) => Object.is(row[key], input[key]))
+    )
+  const mutate = Object.fromEntries(
+    Object.keys(tables).map((tableName) => [
+      tableName,
+      {
+        async insert(input: Readonly<Record<string, unknown>>) {
+          if (findIndex(tableName, input) !== -1) throw new Error('duplicate row')
+          tables[tableName]!.push({ ...input })
+          onWrite(tableName, 'insert')
+        },
+        async upsert(input: Readonly<Record<string, unknown>>) {
+          const index = findIndex(tableName, input)
+          if (index === -1) tables[tableName]!.push({ ...input })
+          else tables[tableName]![index] = { ...input }
+          onWrite(tableName, 'upsert')
+        },
+        async update(input: Readonly<Record<string, unknown>>) {
+          const index = findIndex(tableName, input)
+          if (index !== -1) {
+            tables[tableName]![index] = { ...tables[tableName]![index], ...input }
+          }
+          onWrite(tableName, 'update')
+        },
+        async delete(input: Readonly<Record<string, unknown>>) {
+          const index = findIndex(tableName, input)
+          if (index !== -1) tables[tableName]!.splice(index, 1)
+          onWrite(tableName, 'delete')
+        },
+      },
+    ])
+  )
+  const matches = (
+    row: Readonly<Record<string, unknown>>,
+    condition: unknown
+  ): boolean => {
+    if (!condition || typeof condition !== 'object') return true
+    const type = Reflect.get(condition, 'type')
+    if (type === 'and') {
+      const conditions = Reflect.get(condition, 'conditions')
+      return (
+        Array.isArray(conditions) && conditions.every((nested) => matches(row, nested))
+      )
+    }
+    if (type !== 'simple' || Reflect.get(condition, 'op') !== '=') {
+      throw new Error(`unsupported condition: ${JSON.stringify(condition)}`)
+    }
+    const column: unknown = Reflect.get(Reflect.get(condition, 'left'), 'name')
+    return (
+      typeof column === 'string' &&
+      Object.is(row[column], Reflect.get(Reflect.get(condition, 'right'), 'value'))
+    )
+  }
+  return {
+    location: 'client',
+    mutate,
+    async run(query: { ast: { table: string; where?: unknown }; format: object }) {
+      const found = tables[query.ast.table]!.filter((row) =>
+        matches(row, query.ast.where)
+      )
+      return Reflect.get(query.format, 'singular') ? found[0] : found
+    },
+  }
+}
+
 describe('Orez Lite aggregates', () => {
   it('backfills and maintains materialized and existing-row columns', () => {
     const db = createDatabase()
@@ -254,88 +333,11 @@ describe('Orez Lite aggregates', () => {
       comment: ['id'],
     }
     const targetWrites: string[] = []
-    const mutate = Object.fromEntries(
-      Object.keys(tables).map((tableName) => {
-        const findIndex = (input: Readonly<Record<string, unknown>>) =>
-          tables[tableName]!.findIndex((row) =>
-            primaryKeys[tableName]!.every((key) => Object.is(row[key], input[key]))
-          )
-        const recordWrite = (operation: string) => {
-          if (tableName === 'categorySpend' || tableName === 'post') {
-            targetWrites.push(`${tableName}.${operation}`)
-          }
-        }
-        return [
-          tableName,
-          {
-            async insert(input: Readonly<Record<string, unknown>>) {
-              if (findIndex(input) !== -1) throw new Error('duplicate row')
-              tables[tableName]!.push({ ...input })
-              recordWrite('insert')
-            },
-            async upsert(input: Readonly<Record<string, unknown>>) {
-              const index = findIndex(input)
-              if (index === -1) tables[tableName]!.push({ ...input })
-              else tables[tableName]![index] = { ...input }
-              recordWrite('upsert')
-            },
-            async update(input: Readonly<Record<string, unknown>>) {
-              const index = findIndex(input)
-              if (index !== -1) {
-                tables[tableName]![index] = {
-                  ...tables[tableName]![index],
-                  ...input,
-                }
-              }
-              recordWrite('update')
-            },
-            async delete(input: Readonly<Record<string, unknown>>) {
-              const index = findIndex(input)
-              if (index !== -1) tables[tableName]!.splice(index, 1)
-              recordWrite('delete')
-            },
-          },
-        ]
-      })
-    )
-    const transaction = {
-      location: 'client',
-      mutate,
-      async run(query: unknown) {
-        if (!query || typeof query !== 'object') return undefined
-        const ast = Reflect.get(query, 'ast')
-        if (!ast || typeof ast !== 'object') return undefined
-        const tableName = Reflect.get(ast, 'table')
-        const where = Reflect.get(ast, 'where')
-        if (typeof tableName !== 'string') return undefined
-        const matches = (
-          row: Readonly<Record<string, unknown>>,
-          condition: unknown
-        ): boolean => {
-          if (!condition || typeof condition !== 'object') return true
-          const type = Reflect.get(condition, 'type')
-          if (type === 'and') {
-            const conditions = Reflect.get(condition, 'conditions')
-            return (
-              Array.isArray(conditions) &&
-              conditions.every((nested) => matches(row, nested))
-            )
-          }
-          if (type !== 'simple') return false
-          const left = Reflect.get(condition, 'left')
-          const right = Reflect.get(condition, 'right')
-          if (!left || typeof left !== 'object' || !right || typeof right !== 'object') {
-            return false
-          }
-          const column = Reflect.get(left, 'name')
-          return (
-            typeof column === 'string' &&
-            Object.is(row[column], Reflect.get(right, 'value'))
-          )
-        }
-        return tables[tableName]?.find((row) => matches(row, where))
-      },
-    }
+    const transaction = clientTransaction(tables, primaryKeys, (tableName, operation) => {
+      if (tableName === 'categorySpend' || tableName === 'post') {
+        targetWrites.push(`${tableName}.${operation}`)
+      }
+    })
     const tx = withOptimisticAggregates(transaction, aggregates)
 
     await tx.mutate.expense.insert({
@@ -485,3 +487,545 @@ describe('Orez Lite aggregates', () => {
     ).toThrow(/postExpenseCount is declared in more than one namespace/)
   })
 })
+
+const bid = table('bid')
+  .columns({
+    id: string(),
+    auctionId: string(),
+    bidderId: string(),
+    amount: number().optional(),
+    placedAt: number(),
+  })
+  .primaryKey('id')
+
+const auction = table('auction')
+  .columns({
+    id: string(),
+    title: string(),
+    highestBid: number().optional(),
+    latestBidAt: number().optional(),
+    bidders: number(),
+  })
+  .primaryKey('id')
+
+const bidStats = table('bidStats')
+  .columns({
+    auctionId: string(),
+    bidCount: number(),
+    lowest: number().optional(),
+    average: number().optional(),
+    bidders: number(),
+  })
+  .primaryKey('auctionId')
+
+const bidSchema = createSchema({ tables: [bid, auction, bidStats] })
+
+const bidAggregates = defineAggregates(bidSchema, {
+  bidStats: {
+    source: 'bid',
+    target: 'bidStats',
+    mode: 'materialized',
+    groupBy: { auctionId: 'auctionId' },
+    columns: {
+      bidCount: count(),
+      lowest: min('amount'),
+      average: avg('amount'),
+      bidders: countDistinct('bidderId'),
+    },
+  },
+  auctionActivity: {
+    source: 'bid',
+    target: 'auction',
+    mode: 'existing',
+    groupBy: { auctionId: 'id' },
+    columns: {
+      highestBid: max('amount'),
+      latestBidAt: max('placedAt'),
+      bidders: countDistinct('bidderId'),
+    },
+  },
+})
+
+// what each target would hold if recomputed from scratch
+const RECOMPUTED_BID_STATS = `
+  SELECT auctionId, COUNT(*) AS bidCount, MIN(amount) AS lowest,
+    AVG(amount) AS average, COUNT(DISTINCT bidderId) AS bidders
+  FROM bid GROUP BY auctionId ORDER BY auctionId`
+const RECOMPUTED_AUCTIONS = `
+  SELECT id, title,
+    (SELECT MAX(amount) FROM bid WHERE auctionId = auction.id) AS highestBid,
+    (SELECT MAX(placedAt) FROM bid WHERE auctionId = auction.id) AS latestBidAt,
+    (SELECT COUNT(DISTINCT bidderId) FROM bid WHERE auctionId = auction.id) AS bidders
+  FROM auction ORDER BY id`
+
+describe('Orez Lite min, max, avg and distinct aggregates', () => {
+  it('keeps every column equal to a full recompute through each write', () => {
+    const db = new BedrockSqlite.Database(':memory:')
+    db.exec(`
+      CREATE TABLE bid (
+        id TEXT PRIMARY KEY,
+        auctionId TEXT NOT NULL,
+        bidderId TEXT NOT NULL,
+        amount REAL,
+        placedAt INTEGER NOT NULL
+      );
+      CREATE TABLE auction (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        highestBid REAL,
+        latestBidAt INTEGER,
+        bidders INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE TABLE bidStats (
+        auctionId TEXT PRIMARY KEY,
+        bidCount INTEGER NOT NULL,
+        lowest REAL,
+        average REAL,
+        bidders INTEGER NOT NULL
+      );
+      INSERT INTO auction VALUES ('a1', 'Lamp', 99, 99, 99), ('a2', 'Rug', 99, 99, 99);
+      INSERT INTO bid VALUES ('b0', 'a1', 'u9', 4, 1);
+    `)
+    for (const statement of aggregateMigrationStatements(bidAggregates)) {
+      db.exec(statement)
+    }
+
+    const expectRecomputed = () => {
+      expect(db.prepare('SELECT * FROM bidStats ORDER BY auctionId').all()).toEqual(
+        db.prepare(RECOMPUTED_BID_STATS).all()
+      )
+      expect(db.prepare('SELECT * FROM auction ORDER BY id').all()).toEqual(
+        db.prepare(RECOMPUTED_AUCTIONS).all()
+      )
+    }
+    expectRecomputed()
+
+    for (const statement of [
+      `INSERT INTO bid VALUES ('b1', 'a1', 'u1', 10, 2)`,
+      // a second bid from the same bidder is not a second participant
+      `INSERT INTO bid VALUES ('b2', 'a1', 'u1', 30, 3)`,
+      `INSERT INTO bid VALUES ('b3', 'a1', 'u2', NULL, 4)`,
+      // the highest bid drops, so the maximum must be found again
+      `UPDATE bid SET amount = 5 WHERE id = 'b2'`,
+      // a watched column changes without touching the distinct value
+      `UPDATE bid SET placedAt = 9 WHERE id = 'b1'`,
+      `UPDATE bid SET bidderId = 'u3' WHERE id = 'b2'`,
+      `UPDATE bid SET auctionId = 'a2' WHERE id = 'b1'`,
+      // the lowest bid leaves
+      `DELETE FROM bid WHERE id = 'b0'`,
+      `DELETE FROM bid WHERE id = 'b3'`,
+      `DELETE FROM bid WHERE id = 'b1'`,
+    ]) {
+      db.exec(statement)
+      expectRecomputed()
+    }
+
+    expect(db.prepare('SELECT * FROM bidStats').all()).toEqual([
+      { auctionId: 'a1', bidCount: 1, lowest: 5, average: 5, bidders: 1 },
+    ])
+    expect(db.prepare('SELECT * FROM auction ORDER BY id').all()).toEqual([
+      { id: 'a1', title: 'Lamp', highestBid: 5, latestBidAt: 3, bidders: 1 },
+      { id: 'a2', title: 'Rug', highestBid: null, latestBidAt: null, bidders: 0 },
+    ])
+  })
+
+  it('projects them from the rows a client transaction can read', async () => {
+    const tables: Record<string, Array<Record<string, unknown>>> = {
+      bid: [{ id: 'b0', auctionId: 'a1', bidderId: 'u1', amount: 10, placedAt: 1 }],
+      auction: [{ id: 'a1', title: 'Lamp', highestBid: 10, latestBidAt: 1, bidders: 1 }],
+      bidStats: [{ auctionId: 'a1', bidCount: 1, lowest: 10, average: 10, bidders: 1 }],
+    }
+    const primaryKeys: Record<string, readonly string[]> = {
+      bid: ['id'],
+      auction: ['id'],
+      bidStats: ['auctionId'],
+    }
+    const tx = withOptimisticAggregates(
+      clientTransaction(tables, primaryKeys),
+      bidAggregates
+    )
+
+    await tx.mutate.bid.insert({
+      id: 'b1',
+      auctionId: 'a1',
+      bidderId: 'u1',
+      amount: 30,
+      placedAt: 2,
+    })
+    await tx.mutate.bid.insert({
+      id: 'b2',
+      auctionId: 'a1',
+      bidderId: 'u2',
+      amount: 5,
+      placedAt: 3,
+    })
+    expect(tables.bidStats).toEqual([
+      { auctionId: 'a1', bidCount: 3, lowest: 5, average: 15, bidders: 2 },
+    ])
+    expect(tables.auction).toEqual([
+      { id: 'a1', title: 'Lamp', highestBid: 30, latestBidAt: 3, bidders: 2 },
+    ])
+
+    // the highest bid leaves, so the projection reads the group again
+    await tx.mutate.bid.delete({ id: 'b1' })
+    await tx.mutate.bid.update({ id: 'b2', bidderId: 'u1' })
+    expect(tables.bidStats).toEqual([
+      { auctionId: 'a1', bidCount: 2, lowest: 5, average: 7.5, bidders: 1 },
+    ])
+    expect(tables.auction).toEqual([
+      { id: 'a1', title: 'Lamp', highestBid: 10, latestBidAt: 3, bidders: 1 },
+    ])
+
+    await tx.mutate.bid.update({ id: 'b0', auctionId: 'a2' })
+    await tx.mutate.bid.update({ id: 'b2', auctionId: 'a2' })
+    expect(tables.bidStats).toEqual([
+      { auctionId: 'a2', bidCount: 2, lowest: 5, average: 7.5, bidders: 1 },
+    ])
+    expect(tables.auction).toEqual([
+      { id: 'a1', title: 'Lamp', highestBid: null, latestBidAt: null, bidders: 0 },
+    ])
+  })
+
+  it('refuses an extreme or average into a column that cannot hold an empty group', () => {
+    expect(() =>
+      defineAggregates(bidSchema, {
+        auctionActivity: {
+          source: 'bid',
+          target: 'auction',
+          mode: 'existing',
+          groupBy: { auctionId: 'id' },
+          columns: { bidders: max('amount') },
+        },
+      })
+    ).toThrow(/auction\.bidders must be optional to hold the max of an empty group/)
+    expect(() =>
+      defineAggregates(bidSchema, {
+        auctionActivity: {
+          source: 'bid',
+          target: 'auction',
+          mode: 'existing',
+          groupBy: { auctionId: 'id' },
+          // @ts-expect-error - bidderId is not numeric
+          columns: { highestBid: max('bidderId') },
+        },
+      })
+    ).toThrow(/source column bid\.bidderId must be numeric/)
+  })
+})
+
+const issue = table('issue')
+  .columns({
+    id: string(),
+    projectId: string(),
+    status: string(),
+    urgent: boolean(),
+    estimate: number().optional(),
+  })
+  .primaryKey('id')
+
+const project = table('project')
+  .columns({
+    id: string(),
+    openCount: number(),
+    closedCount: number(),
+    urgentCount: number(),
+    openEstimate: number(),
+  })
+  .primaryKey('id')
+
+const projectLoad = table('projectLoad')
+  .columns({
+    projectId: string(),
+    issueCount: number(),
+    activeCount: number(),
+    largestOpen: number().optional(),
+  })
+  .primaryKey('projectId')
+
+const issueSchema = createSchema({ tables: [issue, project, projectLoad] })
+
+const issueAggregates = defineAggregates(issueSchema, {
+  projectIssues: {
+    source: 'issue',
+    target: 'project',
+    mode: 'existing',
+    groupBy: { projectId: 'id' },
+    columns: {
+      openCount: count({ where: { status: 'open' } }),
+      closedCount: count({ where: { status: 'closed' } }),
+      urgentCount: count({ where: { status: ['open', 'review'], urgent: true } }),
+      openEstimate: sum('estimate', { where: { status: 'open' } }),
+    },
+  },
+  projectLoad: {
+    source: 'issue',
+    target: 'projectLoad',
+    mode: 'materialized',
+    groupBy: { projectId: 'projectId' },
+    columns: {
+      issueCount: count(),
+      activeCount: count({ where: { status: ['open', 'review'] } }),
+      largestOpen: max('estimate', { where: { status: 'open' } }),
+    },
+  },
+})
+
+const statusLoad = table('statusLoad')
+  .columns({
+    projectId: string(),
+    status: string(),
+    issueCount: number(),
+    urgentCount: number(),
+    largestEstimate: number().optional(),
+  })
+  .primaryKey('projectId', 'status')
+
+const statusSchema = createSchema({ tables: [issue, statusLoad] })
+
+const statusAggregates = defineAggregates(statusSchema, {
+  statusLoad: {
+    source: 'issue',
+    target: 'statusLoad',
+    mode: 'materialized',
+    groupBy: { projectId: 'projectId', status: 'status' },
+    columns: {
+      issueCount: count(),
+      urgentCount: count({ where: { urgent: true } }),
+      largestEstimate: max('estimate'),
+    },
+  },
+})
+
+const RECOMPUTED_PROJECTS = `
+  SELECT id,
+    (SELECT COUNT(*) FROM issue WHERE projectId = project.id AND status = 'open') AS openCount,
+    (SELECT COUNT(*) FROM issue WHERE projectId = project.id AND status = 'closed') AS closedCount,
+    (SELECT COUNT(*) FROM issue WHERE projectId = project.id
+      AND status IN ('open', 'review') AND urgent = 1) AS urgentCount,
+    (SELECT COALESCE(SUM(estimate), 0) FROM issue
+      WHERE projectId = project.id AND status = 'open') AS openEstimate
+  FROM project ORDER BY id`
+const RECOMPUTED_LOAD = `
+  SELECT projectId, COUNT(*) AS issueCount,
+    COUNT(CASE WHEN status IN ('open', 'review') THEN 1 END) AS activeCount,
+    MAX(CASE WHEN status = 'open' THEN estimate END) AS largestOpen
+  FROM issue GROUP BY projectId ORDER BY projectId`
+
+describe('Orez Lite filtered aggregates', () => {
+  it('keeps filtered columns equal to a full recompute through each write', () => {
+    const db = new BedrockSqlite.Database(':memory:')
+    db.exec(`
+      CREATE TABLE issue (
+        id TEXT PRIMARY KEY,
+        projectId TEXT NOT NULL,
+        status TEXT NOT NULL,
+        urgent INTEGER NOT NULL,
+        estimate REAL
+      );
+      CREATE TABLE project (
+        id TEXT PRIMARY KEY,
+        openCount INTEGER NOT NULL DEFAULT 0,
+        closedCount INTEGER NOT NULL DEFAULT 0,
+        urgentCount INTEGER NOT NULL DEFAULT 0,
+        openEstimate REAL NOT NULL DEFAULT 0
+      );
+      CREATE TABLE projectLoad (
+        projectId TEXT PRIMARY KEY,
+        issueCount INTEGER NOT NULL,
+        activeCount INTEGER NOT NULL,
+        largestOpen REAL
+      );
+      INSERT INTO project (id) VALUES ('p1'), ('p2');
+      INSERT INTO issue VALUES ('i0', 'p1', 'closed', 1, 8);
+    `)
+    for (const statement of aggregateMigrationStatements(issueAggregates)) {
+      db.exec(statement)
+    }
+
+    const expectRecomputed = () => {
+      expect(db.prepare('SELECT * FROM project ORDER BY id').all()).toEqual(
+        db.prepare(RECOMPUTED_PROJECTS).all()
+      )
+      expect(db.prepare('SELECT * FROM projectLoad ORDER BY projectId').all()).toEqual(
+        db.prepare(RECOMPUTED_LOAD).all()
+      )
+    }
+    expectRecomputed()
+
+    for (const statement of [
+      `INSERT INTO issue VALUES ('i1', 'p1', 'open', 0, 3)`,
+      `INSERT INTO issue VALUES ('i2', 'p1', 'open', 1, 5)`,
+      // outside every predicate but still in the group
+      `INSERT INTO issue VALUES ('i3', 'p1', 'wontfix', 1, 13)`,
+      // the row stays in its group and moves between predicates
+      `UPDATE issue SET status = 'review' WHERE id = 'i2'`,
+      `UPDATE issue SET urgent = 1 WHERE id = 'i1'`,
+      `UPDATE issue SET status = 'closed', estimate = 2 WHERE id = 'i1'`,
+      `UPDATE issue SET status = 'open' WHERE id = 'i0'`,
+      `UPDATE issue SET projectId = 'p2' WHERE id = 'i0'`,
+      `DELETE FROM issue WHERE id = 'i2'`,
+      `DELETE FROM issue WHERE id = 'i0'`,
+    ]) {
+      db.exec(statement)
+      expectRecomputed()
+    }
+
+    expect(db.prepare('SELECT * FROM project ORDER BY id').all()).toEqual([
+      { id: 'p1', openCount: 0, closedCount: 1, urgentCount: 0, openEstimate: 0 },
+      { id: 'p2', openCount: 0, closedCount: 0, urgentCount: 0, openEstimate: 0 },
+    ])
+    expect(db.prepare('SELECT * FROM projectLoad').all()).toEqual([
+      { projectId: 'p1', issueCount: 2, activeCount: 0, largestOpen: null },
+    ])
+  })
+
+  it('evaluates the same predicates in a client transaction', async () => {
+    const tables: Record<string, Array<Record<string, unknown>>> = {
+      issue: [],
+      project: [
+        { id: 'p1', openCount: 0, closedCount: 0, urgentCount: 0, openEstimate: 0 },
+      ],
+      projectLoad: [],
+    }
+    const primaryKeys: Record<string, readonly string[]> = {
+      issue: ['id'],
+      project: ['id'],
+      projectLoad: ['projectId'],
+    }
+    const tx = withOptimisticAggregates(
+      clientTransaction(tables, primaryKeys),
+      issueAggregates
+    )
+
+    await tx.mutate.issue.insert({
+      id: 'i1',
+      projectId: 'p1',
+      status: 'open',
+      urgent: true,
+      estimate: 3,
+    })
+    await tx.mutate.issue.insert({
+      id: 'i2',
+      projectId: 'p1',
+      status: 'open',
+      urgent: false,
+      estimate: 5,
+    })
+    await tx.mutate.issue.update({ id: 'i2', status: 'closed' })
+    expect(tables.project).toEqual([
+      { id: 'p1', openCount: 1, closedCount: 1, urgentCount: 1, openEstimate: 3 },
+    ])
+    expect(tables.projectLoad).toEqual([
+      { projectId: 'p1', issueCount: 2, activeCount: 1, largestOpen: 3 },
+    ])
+
+    // an unrelated change inside the same predicate writes nothing
+    const before = structuredClone(tables)
+    await tx.mutate.issue.update({ id: 'i2', urgent: true })
+    expect(tables.project).toEqual(before.project)
+    expect(tables.projectLoad).toEqual(before.projectLoad)
+
+    await tx.mutate.issue.update({ id: 'i1', status: 'review' })
+    expect(tables.project).toEqual([
+      { id: 'p1', openCount: 0, closedCount: 1, urgentCount: 1, openEstimate: 0 },
+    ])
+    expect(tables.projectLoad).toEqual([
+      { projectId: 'p1', issueCount: 2, activeCount: 1, largestOpen: null },
+    ])
+  })
+
+  it('reads groups keyed by more than one column in a client transaction', async () => {
+    const tables: Record<string, Array<Record<string, unknown>>> = {
+      issue: [],
+      statusLoad: [],
+    }
+    const primaryKeys: Record<string, readonly string[]> = {
+      issue: ['id'],
+      statusLoad: ['projectId', 'status'],
+    }
+    const tx = withOptimisticAggregates(
+      clientTransaction(tables, primaryKeys),
+      statusAggregates
+    )
+
+    for (const [id, projectId, status, urgent, estimate] of [
+      ['i1', 'p1', 'open', true, 8],
+      ['i2', 'p1', 'open', false, 3],
+      ['i3', 'p1', 'closed', true, 5],
+      ['i4', 'p2', 'open', true, 13],
+    ] as const) {
+      await tx.mutate.issue.insert({ id, projectId, status, urgent, estimate })
+    }
+    expect(tables.statusLoad).toEqual([
+      {
+        projectId: 'p1',
+        status: 'open',
+        issueCount: 2,
+        urgentCount: 1,
+        largestEstimate: 8,
+      },
+      {
+        projectId: 'p1',
+        status: 'closed',
+        issueCount: 1,
+        urgentCount: 1,
+        largestEstimate: 5,
+      },
+      {
+        projectId: 'p2',
+        status: 'open',
+        issueCount: 1,
+        urgentCount: 1,
+        largestEstimate: 13,
+      },
+    ])
+
+    // the largest estimate leaves, so only its own project and status are read again
+    await tx.mutate.issue.update({ id: 'i1', status: 'closed' })
+    await tx.mutate.issue.delete({ id: 'i4' })
+    expect(tables.statusLoad).toEqual([
+      {
+        projectId: 'p1',
+        status: 'open',
+        issueCount: 1,
+        urgentCount: 0,
+        largestEstimate: 3,
+      },
+      {
+        projectId: 'p1',
+        status: 'closed',
+        issueCount: 2,
+        urgentCount: 2,
+        largestEstimate: 8,
+      },
+    ])
+  })
+
+  it('needs an unfiltered count to remove a materialized group', () => {
+    expect(() =>
+      defineAggregates(issueSchema, {
+        projectLoad: {
+          source: 'issue',
+          target: 'projectLoad',
+          mode: 'materialized',
+          groupBy: { projectId: 'projectId' },
+          columns: {
+            issueCount: count({ where: { status: 'open' } }),
+            activeCount: count({ where: { status: 'review' } }),
+          },
+        },
+      })
+    ).toThrow(/needs an unfiltered count column to remove empty groups/)
+    expect(() =>
+      defineAggregates(issueSchema, {
+        projectIssues: {
+          source: 'issue',
+          target: 'project',
+          mode: 'existing',
+          groupBy: { projectId: 'id' },
+          columns: { openCount: count({ where: { status: [] } }) },
+        },
+      })
+    ).toThrow(/where issue\.status must be a value or a non-empty list of values/)
+  })
+})
@@ -4,13 +4,66 @@ import type { Schema } from '@rocicorp/zero'
 
 export type AggregateMode = 'existing' | 'materialized'
 
-export type CountColumn = {
+export type AggregateWhereValue = string | number | boolean | null
+
+// source column -> the value it must hold, or the values it may hold. a row
+// outside the predicate contributes nothing to the column, as if absent.
+export type AggregateWhere<SourceColumn extends string = string> = Readonly<
+  Partial<Record<SourceColumn, AggregateWhereValue | readonly AggregateWhereValue[]>>
+>
+
+export type AggregateColumnOptions<WhereColumn extends string = string> = {
+  readonly where?: AggregateWhere<WhereColumn>
+}
+
+export type CountColumn<WhereColumn extends string = string> = {
   readonly kind: 'count'
+  readonly where?: AggregateWhere<WhereColumn>
 }
 
-export type SumColumn<SourceColumn extends string = string> = {
+export type SumColumn<
+  SourceColumn extends string = string,
+  WhereColumn extends string = string,
+> = {
   readonly kind: 'sum'
   readonly source: SourceColumn
+  readonly where?: AggregateWhere<WhereColumn>
+}
+
+export type MinColumn<
+  SourceColumn extends string = string,
+  WhereColumn extends string = string,
+> = {
+  readonly kind: 'min'
+  readonly source: SourceColumn
+  readonly where?: AggregateWhere<WhereColumn>
+}
+
+export type MaxColumn<
+  SourceColumn extends string = string,
+  WhereColumn extends string = string,
+> = {
+  readonly kind: 'max'
+  readonly source: SourceColumn
+  readonly where?: AggregateWhere<WhereColumn>
+}
+
+export type AvgColumn<
+  SourceColumn extends string = string,
+  WhereColumn extends string = string,
+> = {
+  readonly kind: 'avg'
+  readonly source: SourceColumn
+  readonly where?: AggregateWhere<WhereColumn>
+}
+
+export type CountDistinctColumn<
+  SourceColumn extends string = string,
+  WhereColumn extends string = string,
+> = {
+  readonly kind: 'countDistinct'
+  readonly source: SourceColumn
+  readonly where?: AggregateWhere<WhereColumn>
 }
 
 type TableName<S extends Schema> = Extract<keyof S['tables'], string>
@@ -42,7 +95,12 @@ export type AggregateDefinition<S extends Schema> = {
         Partial<
           Record<
             NumericColumnName<S, TTarget>,
-            CountColumn | SumColumn<NumericColumnName<S, TSource>>
+            | CountColumn<ColumnName<S, TSource>>
+            | SumColumn<NumericColumnName<S, TSource>, ColumnName<S, TSource>>
+            | MinColumn<NumericColumnName<S, TSource>, ColumnName<S, TSource>>
+            | MaxColumn<NumericColumnName<S, TSource>, ColumnName<S, TSource>>
+            | AvgColumn<NumericColumnName<S, TSource>, ColumnName<S, TSource>>
+            | CountDistinctColumn<ColumnName<S, TSource>, ColumnName<S, TSource>>
           >
         >
       >
@@ -60,17 +118,38 @@ type CompiledGroup = {
   readonly target: ColumnRef
 }
 
+// every kind but count reads one source column
+type SourceColumnKind = 'sum' | 'min' | 'max' | 'avg' | 'countDistinct'
+
+const SOURCE_COLUMN_KINDS: ReadonlySet<string> = new Set<SourceColumnKind>([
+  'sum',
+  'min',
+  'max',
+  'avg',
+  'countDistinct',
+])
+
+// every entry must match; an entry matches any of its values
+type CompiledWhere = readonly {
+  readonly column: ColumnRef
+  readonly values: readonly AggregateWhereValue[]
+}[]
+
 type CompiledColumn =
   | {
       readonly kind: 'count'
       readonly target: ColumnRef
+      readonly where: CompiledWhere | null
     }
   | {
-      readonly kind: 'sum'
+      readonly kind: SourceColumnKind
       readonly source: ColumnRef
       readonly target: ColumnRef
+      readonly where: CompiledWhere | null
     }
 
+type CompiledSourceColumn = Extract<CompiledColumn, { readonly source: ColumnRef }>
+
 type CompiledAggregate = {
   readonly name: string
   readonly source: {
@@ -101,14 +180,66 @@ export type AggregateSet<S extends Schema = Schema> = {
   readonly [AGGREGATE_RUNTIME]: AggregateRuntime<S>
 }
 
-export function count(): CountColumn {
-  return { kind: 'count' }
+export function count<const WhereColumn extends string = never>(
+  options?: AggregateColumnOptions<WhereColumn>
+): CountColumn<WhereColumn> {
+  return { kind: 'count', ...options }
+}
+
+export function sum<
+  const SourceColumn extends string,
+  const WhereColumn extends string = never,
+>(
+  source: SourceColumn,
+  options?: AggregateColumnOptions<WhereColumn>
+): SumColumn<SourceColumn, WhereColumn> {
+  return { kind: 'sum', source, ...options }
+}
+
+export function min<
+  const SourceColumn extends string,
+  const WhereColumn extends string = never,
+>(
+  source: SourceColumn,
+  options?: AggregateColumnOptions<WhereColumn>
+): MinColumn<SourceColumn, WhereColumn> {
+  return { kind: 'min', source, ...options }
+}
+
+export function max<
+  const SourceColumn extends string,
+  const WhereColumn extends string = never,
+>(
+  source: SourceColumn,
+  options?: AggregateColumnOptions<WhereColumn>
+): MaxColumn<SourceColumn, WhereColumn> {
+  return { kind: 'max', source, ...options }
 }
 
-export function sum<const SourceColumn extends string>(
-  source: SourceColumn
-): SumColumn<SourceColumn> {
-  return { kind: 'sum', source }
+export function avg<
+  const SourceColumn extends string,
+  const WhereColumn extends string = never,
+>(
+  source: SourceColumn,
+  options?: AggregateColumnOptions<WhereColumn>
+): AvgColumn<SourceColumn, WhereColumn> {
+  return { kind: 'avg', source, ...options }
+}
+
+// distinct non-null values of any column type, such as participant ids
+export function countDistinct<
+  const SourceColumn extends string,
+  const WhereColumn extends string = never,
+>(
+  source: SourceColumn,
+  options?: AggregateColumnOptions<WhereColumn>
+): CountDistinctColumn<SourceColumn, WhereColumn> {
+  return { kind: 'countDistinct', source, ...options }
+}
+
+// min, max and avg of a group with no non-null source value is NULL
+function nullableKind(kind: CompiledColumn['kind']): boolean {
+  return kind === 'min' || kind === 'max' || kind === 'avg'
 }
 
 function quoteIdentifier(identifier: string): string {
@@ -148,6 +279,41 @@ function ensureOwnColumn(
   return columns[columnName]
 }
 
+function compileWhere(
+  aggregateName: string,
+  tableName: string,
+  columns: Readonly<Record<string, unknown>>,
+  where: unknown
+): CompiledWhere | null {
+  if (where === undefined) return null
+  if (!where || typeof where !== 'object' || Array.isArray(where)) {
+    throw new TypeError(`aggregate ${aggregateName} has an invalid where predicate`)
+  }
+  const entries = Object.entries(where).map(([columnName, expected]) => {
+    const column = ensureOwnColumn(aggregateName, tableName, columns, columnName)
+    const values: unknown[] = Array.isArray(expected) ? expected : [expected]
+    if (
+      values.length === 0 ||
+      values.some(
+        (value) =>
+          value !== null &&
+          typeof value !== 'string' &&
+          typeof value !== 'boolean' &&
+          !(typeof value === 'number' && Number.isFinite(value))
+      )
+    ) {
+      throw new TypeError(
+        `aggregate ${aggregateName} where ${tableName}.${columnName} must be a value or a non-empty list of values`
+      )
+    }
+    return {
+      column: { logical: columnName, physical: columnPhysicalName(columnName, column) },
+      values: values as AggregateWhereValue[],
+    }
+  })
+  return entries.length ? entries : null
+}
+
 // what a namespace's aggregates.ts exports. annotate the declaration with
 // `satisfies AggregateDefinitions<typeof schema>` so a bad table, column, or
 // mode is reported in the file that declares it rather than in generated output.
@@ -293,12 +459,22 @@ export function defineAggregates<
           logical: targetColumnName,
           physical: columnPhysicalName(targetColumnName, targetColumn),
         }
+        const where = compileWhere(
+          name,
+          definition.source,
+          source.columns,
+          Reflect.get(column, 'where')
+        )
         const kind = Reflect.get(column, 'kind')
         if (kind === 'count') {
-          return { kind: 'count', target: compiledTarget }
+          return { kind: 'count', target: compiledTarget, where }
         }
         const columnSource = Reflect.get(column, 'source')
-        if (kind !== 'sum' || typeof columnSource !== 'string') {
+        if (
+          typeof kind !== 'string' ||
+          !SOURCE_COLUMN_KINDS.has(kind) ||
+          typeof columnSource !== 'string'
+        ) {
           throw new TypeError(`aggregate ${name} has an invalid column`)
         }
         const sourceColumn = ensureOwnColumn(
@@ -308,30 +484,45 @@ export function defineAggregates<
           columnSource
         )
         if (
-          !sourceColumn ||
-          typeof sourceColumn !== 'object' ||
-          !('type' in sourceColumn) ||
-          sourceColumn.type !== 'number'
+          kind !== 'countDistinct' &&
+          (!sourceColumn ||
+            typeof sourceColumn !== 'object' ||
+            !('type' in sourceColumn) ||
+            sourceColumn.type !== 'number')
         ) {
           throw new TypeError(
             `aggregate ${name} source column ${definition.source}.${columnSource} must be numeric`
           )
         }
+        if (
+          nullableKind(kind as SourceColumnKind) &&
+          !('optional' in targetColumn && targetColumn.optional === true)
+        ) {
+          throw new TypeError(
+            `aggregate ${name} target column ${definition.target}.${targetColumnName} must be optional to hold the ${kind} of an empty group`
+          )
+        }
         return {
-          kind: 'sum',
+          kind: kind as SourceColumnKind,
           source: {
             logical: columnSource,
             physical: columnPhysicalName(columnSource, sourceColumn),
           },
           target: compiledTarget,
+          where,
         }
       }
     )
     if (columns.length === 0) {
       throw new TypeError(`aggregate ${name} must declare at least one column`)
     }
-    if (columns.filter((column) => column.kind === 'count').length > 1) {
-      throw new TypeError(`aggregate ${name} may declare only one count column`)
+    if (
+      columns.filter((column) => column.kind === 'count' && column.where === null)
+        .length > 1
+    ) {
+      throw new TypeError(
+        `aggregate ${name} may declare only one unfiltered count column`
+      )
     }
     if (
       groups.some((group) =>
@@ -342,9 +533,9 @@ export function defineAggregates<
     }
 
     if (definition.mode === 'materialized') {
-      if (!columns.some((column) => column.kind === 'count')) {
+      if (!columns.some((column) => column.kind === 'count' && column.where === null)) {
         throw new TypeError(
-          `materialized aggregate ${name} needs a count column to remove empty groups`
+          `materialized aggregate ${name} needs an unfiltered count column to remove empty groups`
         )
       }
       const ownedTargetColumns = new Set([
@@ -450,24 +641,193 @@ function sameGroup(aggregate: CompiledAggregate): string {
     .join(' AND ')
 }
 
-function aggregateChanged(aggregate: CompiledAggregate): string {
-  const sums = aggregate.columns.filter(
-    (column): column is Extract<CompiledColumn, { kind: 'sum' }> => column.kind === 'sum'
+function sourceColumns(aggregate: CompiledAggregate): CompiledSourceColumn[] {
+  return aggregate.columns.filter(
+    (column): column is CompiledSourceColumn => column.kind !== 'count'
   )
-  return sums.length
-    ? sums
-        .map(
-          (column) =>
-            `${sourceReference(column.source, 'OLD')} IS NOT ${sourceReference(column.source, 'NEW')}`
-        )
-        .join(' OR ')
-    : '0'
 }
 
-function contribution(column: CompiledColumn, row: 'NEW' | 'OLD'): string {
-  return column.kind === 'count'
-    ? '1'
-    : `COALESCE(${sourceReference(column.source, row)}, 0)`
+function sqlLiteral(value: AggregateWhereValue): string {
+  if (value === null) return 'NULL'
+  if (typeof value === 'boolean') return value ? '1' : '0'
+  if (typeof value === 'number') return String(value)
+  return `'${value.replaceAll("'", "''")}'`
+}
+
+// `qualify` places the predicate: a trigger row, or the source table inside a
+// subquery
+function whereSQL(where: CompiledWhere, qualify: (column: ColumnRef) => string): string {
+  return where
+    .map(({ column, values }) =>
+      values.length === 1
+        ? `${qualify(column)} IS ${sqlLiteral(values[0]!)}`
+        : `(${values.map((value) => `${qualify(column)} IS ${sqlLiteral(value)}`).join(' OR ')})`
+    )
+    .join(' AND ')
+}
+
+function rowMatches(column: CompiledColumn, row: 'NEW' | 'OLD'): string {
+  return column.where
+    ? `(${whereSQL(column.where, (ref) => sourceReference(ref, row))})`
+    : '1'
+}
+
+function aggregateChanged(aggregate: CompiledAggregate): string {
+  const changes = [
+    ...sourceColumns(aggregate).map(
+      (column) =>
+        `${sourceReference(column.source, 'OLD')} IS NOT ${sourceReference(column.source, 'NEW')}`
+    ),
+    ...aggregate.columns.flatMap((column) =>
+      column.where
+        ? [`${rowMatches(column, 'OLD')} IS NOT ${rowMatches(column, 'NEW')}`]
+        : []
+    ),
+  ]
+  return changes.length ? changes.join(' OR ') : '0'
+}
+
+// the source rows currently in `row`'s group, for the kinds that cannot be
+// maintained from the changed row alone
+function sourceGroupWhere(aggregate: CompiledAggregate, row: 'NEW' | 'OLD'): string {
+  const sourceTable = quoteIdentifier(aggregate.source.physical)
+  return aggregate.groups
+    .map(
+      (group) =>
+        `${sourceTable}.${quoteIdentifier(group.source.physical)} IS ${sourceReference(group.source, row)}`
+    )
+    .join(' AND ')
+}
+
+// `qualifier` is the source table prefix a correlated subquery needs
+function aggregateExpression(column: CompiledColumn, qualifier: string): string {
+  // a row outside the predicate aggregates as NULL, which every kind but an
+  // unfiltered count already skips
+  const filtered = (value: string) =>
+    column.where
+      ? `CASE WHEN ${whereSQL(column.where, (ref) => `${qualifier}${quoteIdentifier(ref.physical)}`)} THEN ${value} END`
+      : value
+  if (column.kind === 'count') {
+    return column.where ? `COUNT(${filtered('1')})` : 'COUNT(*)'
+  }
+  const sourceValue = filtered(`${qualifier}${quoteIdentifier(column.source.physical)}`)
+  switch (column.kind) {
+    case 'sum':
+      return `COALESCE(SUM(${sourceValue}), 0)`
+    case 'min':
+      return `MIN(${sourceValue})`
+    case 'max':
+      return `MAX(${sourceValue})`
+    case 'avg':
+      return `AVG(${sourceValue})`
+    case 'countDistinct':
+      return `COUNT(DISTINCT ${sourceValue})`
+  }
+}
+
+function recomputed(
+  aggregate: CompiledAggregate,
+  column: CompiledSourceColumn,
+  row: 'NEW' | 'OLD'
+): string {
+  const sourceTable = quoteIdentifier(aggregate.source.physical)
+  return `(SELECT ${aggregateExpression(column, `${sourceTable}.`)} FROM ${sourceTable} WHERE ${sourceGroupWhere(aggregate, row)})`
+}
+
+function sourceMatches(aggregate: CompiledAggregate, column: CompiledColumn): string {
+  if (!column.where) return ''
+  const sourceTable = quoteIdentifier(aggregate.source.physical)
+  return ` AND ${whereSQL(column.where, (ref) => `${sourceTable}.${quoteIdentifier(ref.physical)}`)}`
+}
+
+// triggers run after the source write, so a value is new to its group when
+// the changed row is the only one holding it, and gone when no row does
+function distinctAdded(
+  aggregate: CompiledAggregate,
+  column: CompiledSourceColumn
+): string {
+  const sourceTable = quoteIdentifier(aggregate.source.physical)
+  const value = sourceReference(column.source, 'NEW')
+  return `(${value} IS NOT NULL AND (SELECT COUNT(*) FROM ${sourceTable} WHERE ${sourceGroupWhere(aggregate, 'NEW')}${sourceMatches(aggregate, column)} AND ${sourceTable}.${quoteIdentifier(column.source.physical)} IS ${value}) = 1)`
+}
+
+function distinctRemoved(
+  aggregate: CompiledAggregate,
+  column: CompiledSourceColumn
+): string {
+  const sourceTable = quoteIdentifier(aggregate.source.physical)
+  const value = sourceReference(column.source, 'OLD')
+  return `(${value} IS NOT NULL AND NOT EXISTS (SELECT 1 FROM ${sourceTable} WHERE ${sourceGroupWhere(aggregate, 'OLD')}${sourceMatches(aggregate, column)} AND ${sourceTable}.${quoteIdentifier(column.source.physical)} IS ${value}))`
+}
+
+// SQLite's two-argument MIN and MAX are NULL when either side is, and an
+// empty group's extreme is NULL, so fall back to whichever side has a value
+function extreme(column: CompiledSourceColumn, left: string, right: string): string {
+  const fn = column.kind === 'min' ? 'MIN' : 'MAX'
+  return `COALESCE(${fn}(${left}, ${right}), ${left}, ${right})`
+}
+
+// the new value of a target column when a source row joins (`add`), leaves
+// (`remove`), or changes within (`delta`) its group. min and max fold a joining
+// value in and only rescan the group when the row that held the extreme
+// leaves or changes; avg always rescans, since it is not derivable from the
+// stored average alone.
+function assignment(
+  aggregate: CompiledAggregate,
+  column: CompiledColumn,
+  operation: 'add' | 'remove' | 'delta'
+): string | null {
+  const target = quoteIdentifier(column.target.physical)
+  if (column.kind === 'count') {
+    if (operation === 'delta') return null
+    return `${target} ${operation === 'add' ? '+' : '-'} 1`
+  }
+  const previous = sourceReference(column.source, 'OLD')
+  const next = sourceReference(column.source, 'NEW')
+  switch (column.kind) {
+    case 'sum':
+      if (operation === 'add') return `${target} + COALESCE(${next}, 0)`
+      if (operation === 'remove') return `${target} - COALESCE(${previous}, 0)`
+      return `${target} + COALESCE(${next}, 0) - COALESCE(${previous}, 0)`
+    case 'countDistinct':
+      if (operation === 'add') return `${target} + ${distinctAdded(aggregate, column)}`
+      if (operation === 'remove') {
+        return `${target} - ${distinctRemoved(aggregate, column)}`
+      }
+      // another watched column changing must not count this value again
+      return `CASE WHEN ${previous} IS ${next} THEN ${target} ELSE ${target} + ${distinctAdded(aggregate, column)} - ${distinctRemoved(aggregate, column)} END`
+    case 'min':
+    case 'max':
+      if (operation === 'add') return extreme(column, target, next)
+      if (operation === 'remove') {
+        return `CASE WHEN ${previous} IS ${target} THEN ${recomputed(aggregate, column, 'OLD')} ELSE ${target} END`
+      }
+      return `CASE WHEN ${previous} IS ${target} THEN ${recomputed(aggregate, column, 'NEW')} ELSE ${extreme(column, target, next)} END`
+    case 'avg':
+      return recomputed(aggregate, column, operation === 'remove' ? 'OLD' : 'NEW')
+  }
+}
+
+// a filtered column sees a row join or leave when its predicate starts or
+// stops matching, even if the row stays in the group
+function filteredAssignment(
+  aggregate: CompiledAggregate,
+  column: CompiledColumn,
+  operation: 'add' | 'remove' | 'delta'
+): string | null {
+  const value = assignment(aggregate, column, operation)
+  if (!column.where) return value
+  const target = quoteIdentifier(column.target.physical)
+  if (operation === 'add')
+    return `CASE WHEN ${rowMatches(column, 'NEW')} THEN ${value} ELSE ${target} END`
+  if (operation === 'remove')
+    return `CASE WHEN ${rowMatches(column, 'OLD')} THEN ${value} ELSE ${target} END`
+  return [
+    `CASE WHEN ${rowMatches(column, 'OLD')} AND ${rowMatches(column, 'NEW')} THEN ${value ?? target}`,
+    `WHEN ${rowMatches(column, 'OLD')} THEN ${assignment(aggregate, column, 'remove')}`,
+    `WHEN ${rowMatches(column, 'NEW')} THEN ${assignment(aggregate, column, 'add')}`,
+    `ELSE ${target} END`,
+  ].join(' ')
 }
 
 function assignments(
@@ -476,17 +836,10 @@ function assignments(
 ): string {
   return aggregate.columns
     .flatMap((column) => {
-      const target = quoteIdentifier(column.target.physical)
-      if (operation === 'delta') {
-        return column.kind === 'sum'
-          ? [
-              `${target} = ${target} + ${contribution(column, 'NEW')} - ${contribution(column, 'OLD')}`,
-            ]
-          : []
-      }
-      const operator = operation === 'add' ? '+' : '-'
-      const row = operation === 'add' ? 'NEW' : 'OLD'
-      return [`${target} = ${target} ${operator} ${contribution(column, row)}`]
+      const value = filteredAssignment(aggregate, column, operation)
+      return value === null
+        ? []
+        : [`${quoteIdentifier(column.target.physical)} = ${value}`]
     })
     .join(', ')
 }
@@ -500,10 +853,38 @@ function insertColumns(aggregate: CompiledAggregate): string {
     .join(', ')
 }
 
-function insertValues(aggregate: CompiledAggregate, row: 'NEW' | 'OLD'): string {
+// a materialized group's first row; the upsert below folds it into an
+// existing group instead
+function initialValue(aggregate: CompiledAggregate, column: CompiledColumn): string {
+  if (column.where) {
+    const empty = nullableKind(column.kind) ? 'NULL' : '0'
+    return `CASE WHEN ${rowMatches(column, 'NEW')} THEN ${unfilteredInitialValue(aggregate, column)} ELSE ${empty} END`
+  }
+  return unfilteredInitialValue(aggregate, column)
+}
+
+function unfilteredInitialValue(
+  aggregate: CompiledAggregate,
+  column: CompiledColumn
+): string {
+  switch (column.kind) {
+    case 'count':
+      return '1'
+    case 'sum':
+      return `COALESCE(${sourceReference(column.source, 'NEW')}, 0)`
+    case 'countDistinct':
+      return distinctAdded(aggregate, column)
+    case 'min':
+    case 'max':
+    case 'avg':
+      return sourceReference(column.source, 'NEW')
+  }
+}
+
+function insertValues(aggregate: CompiledAggregate): string {
   return [
-    ...aggregate.groups.map((group) => sourceReference(group.source, row)),
-    ...aggregate.columns.map((column) => contribution(column, row)),
+    ...aggregate.groups.map((group) => sourceReference(group.source, 'NEW')),
+    ...aggregate.columns.map((column) => initialValue(aggregate, column)),
   ].join(', ')
 }
 
@@ -511,7 +892,17 @@ function upsertAssignments(aggregate: CompiledAggregate): string {
   return aggregate.columns
     .map((column) => {
       const target = quoteIdentifier(column.target.physical)
-      return `${target} = ${target} + excluded.${target}`
+      switch (column.kind) {
+        case 'count':
+        case 'sum':
+        case 'countDistinct':
+          return `${target} = ${target} + excluded.${target}`
+        case 'min':
+        case 'max':
+          return `${target} = ${extreme(column, target, `excluded.${target}`)}`
+        case 'avg':
+          return `${target} = ${recomputed(aggregate, column, 'NEW')}`
+      }
     })
     .join(', ')
 }
@@ -519,7 +910,7 @@ function upsertAssignments(aggregate: CompiledAggregate): string {
 function countTarget(aggregate: CompiledAggregate): ColumnRef {
   const column = aggregate.columns.find(
     (candidate): candidate is Extract<CompiledColumn, { kind: 'count' }> =>
-      candidate.kind === 'count'
+      candidate.kind === 'count' && candidate.where === null
   )
   if (!column) {
     throw new TypeError(`materialized aggregate ${aggregate.name} has no count column`)
@@ -531,8 +922,9 @@ function watchedSourceColumns(aggregate: CompiledAggregate): string {
   return [
     ...new Set([
       ...aggregate.groups.map((group) => group.source.physical),
+      ...sourceColumns(aggregate).map((column) => column.source.physical),
       ...aggregate.columns.flatMap((column) =>
-        column.kind === 'sum' ? [column.source.physical] : []
+        (column.where ?? []).map(({ column: ref }) => ref.physical)
       ),
     ]),
   ]
@@ -546,11 +938,7 @@ function backfillStatements(aggregate: CompiledAggregate): string[] {
   if (aggregate.mode === 'materialized') {
     const select = [
       ...aggregate.groups.map((group) => quoteIdentifier(group.source.physical)),
-      ...aggregate.columns.map((column) =>
-        column.kind === 'count'
-          ? 'COUNT(*)'
-          : `COALESCE(SUM(${quoteIdentifier(column.source.physical)}), 0)`
-      ),
+      ...aggregate.columns.map((column) => aggregateExpression(column, '')),
     ].join(', ')
     const groupBy = aggregate.groups
       .map((group) => quoteIdentifier(group.source.physical))
@@ -570,10 +958,7 @@ function backfillStatements(aggregate: CompiledAggregate): string[] {
   const values = aggregate.columns
     .map((column) => {
       const target = quoteIdentifier(column.target.physical)
-      const value =
-        column.kind === 'count'
-          ? `COUNT(*)`
-          : `COALESCE(SUM(${sourceTable}.${quoteIdentifier(column.source.physical)}), 0)`
+      const value = aggregateExpression(column, `${sourceTable}.`)
       return `${target} = (SELECT ${value} FROM ${sourceTable} WHERE ${correlation})`
     })
     .join(', ')
@@ -611,12 +996,12 @@ function triggerStatements(aggregate: CompiledAggregate): string[] {
   }
 
   const countColumn = quoteIdentifier(countTarget(aggregate).physical)
-  const insert = `INSERT INTO ${targetTable} (${insertColumns(aggregate)}) VALUES (${insertValues(aggregate, 'NEW')}) ON CONFLICT (${keyConflict}) DO UPDATE SET ${upsertAssignments(aggregate)};`
+  const insert = `INSERT INTO ${targetTable} (${insertColumns(aggregate)}) VALUES (${insertValues(aggregate)}) ON CONFLICT (${keyConflict}) DO UPDATE SET ${upsertAssignments(aggregate)};`
   const updateColumns = watchedSourceColumns(aggregate)
   const updateBody = [
     `UPDATE ${targetTable} SET ${assignments(aggregate, 'remove')} WHERE ${targetWhere(aggregate, 'OLD')} AND ${changedGroup};`,
     `DELETE FROM ${targetTable} WHERE ${targetWhere(aggregate, 'OLD')} AND ${countColumn} <= 0 AND ${changedGroup};`,
-    `INSERT INTO ${targetTable} (${insertColumns(aggregate)}) SELECT ${insertValues(aggregate, 'NEW')} WHERE ${changedGroup} ON CONFLICT (${keyConflict}) DO UPDATE SET ${upsertAssignments(aggregate)};`,
+    `INSERT INTO ${targetTable} (${insertColumns(aggregate)}) SELECT ${insertValues(aggregate)} WHERE ${changedGroup} ON CONFLICT (${keyConflict}) DO UPDATE SET ${upsertAssignments(aggregate)};`,
     ...(assignments(aggregate, 'delta')
       ? [
           `UPDATE ${targetTable} SET ${assignments(aggregate, 'delta')} WHERE ${targetWhere(aggregate, 'NEW')} AND (${sameGroup(aggregate)}) AND (${sumsChanged});`,
@@ -666,19 +1051,22 @@ function numericValue(value: unknown, context: string, nullable: boolean): numbe
   return value
 }
 
-async function readAggregateRow(
-  tx: object,
+function numericOrNull(value: unknown, context: string): number | null {
+  return value === null || value === undefined
+    ? null
+    : numericValue(value, context, false)
+}
+
+function filteredQuery(
   builder: object,
   tableName: string,
-  primaryKey: readonly string[],
-  key: AggregateRow
-): Promise<AggregateRow | null> {
+  filters: ReadonlyArray<readonly [string, unknown]>
+): object {
   let query: unknown = Reflect.get(builder, tableName)
   if (!query || typeof query !== 'object') {
     throw new TypeError(`aggregate query table is unavailable: ${tableName}`)
   }
-  for (const columnName of primaryKey) {
-    const value = key[columnName]
+  for (const [columnName, value] of filters) {
     if (value === undefined || value === null) {
       throw new TypeError(`aggregate key ${tableName}.${columnName} must be non-null`)
     }
@@ -691,18 +1079,71 @@ async function readAggregateRow(
       throw new TypeError(`aggregate query returned an invalid value: ${tableName}`)
     }
   }
-  const one = Reflect.get(query, 'one')
+  return query
+}
+
+async function runAggregateQuery(
+  tx: object,
+  query: object,
+  tableName: string
+): Promise<unknown> {
   const run = Reflect.get(tx, 'run')
-  if (typeof one !== 'function' || typeof run !== 'function') {
+  if (typeof run !== 'function') {
     throw new TypeError(`aggregate transaction cannot read ${tableName}`)
   }
-  const singular = Reflect.apply(one, query, [])
-  const result = await Reflect.apply(run, tx, [singular])
+  return await Reflect.apply(run, tx, [query])
+}
+
+async function readAggregateRow(
+  tx: object,
+  builder: object,
+  tableName: string,
+  primaryKey: readonly string[],
+  key: AggregateRow
+): Promise<AggregateRow | null> {
+  const query = filteredQuery(
+    builder,
+    tableName,
+    primaryKey.map((columnName) => [columnName, key[columnName]] as const)
+  )
+  const one = Reflect.get(query, 'one')
+  if (typeof one !== 'function') {
+    throw new TypeError(`aggregate transaction cannot read ${tableName}`)
+  }
+  const result = await runAggregateQuery(tx, Reflect.apply(one, query, []), tableName)
   return result === undefined || result === null
     ? null
     : aggregateRow(result, `aggregate query result for ${tableName}`)
 }
 
+// the group's source rows as this client has them, after the write. only the
+// kinds a changed row cannot settle alone read these, and they may be partial:
+// the server's trigger value replaces the projection on rebase either way.
+async function readGroupRows(
+  tx: object,
+  builder: object,
+  aggregate: CompiledAggregate,
+  key: AggregateRow
+): Promise<AggregateRow[]> {
+  const result = await runAggregateQuery(
+    tx,
+    filteredQuery(
+      builder,
+      aggregate.source.logical,
+      aggregate.groups.map((group) => [group.source.logical, key[group.target.logical]])
+    ),
+    aggregate.source.logical
+  )
+  if (!Array.isArray(result)) {
+    throw new TypeError(
+      `aggregate query result for ${aggregate.source.logical} must be rows`
+    )
+  }
+  return result.map((row) =>
+    aggregateRow(row, `aggregate query result for ${aggregate.source.logical}`)
+  )
+}
+
 function groupKey(aggregate: CompiledAggregate, row: AggregateRow): AggregateRow {
   const key: Record<string, unknown> = {}
   for (const group of aggregate.groups) {
@@ -727,22 +1168,119 @@ function sameKey(
   )
 }
 
-function aggregateContribution(
+function sourceValue(
   aggregate: CompiledAggregate,
-  row: AggregateRow
-): Readonly<Record<string, number>> {
-  const contribution: Record<string, number> = {}
+  column: CompiledSourceColumn,
+  row: AggregateRow | null
+): unknown {
+  if (!row) return null
+  const value = row[column.source.logical] ?? null
+  return column.kind === 'countDistinct'
+    ? value
+    : numericOrNull(
+        value,
+        `aggregate ${aggregate.name} source ${aggregate.source.logical}.${column.source.logical}`
+      )
+}
+
+// SQLite stores booleans as 0 and 1, and the trigger compares them that way
+function whereValue(value: unknown): unknown {
+  return typeof value === 'boolean' ? Number(value) : (value ?? null)
+}
+
+function matchesWhere(column: CompiledColumn, row: AggregateRow): boolean {
+  return (column.where ?? []).every(({ column: ref, values }) =>
+    values.some((value) => Object.is(whereValue(row[ref.logical]), whereValue(value)))
+  )
+}
+
+// the target columns after `leaving` leaves and `joining` joins one group,
+// mirroring the trigger's add, remove and delta assignments. `targetRow` null
+// is a group that does not exist yet.
+async function projectColumns(
+  tx: object,
+  builder: object,
+  aggregate: CompiledAggregate,
+  key: AggregateRow,
+  targetRow: AggregateRow | null,
+  leavingRow: AggregateRow | null,
+  joiningRow: AggregateRow | null
+): Promise<Record<string, unknown>> {
+  let groupRows: AggregateRow[] | undefined
+  const readGroup = async () =>
+    (groupRows ??= await readGroupRows(tx, builder, aggregate, key))
+  const values: Record<string, unknown> = {}
   for (const column of aggregate.columns) {
-    contribution[column.target.logical] =
-      column.kind === 'count'
-        ? 1
-        : numericValue(
-            row[column.source.logical],
-            `aggregate ${aggregate.name} source ${aggregate.source.logical}.${column.source.logical}`,
-            true
+    const context = `aggregate ${aggregate.name} target ${aggregate.target.logical}.${column.target.logical}`
+    const stored = targetRow ? targetRow[column.target.logical] : null
+    const readColumnGroup = async () =>
+      (await readGroup()).filter((row) => matchesWhere(column, row))
+    const leaving = leavingRow && matchesWhere(column, leavingRow) ? leavingRow : null
+    const joining = joiningRow && matchesWhere(column, joiningRow) ? joiningRow : null
+    if (column.kind === 'count') {
+      values[column.target.logical] =
+        (targetRow ? numericValue(stored, context, false) : 0) +
+        (joining ? 1 : 0) -
+        (leaving ? 1 : 0)
+      continue
+    }
+    const previous = sourceValue(aggregate, column, leaving)
+    const next = sourceValue(aggregate, column, joining)
+    switch (column.kind) {
+      case 'sum':
+        values[column.target.logical] =
+          (targetRow ? numericValue(stored, context, false) : 0) +
+          ((next as number | null) ?? 0) -
+          ((previous as number | null) ?? 0)
+        break
+      case 'countDistinct': {
+        let current = targetRow ? numericValue(stored, context, false) : 0
+        if (!Object.is(previous, next)) {
+          const rows = await readColumnGroup()
+          const holding = (value: unknown) =>
+            rows.filter((row) => Object.is(row[column.source.logical], value)).length
+          if (previous !== null && holding(previous) === 0) current--
+          if (next !== null && holding(next) === 1) current++
+        }
+        values[column.target.logical] = current
+        break
+      }
+      case 'min':
+      case 'max': {
+        const current = numericOrNull(stored, context)
+        const fold = (left: number | null, right: number | null) =>
+          left === null
+            ? right
+            : right === null
+              ? left
+              : column.kind === 'min'
+                ? Math.min(left, right)
+                : Math.max(left, right)
+        if (previous !== null && Object.is(previous, current)) {
+          const rows = await readColumnGroup()
+          values[column.target.logical] = rows.reduce<number | null>(
+            (result, row) =>
+              fold(result, sourceValue(aggregate, column, row) as number | null),
+            null
           )
+        } else {
+          values[column.target.logical] = fold(current, next as number | null)
+        }
+        break
+      }
+      case 'avg': {
+        const numbers = (await readColumnGroup()).flatMap((row) => {
+          const value = sourceValue(aggregate, column, row)
+          return value === null ? [] : [value as number]
+        })
+        values[column.target.logical] = numbers.length
+          ? numbers.reduce((total, value) => total + value, 0) / numbers.length
+          : null
+        break
+      }
+    }
   }
-  return contribution
+  return values
 }
 
 async function mutateAggregateTarget(
@@ -784,23 +1322,20 @@ async function addAggregateContribution(
     aggregate.target.primaryKey,
     key
   )
-  const contribution = aggregateContribution(aggregate, sourceRow)
-  if (!targetRow) {
-    if (aggregate.mode === 'materialized') {
-      await mutateAggregateTarget(tx, aggregate, 'insert', { ...key, ...contribution })
-    }
-    return
-  }
-  const update: Record<string, unknown> = { ...key }
-  for (const column of aggregate.columns) {
-    update[column.target.logical] =
-      numericValue(
-        targetRow[column.target.logical],
-        `aggregate ${aggregate.name} target ${aggregate.target.logical}.${column.target.logical}`,
-        false
-      ) + contribution[column.target.logical]!
-  }
-  await mutateAggregateTarget(tx, aggregate, 'update', update)
+  if (!targetRow && aggregate.mode !== 'materialized') return
+  const values = await projectColumns(
+    tx,
+    builder,
+    aggregate,
+    key,
+    targetRow,
+    null,
+    sourceRow
+  )
+  await mutateAggregateTarget(tx, aggregate, targetRow ? 'update' : 'insert', {
+    ...key,
+    ...values,
+  })
 }
 
 async function removeAggregateContribution(
@@ -818,28 +1353,30 @@ async function removeAggregateContribution(
     key
   )
   if (!targetRow) return
-  const contribution = aggregateContribution(aggregate, sourceRow)
-  const update: Record<string, unknown> = { ...key }
-  let remainingCount: number | null = null
-  for (const column of aggregate.columns) {
-    const next =
+  if (aggregate.mode === 'materialized') {
+    const count = countTarget(aggregate)
+    const remaining =
       numericValue(
-        targetRow[column.target.logical],
-        `aggregate ${aggregate.name} target ${aggregate.target.logical}.${column.target.logical}`,
+        targetRow[count.logical],
+        `aggregate ${aggregate.name} target ${aggregate.target.logical}.${count.logical}`,
         false
-      ) - contribution[column.target.logical]!
-    update[column.target.logical] = next
-    if (column.kind === 'count') remainingCount = next
-  }
-  if (
-    aggregate.mode === 'materialized' &&
-    remainingCount !== null &&
-    remainingCount <= 0
-  ) {
-    await mutateAggregateTarget(tx, aggregate, 'delete', key)
-    return
+      ) - 1
+    // skip projecting a group that is about to disappear
+    if (remaining <= 0) {
+      await mutateAggregateTarget(tx, aggregate, 'delete', key)
+      return
+    }
   }
-  await mutateAggregateTarget(tx, aggregate, 'update', update)
+  const values = await projectColumns(
+    tx,
+    builder,
+    aggregate,
+    key,
+    targetRow,
+    sourceRow,
+    null
+  )
+  await mutateAggregateTarget(tx, aggregate, 'update', { ...key, ...values })
 }
 
 async function updateAggregateContribution(
@@ -857,11 +1394,15 @@ async function updateAggregateContribution(
     return
   }
 
-  const previous = aggregateContribution(aggregate, previousSourceRow)
-  const next = aggregateContribution(aggregate, nextSourceRow)
   if (
-    aggregate.columns.every((column) =>
-      Object.is(previous[column.target.logical], next[column.target.logical])
+    aggregate.columns.every(
+      (column) =>
+        matchesWhere(column, previousSourceRow) === matchesWhere(column, nextSourceRow) &&
+        (column.kind === 'count' ||
+          Object.is(
+            sourceValue(aggregate, column, previousSourceRow),
+            sourceValue(aggregate, column, nextSourceRow)
+          ))
     )
   ) {
     return
@@ -874,18 +1415,16 @@ async function updateAggregateContribution(
     nextKey
   )
   if (!targetRow) return
-  const update: Record<string, unknown> = { ...nextKey }
-  for (const column of aggregate.columns) {
-    update[column.target.logical] =
-      numericValue(
-        targetRow[column.target.logical],
-        `aggregate ${aggregate.name} target ${aggregate.target.logical}.${column.target.logical}`,
-        false
-      ) +
-      next[column.target.logical]! -
-      previous[column.target.logical]!
-  }
-  await mutateAggregateTarget(tx, aggregate, 'update', update)
+  const values = await projectColumns(
+    tx,
+    builder,
+    aggregate,
+    nextKey,
+    targetRow,
+    previousSourceRow,
+    nextSourceRow
+  )
+  await mutateAggregateTarget(tx, aggregate, 'update', { ...nextKey, ...values })
 }
 
 /**
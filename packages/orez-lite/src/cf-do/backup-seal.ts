@@ -0,0 +1,292 @@
+export type BackupCompression = 'gzip' | 'deflate'
+
+export interface BackupEncryptionKey {
+  /** Recorded in the manifest and handed back to resolve the key on restore. */
+  id: string
+  /** AES-GCM key-encryption key: a CryptoKey allowing encrypt and decrypt, or raw bytes. */
+  key: CryptoKey | Uint8Array
+}
+
+/**
+ * First line of a sealed object, written in the clear. A plain object starts
+ * with its header line instead, which is how a reader tells the two apart.
+ */
+export interface BackupSealManifest {
+  kind: 'sealed'
+  container: typeof SEALED_CONTAINER
+  compression: BackupCompression | null
+  encryption: {
+    scheme: 'aes-256-gcm'
+    keyId: string
+    /** Per-object data key, encrypted under the key-encryption key. */
+    wrappedKey: string
+  } | null
+}
+
+export interface BackupSealer {
+  manifest: BackupSealManifest
+  manifestLine: Uint8Array
+  /** Compress and encrypt one part of the plain NDJSON into a frame. */
+  seal(bytes: Uint8Array): Promise<Uint8Array>
+}
+
+const SEALED_CONTAINER = 'orez-sealed-v1'
+const DATA_KEY_CONTEXT = new TextEncoder().encode('orez-backup-data-key-v1')
+const IV_BYTES = 12
+const MAX_MANIFEST_BYTES = 64 * 1024
+
+// WebCrypto and Blob only take bytes backed by a plain ArrayBuffer.
+type Bytes = Uint8Array<ArrayBuffer>
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function decodeBase64(value: string): Bytes {
+  return Uint8Array.from(atob(value), (character) => character.charCodeAt(0))
+}
+
+function concat(chunks: readonly Uint8Array[]): Bytes {
+  const bytes = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.byteLength, 0)
+  )
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return bytes
+}
+
+async function transform(
+  bytes: Bytes,
+  stream: CompressionStream | DecompressionStream
+): Promise<Bytes> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+async function keyEncryptionKey(key: BackupEncryptionKey['key']): Promise<CryptoKey> {
+  if (!(key instanceof Uint8Array)) return key
+  return crypto.subtle.importKey('raw', new Uint8Array(key), 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ])
+}
+
+async function encrypt(key: CryptoKey, bytes: Bytes, context: Bytes) {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: context },
+    key,
+    bytes
+  )
+  return concat([iv, new Uint8Array(sealed)])
+}
+
+async function decrypt(key: CryptoKey, bytes: Bytes, context: Bytes) {
+  return new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.subarray(0, IV_BYTES), additionalData: context },
+      key,
+      bytes.subarray(IV_BYTES)
+    )
+  )
+}
+
+// Frames are bound to their position so a reordered or spliced object fails
+// to decrypt rather than decoding into a different dump.
+function frameContext(index: number): Bytes {
+  const context = new Uint8Array(4)
+  new DataView(context.buffer).setUint32(0, index)
+  return context
+}
+
+/**
+ * Returns null when neither compression nor encryption is configured, so the
+ * object is written as plain NDJSON exactly as before sealing existed.
+ */
+export async function createBackupSealer(options: {
+  compression?: BackupCompression
+  key?: BackupEncryptionKey
+}): Promise<BackupSealer | null> {
+  const compression = options.compression ?? null
+  if (compression !== null && compression !== 'gzip' && compression !== 'deflate') {
+    throw new TypeError(`backup compression must be gzip or deflate, got ${compression}`)
+  }
+  if (!compression && !options.key) return null
+
+  let dataKey: CryptoKey | null = null
+  let encryption: BackupSealManifest['encryption'] = null
+  if (options.key) {
+    if (!options.key.id) throw new TypeError('backup encryption key id must not be empty')
+    const raw = crypto.getRandomValues(new Uint8Array(32))
+    dataKey = await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt'])
+    encryption = {
+      scheme: 'aes-256-gcm',
+      keyId: options.key.id,
+      wrappedKey: encodeBase64(
+        await encrypt(await keyEncryptionKey(options.key.key), raw, DATA_KEY_CONTEXT)
+      ),
+    }
+  }
+
+  const manifest: BackupSealManifest = {
+    kind: 'sealed',
+    container: SEALED_CONTAINER,
+    compression,
+    encryption,
+  }
+  let frames = 0
+  return {
+    manifest,
+    manifestLine: new TextEncoder().encode(`${JSON.stringify(manifest)}\n`),
+    async seal(bytes) {
+      let body = new Uint8Array(bytes)
+      if (compression) body = await transform(body, new CompressionStream(compression))
+      if (dataKey) body = await encrypt(dataKey, body, frameContext(frames))
+      frames++
+      const frame = new Uint8Array(4 + body.byteLength)
+      new DataView(frame.buffer).setUint32(0, body.byteLength)
+      frame.set(body, 4)
+      return frame
+    },
+  }
+}
+
+/**
+ * Stream the plain NDJSON of a backup object, sealed or not. `resolveKey` is
+ * asked for the key named in the manifest only when the object is encrypted.
+ */
+export async function openBackupBody(
+  body: ReadableStream<Uint8Array>,
+  resolveKey: (keyId: string) => Promise<BackupEncryptionKey>
+): Promise<ReadableStream<Uint8Array>> {
+  const reader = body.getReader()
+  let buffered = new Uint8Array(0)
+  let newline = -1
+  while (newline === -1) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffered = concat([buffered, value])
+    newline = buffered.indexOf(0x0a)
+    if (newline === -1 && buffered.byteLength > MAX_MANIFEST_BYTES) break
+  }
+
+  let manifest: Partial<BackupSealManifest> | null = null
+  if (newline !== -1) {
+    try {
+      const first = JSON.parse(new TextDecoder().decode(buffered.subarray(0, newline)))
+      if (first?.kind === 'sealed') manifest = first
+    } catch {
+      // not a sealed manifest; the reader reports the malformed line itself
+    }
+  }
+
+  if (!manifest) {
+    let pending: Uint8Array | null = buffered
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (pending) {
+          if (pending.byteLength) controller.enqueue(pending)
+          pending = null
+          return
+        }
+        const { done, value } = await reader.read()
+        if (done) controller.close()
+        else controller.enqueue(value)
+      },
+      cancel: (reason) => reader.cancel(reason),
+    })
+  }
+
+  if (manifest.container !== SEALED_CONTAINER) {
+    throw new Error(`unsupported sealed backup container: ${manifest.container}`)
+  }
+  const compression = manifest.compression ?? null
+  if (compression !== null && compression !== 'gzip' && compression !== 'deflate') {
+    throw new Error(`unsupported backup compression: ${compression}`)
+  }
+  let dataKey: CryptoKey | null = null
+  if (manifest.encryption) {
+    const { scheme, keyId, wrappedKey } = manifest.encryption
+    if (scheme !== 'aes-256-gcm') {
+      throw new Error(`unsupported backup encryption scheme: ${scheme}`)
+    }
+    const resolved = await resolveKey(keyId)
+    let raw: Bytes
+    try {
+      raw = await decrypt(
+        await keyEncryptionKey(resolved.key),
+        decodeBase64(wrappedKey),
+        DATA_KEY_CONTEXT
+      )
+    } catch {
+      throw new Error(`backup data key does not unwrap with encryption key ${keyId}`)
+    }
+    dataKey = await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['decrypt'])
+  }
+
+  // Unread bytes stay as the chunks they arrived in and are joined only once a
+  // whole frame (or its length) is there, so a large frame is copied once
+  // rather than on every read.
+  const queued: Uint8Array[] = [buffered.subarray(newline + 1)]
+  let queuedBytes = queued[0]!.byteLength
+  const take = (count: number) => {
+    const joined = queued.length === 1 ? queued[0]! : concat(queued)
+    const rest = joined.subarray(count)
+    queued.length = 0
+    if (rest.byteLength) queued.push(rest)
+    queuedBytes = rest.byteLength
+    return joined.slice(0, count)
+  }
+  let frameLength: number | null = null
+  let frames = 0
+  let ended = false
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        if (frameLength === null && queuedBytes >= 4) {
+          const header = take(4)
+          frameLength = new DataView(
+            header.buffer,
+            header.byteOffset,
+            header.byteLength
+          ).getUint32(0)
+        }
+        if (frameLength !== null && queuedBytes >= frameLength) {
+          let frame = take(frameLength)
+          frameLength = null
+          if (dataKey) {
+            try {
+              frame = await decrypt(dataKey, frame, frameContext(frames))
+            } catch {
+              throw new Error(`sealed backup frame ${frames} failed authentication`)
+            }
+          }
+          if (compression)
+            frame = await transform(frame, new DecompressionStream(compression))
+          frames++
+          controller.enqueue(frame)
+          return
+        }
+        if (ended) {
+          if (queuedBytes || frameLength !== null) {
+            throw new Error('sealed backup ends inside a frame')
+          }
+          controller.close()
+          return
+        }
+        const { done, value } = await reader.read()
+        if (done) ended = true
+        else {
+          queued.push(value)
+          queuedBytes += value.byteLength
+        }
+      }
+    },
+    cancel: (reason) => reader.cancel(reason),
+  })
+}
@@ -309,9 +309,12 @@ describe('createOrezDataWorker', () => {
 
     expect(idFromName).toHaveBeenCalledWith('ns:proj-a')
     expect(orezApplicationPush).toHaveBeenCalledOnce()
-    expect(orezApplicationPush).toHaveBeenCalledWith({
-      mutation: 'widget.insert',
-    })
+    expect(orezApplicationPush).toHaveBeenCalledWith(
+      {
+        mutation: 'widget.insert',
+      },
+      {}
+    )
     expect(response.status).toBe(202)
     expect(response.statusText).toBe('Accepted')
     expect(response.headers.get('content-type')).toBe('application/json')
@@ -376,6 +379,113 @@ describe('createOrezDataWorker', () => {
     expect(new TextDecoder().decode(result.body)).toBe('committed')
   })
 
+  it('rate-limits only the user, client group or mutator over its keyed write budget', async () => {
+    const localClient = {
+      namespace: 'ns:proj-a',
+      transaction: vi.fn(async (_compile: unknown, work: (tx: unknown) => unknown) =>
+        work({ exec: async () => ({ changes: 3 }) })
+      ),
+    }
+    const applicationPush = vi.fn(async (context) => {
+      await context.applicationSql().transaction(
+        () => {
+          throw new Error('no query ASTs')
+        },
+        async (tx: { exec(sql: string): Promise<unknown> }) => {
+          await tx.exec('INSERT INTO widget_record (widget_id) VALUES (1)')
+        }
+      )
+      return new Response('committed', { status: 200 })
+    })
+    const runtime = createOrezDataWorker({
+      name: 'testapp',
+      schema: descriptor,
+      applicationPush,
+      writeBudget: {
+        windowMs: 60_000,
+        keys: { user: { rows: 5 }, mutator: { rows: 100 }, clientGroup: { rows: 100 } },
+      },
+    })
+    const zero = Object.create(runtime.ZeroDO.prototype) as any
+    zero.orezEnv = { ZERO_SQL_DO: { idFromName: vi.fn(), get: vi.fn() } }
+    zero.orezExecutionContext = { waitUntil: vi.fn() }
+    zero.orezInstance = 'ns:proj-a'
+    zero.applicationSqlLocalClient = vi.fn(() => localClient)
+    const push = (clientGroupID: string) => ({
+      clientGroupID,
+      mutations: [{ name: 'widget.insert', clientID: 'c1', id: 1, args: [] }],
+    })
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    // admitted under budget and charged after, so the second push overshoots
+    expect((await zero.orezApplicationPush(push('g1'), { userID: 'u1' })).status).toBe(
+      200
+    )
+    expect(applicationPush.mock.calls[0]![0].userID).toBe('u1')
+    expect((await zero.orezApplicationPush(push('g1'), { userID: 'u1' })).status).toBe(
+      200
+    )
+    const limited = await zero.orezApplicationPush(push('g2'), { userID: 'u1' })
+    expect(limited.status).toBe(429)
+    expect(new Map(limited.headers).get('retry-after')).toBe('61')
+    expect(JSON.parse(new TextDecoder().decode(limited.body))).toEqual({
+      error: 'writeBudgetExceeded',
+      windowRows: 6,
+      budget: 5,
+      scope: 'user',
+      key: 'u1',
+      retryAfterMs: expect.any(Number),
+    })
+    expect(applicationPush).toHaveBeenCalledTimes(2)
+
+    expect((await zero.orezApplicationPush(push('g1'), { userID: 'u2' })).status).toBe(
+      200
+    )
+    expect(applicationPush).toHaveBeenCalledTimes(3)
+    errors.mockRestore()
+  })
+
+  it('charges native Zero pushes to their client group and mutators', () => {
+    const runtime = createOrezDataWorker({
+      name: 'testapp',
+      schema: descriptor,
+      writeBudget: { keys: { clientGroup: { rows: 5 }, mutator: { rows: 100 } } },
+    })
+    const zero = Object.create(runtime.ZeroDO.prototype) as any
+    zero.orezInstance = 'ns:proj-a'
+    const push = (clientGroupID: string) => ({
+      clientGroupID,
+      mutations: [{ name: 'widget.insert', clientID: 'c1', id: 1, args: [] }],
+    })
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    zero.nativePushWillApply(push('g1'))
+    zero.nativePushDidApply(push('g1'), 6)
+    expect(() => zero.nativePushWillApply(push('g1'))).toThrow(
+      'clientGroup g1 row write budget exceeded'
+    )
+    expect(() => zero.nativePushWillApply(push('g2'))).not.toThrow()
+    expect(errors).toHaveBeenCalledOnce()
+    errors.mockRestore()
+  })
+
+  it('rejects keyed write budgets that are not positive row counts', () => {
+    expect(() =>
+      createOrezDataWorker({
+        name: 'testapp',
+        schema: descriptor,
+        writeBudget: { keys: { user: { rows: 0 } } },
+      })
+    ).toThrow('writeBudget.keys.user.rows must be a positive safe integer')
+    expect(() =>
+      createOrezDataWorker({
+        name: 'testapp',
+        schema: descriptor,
+        writeBudget: { keys: { tenant: { rows: 5 } } as never },
+      })
+    ).toThrow('writeBudget.keys.tenant is not a write budget key')
+  })
+
   it('runs a namespace backup through one read-only application SQL session', async () => {
     const rowsFor = (sql: string) =>
       sql.includes('SELECT write_seq') ? [{ write_seq: 7 }] : []
@@ -441,7 +551,7 @@ describe('createOrezDataWorker', () => {
     expect(applicationSqlSession).toHaveBeenCalledOnce()
     expect(applicationSqlQuery).not.toHaveBeenCalled()
     expect(session.begin).toHaveBeenCalledOnce()
-    expect(session.query).toHaveBeenCalledTimes(2)
+    expect(session.query).toHaveBeenCalledTimes(3)
     expect(session.commit).toHaveBeenCalledOnce()
     expect(session.rollback).not.toHaveBeenCalled()
   })
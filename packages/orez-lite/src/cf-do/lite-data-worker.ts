@@ -1,6 +1,11 @@
 import { AsyncLocalStorage } from 'node:async_hooks'
 
-import { stripPublicPrefix } from '../do-sql-tracking.js'
+import {
+  KeyedRowWriteBudget,
+  KeyedWriteBudgetExceededError,
+  stripPublicPrefix,
+  type KeyedRowWriteBudgetStatus,
+} from '../do-sql-tracking.js'
 import { createApplicationSqlClient } from './application-sql.js'
 import {
   createNamespaceBackupManager,
@@ -9,6 +14,11 @@ import {
   type NamespaceBackupOptions,
   type NamespaceBackupStatement,
 } from './namespace-backup.js'
+import {
+  createNamespaceCloner,
+  type NamespaceCloneSummary,
+  type NamespaceCloneTransform,
+} from './namespace-clone.js'
 import { ZeroDO as OrezZeroDO } from './worker.js'
 
 import type { NamespaceRoutingOptions } from '../worker/cf-do-shim.js'
@@ -16,8 +26,10 @@ import type {
   ApplicationSqlClient,
   ApplicationSqlClientOptions,
   ApplicationSqlDurableObjectNamespace,
+  ApplicationSqlExecResult,
   ApplicationSqlRpc,
 } from './application-sql.js'
+import type { BackupEncryptionKey } from './backup-seal.js'
 import type { Schema } from '@rocicorp/zero'
 
 type MaybePromise<Value> = Value | Promise<Value>
@@ -54,7 +66,10 @@ export interface OrezDurableObjectId {
 
 export interface OrezDataWorkerStub extends ApplicationSqlRpc {
   fetch(request: Request): Promise<Response>
-  orezApplicationPush(input: unknown): Promise<OrezApplicationPushResponse>
+  orezApplicationPush(
+    input: unknown,
+    options?: OrezApplicationPushOptions
+  ): Promise<OrezApplicationPushResponse>
   orezApplicationSchemaStatus(version: string): Promise<OrezSchemaStatus>
   orezRunApplicationSchema(
     version: string,
@@ -106,15 +121,25 @@ export interface OrezRequestContext<Env extends OrezDataWorkerEnv> {
   request: Request
   url: URL
   applicationSql(): ApplicationSqlClient
-  executeApplicationPush(input: unknown, namespace?: string): Promise<Response>
+  executeApplicationPush(
+    input: unknown,
+    namespace?: string,
+    options?: OrezApplicationPushOptions
+  ): Promise<Response>
   ensureSchema(options?: { force?: boolean }): Promise<unknown>
 }
 
+export interface OrezApplicationPushOptions {
+  /** Authenticated user the push runs as, charged by `writeBudget.keys.user`. */
+  userID?: string
+}
+
 export interface OrezApplicationPushContext<Env extends OrezDataWorkerEnv> {
   env: Env
   executionContext: OrezExecutionContext
   instance: string
   input: unknown
+  userID: string | null
   applicationSql(
     namespace?: string,
     options?: Pick<ApplicationSqlClientOptions, 'priority'>
@@ -138,9 +163,12 @@ export interface OrezBackupConfig<Env extends OrezDataWorkerEnv> extends Partial
   Pick<
     NamespaceBackupOptions<Env>,
     | 'acceptedFormats'
+    | 'archive'
     | 'chunkTargetBytes'
+    | 'compression'
     | 'controlPlaneNamespace'
     | 'excludedTables'
+    | 'fullBackupEvery'
     | 'keep'
     | 'keepControlPlane'
     | 'partBytes'
@@ -157,9 +185,15 @@ export interface OrezBackupConfig<Env extends OrezDataWorkerEnv> extends Partial
   authorize(
     request: Request,
     env: Env,
-    action: 'export' | 'restore'
+    action: 'export' | 'restore' | 'pitr'
   ): MaybePromise<boolean>
   format?: string
+  /**
+   * Encrypt backup objects under this key. Called without `keyId` when sealing
+   * a new object and with the id recorded in an object's manifest to restore
+   * it, so retired keys must stay resolvable while their backups are kept.
+   */
+  encryption?(env: Env, keyId?: string): MaybePromise<BackupEncryptionKey>
 }
 
 export interface OrezDataWorkerOptions<
@@ -185,6 +219,24 @@ export interface OrezDataWorkerOptions<
   writeBudget?: {
     rows?: number
     windowMs?: number
+    /**
+     * Rolling budgets per push author inside each object, charged with the
+     * rows an `applicationPush` changes in its own namespace. A key over its
+     * budget gets a 429 with Retry-After while everyone else keeps writing;
+     * the per-object budget above still stops the whole namespace.
+     *
+     * Zero pushes the object applies itself, over its socket or its
+     * `/zero/push` route, are charged to their client group and mutators with
+     * the change-log rows they wrote; they carry no user.
+     */
+    keys?: {
+      /** The `userID` handed to `executeApplicationPush`. */
+      user?: OrezKeyedWriteBudget
+      /** Every mutator named in a Zero push body, each charged the whole push. */
+      mutator?: OrezKeyedWriteBudget
+      /** The `clientGroupID` of a Zero push body. */
+      clientGroup?: OrezKeyedWriteBudget
+    }
   }
   /**
    * Notify an application-owned consumer after a transaction durably commits
@@ -219,6 +271,14 @@ export interface OrezDataWorkerOptions<
   >
 }
 
+export interface OrezKeyedWriteBudget {
+  rows: number
+  /** Defaults to `writeBudget.windowMs`, else one minute. */
+  windowMs?: number
+}
+
+export type OrezWriteBudgetKeyScope = 'user' | 'mutator' | 'clientGroup'
+
 export interface OrezSchemaStatus {
   schemaVersion: string
   ready: boolean
@@ -235,7 +295,10 @@ export interface OrezResolvedDataRequest {
 }
 
 export type OrezDataWorkerDurableObject = OrezZeroDO & {
-  orezApplicationPush(input: unknown): Promise<OrezApplicationPushResponse>
+  orezApplicationPush(
+    input: unknown,
+    options?: OrezApplicationPushOptions
+  ): Promise<OrezApplicationPushResponse>
   orezApplicationSchemaStatus(version: string): OrezSchemaStatus
   orezRunApplicationSchema(
     version: string,
@@ -262,12 +325,29 @@ export interface OrezDataWorkerResult<Env extends OrezDataWorkerEnv> {
     namespace?: string,
     options?: { force?: boolean }
   ): Promise<unknown>
+  /**
+   * Copy a namespace into a fresh one over Durable Object RPC, without a
+   * backup bucket. `transform` rewrites or drops each row, for example to scrub
+   * personal data from a staging copy. The clone keeps the schema version and
+   * starts with an empty change log, so its clients sync from scratch.
+   */
+  cloneNamespace(
+    env: Env,
+    source: string,
+    target: string,
+    options?: { transform?: NamespaceCloneTransform }
+  ): Promise<OrezNamespaceCloneSummary>
   backupManager: NamespaceBackupManager<Env> | null
 }
 
+export interface OrezNamespaceCloneSummary extends NamespaceCloneSummary {
+  schemaVersion: string
+}
+
 const STANDARD_DATA_PATHS = [
   '/_orez/backup/restore',
   '/_orez/backup/export',
+  '/_orez/backup/pitr',
   '/_orez/status',
   '/_orez/write-budget/trip',
   '/_orez/write-budget/reopen',
@@ -530,6 +610,56 @@ function projectFeedBody(
   return projected
 }
 
+// Mutator names and the client group come from a Zero push body; any other
+// input is charged to its user alone.
+function applicationPushBudgetKeys(
+  input: unknown,
+  pushOptions: OrezApplicationPushOptions
+): [OrezWriteBudgetKeyScope, string][] {
+  const keys = new Map<string, [OrezWriteBudgetKeyScope, string]>()
+  const add = (scope: OrezWriteBudgetKeyScope, key: unknown) => {
+    if (typeof key === 'string' && key) keys.set(`${scope}\0${key}`, [scope, key])
+  }
+  add('user', pushOptions.userID)
+  if (isRecord(input)) {
+    add('clientGroup', input.clientGroupID)
+    if (Array.isArray(input.mutations)) {
+      for (const mutation of input.mutations) {
+        if (isRecord(mutation)) add('mutator', mutation.name)
+      }
+    }
+  }
+  return [...keys.values()]
+}
+
+// Counts the rows the push's own statements change, not the journal and
+// change-log rows the object writes around them, so concurrent sync traffic
+// is never charged to the push.
+function meteredApplicationSql(
+  client: ApplicationSqlClient,
+  charge: (rows: number) => void
+): ApplicationSqlClient {
+  const counted = async (pending: Promise<ApplicationSqlExecResult>) => {
+    const result = await pending
+    charge(result.changes)
+    return result
+  }
+  return {
+    ...client,
+    exec: (sql, params, metadata) => counted(client.exec(sql, params, metadata)),
+    transaction: (compileQuery, work, queryBudget) =>
+      client.transaction(
+        compileQuery,
+        (tx) =>
+          work({
+            ...tx,
+            exec: (sql, params, metadata) => counted(tx.exec(sql, params, metadata)),
+          }),
+        queryBudget
+      ),
+  }
+}
+
 function requireAppName(name: string): void {
   if (!/^[a-z][a-z0-9]*$/.test(name)) {
     throw new TypeError(
@@ -566,11 +696,28 @@ export function createOrezDataWorker<
   if (!Number.isSafeInteger(suspendAfterFailures) || suspendAfterFailures < 1) {
     throw new TypeError('migrations.suspendAfterFailures must be a positive safe integer')
   }
-  for (const [name, value] of Object.entries(options.writeBudget ?? {})) {
+  const { keys: keyedWriteBudgetOptions, ...writeBudgetOptions } =
+    options.writeBudget ?? {}
+  for (const [name, value] of Object.entries(writeBudgetOptions)) {
     if (!Number.isSafeInteger(value) || Number(value) < 1) {
       throw new TypeError(`writeBudget.${name} must be a positive safe integer`)
     }
   }
+  const keyedWriteBudgets: [OrezWriteBudgetKeyScope, OrezKeyedWriteBudget][] = []
+  for (const [scope, budget] of Object.entries(keyedWriteBudgetOptions ?? {})) {
+    if (!budget) continue
+    if (scope !== 'user' && scope !== 'mutator' && scope !== 'clientGroup') {
+      throw new TypeError(`writeBudget.keys.${scope} is not a write budget key`)
+    }
+    for (const [name, value] of Object.entries({ ...budget, rows: budget.rows })) {
+      if (!Number.isSafeInteger(value) || Number(value) < 1) {
+        throw new TypeError(
+          `writeBudget.keys.${scope}.${name} must be a positive safe integer`
+        )
+      }
+    }
+    keyedWriteBudgets.push([scope, budget])
+  }
 
   const requestSignals = new AsyncLocalStorage<AbortSignal>()
   const schemaVersion = options.schema.version
@@ -610,6 +757,7 @@ export function createOrezDataWorker<
     private orezSchemaRunVersion: string | null = null
     private orezSchemaRun: Promise<unknown> | null = null
     private orezReadyVersion: string | null = null
+    private orezKeyedWriteBudgets?: Map<OrezWriteBudgetKeyScope, KeyedRowWriteBudget>
 
     constructor(ctx: any, env: Env) {
       // The base DO's private Env includes its historical binding spelling;
@@ -657,6 +805,7 @@ export function createOrezDataWorker<
 
     protected applicationSqlDidCommit(published: boolean, mutated: boolean): void {
       if (mutated) this.orezBumpBackupMarker()
+      if (published && options.backup?.archive) this.orezScheduleArchive()
       if (published && options.applicationSqlDidCommit) {
         const notification = Promise.resolve()
           .then(() =>
@@ -697,26 +846,112 @@ export function createOrezDataWorker<
       }
     }
 
-    async orezApplicationPush(input: unknown): Promise<OrezApplicationPushResponse> {
+    // One alarm per quiet period: commits inside it ride the pending one, so a
+    // busy namespace archives in batches rather than once per transaction.
+    private orezScheduleArchive(): void {
+      if (!this.orezInstance) return
+      const delayMs = options.backup!.archive!.delayMs ?? 5_000
+      const scheduled = (async () => {
+        if ((await this.orezStorage.getAlarm()) !== null) return
+        await this.orezStorage.setAlarm(Date.now() + delayMs)
+      })().catch((error) => {
+        console.error(
+          JSON.stringify({
+            event: 'backup_archive_schedule_failed',
+            instance: this.orezInstance,
+            error: errorMessage(error),
+          })
+        )
+      })
+      try {
+        this.orezExecutionContext.waitUntil(scheduled)
+      } catch {
+        // The durable application write is already committed.
+      }
+    }
+
+    // A failed archive rejects so the runtime retries the alarm; scheduled
+    // backups catch the archive up as well.
+    async alarm(): Promise<void> {
+      if (backupManager && this.orezInstance) {
+        await backupManager.archiveChanges(this.orezEnv, this.orezInstance)
+      }
+    }
+
+    // Status exposes every tracked user ID and mutator name, so the per-key
+    // list is for operators; everyone else sees how many keys are limited.
+    async fetch(request: Request): Promise<Response> {
+      const response = await super.fetch(request)
+      const budgets = this.orezWriteBudgetKeys()
+      if (
+        budgets.size === 0 ||
+        !response.ok ||
+        request.method !== 'GET' ||
+        new URL(request.url).pathname !== '/_orez/write-budget'
+      ) {
+        return response
+      }
+      const operator = hasAdminToken(request, this.orezEnv)
+      const keys: Partial<
+        Record<OrezWriteBudgetKeyScope, Partial<KeyedRowWriteBudgetStatus>>
+      > = {}
+      for (const [scope, budget] of budgets) {
+        const { keys: tracked, ...summary } = budget.status()
+        keys[scope] = operator ? { ...summary, keys: tracked } : summary
+      }
+      const headers = new Headers(response.headers)
+      headers.delete('content-length')
+      return new Response(
+        JSON.stringify({ ...((await response.json()) as JsonRecord), keys }),
+        { status: response.status, headers }
+      )
+    }
+
+    async orezApplicationPush(
+      input: unknown,
+      pushOptions: OrezApplicationPushOptions = {}
+    ): Promise<OrezApplicationPushResponse> {
       if (!options.applicationPush) {
         throw new Error('application push execution is not configured')
       }
-      const response = await options.applicationPush({
-        env: this.orezEnv,
-        executionContext: this.orezExecutionContext,
-        instance: this.orezInstance,
-        input,
-        applicationSql: (namespace = this.orezInstance, clientOptions = {}) => {
-          const instance = canonical(namespace)
-          return instance === this.orezInstance
-            ? this.applicationSqlLocalClient(instance, clientOptions)
-            : createApplicationSqlClient(
+      const charged = this.orezChargedKeys(input, pushOptions)
+      let response: Response
+      let rowsWritten = 0
+      try {
+        this.orezAssertKeysOpen(charged)
+        response = await options.applicationPush({
+          env: this.orezEnv,
+          executionContext: this.orezExecutionContext,
+          instance: this.orezInstance,
+          input,
+          userID: pushOptions.userID ?? null,
+          applicationSql: (namespace = this.orezInstance, clientOptions = {}) => {
+            const instance = canonical(namespace)
+            if (instance !== this.orezInstance) {
+              return createApplicationSqlClient(
                 this.orezEnv.ZERO_SQL_DO,
                 instance,
                 clientOptions
               )
-        },
-      })
+            }
+            const client = this.applicationSqlLocalClient(instance, clientOptions)
+            return charged.length === 0
+              ? client
+              : meteredApplicationSql(client, (rows) => {
+                  rowsWritten += rows
+                })
+          },
+        })
+      } catch (error) {
+        if (!(error instanceof KeyedWriteBudgetExceededError)) throw error
+        response = Response.json(error.toJSON(), {
+          status: 429,
+          headers: { 'retry-after': String(Math.ceil(error.retryAfterMs / 1_000)) },
+        })
+      } finally {
+        // Rows a failed push changed were still written, so they count too.
+        this.orezRecordKeys(charged, rowsWritten)
+      }
       return {
         body: await response.arrayBuffer(),
         headers: [...response.headers],
@@ -725,6 +960,69 @@ export function createOrezDataWorker<
       }
     }
 
+    // Zero pushes to the object's own routes carry no user, so only their
+    // client group and mutators are charged, with the change-log rows they wrote.
+    protected nativePushWillApply(body: unknown): void {
+      this.orezAssertKeysOpen(this.orezChargedKeys(body, {}))
+    }
+
+    protected nativePushDidApply(body: unknown, rows: number): void {
+      this.orezRecordKeys(this.orezChargedKeys(body, {}), rows)
+    }
+
+    private orezChargedKeys(
+      input: unknown,
+      pushOptions: OrezApplicationPushOptions
+    ): [OrezWriteBudgetKeyScope, string][] {
+      const budgets = this.orezWriteBudgetKeys()
+      if (budgets.size === 0) return []
+      return applicationPushBudgetKeys(input, pushOptions).filter(([scope]) =>
+        budgets.has(scope)
+      )
+    }
+
+    private orezAssertKeysOpen(charged: [OrezWriteBudgetKeyScope, string][]): void {
+      const budgets = this.orezWriteBudgetKeys()
+      try {
+        for (const [scope, key] of charged) budgets.get(scope)!.assertOpen(key)
+      } catch (error) {
+        if (error instanceof KeyedWriteBudgetExceededError) {
+          console.error(
+            JSON.stringify({
+              event: 'orez_do_write_budget_key_limited',
+              ns: this.orezInstance,
+              scope: error.scope,
+              key: error.key,
+              windowRows: error.windowRows,
+              budget: error.budget,
+              retryAfterMs: error.retryAfterMs,
+            })
+          )
+        }
+        throw error
+      }
+    }
+
+    private orezRecordKeys(charged: [OrezWriteBudgetKeyScope, string][], rows: number) {
+      const budgets = this.orezWriteBudgetKeys()
+      for (const [scope, key] of charged) budgets.get(scope)!.record(key, rows)
+    }
+
+    private orezWriteBudgetKeys(): Map<OrezWriteBudgetKeyScope, KeyedRowWriteBudget> {
+      this.orezKeyedWriteBudgets ??= new Map(
+        keyedWriteBudgets.map(([scope, budget]) => [
+          scope,
+          new KeyedRowWriteBudget({
+            scope,
+            budgetRows: budget.rows,
+            windowMs: budget.windowMs ?? options.writeBudget?.windowMs ?? 60_000,
+            now: () => Date.now(),
+          }),
+        ])
+      )
+      return this.orezKeyedWriteBudgets
+    }
+
     async orezImportBatch(
       statements: readonly NamespaceBackupStatement[]
     ): Promise<void> {
@@ -960,6 +1258,36 @@ export function createOrezDataWorker<
     return []
   }
 
+  const readNamespaceSession = <Value>(
+    env: Env,
+    namespace: string,
+    work: (
+      query: (sql: string, params?: readonly unknown[]) => Promise<Record<string, any>[]>
+    ) => Promise<Value>
+  ): Promise<Value> =>
+    applicationSqlClient(env, namespace).readTransaction(
+      () => {
+        throw new Error('namespace copies do not compile ZQL')
+      },
+      (tx) => work((sql, params = []) => tx.query(sql, params))
+    )
+
+  const importNamespaceBatch = async (
+    env: Env,
+    namespace: string,
+    statements: readonly NamespaceBackupStatement[]
+  ): Promise<void> => {
+    const instance = canonical(namespace)
+    const id = env.ZERO_SQL_DO.idFromName(instance)
+    await env.ZERO_SQL_DO.get(id).orezImportBatch(statements)
+  }
+
+  const beginNamespaceRestore = async (env: Env, namespace: string): Promise<void> => {
+    const instance = canonical(namespace)
+    const id = env.ZERO_SQL_DO.idFromName(instance)
+    await env.ZERO_SQL_DO.get(id).orezBeginRestore()
+  }
+
   const backupManager = options.backup
     ? createNamespaceBackupManager<Env>({
         format: options.backup.format ?? 'orez-backup-v2',
@@ -969,23 +1297,9 @@ export function createOrezDataWorker<
         markerTable: backupMarkerTable,
         files: options.backup.bucket,
         query: queryNamespace,
-        readSession: (env, namespace, work) =>
-          applicationSqlClient(env, namespace).readTransaction(
-            () => {
-              throw new Error('backup export does not compile ZQL')
-            },
-            (tx) => work((sql, params = []) => tx.query(sql, params))
-          ),
-        batch: async (env, namespace, statements) => {
-          const instance = canonical(namespace)
-          const id = env.ZERO_SQL_DO.idFromName(instance)
-          await env.ZERO_SQL_DO.get(id).orezImportBatch(statements)
-        },
-        beforeImport: async (env, namespace) => {
-          const instance = canonical(namespace)
-          const id = env.ZERO_SQL_DO.idFromName(instance)
-          await env.ZERO_SQL_DO.get(id).orezBeginRestore()
-        },
+        readSession: readNamespaceSession,
+        batch: importNamespaceBatch,
+        beforeImport: beginNamespaceRestore,
         listNamespaces: async (env) => {
           const listed = await options.backup!.inventory(
             applicationSqlClient(env, 'singleton'),
@@ -995,6 +1309,9 @@ export function createOrezDataWorker<
           for (const namespace of listed) namespaces.add(canonical(namespace))
           return [...namespaces]
         },
+        encryption: options.backup.encryption
+          ? async (env, keyId) => options.backup!.encryption!(env, keyId)
+          : undefined,
         logPrefix: `[${options.name}]`,
         excludedTables: [
           readyTable,
@@ -1008,7 +1325,10 @@ export function createOrezDataWorker<
             [
               'chunkTargetBytes',
               'acceptedFormats',
+              'archive',
+              'compression',
               'controlPlaneNamespace',
+              'fullBackupEvery',
               'keep',
               'keepControlPlane',
               'partBytes',
@@ -1020,6 +1340,42 @@ export function createOrezDataWorker<
       })
     : null
 
+  const cloner = createNamespaceCloner<Env>({
+    query: queryNamespace,
+    readSession: readNamespaceSession,
+    batch: importNamespaceBatch,
+    beforeImport: beginNamespaceRestore,
+    excludedTables: [readyTable, attemptTable, backupMarkerTable, restoreTable],
+  })
+
+  const cloneNamespace = async (
+    env: Env,
+    sourceNamespace: string,
+    targetNamespace: string,
+    cloneOptions: { transform?: NamespaceCloneTransform } = {}
+  ): Promise<OrezNamespaceCloneSummary> => {
+    installRuntimeGlobals(env)
+    const source = canonical(sourceNamespace)
+    const target = canonical(targetNamespace)
+    // The clone carries the source's tables as they are, so they must already
+    // have the shape this worker's schema version describes.
+    const status = await env.ZERO_SQL_DO.get(
+      env.ZERO_SQL_DO.idFromName(source)
+    ).orezApplicationSchemaStatus(options.schema.version)
+    if (!status.ready) {
+      throw new Error(
+        `clone source ${source} is not ready at schema ${options.schema.version}; migrate it before cloning`
+      )
+    }
+    const summary = await cloner.cloneNamespace(env, source, target, cloneOptions)
+    // Reinstalls triggers and the feed registration on the copied tables and
+    // records the schema version, as after a restore.
+    await env.ZERO_SQL_DO.get(
+      env.ZERO_SQL_DO.idFromName(target)
+    ).orezRunApplicationSchema(options.schema.version, target, { force: true })
+    return { ...summary, schemaVersion: options.schema.version }
+  }
+
   const feedResponse = async (
     request: Request,
     env: Env,
@@ -1163,10 +1519,17 @@ export function createOrezDataWorker<
             url: resolved.url,
             applicationSql: () =>
               applicationSqlClient(env, resolved.instance, request.signal),
-            executeApplicationPush: async (input, namespace = resolved.instance) => {
+            executeApplicationPush: async (
+              input,
+              namespace = resolved.instance,
+              pushOptions = {}
+            ) => {
               const instance = canonical(namespace)
               const id = env.ZERO_SQL_DO.idFromName(instance)
-              const result = await env.ZERO_SQL_DO.get(id).orezApplicationPush(input)
+              const result = await env.ZERO_SQL_DO.get(id).orezApplicationPush(
+                input,
+                pushOptions
+              )
               return new Response(result.body, {
                 headers: result.headers,
                 status: result.status,
@@ -1217,10 +1580,15 @@ export function createOrezDataWorker<
           if (
             backupManager &&
             (resolved.pathname === '/_orez/backup/export' ||
-              resolved.pathname === '/_orez/backup/restore')
+              resolved.pathname === '/_orez/backup/restore' ||
+              resolved.pathname === '/_orez/backup/pitr')
           ) {
             const action =
-              resolved.pathname === '/_orez/backup/export' ? 'export' : 'restore'
+              resolved.pathname === '/_orez/backup/export'
+                ? 'export'
+                : resolved.pathname === '/_orez/backup/pitr'
+                  ? 'pitr'
+                  : 'restore'
             if (!(await options.backup!.authorize(request, env, action))) {
               return new Response('forbidden', { status: 403 })
             }
@@ -1228,11 +1596,45 @@ export function createOrezDataWorker<
               if (action === 'export') {
                 const summary = await backupManager.exportNamespace(
                   env,
-                  resolved.instance
+                  resolved.instance,
+                  { incremental: resolved.url.searchParams.get('incremental') === '1' }
                 )
                 await backupManager.pruneBackups(env, resolved.instance)
                 return Response.json({ ok: true, ...summary })
               }
+              if (action === 'pitr') {
+                if (request.method !== 'POST') {
+                  return new Response('pitr requires POST', { status: 405 })
+                }
+                const body = await request.json().catch(() => null)
+                const at = isRecord(body) ? body.at : undefined
+                if (typeof at !== 'string' && typeof at !== 'number') {
+                  return new Response('pitr requires an at timestamp', { status: 400 })
+                }
+                // The restore lands in a fresh namespace: a named target, or the
+                // source itself once it has been emptied.
+                const target = canonical(
+                  isRecord(body) && body.target !== undefined
+                    ? String(body.target)
+                    : resolved.instance
+                )
+                const confirmation = resolved.url.searchParams.get('confirm')
+                if (!confirmation || canonical(confirmation) !== target) {
+                  return new Response(`pitr requires ?confirm=${target}`, { status: 400 })
+                }
+                const summary = await backupManager.restoreToTime(
+                  env,
+                  resolved.instance,
+                  at,
+                  { target }
+                )
+                await env.ZERO_SQL_DO.get(
+                  env.ZERO_SQL_DO.idFromName(target)
+                ).orezRunApplicationSchema(options.schema.version, target, {
+                  force: true,
+                })
+                return Response.json(summary)
+              }
               if (request.method !== 'POST') {
                 return new Response('restore requires POST', { status: 405 })
               }
@@ -1327,6 +1729,7 @@ export function createOrezDataWorker<
     scheduled: worker.scheduled,
     applicationSqlClient,
     ensureNamespaceSchema,
+    cloneNamespace,
     backupManager,
   }
 }
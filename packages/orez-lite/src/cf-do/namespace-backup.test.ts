@@ -3,14 +3,15 @@ import { sha256 } from '@noble/hashes/sha2.js'
 import BedrockSqlite from 'bedrock-sqlite'
 import { describe, expect, it, vi } from 'vitest'
 
+import { createBackupSealer, openBackupBody } from './backup-seal.js'
 import {
   createNamespaceBackupManager,
   type NamespaceBackupBucket,
   type NamespaceBackupStatement,
 } from './namespace-backup.js'
 
-function stream(text: string): ReadableStream<Uint8Array> {
-  const bytes = new TextEncoder().encode(text)
+function stream(text: string | Uint8Array): ReadableStream<Uint8Array> {
+  const bytes = typeof text === 'string' ? new TextEncoder().encode(text) : text
   return new ReadableStream({
     start(controller) {
       controller.enqueue(bytes)
@@ -68,14 +69,17 @@ function unsignedDump(lines: unknown[]): string {
   return `${lines.map((line) => JSON.stringify(line)).join('\n')}\n`
 }
 
-function writableBucket() {
+// `pointers` holds every object as text for inspection; sealed objects keep
+// their bytes beside it. Listings and deletes are capped per call like R2's.
+function writableBucket(pageKeys = 1000) {
   const pointers = new Map<string, string>()
+  const binary = new Map<string, Uint8Array>()
   const bucket: NamespaceBackupBucket = {
     async get(key) {
       const value = pointers.get(key)
       return value
         ? {
-            body: stream(value),
+            body: stream(binary.get(key) ?? value),
             async json() {
               return JSON.parse(value)
             },
@@ -102,19 +106,38 @@ function writableBucket() {
             offset += value.byteLength
           }
           pointers.set(key, new TextDecoder().decode(bytes))
+          binary.set(key, bytes)
         },
         async abort() {},
       }
     },
     async put(key, value) {
-      pointers.set(key, value)
+      pointers.set(
+        key,
+        typeof value === 'string' ? value : new TextDecoder().decode(value)
+      )
+      if (typeof value === 'string') binary.delete(key)
+      else binary.set(key, value)
     },
-    async list() {
-      return { objects: [] }
+    async list({ prefix, cursor }) {
+      const keys = [...pointers.keys()].filter((key) => key.startsWith(prefix)).sort()
+      const start = Number(cursor ?? 0)
+      const end = start + pageKeys
+      return {
+        objects: keys.slice(start, end).map((key) => ({ key })),
+        truncated: end < keys.length,
+        cursor: end < keys.length ? String(end) : undefined,
+      }
+    },
+    async delete(keys) {
+      if (keys.length > 1000) throw new Error('at most 1000 keys per delete')
+      for (const key of keys) {
+        pointers.delete(key)
+        binary.delete(key)
+      }
     },
-    async delete() {},
   }
-  return { bucket, pointers }
+  return { bucket, pointers, binary }
 }
 
 const BetterSqlite3 = BedrockSqlite.Database
@@ -132,19 +155,24 @@ function backupManager<Env>(options: any) {
 }
 
 function realSqliteManager(
-  db: InstanceType<typeof BetterSqlite3>,
+  db:
+    | InstanceType<typeof BetterSqlite3>
+    | Record<string, InstanceType<typeof BetterSqlite3>>,
   bucket: NamespaceBackupBucket,
   batchSizes: number[] = [],
-  metrics?: { queries: string[]; rowsRead: number }
+  metrics?: { queries: string[]; rowsRead: number },
+  overrides: Record<string, unknown> = {}
 ) {
+  const dbFor = (namespace: string) => (db instanceof BetterSqlite3 ? db : db[namespace]!)
   return backupManager({
+    ...overrides,
     format: 'test-v3',
     markerTable: '_test_backup_meta',
     excludedTables: ['_test_backup_meta'],
     files: () => bucket,
-    query: async (_env, _namespace, sql, params) => {
+    query: async (_env, namespace, sql, params) => {
       metrics?.queries.push(sql)
-      const statement = db.prepare(sql)
+      const statement = dbFor(namespace).prepare(sql)
       if (statement.reader) {
         const rows = statement.all(...params)
         if (metrics) metrics.rowsRead += rows.length
@@ -153,16 +181,17 @@ function realSqliteManager(
       statement.run(...params)
       return []
     },
-    batch: async (_env, _namespace, statements) => {
+    batch: async (_env, namespace, statements) => {
       batchSizes.push(statements.length)
-      db.exec('BEGIN')
+      const target = dbFor(namespace)
+      target.exec('BEGIN')
       try {
         for (const statement of statements) {
-          db.prepare(statement.sql).run(...(statement.params ?? []))
+          target.prepare(statement.sql).run(...(statement.params ?? []))
         }
-        db.exec('COMMIT')
+        target.exec('COMMIT')
       } catch (error) {
-        db.exec('ROLLBACK')
+        target.exec('ROLLBACK')
         throw error
       }
     },
@@ -185,6 +214,7 @@ describe('namespace backup export', () => {
             { name: 'message', sql: 'CREATE TABLE message (id TEXT)', type: 'table' },
           ]
         }
+        if (sql.includes('FROM _zero_changes')) return [{ head: 0, oldest: null }]
         if (sql.includes('FROM "empty"')) return []
         if (sql.includes('FROM "message"')) {
           return Number(params[0]) === 0 ? [{ __orez_backup_rowid: 1, id: 'one' }] : []
@@ -231,6 +261,7 @@ describe('namespace backup export', () => {
             },
           ]
         }
+        if (sql.includes('FROM _zero_changes')) return [{ head: 0, oldest: null }]
         if (sql.startsWith('PRAGMA table_info')) {
           return [
             { name: 'tenant', pk: 1 },
@@ -831,3 +862,496 @@ describe('namespace backup restore', () => {
     expect(query).not.toHaveBeenCalled()
   })
 })
+
+// Stands in for the durable object's CDC triggers: every write to a
+// published table lands in _zero_changes under its schema-qualified name.
+function changeLoggedDatabase() {
+  const db = new BetterSqlite3(':memory:')
+  db.exec('PRAGMA foreign_keys = ON')
+  db.exec(
+    'CREATE TABLE _zero_changes (watermark INTEGER PRIMARY KEY AUTOINCREMENT, table_name TEXT NOT NULL, op TEXT NOT NULL, row_data TEXT, old_data TEXT, created_at INTEGER NOT NULL DEFAULT (unixepoch()))'
+  )
+  db.exec(
+    'CREATE TABLE _orez_cdc_tables (physical_table TEXT PRIMARY KEY, table_name TEXT NOT NULL, publish INTEGER NOT NULL)'
+  )
+  db.exec('CREATE TABLE _test_backup_meta (id INTEGER PRIMARY KEY, write_seq INTEGER)')
+  db.exec('CREATE TABLE account (id TEXT PRIMARY KEY, name TEXT NOT NULL)')
+  db.exec(
+    'CREATE TABLE note (id TEXT PRIMARY KEY, accountId TEXT NOT NULL REFERENCES account(id), body TEXT)'
+  )
+  db.exec('CREATE TABLE setting (name TEXT, value TEXT)')
+  db.exec('CREATE TABLE badge (id TEXT PRIMARY KEY, icon BLOB, weight REAL)')
+  for (const [table, columns] of [
+    ['account', ['id', 'name']],
+    ['note', ['id', 'accountId', 'body']],
+    ['badge', ['id', 'icon', 'weight']],
+  ] as const) {
+    // blobs travel as bytea text and infinities by name, as journalToWire writes them
+    const image = (row: string) =>
+      `json_object(${columns
+        .map(
+          (column) =>
+            `'${column}', CASE WHEN typeof(${row}."${column}") = 'blob' THEN '\\x' || lower(hex(${row}."${column}")) WHEN ${row}."${column}" = 1e999 THEN 'Infinity' ELSE ${row}."${column}" END`
+        )
+        .join(', ')})`
+    db.exec(
+      `INSERT INTO _orez_cdc_tables VALUES ('${table}', 'public.${table}', 1);` +
+        `CREATE TRIGGER ${table}_insert AFTER INSERT ON ${table} BEGIN INSERT INTO _zero_changes (table_name, op, row_data) VALUES ('public.${table}', 'INSERT', ${image('NEW')}); END;` +
+        `CREATE TRIGGER ${table}_update AFTER UPDATE ON ${table} BEGIN INSERT INTO _zero_changes (table_name, op, row_data, old_data) VALUES ('public.${table}', 'UPDATE', ${image('NEW')}, ${image('OLD')}); END;` +
+        `CREATE TRIGGER ${table}_delete AFTER DELETE ON ${table} BEGIN INSERT INTO _zero_changes (table_name, op, old_data) VALUES ('public.${table}', 'DELETE', ${image('OLD')}); END;`
+    )
+  }
+  return db
+}
+
+function rowsOf(db: InstanceType<typeof BetterSqlite3>, table: string) {
+  return db.prepare(`SELECT * FROM "${table}" ORDER BY 1`).all()
+}
+
+// dump keys are millisecond stamps
+const nextMillisecond = () => new Promise((resolve) => setTimeout(resolve, 2))
+
+describe('incremental namespace backups', () => {
+  it('ships only changed rows and restores the full dump plus its chain', async () => {
+    const db = changeLoggedDatabase()
+    const stored = writableBucket()
+    const manager = realSqliteManager(db, stored.bucket)
+    db.exec(
+      "INSERT INTO account VALUES ('a1', 'Ada'), ('a2', 'Grace');" +
+        "INSERT INTO note VALUES ('n1', 'a1', 'first'), ('n2', 'a2', 'second');" +
+        "INSERT INTO setting VALUES ('theme', 'dark')"
+    )
+    const full = await manager.exportNamespace({}, 'singleton')
+    expect(full).toMatchObject({ type: 'full', links: 0, watermark: 4 })
+
+    await nextMillisecond()
+    db.exec(
+      "UPDATE account SET name = 'Ada L' WHERE id = 'a1';" +
+        "DELETE FROM note WHERE id = 'n2';" +
+        "DELETE FROM account WHERE id = 'a2';" +
+        "INSERT INTO note VALUES ('n3', 'a1', 'third');" +
+        "UPDATE setting SET value = 'light'"
+    )
+    const first = await manager.exportNamespace({}, 'singleton', { incremental: true })
+    expect(first).toMatchObject({
+      type: 'incremental',
+      base: full.key,
+      links: 1,
+      watermark: 8,
+      tableRows: { account: 1, note: 1, setting: 1 },
+    })
+    const firstLines = (stored.pointers.get(first.key) ?? '')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+    expect(firstLines.filter((line) => line.kind === 'deletes')).toEqual([
+      { kind: 'deletes', table: 'account', keys: [['a2']] },
+      { kind: 'deletes', table: 'note', keys: [['n2']] },
+    ])
+
+    await nextMillisecond()
+    db.exec("UPDATE note SET body = 'third, edited' WHERE id = 'n3'")
+    const second = await manager.exportNamespace({}, 'singleton', { incremental: true })
+    expect(second).toMatchObject({ type: 'incremental', base: first.key, links: 2 })
+    expect(second.key).toMatch(/\/\d+\.after-\d+\.ndjson$/)
+
+    const restored = new BetterSqlite3(':memory:')
+    restored.exec('PRAGMA foreign_keys = ON')
+    const summary = await realSqliteManager(restored, stored.bucket).importNamespace(
+      {},
+      'singleton',
+      second.key
+    )
+
+    expect(summary.chain).toEqual([full.key, first.key, second.key])
+    for (const table of ['account', 'note', 'setting']) {
+      expect(rowsOf(restored, table)).toEqual(rowsOf(db, table))
+    }
+    db.close()
+    restored.close()
+  })
+
+  it('starts a new chain when the change log no longer reaches the base', async () => {
+    const db = changeLoggedDatabase()
+    const stored = writableBucket()
+    const manager = realSqliteManager(db, stored.bucket)
+    db.exec("INSERT INTO account VALUES ('a1', 'Ada')")
+    await manager.exportNamespace({}, 'singleton')
+
+    await nextMillisecond()
+    db.exec("INSERT INTO account VALUES ('a2', 'Grace'), ('a3', 'Edsger')")
+    db.exec('DELETE FROM _zero_changes WHERE watermark <= 2')
+    const summary = await manager.exportNamespace({}, 'singleton', {
+      incremental: true,
+    })
+
+    expect(summary).toMatchObject({ type: 'full', links: 0, tableRows: { account: 3 } })
+    db.close()
+  })
+
+  it('refuses a chain whose base dump is gone before touching the namespace', async () => {
+    const stored = writableBucket()
+    stored.pointers.set(
+      'backups/singleton/200.after-100.ndjson',
+      dump([
+        {
+          kind: 'header',
+          format: 'test-v3',
+          ns: 'singleton',
+          orderedTables: true,
+          incremental: { base: 'backups/singleton/100.ndjson', from: 0 },
+        },
+        { kind: 'footer', tables: 0, rows: 0 },
+      ])
+    )
+    const batch = vi.fn(async () => {})
+    const manager = backupManager({
+      format: 'test-v3',
+      markerTable: '_test_backup_meta',
+      files: () => stored.bucket,
+      query: async () => [],
+      batch,
+      listNamespaces: async () => ['singleton'],
+    })
+
+    await expect(
+      manager.importNamespace({}, 'singleton', 'backups/singleton/200.after-100.ndjson')
+    ).rejects.toThrow('backup chain is broken')
+    expect(batch).not.toHaveBeenCalled()
+  })
+
+  it('prunes a dump only once no retained incremental depends on it', async () => {
+    const stored = writableBucket()
+    for (const key of [
+      '100.ndjson',
+      '200.after-100.ndjson',
+      '300.after-200.ndjson',
+      '400.ndjson',
+      '500.after-400.ndjson',
+      'latest.json',
+    ]) {
+      stored.pointers.set(`backups/singleton/${key}`, '{}')
+    }
+    const managerKeeping = (keep: number) =>
+      backupManager({
+        format: 'test-v3',
+        markerTable: '_test_backup_meta',
+        files: () => stored.bucket,
+        query: async () => [],
+        batch: async () => {},
+        listNamespaces: async () => ['singleton'],
+        keepControlPlane: keep,
+      })
+
+    await managerKeeping(3).pruneBackups({}, 'singleton')
+    expect(stored.pointers.size).toBe(6)
+
+    await managerKeeping(2).pruneBackups({}, 'singleton')
+    expect([...stored.pointers.keys()]).toEqual([
+      'backups/singleton/400.ndjson',
+      'backups/singleton/500.after-400.ndjson',
+      'backups/singleton/latest.json',
+    ])
+  })
+})
+
+describe('point-in-time namespace restore', () => {
+  it('replays archived changes up to the requested instant into a fresh namespace', async () => {
+    const db = changeLoggedDatabase()
+    const stored = writableBucket()
+    db.exec(
+      "INSERT INTO account VALUES ('a1', 'Ada');" +
+        "INSERT INTO note VALUES ('n1', 'a1', 'keep me');" +
+        "INSERT INTO setting VALUES ('theme', 'dark')"
+    )
+    const target = new BetterSqlite3(':memory:')
+    const manager = realSqliteManager({ singleton: db, restored: target }, stored.bucket)
+    const full = await manager.exportNamespace({}, 'singleton')
+
+    db.exec(
+      "UPDATE account SET name = 'Ada L' WHERE id = 'a1';" +
+        "INSERT INTO badge VALUES ('b1', x'00ff10', 1e999)"
+    )
+    const first = await manager.archiveChanges({}, 'singleton')
+    expect(first).toMatchObject({ changes: 4, segments: 1 })
+
+    // the bad deploy, committed after the instant being restored to
+    db.exec("DELETE FROM note WHERE id = 'n1'")
+    const at = Date.now()
+    db.prepare('UPDATE _zero_changes SET created_at = ? WHERE watermark > ?').run(
+      Math.ceil(at / 1000) + 60,
+      full.watermark + 2
+    )
+
+    const summary = await manager.restoreToTime({}, 'singleton', at, {
+      target: 'restored',
+    })
+
+    expect(summary).toMatchObject({
+      ns: 'restored',
+      key: full.key,
+      restoredTo: new Date(at).toISOString(),
+      replayed: 2,
+    })
+    expect(summary.unarchivedTables).toContain('setting')
+    expect(rowsOf(target, 'account')).toEqual([{ id: 'a1', name: 'Ada L' }])
+    expect(rowsOf(target, 'note')).toEqual([
+      { id: 'n1', accountId: 'a1', body: 'keep me' },
+    ])
+    expect(rowsOf(target, 'badge')).toEqual([
+      { id: 'b1', icon: Buffer.from([0x00, 0xff, 0x10]), weight: Infinity },
+    ])
+    expect(rowsOf(target, 'setting')).toEqual([{ name: 'theme', value: 'dark' }])
+    db.close()
+    target.close()
+  })
+
+  it('refuses to replay across a missing archive segment', async () => {
+    const db = changeLoggedDatabase()
+    const stored = writableBucket()
+    const target = new BetterSqlite3(':memory:')
+    const manager = realSqliteManager({ singleton: db, restored: target }, stored.bucket)
+    await manager.exportNamespace({}, 'singleton')
+    db.exec("INSERT INTO account VALUES ('a1', 'Ada')")
+    await manager.archiveChanges({}, 'singleton')
+    db.exec("INSERT INTO account VALUES ('a2', 'Grace')")
+    await manager.archiveChanges({}, 'singleton')
+    const segments = [...stored.pointers.keys()].filter((key) =>
+      /\/archive\/\d+-\d+\.ndjson$/.test(key)
+    )
+    expect(segments).toHaveLength(2)
+    stored.pointers.delete(segments.sort()[0]!)
+
+    await expect(
+      manager.restoreToTime({}, 'singleton', Date.now(), { target: 'restored' })
+    ).rejects.toThrow('is missing changes from watermark 1')
+    expect(rowsOf(target, 'sqlite_master')).toEqual([])
+    db.close()
+    target.close()
+  })
+
+  it('pages through archive listings longer than one page', async () => {
+    const db = changeLoggedDatabase()
+    const stored = writableBucket(2)
+    const target = new BetterSqlite3(':memory:')
+    const manager = realSqliteManager({ singleton: db, restored: target }, stored.bucket)
+    await manager.exportNamespace({}, 'singleton')
+    for (const id of ['a1', 'a2', 'a3', 'a4', 'a5']) {
+      db.exec(`INSERT INTO account VALUES ('${id}', 'Ada')`)
+      await manager.archiveChanges({}, 'singleton')
+    }
+
+    const summary = await manager.restoreToTime({}, 'singleton', Date.now(), {
+      target: 'restored',
+    })
+
+    expect(summary.replayed).toBe(5)
+    expect(rowsOf(target, 'account')).toHaveLength(5)
+    db.close()
+    target.close()
+  })
+
+  it('restores to the millisecond within one second of commits', async () => {
+    const db = changeLoggedDatabase()
+    const stored = writableBucket()
+    const target = new BetterSqlite3(':memory:')
+    const manager = realSqliteManager({ singleton: db, restored: target }, stored.bucket)
+    const full = await manager.exportNamespace({}, 'singleton')
+    db.exec("INSERT INTO account VALUES ('a1', 'Ada')")
+    db.exec("INSERT INTO account VALUES ('a2', 'Grace')")
+    // a change log created with millisecond commit times
+    const at = Date.now()
+    const stamp = db.prepare(
+      'UPDATE _zero_changes SET created_at = ? WHERE watermark = ?'
+    )
+    stamp.run(at - 400, full.watermark + 1)
+    stamp.run(at + 400, full.watermark + 2)
+
+    const summary = await manager.restoreToTime({}, 'singleton', at, {
+      target: 'restored',
+    })
+
+    expect(summary.replayed).toBe(1)
+    expect(rowsOf(target, 'account')).toEqual([{ id: 'a1', name: 'Ada' }])
+    db.close()
+    target.close()
+  })
+
+  it('refuses to archive once the change log no longer reaches the cursor', async () => {
+    const db = changeLoggedDatabase()
+    const manager = realSqliteManager(db, writableBucket().bucket)
+    db.exec("INSERT INTO account VALUES ('a1', 'Ada')")
+    await manager.archiveChanges({}, 'singleton')
+    db.exec("INSERT INTO account VALUES ('a2', 'Grace')")
+    db.exec("INSERT INTO account VALUES ('a3', 'Hopper')")
+    // pruned before the second change was archived
+    db.exec('DELETE FROM _zero_changes WHERE watermark <= 2')
+
+    await expect(manager.archiveChanges({}, 'singleton')).rejects.toThrow(
+      'change log no longer reaches the archive cursor 1'
+    )
+    db.close()
+  })
+})
+
+describe('sealed namespace backups', () => {
+  const keys = {
+    current: { id: 'backup-key-2', key: new Uint8Array(32).fill(7) },
+    retired: { id: 'backup-key-1', key: new Uint8Array(32).fill(3) },
+  }
+  const sealing = {
+    compression: 'gzip',
+    encryption: async (_env: unknown, keyId?: string) =>
+      keyId === keys.retired.id ? keys.retired : keys.current,
+  }
+
+  it('opens a sealed object that arrives in small chunks', async () => {
+    const sealer = (await createBackupSealer({
+      compression: 'gzip',
+      key: keys.current,
+    }))!
+    const lines = [
+      '{"kind":"header"}\n',
+      `${'x'.repeat(50_000)}\n`,
+      '{"kind":"footer"}\n',
+    ]
+    const encoder = new TextEncoder()
+    const sealed = [sealer.manifestLine]
+    for (const line of lines) sealed.push(await sealer.seal(encoder.encode(line)))
+    const bytes = new Uint8Array(
+      sealed.reduce((total, part) => total + part.byteLength, 0)
+    )
+    let offset = 0
+    for (const part of sealed) {
+      bytes.set(part, offset)
+      offset += part.byteLength
+    }
+    // three bytes a read, so frame lengths and frames straddle every chunk edge
+    let position = 0
+    const chunked = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (position >= bytes.byteLength) return controller.close()
+        controller.enqueue(bytes.slice(position, position + 3))
+        position += 3
+      },
+    })
+
+    const plain = await new Response(
+      await openBackupBody(chunked, async () => keys.current)
+    ).text()
+    expect(plain).toBe(lines.join(''))
+  })
+
+  it('compresses and encrypts dumps and archive segments, then restores them', async () => {
+    const db = changeLoggedDatabase()
+    const stored = writableBucket()
+    const body = 'private note '.repeat(2_000)
+    db.exec("INSERT INTO account VALUES ('a1', 'Ada')")
+    db.prepare("INSERT INTO note VALUES ('n1', 'a1', ?)").run(body)
+    const target = new BetterSqlite3(':memory:')
+    const manager = realSqliteManager(
+      { singleton: db, restored: target },
+      stored.bucket,
+      [],
+      undefined,
+      sealing
+    )
+
+    const summary = await manager.exportNamespace({}, 'singleton')
+    db.exec("UPDATE account SET name = 'Ada L' WHERE id = 'a1'")
+    await manager.archiveChanges({}, 'singleton')
+
+    expect(summary.seal).toEqual({
+      compression: 'gzip',
+      encryption: { scheme: 'aes-256-gcm', keyId: 'backup-key-2' },
+    })
+    expect(summary.storedBytes).toBeLessThan(summary.bytes / 10)
+    const objects = [...stored.pointers.entries()].filter(([key]) =>
+      key.endsWith('.ndjson')
+    )
+    expect(objects).toHaveLength(2)
+    for (const [, text] of objects) {
+      expect(JSON.parse(text.slice(0, text.indexOf('\n')))).toMatchObject({
+        kind: 'sealed',
+        compression: 'gzip',
+        encryption: { scheme: 'aes-256-gcm', keyId: 'backup-key-2' },
+      })
+      expect(text).not.toContain('private note')
+      expect(text).not.toContain('Ada')
+    }
+
+    const restored = await manager.restoreToTime({}, 'singleton', Date.now(), {
+      target: 'restored',
+    })
+
+    expect(restored).toMatchObject({ key: summary.key, replayed: 1 })
+    expect(rowsOf(target, 'account')).toEqual([{ id: 'a1', name: 'Ada L' }])
+    expect(rowsOf(target, 'note')).toEqual([{ id: 'n1', accountId: 'a1', body }])
+    db.close()
+    target.close()
+  })
+
+  it('restores plain and retired-key dumps and refuses one it cannot open', async () => {
+    const db = changeLoggedDatabase()
+    db.exec("INSERT INTO account VALUES ('a1', 'Ada')")
+    const stored = writableBucket()
+    const plain = await realSqliteManager(db, stored.bucket).exportNamespace(
+      {},
+      'singleton'
+    )
+    const retired = await realSqliteManager(db, stored.bucket, [], undefined, {
+      encryption: async () => keys.retired,
+    }).exportNamespace({}, 'singleton')
+    expect(plain.seal).toBeUndefined()
+    expect(retired.seal).toEqual({
+      compression: null,
+      encryption: { scheme: 'aes-256-gcm', keyId: 'backup-key-1' },
+    })
+
+    for (const key of [plain.key, retired.key]) {
+      const target = new BetterSqlite3(':memory:')
+      const restore = realSqliteManager(target, stored.bucket, [], undefined, sealing)
+      await restore.importNamespace({}, 'singleton', key)
+      expect(rowsOf(target, 'account')).toEqual([{ id: 'a1', name: 'Ada' }])
+      target.close()
+    }
+
+    await expect(
+      realSqliteManager(new BetterSqlite3(':memory:'), stored.bucket).importNamespace(
+        {},
+        'singleton',
+        retired.key
+      )
+    ).rejects.toThrow(
+      'backup is encrypted with key backup-key-1 but no backup encryption is configured'
+    )
+    await expect(
+      realSqliteManager(new BetterSqlite3(':memory:'), stored.bucket, [], undefined, {
+        encryption: async () => ({ id: 'backup-key-1', key: new Uint8Array(32) }),
+      }).importNamespace({}, 'singleton', retired.key)
+    ).rejects.toThrow('backup data key does not unwrap with encryption key backup-key-1')
+    db.close()
+  })
+
+  it('refuses a sealed dump whose frame was altered', async () => {
+    const db = changeLoggedDatabase()
+    db.exec("INSERT INTO account VALUES ('a1', 'Ada')")
+    const stored = writableBucket()
+    const manager = realSqliteManager(db, stored.bucket, [], undefined, sealing)
+    const { key } = await manager.exportNamespace({}, 'singleton')
+    const sealed = stored.binary.get(key)!
+    sealed[sealed.length - 1]! ^= 1
+
+    const target = new BetterSqlite3(':memory:')
+    await expect(
+      realSqliteManager(target, stored.bucket, [], undefined, sealing).importNamespace(
+        {},
+        'singleton',
+        key
+      )
+    ).rejects.toThrow('sealed backup frame 0 failed authentication')
+    expect(rowsOf(target, 'sqlite_master')).toEqual([])
+    db.close()
+    target.close()
+  })
+})
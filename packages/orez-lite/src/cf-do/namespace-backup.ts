@@ -1,5 +1,13 @@
 import { sha256 } from '@noble/hashes/sha2.js'
 
+import {
+  createBackupSealer,
+  openBackupBody,
+  type BackupCompression,
+  type BackupEncryptionKey,
+} from './backup-seal.js'
+import { changeCommitTimeMs } from './watermark.js'
+
 export interface NamespaceBackupStatement {
   sql: string
   params?: readonly unknown[]
@@ -19,10 +27,14 @@ export interface NamespaceBackupBucket {
     abort(): Promise<unknown>
   }>
   get(key: string): Promise<NamespaceBackupObject | null>
-  put(key: string, value: string): Promise<unknown>
-  list(options: { prefix: string }): Promise<{
+  put(key: string, value: string | Uint8Array): Promise<unknown>
+  /** One page of keys; a `truncated` page continues from its `cursor`. */
+  list(options: { prefix: string; cursor?: string }): Promise<{
     objects?: readonly { key: string }[]
+    truncated?: boolean
+    cursor?: string
   }>
+  /** R2 deletes at most 1000 keys per call. */
   delete(keys: readonly string[]): Promise<unknown>
 }
 
@@ -35,7 +47,27 @@ export interface NamespaceBackupSummary {
   rows: number
   tableRows: Record<string, number>
   bytes: number
+  /** Object size after compression and encryption; `bytes` for a plain dump. */
+  storedBytes: number
   parts: number
+  /** How the object is sealed. Plain dumps, and every dump written before sealing existed, omit it. */
+  seal?: NamespaceBackupSeal
+  /**
+   * An incremental dump holds only the rows changed since `base`, and restores
+   * only on top of it. Summaries written before incremental backups are full.
+   */
+  type: 'full' | 'incremental'
+  base?: string
+  /** `_zero_changes` head the dump is consistent with. */
+  watermark: number
+  schemaDigest: string
+  /** Incremental dumps between this one and the full dump its chain starts from. */
+  links: number
+}
+
+export interface NamespaceBackupSeal {
+  compression: BackupCompression | null
+  encryption: { scheme: 'aes-256-gcm'; keyId: string } | null
 }
 
 export interface NamespaceRestoreSummary {
@@ -46,11 +78,35 @@ export interface NamespaceRestoreSummary {
   tables: number
   rows: number
   counts: Record<string, number>
+  /** Every dump applied, from the full backup to `key`. */
+  chain: string[]
+}
+
+export interface NamespaceArchiveSummary {
+  ns: string
+  /** Change-log position the archive now reaches. */
+  watermark: number
+  changes: number
+  segments: number
+  /** Every change committed before this instant is archived. */
+  archivedAt: string
+}
+
+export interface NamespacePointInTimeRestoreSummary extends NamespaceRestoreSummary {
+  restoredTo: string
+  /** Archived changes replayed on top of the backup `key`. */
+  replayed: number
+  /** Tables that never reach the change log, left as of the backup. */
+  unarchivedTables: string[]
 }
 
 export interface NamespaceBackupOptions<Env> {
   format: string
-  /** Older on-disk formats accepted for restore but never emitted. */
+  /**
+   * Older on-disk formats accepted for restore but never emitted. Sealing is
+   * recorded in each object's manifest rather than its format, so one accepted
+   * format covers plain and sealed objects alike.
+   */
   acceptedFormats?: readonly string[]
   markerTable: string
   files(env: Env): NamespaceBackupBucket
@@ -95,18 +151,60 @@ export interface NamespaceBackupOptions<Env> {
   runBudgetMs?: number
   partBytes?: number
   chunkTargetBytes?: number
+  /**
+   * Scheduled runs export incremental dumps chained off the latest backup and
+   * start a new chain with a full dump after this many links. Unset, every
+   * scheduled backup is full.
+   */
+  fullBackupEvery?: number
+  /**
+   * Archive committed change-log entries to the bucket for point-in-time
+   * restore. The data worker's Durable Object archives `delayMs` after a
+   * published commit; scheduled runs archive every namespace as well.
+   */
+  archive?: { delayMs?: number }
+  /** Compress every dump part and archive segment before it is written. */
+  compression?: BackupCompression
+  /**
+   * Supply the key-encryption key for sealing new objects, or, given the
+   * `keyId` recorded in an object's manifest, the key it was sealed with. Each
+   * object is encrypted under its own data key, wrapped by this one.
+   */
+  encryption?(env: Env, keyId?: string): Promise<BackupEncryptionKey>
 }
 
 export interface NamespaceBackupManager<Env> {
   backupPrefix(namespace: string): string
   readMarker(env: Env, namespace: string): Promise<number>
-  exportNamespace(env: Env, namespace: string): Promise<NamespaceBackupSummary>
+  /**
+   * An incremental export falls back to a full one when the latest backup
+   * cannot be chained off: no change-log position, a schema change since, a
+   * restore since, or a change log that no longer reaches back to it.
+   */
+  exportNamespace(
+    env: Env,
+    namespace: string,
+    options?: { incremental?: boolean }
+  ): Promise<NamespaceBackupSummary>
   importNamespace(
     env: Env,
     namespace: string,
     key: string,
     options?: { allowNonEmpty?: boolean }
   ): Promise<NamespaceRestoreSummary>
+  /** Copy change-log entries committed since the last run to the bucket. */
+  archiveChanges(env: Env, namespace: string): Promise<NamespaceArchiveSummary>
+  /**
+   * Restore the latest backup taken before `at` into the fresh `target`
+   * namespace, then replay archived changes committed up to `at`. Commit times
+   * are milliseconds; changes logged before that keep whole seconds.
+   */
+  restoreToTime(
+    env: Env,
+    namespace: string,
+    at: Date | number | string,
+    options?: { target?: string }
+  ): Promise<NamespacePointInTimeRestoreSummary>
   pruneBackups(env: Env, namespace: string): Promise<void>
   runScheduledBackups(env: Env): Promise<{
     exported: number
@@ -115,7 +213,31 @@ export interface NamespaceBackupManager<Env> {
   }>
 }
 
-const REPLICATION_BOOKKEEPING_TABLES = new Set([
+/** One change-log entry as an archive segment carries it. */
+type ArchivedChange = {
+  watermark: number
+  table: string
+  op: string
+  row: Record<string, unknown> | null
+  old: Record<string, unknown> | null
+  /** Commit time, epoch milliseconds. */
+  at: number
+}
+
+/** An archive segment is a header, batches of changes, then a footer. */
+type ArchiveLine =
+  | {
+      kind: 'header'
+      format: string
+      integrity: 'sha256'
+      ns: string
+      archive: { from: number; to: number }
+      archivedAt: string
+    }
+  | { kind: 'changes'; changes: ArchivedChange[] }
+  | { kind: 'footer'; changes: number; sha256: string }
+
+export const REPLICATION_BOOKKEEPING_TABLES: ReadonlySet<string> = new Set([
   '_zero_changes',
   '_zero_pending_changes',
   '_zero_change_state',
@@ -124,14 +246,142 @@ const REPLICATION_BOOKKEEPING_TABLES = new Set([
   '_orez__zero_replication_slots',
 ])
 
-function quoteIdentifier(value: string) {
+/**
+ * Storage a copy of a namespace never carries: SQLite and workerd internals,
+ * transaction journals, Zero's per-client state and replication bookkeeping.
+ */
+export function isNamespaceInternalTable(table: string): boolean {
+  return (
+    table.startsWith('sqlite_') ||
+    table.startsWith('_cf_') ||
+    table.startsWith('_orez_tx_') ||
+    /^[A-Za-z0-9_]+_0\.(?:clients|mutations)$/.test(table) ||
+    REPLICATION_BOOKKEEPING_TABLES.has(table)
+  )
+}
+
+export function quoteIdentifier(value: string) {
   return value.replaceAll('"', '""')
 }
 
-function errorMessage(error: unknown) {
+export function errorMessage(error: unknown) {
   return error instanceof Error ? error.message : String(error)
 }
 
+type SessionQuery = (
+  sql: string,
+  params?: readonly unknown[]
+) => Promise<Record<string, any>[]>
+
+/** Application tables a namespace holds now, with their CREATE statements. */
+export async function liveApplicationTables<Env>(
+  options: Pick<NamespaceBackupOptions<Env>, 'query'>,
+  env: Env,
+  namespace: string,
+  isExcluded: (table: string) => boolean
+): Promise<Array<{ name: string; sql: unknown }>> {
+  return (
+    await options.query(
+      env,
+      namespace,
+      "SELECT name, sql FROM sqlite_master WHERE type = 'table' AND sql IS NOT NULL ORDER BY name",
+      []
+    )
+  )
+    .map((row) => ({ name: String(row.name ?? ''), sql: row.sql }))
+    .filter((row) => row.name && !isExcluded(row.name))
+}
+
+/** Empty the change log and replication positions a namespace already holds. */
+export async function clearReplicationBookkeeping<Env>(
+  options: Pick<NamespaceBackupOptions<Env>, 'query'>,
+  env: Env,
+  namespace: string
+) {
+  for (const name of REPLICATION_BOOKKEEPING_TABLES) {
+    try {
+      await options.query(env, namespace, `DELETE FROM "${quoteIdentifier(name)}"`, [])
+    } catch {
+      // Fresh namespaces do not have every bookkeeping table.
+    }
+  }
+}
+
+async function readPrimaryKey(read: SessionQuery, name: string) {
+  return (await read(`PRAGMA table_info("${quoteIdentifier(name)}")`, []))
+    .filter((column) => Number(column.pk) > 0)
+    .sort((left, right) => Number(left.pk) - Number(right.pk))
+    .map((column) => String(column.name))
+}
+
+/**
+ * Read one table in pages, by rowid or, for a WITHOUT ROWID table, by primary
+ * key. `pageRows` is asked before every page, so a caller can size the next
+ * page from the last one.
+ */
+export async function* tablePages(
+  read: SessionQuery,
+  name: string,
+  createSql: unknown,
+  pageRows: () => number
+): AsyncGenerator<Record<string, unknown>[]> {
+  const withoutRowid = /\bWITHOUT\s+ROWID\b/i.test(String(createSql))
+  const primaryKey = withoutRowid ? await readPrimaryKey(read, name) : []
+  if (withoutRowid && primaryKey.length === 0) {
+    throw new Error(`WITHOUT ROWID table ${name} has no primary key`)
+  }
+  const quotedPrimaryKey = primaryKey
+    .map((column) => `"${quoteIdentifier(column)}"`)
+    .join(', ')
+  let rowidCursor: unknown = 0
+  let primaryKeyCursor: unknown[] | null = null
+  while (true) {
+    const limit = pageRows()
+    const rows: Record<string, unknown>[] = withoutRowid
+      ? await read(
+          primaryKeyCursor
+            ? `SELECT * FROM "${quoteIdentifier(name)}" WHERE (${quotedPrimaryKey}) > (${primaryKey.map(() => '?').join(', ')}) ORDER BY ${quotedPrimaryKey} LIMIT ?`
+            : `SELECT * FROM "${quoteIdentifier(name)}" ORDER BY ${quotedPrimaryKey} LIMIT ?`,
+          primaryKeyCursor ? [...primaryKeyCursor, limit] : [limit]
+        )
+      : await read(
+          `SELECT rowid AS __orez_backup_rowid, * FROM "${quoteIdentifier(name)}" WHERE rowid > ? ORDER BY rowid LIMIT ?`,
+          [rowidCursor, limit]
+        )
+    if (rows.length === 0) return
+    if (withoutRowid) {
+      const last = rows.at(-1)!
+      primaryKeyCursor = primaryKey.map((column) => last[column])
+    } else {
+      rowidCursor = rows.at(-1)!.__orez_backup_rowid
+      for (const row of rows) delete row.__orez_backup_rowid
+    }
+    yield rows
+    if (rows.length < limit) return
+  }
+}
+
+// R2 returns and deletes at most 1000 keys per call, and an archive prefix
+// passes that within hours, so every listing follows the cursor.
+const BUCKET_PAGE_KEYS = 1000
+
+async function listKeys(files: NamespaceBackupBucket, prefix: string): Promise<string[]> {
+  const keys: string[] = []
+  let cursor: string | undefined
+  do {
+    const page = await files.list(cursor === undefined ? { prefix } : { prefix, cursor })
+    for (const object of page.objects ?? []) keys.push(object.key)
+    cursor = page.truncated ? page.cursor : undefined
+  } while (cursor !== undefined)
+  return keys
+}
+
+async function deleteKeys(files: NamespaceBackupBucket, keys: readonly string[]) {
+  for (let start = 0; start < keys.length; start += BUCKET_PAGE_KEYS) {
+    await files.delete(keys.slice(start, start + BUCKET_PAGE_KEYS))
+  }
+}
+
 function referencedTables(createSql: unknown): string[] {
   const sql = String(createSql ?? '')
   const references: string[] = []
@@ -207,7 +457,7 @@ function referencedTables(createSql: unknown): string[] {
   return references
 }
 
-function tableDependencies(
+export function tableDependencies(
   createSql: unknown,
   tableName: string,
   namesBySqlIdentity: ReadonlyMap<string, string>
@@ -225,11 +475,11 @@ function tableDependencies(
   ]
 }
 
-function tableIdentities(names: readonly string[]): Map<string, string> {
+export function tableIdentities(names: readonly string[]): Map<string, string> {
   return new Map(names.map((name) => [name.toLowerCase(), name]))
 }
 
-function dependencyOrder(
+export function dependencyOrder(
   names: readonly string[],
   dependencies: ReadonlyMap<string, readonly string[]>
 ): string[] {
@@ -272,6 +522,54 @@ function hex(bytes: Uint8Array): string {
   return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
 }
 
+// A full dump is `<stamp>.ndjson`; an incremental one names the dump it
+// applies on top of, `<stamp>.after-<base stamp>.ndjson`, so pruning and
+// restore can walk a chain from the listing alone.
+const DUMP_KEY = /\/(\d+)(?:\.after-(\d+))?\.(?:ndjson|json)$/
+
+function parseDumpKey(key: string): { stamp: string; base?: string } | null {
+  const match = DUMP_KEY.exec(key)
+  if (!match) return null
+  return match[2] ? { stamp: match[1]!, base: match[2] } : { stamp: match[1]! }
+}
+
+// Change-log images carry Zero wire values (an int64 past 2^53 as decimal
+// text) while SQLite returns storage values, so keys compare as text.
+function primaryKeyIdentity(values: readonly unknown[]): string {
+  return JSON.stringify(values.map((value) => String(value)))
+}
+
+// Archived change-log segments, named by the watermark range they cover.
+const ARCHIVE_SEGMENT_KEY = /\/archive\/(\d+)-(\d+)\.ndjson$/
+
+function archiveSegmentKey(prefix: string, from: number, to: number): string {
+  return `${prefix}archive/${String(from).padStart(16, '0')}-${String(to).padStart(16, '0')}.ndjson`
+}
+
+// Change-log images use the Zero wire encoding. Two values do not survive
+// a plain bind into SQLite: a blob arrives as bytea text and a non-finite
+// double as its name, so both are turned back by the column's affinity.
+function storageValue(declaredType: string, value: unknown): unknown {
+  if (typeof value !== 'string') return value
+  const type = declaredType.toUpperCase()
+  if ((type === '' || type.includes('BLOB')) && /^\\x(?:[0-9a-f]{2})*$/i.test(value)) {
+    const bytes = new Uint8Array((value.length - 2) / 2)
+    for (let index = 0; index < bytes.length; index++) {
+      bytes[index] = Number.parseInt(value.slice(2 + index * 2, 4 + index * 2), 16)
+    }
+    return bytes
+  }
+  if (/REAL|FLOA|DOUB/.test(type)) {
+    if (value === 'Infinity') return Number.POSITIVE_INFINITY
+    if (value === '-Infinity') return Number.NEGATIVE_INFINITY
+    if (value === 'NaN') return Number.NaN
+  }
+  return value
+}
+
+/** The latest backup cannot be chained off; the export starts over in full. */
+class BackupChainBreak extends Error {}
+
 /**
  * Streaming, bounded-memory SQLite namespace backups for Orez Lite.
  *
@@ -295,14 +593,7 @@ export function createNamespaceBackupManager<Env>(
 
   const isExcluded = (name: unknown) => {
     const table = String(name)
-    return (
-      table.startsWith('sqlite_') ||
-      table.startsWith('_cf_') ||
-      table.startsWith('_orez_tx_') ||
-      /^[A-Za-z0-9_]+_0\.(?:clients|mutations)$/.test(table) ||
-      excludedTables.has(table) ||
-      REPLICATION_BOOKKEEPING_TABLES.has(table)
-    )
+    return excludedTables.has(table) || isNamespaceInternalTable(table)
   }
 
   const log = (fields: Record<string, unknown>) => {
@@ -311,10 +602,18 @@ export function createNamespaceBackupManager<Env>(
     )
   }
 
-  type SessionQuery = (
-    sql: string,
-    params?: readonly unknown[]
-  ) => Promise<Record<string, any>[]>
+  const sealingKey = async (env: Env) =>
+    options.encryption ? options.encryption(env) : undefined
+
+  const openBody = (env: Env, body: ReadableStream<Uint8Array>) =>
+    openBackupBody(body, async (keyId) => {
+      if (!options.encryption) {
+        throw new Error(
+          `backup is encrypted with key ${keyId} but no backup encryption is configured`
+        )
+      }
+      return options.encryption(env, keyId)
+    })
 
   const readMarkerWith = async (query: SessionQuery) => {
     try {
@@ -332,204 +631,502 @@ export function createNamespaceBackupManager<Env>(
   const readMarker = (env: Env, namespace: string) =>
     readMarkerWith((sql, params = []) => options.query(env, namespace, sql, params))
 
+  const readSchema = async (read: SessionQuery) => {
+    const master = await read(
+      "SELECT name, sql, type, tbl_name FROM sqlite_master WHERE type IN ('table', 'index') AND sql IS NOT NULL ORDER BY name",
+      []
+    )
+    const unorderedTables = master.filter(
+      (row) => row.type === 'table' && !isExcluded(row.name)
+    )
+    const tableNames = unorderedTables.map((row) => String(row.name))
+    const tableNamesBySqlIdentity = tableIdentities(tableNames)
+    // sqlite_master already carries every CREATE statement in this bounded
+    // schema read. Derive FK edges from those statements instead of asking
+    // pragma_foreign_key_list to re-walk the complete schema once per table.
+    const dependencies = new Map(
+      unorderedTables.map((table) => [
+        String(table.name),
+        tableDependencies(table.sql, String(table.name), tableNamesBySqlIdentity),
+      ])
+    )
+    const orderedNames = dependencyOrder(
+      unorderedTables.map((table) => String(table.name)),
+      dependencies
+    )
+    const tableByName = new Map(
+      unorderedTables.map((table) => [String(table.name), table])
+    )
+    const tables = orderedNames.map((name) => tableByName.get(name)!)
+    const indexes = master.filter(
+      (row) => row.type === 'index' && !isExcluded(row.name) && !isExcluded(row.tbl_name)
+    )
+    const tableIndexes = (name: string) =>
+      indexes.filter((index) => index.tbl_name === name).map((index) => index.sql)
+    // An incremental dump carries no DDL of its own, so it only chains off a
+    // base whose schema is exactly the live one.
+    const encoder = new TextEncoder()
+    const schemaDigest = sha256.create()
+    for (const table of tables) {
+      const name = String(table.name)
+      schemaDigest.update(
+        encoder.encode(`${JSON.stringify([name, table.sql, tableIndexes(name)])}\n`)
+      )
+    }
+    return { tables, tableIndexes, schemaDigest: hex(schemaDigest.digest()) }
+  }
+
+  const readChangeLogBounds = async (read: SessionQuery) => {
+    try {
+      const rows = await read(
+        'SELECT COALESCE(MAX(watermark), 0) AS head, MIN(watermark) AS oldest FROM _zero_changes',
+        []
+      )
+      return {
+        head: Number(rows[0]?.head) || 0,
+        oldest: rows[0]?.oldest == null ? null : Number(rows[0].oldest),
+      }
+    } catch (error) {
+      if (/no such table/i.test(errorMessage(error))) return { head: 0, oldest: null }
+      throw error
+    }
+  }
+
+  // Published tables by the schema-qualified name `_zero_changes` records.
+  // Unpublished tables never reach the change log.
+  const readPublishedTables = async (read: SessionQuery) => {
+    try {
+      const rows = await read(
+        'SELECT physical_table, table_name FROM _orez_cdc_tables WHERE publish != 0',
+        []
+      )
+      return new Map(
+        rows.map((row) => [String(row.physical_table), String(row.table_name)])
+      )
+    } catch (error) {
+      if (/no such table/i.test(errorMessage(error))) return new Map<string, string>()
+      throw error
+    }
+  }
+
+  // The dump an incremental export would chain off, or the reason it cannot.
+  const readChainBase = async (
+    files: NamespaceBackupBucket,
+    namespace: string
+  ): Promise<NamespaceBackupSummary | string> => {
+    let latest: Partial<NamespaceBackupSummary>
+    try {
+      const object = await files.get(`${backupPrefix(namespace)}latest.json`)
+      if (!object) return 'no previous backup'
+      latest = (await object.json()) as Partial<NamespaceBackupSummary>
+    } catch {
+      return 'latest.json is unreadable'
+    }
+    const parsed = parseDumpKey(String(latest.key ?? ''))
+    if (
+      !parsed ||
+      typeof latest.watermark !== 'number' ||
+      typeof latest.schemaDigest !== 'string'
+    ) {
+      return 'previous backup has no change-log position'
+    }
+    const links = Number(latest.links) || 0
+    if (options.fullBackupEvery !== undefined && links >= options.fullBackupEvery) {
+      return `chain reached ${links} incremental backups`
+    }
+    try {
+      const restored = await files.get(`${backupPrefix(namespace)}restored.json`)
+      const restoredAt = restored
+        ? Date.parse(String(((await restored.json()) as { at?: unknown }).at))
+        : NaN
+      // A restore rewrites rows without logging them, so nothing since the
+      // base can be reconstructed from the change log.
+      if (restoredAt >= Date.parse(String(latest.exportedAt))) {
+        return 'namespace was restored after the previous backup'
+      }
+    } catch {
+      return 'restored.json is unreadable'
+    }
+    return { ...(latest as NamespaceBackupSummary), links }
+  }
+
   const exportNamespace = async (
     env: Env,
-    namespace: string
+    namespace: string,
+    exportOptions: { incremental?: boolean } = {}
   ): Promise<NamespaceBackupSummary> => {
     const startedAt = Date.now()
     const files = options.files(env)
     const exportedAt = new Date().toISOString()
-    const key = `${backupPrefix(namespace)}${Date.now()}.ndjson`
+    const base = exportOptions.incremental
+      ? await readChainBase(files, namespace)
+      : 'full export requested'
+    const chainBase = typeof base === 'string' ? null : base
+    const key = chainBase
+      ? `${backupPrefix(namespace)}${Date.now()}.after-${parseDumpKey(chainBase.key)!.stamp}.ndjson`
+      : `${backupPrefix(namespace)}${Date.now()}.ndjson`
+    const fallBack = (reason: string) => {
+      log({ phase: 'export_incremental', outcome: 'full', namespace, reason })
+      return exportNamespace(env, namespace)
+    }
+    if (exportOptions.incremental && typeof base === 'string') return fallBack(base)
+    const sealer = await createBackupSealer({
+      compression: options.compression,
+      key: await sealingKey(env),
+    })
     // One read session for the whole scan. Every page below reads the same
     // committed state, so the dump is a database that actually existed.
-    const scan = await options.readSession(env, namespace, async (read) => {
-      // Read before scanning. A concurrent write then leaves the live marker
-      // ahead of latest.json and guarantees another backup.
-      const marker = await readMarkerWith(read)
-      const master = await read(
-        "SELECT name, sql, type, tbl_name FROM sqlite_master WHERE type IN ('table', 'index') AND sql IS NOT NULL ORDER BY name",
-        []
-      )
-      const unorderedTables = master.filter(
-        (row) => row.type === 'table' && !isExcluded(row.name)
-      )
-      const tableNames = unorderedTables.map((row) => String(row.name))
-      const tableNamesBySqlIdentity = tableIdentities(tableNames)
-      // sqlite_master already carries every CREATE statement in this bounded
-      // schema read. Derive FK edges from those statements instead of asking
-      // pragma_foreign_key_list to re-walk the complete schema once per table.
-      const dependencies = new Map(
-        unorderedTables.map((table) => [
-          String(table.name),
-          tableDependencies(table.sql, String(table.name), tableNamesBySqlIdentity),
-        ])
-      )
-      const orderedNames = dependencyOrder(
-        unorderedTables.map((table) => String(table.name)),
-        dependencies
-      )
-      const tableByName = new Map(
-        unorderedTables.map((table) => [String(table.name), table])
-      )
-      const tables = orderedNames.map((name) => tableByName.get(name)!)
-      const indexes = master.filter(
-        (row) =>
-          row.type === 'index' && !isExcluded(row.name) && !isExcluded(row.tbl_name)
-      )
-      const upload = await files.createMultipartUpload(key)
-      const uploadedParts: unknown[] = []
-      const encoder = new TextEncoder()
-      let chunks: Uint8Array[] = []
-      let bufferedBytes = 0
-      let totalBytes = 0
-      const digest = sha256.create()
+    type Scan = Omit<
+      NamespaceBackupSummary,
+      'ns' | 'key' | 'exportedAt' | 'type' | 'base' | 'links'
+    >
+    const scan = await options.readSession<Scan | { broken: string }>(
+      env,
+      namespace,
+      async (read) => {
+        // Read before scanning. A concurrent write then leaves the live marker
+        // ahead of latest.json and guarantees another backup.
+        const marker = await readMarkerWith(read)
+        const { tables, tableIndexes, schemaDigest } = await readSchema(read)
+        const changeLog = await readChangeLogBounds(read)
+        if (chainBase) {
+          if (schemaDigest !== chainBase.schemaDigest) {
+            return { broken: 'schema changed since the previous backup' }
+          }
+          if (
+            changeLog.head < chainBase.watermark ||
+            (changeLog.head > chainBase.watermark &&
+              (changeLog.oldest === null || changeLog.oldest > chainBase.watermark + 1))
+          ) {
+            return { broken: 'change log no longer reaches the previous backup' }
+          }
+        }
+        const upload = await files.createMultipartUpload(key)
+        const uploadedParts: unknown[] = []
+        const encoder = new TextEncoder()
+        let chunks: Uint8Array[] = []
+        let bufferedBytes = 0
+        let totalBytes = 0
+        let storedBytes = 0
+        // Sealed dumps gather a part of plain lines, then store it as one
+        // frame; parts are still cut from the stored bytes at a fixed size.
+        let plainChunks: Uint8Array[] = []
+        let plainBytes = 0
+        const digest = sha256.create()
 
-      const flushParts = async (final: boolean) => {
-        if (!final && bufferedBytes < partBytes) return
-        let merged = new Uint8Array(bufferedBytes)
-        let offset = 0
-        for (const chunk of chunks) {
-          merged.set(chunk, offset)
-          offset += chunk.byteLength
+        const store = (bytes: Uint8Array) => {
+          chunks.push(bytes)
+          bufferedBytes += bytes.byteLength
+          storedBytes += bytes.byteLength
         }
-        while (merged.byteLength >= partBytes) {
-          uploadedParts.push(
-            await upload.uploadPart(uploadedParts.length + 1, merged.slice(0, partBytes))
-          )
-          merged = merged.slice(partBytes)
+        if (sealer) store(sealer.manifestLine)
+
+        const flushParts = async (final: boolean) => {
+          if (sealer && plainBytes > 0 && (final || plainBytes >= partBytes)) {
+            const plain = new Uint8Array(plainBytes)
+            let offset = 0
+            for (const chunk of plainChunks) {
+              plain.set(chunk, offset)
+              offset += chunk.byteLength
+            }
+            plainChunks = []
+            plainBytes = 0
+            store(await sealer.seal(plain))
+          }
+          if (!final && bufferedBytes < partBytes) return
+          let merged = new Uint8Array(bufferedBytes)
+          let offset = 0
+          for (const chunk of chunks) {
+            merged.set(chunk, offset)
+            offset += chunk.byteLength
+          }
+          while (merged.byteLength >= partBytes) {
+            uploadedParts.push(
+              await upload.uploadPart(
+                uploadedParts.length + 1,
+                merged.slice(0, partBytes)
+              )
+            )
+            merged = merged.slice(partBytes)
+          }
+          if (final && (merged.byteLength > 0 || uploadedParts.length === 0)) {
+            uploadedParts.push(await upload.uploadPart(uploadedParts.length + 1, merged))
+            merged = new Uint8Array(0)
+          }
+          chunks = merged.byteLength ? [merged] : []
+          bufferedBytes = merged.byteLength
         }
-        if (final && (merged.byteLength > 0 || uploadedParts.length === 0)) {
-          uploadedParts.push(await upload.uploadPart(uploadedParts.length + 1, merged))
-          merged = new Uint8Array(0)
+
+        const writeLine = async (value: unknown, includeInDigest = true) => {
+          const bytes = encoder.encode(`${JSON.stringify(value)}\n`)
+          if (includeInDigest) digest.update(bytes)
+          if (sealer) {
+            plainChunks.push(bytes)
+            plainBytes += bytes.byteLength
+          } else {
+            store(bytes)
+          }
+          totalBytes += bytes.byteLength
+          await flushParts(false)
+          return bytes.byteLength
         }
-        chunks = merged.byteLength ? [merged] : []
-        bufferedBytes = merged.byteLength
-      }
 
-      const writeLine = async (value: unknown, includeInDigest = true) => {
-        const bytes = encoder.encode(`${JSON.stringify(value)}\n`)
-        if (includeInDigest) digest.update(bytes)
-        chunks.push(bytes)
-        bufferedBytes += bytes.byteLength
-        totalBytes += bytes.byteLength
-        await flushParts(false)
-        return bytes.byteLength
-      }
+        let rowTotal = 0
+        let deleteTotal = 0
+        const tableRows: Record<string, number> = {}
 
-      let rowTotal = 0
-      const tableRows: Record<string, number> = {}
-      try {
-        await writeLine({
-          kind: 'header',
-          format: options.format,
-          integrity: 'sha256',
-          ns: namespace,
-          exportedAt,
-          marker,
-          orderedTables: true,
-        })
-        for (const table of tables) {
-          const name = String(table.name)
-          const withoutRowid = /\bWITHOUT\s+ROWID\b/i.test(String(table.sql))
-          const primaryKeyColumns = withoutRowid
-            ? (await read(`PRAGMA table_info("${quoteIdentifier(name)}")`, []))
-                .filter((column) => Number(column.pk) > 0)
-                .sort((left, right) => Number(left.pk) - Number(right.pk))
-                .map((column) => String(column.name))
-            : []
-          if (withoutRowid && primaryKeyColumns.length === 0) {
-            throw new Error(`WITHOUT ROWID table ${name} has no primary key`)
-          }
-          const quotedPrimaryKey = primaryKeyColumns
-            .map((column) => `"${quoteIdentifier(column)}"`)
-            .join(', ')
+        const writeTableRows = async (name: string, sql: unknown) => {
           let tableRowTotal = 0
-          await writeLine({
-            kind: 'table',
-            name,
-            sql: table.sql,
-            indexes: indexes
-              .filter((index) => index.tbl_name === name)
-              .map((index) => index.sql),
-          })
-          let rowidCursor: unknown = 0
-          let primaryKeyCursor: unknown[] | null = null
           let limit = 200
-          while (true) {
-            const usedLimit = limit
-            const rows: Record<string, unknown>[] = withoutRowid
-              ? await read(
-                  primaryKeyCursor
-                    ? `SELECT * FROM "${quoteIdentifier(name)}" WHERE (${quotedPrimaryKey}) > (${primaryKeyColumns.map(() => '?').join(', ')}) ORDER BY ${quotedPrimaryKey} LIMIT ?`
-                    : `SELECT * FROM "${quoteIdentifier(name)}" ORDER BY ${quotedPrimaryKey} LIMIT ?`,
-                  primaryKeyCursor ? [...primaryKeyCursor, usedLimit] : [usedLimit]
-                )
-              : await read(
-                  `SELECT rowid AS __orez_backup_rowid, * FROM "${quoteIdentifier(name)}" WHERE rowid > ? ORDER BY rowid LIMIT ?`,
-                  [rowidCursor, usedLimit]
-                )
-            if (rows.length === 0) break
-            if (withoutRowid) {
-              const last = rows.at(-1)!
-              primaryKeyCursor = primaryKeyColumns.map((column) => last[column])
-            } else {
-              rowidCursor = rows.at(-1)?.__orez_backup_rowid
-              for (const row of rows) delete row.__orez_backup_rowid
-            }
+          for await (const rows of tablePages(read, name, sql, () => limit)) {
             const lineBytes = await writeLine({ kind: 'rows', table: name, rows })
-            rowTotal += rows.length
             tableRowTotal += rows.length
             const perRow = Math.max(1, Math.ceil(lineBytes / rows.length))
             limit = Math.max(20, Math.min(1000, Math.floor(chunkTargetBytes / perRow)))
-            if (rows.length < usedLimit) break
           }
-          tableRows[name] = tableRowTotal
-        }
-        await writeLine(
-          {
-            kind: 'footer',
-            tables: tables.length,
-            rows: rowTotal,
-            sha256: hex(digest.digest()),
-          },
-          false
-        )
-        await flushParts(true)
-        await upload.complete(uploadedParts)
-      } catch (error) {
+          return tableRowTotal
+        }
+
+        // Only keys the change log names since the base are read back. Their
+        // state now is what the dump carries: the row if it exists, otherwise a
+        // delete. A key the log says survives but that cannot be found means the
+        // log and the tables disagree, and the chain is not trusted past it.
+        const writeChangedRows = async (
+          base: NamespaceBackupSummary,
+          deltaTables: ReadonlyMap<string, { name: string; primaryKey: string[] }>
+        ) => {
+          const touched = new Map<
+            string,
+            Map<string, { values: unknown[]; deleted: boolean }>
+          >()
+          const imageOf = (name: string, data: unknown) => {
+            if (!data) return null
+            const image: unknown = JSON.parse(String(data))
+            if (typeof image !== 'object' || image === null || Array.isArray(image)) {
+              throw new BackupChainBreak(`change-log image for ${name} is not a row`)
+            }
+            return image as Record<string, unknown>
+          }
+          const keyOf = (
+            name: string,
+            primaryKey: string[],
+            image: Record<string, unknown>
+          ) => {
+            const values = primaryKey.map((column) => image[column])
+            if (values.some((value) => value === undefined)) {
+              throw new BackupChainBreak(
+                `change-log image for ${name} lacks its primary key`
+              )
+            }
+            return values
+          }
+          let cursor = base.watermark
+          while (true) {
+            const changes = await read(
+              'SELECT watermark, table_name, op, row_data, old_data FROM _zero_changes WHERE watermark > ? AND watermark <= ? ORDER BY watermark LIMIT 1000',
+              [cursor, changeLog.head]
+            )
+            for (const change of changes) {
+              const table = deltaTables.get(String(change.table_name))
+              if (!table) continue
+              const keys = touched.get(table.name) ?? new Map()
+              touched.set(table.name, keys)
+              const after = imageOf(table.name, change.row_data)
+              const before = imageOf(table.name, change.old_data)
+              const removed = change.op === 'DELETE' ? (before ?? after) : before
+              if (removed) {
+                const values = keyOf(table.name, table.primaryKey, removed)
+                keys.set(primaryKeyIdentity(values), { values, deleted: true })
+              }
+              if (change.op !== 'DELETE' && after) {
+                const values = keyOf(table.name, table.primaryKey, after)
+                keys.set(primaryKeyIdentity(values), { values, deleted: false })
+              }
+            }
+            if (changes.length < 1000) break
+            cursor = Number(changes.at(-1)!.watermark)
+          }
+          return touched
+        }
+
+        const writeKeyRows = async (
+          name: string,
+          primaryKey: string[],
+          keys: ReadonlyMap<string, { values: unknown[]; deleted: boolean }>
+        ) => {
+          const quotedPrimaryKey = primaryKey
+            .map((column) => `"${quoteIdentifier(column)}"`)
+            .join(', ')
+          const entries = [...keys.values()]
+          const perQuery = Math.max(1, Math.floor(90 / primaryKey.length))
+          let tableRowTotal = 0
+          for (let offset = 0; offset < entries.length; offset += perQuery) {
+            const slice = entries.slice(offset, offset + perQuery)
+            const tuple = `(${primaryKey.map(() => '?').join(', ')})`
+            const where =
+              primaryKey.length === 1
+                ? `${quotedPrimaryKey} IN (${slice.map(() => '?').join(', ')})`
+                : `(${quotedPrimaryKey}) IN (VALUES ${slice.map(() => tuple).join(', ')})`
+            const rows = await read(
+              `SELECT * FROM "${quoteIdentifier(name)}" WHERE ${where}`,
+              slice.flatMap((entry) => entry.values)
+            )
+            const found = new Set(
+              rows.map((row) =>
+                primaryKeyIdentity(primaryKey.map((column) => row[column]))
+              )
+            )
+            const deleted: unknown[][] = []
+            for (const entry of slice) {
+              if (found.has(primaryKeyIdentity(entry.values))) continue
+              if (!entry.deleted) {
+                throw new BackupChainBreak(
+                  `a row of ${name} changed since the base is missing`
+                )
+              }
+              deleted.push(entry.values)
+            }
+            if (deleted.length > 0) {
+              await writeLine({ kind: 'deletes', table: name, keys: deleted })
+              deleteTotal += deleted.length
+            }
+            if (rows.length > 0) {
+              await writeLine({ kind: 'rows', table: name, rows })
+              tableRowTotal += rows.length
+            }
+          }
+          return tableRowTotal
+        }
+
         try {
-          await upload.abort()
-        } catch {
-          // Preserve the original export failure.
+          await writeLine({
+            kind: 'header',
+            format: options.format,
+            integrity: 'sha256',
+            ns: namespace,
+            exportedAt,
+            marker,
+            orderedTables: true,
+            watermark: changeLog.head,
+            schemaDigest,
+            ...(chainBase
+              ? { incremental: { base: chainBase.key, from: chainBase.watermark } }
+              : {}),
+          })
+          if (chainBase) {
+            const published = await readPublishedTables(read)
+            const deltaTables = new Map<string, { name: string; primaryKey: string[] }>()
+            const tableModes = new Map<string, string[] | null>()
+            for (const table of tables) {
+              const name = String(table.name)
+              const identity = published.get(name)
+              const primaryKey = identity ? await readPrimaryKey(read, name) : []
+              // Without a published identity or a key there is no way to name
+              // the rows that changed, so the table ships whole in every link.
+              if (identity && primaryKey.length > 0) {
+                deltaTables.set(identity, { name, primaryKey })
+                tableModes.set(name, primaryKey)
+              } else {
+                tableModes.set(name, null)
+              }
+            }
+            const touched = await writeChangedRows(chainBase, deltaTables)
+            for (const table of tables) {
+              const name = String(table.name)
+              const primaryKey = tableModes.get(name)!
+              await writeLine({
+                kind: 'table',
+                name,
+                sql: table.sql,
+                indexes: tableIndexes(name),
+                ...(primaryKey ? { mode: 'delta', primaryKey } : { mode: 'replace' }),
+              })
+              tableRows[name] = primaryKey
+                ? await writeKeyRows(name, primaryKey, touched.get(name) ?? new Map())
+                : await writeTableRows(name, table.sql)
+              rowTotal += tableRows[name]
+            }
+          } else {
+            for (const table of tables) {
+              const name = String(table.name)
+              await writeLine({
+                kind: 'table',
+                name,
+                sql: table.sql,
+                indexes: tableIndexes(name),
+              })
+              tableRows[name] = await writeTableRows(name, table.sql)
+              rowTotal += tableRows[name]
+            }
+          }
+          await writeLine(
+            {
+              kind: 'footer',
+              tables: tables.length,
+              rows: rowTotal,
+              ...(chainBase ? { deletes: deleteTotal } : {}),
+              sha256: hex(digest.digest()),
+            },
+            false
+          )
+          await flushParts(true)
+          await upload.complete(uploadedParts)
+        } catch (error) {
+          try {
+            await upload.abort()
+          } catch {
+            // Preserve the original export failure.
+          }
+          if (error instanceof BackupChainBreak) return { broken: error.message }
+          log({
+            phase: 'export_upload',
+            outcome: 'error',
+            namespace,
+            durationMs: Date.now() - startedAt,
+            error: errorMessage(error),
+          })
+          throw error
         }
-        log({
-          phase: 'export_upload',
-          outcome: 'error',
-          namespace,
-          durationMs: Date.now() - startedAt,
-          error: errorMessage(error),
-        })
-        throw error
-      }
 
-      return {
-        marker,
-        tables: tables.length,
-        rows: rowTotal,
-        tableRows,
-        bytes: totalBytes,
-        parts: uploadedParts.length,
+        return {
+          marker,
+          tables: tables.length,
+          rows: rowTotal,
+          tableRows,
+          bytes: totalBytes,
+          storedBytes,
+          parts: uploadedParts.length,
+          watermark: changeLog.head,
+          schemaDigest,
+          ...(sealer
+            ? {
+                seal: {
+                  compression: sealer.manifest.compression,
+                  encryption: sealer.manifest.encryption && {
+                    scheme: sealer.manifest.encryption.scheme,
+                    keyId: sealer.manifest.encryption.keyId,
+                  },
+                },
+              }
+            : {}),
+        }
       }
-    })
+    )
+    if ('broken' in scan) return fallBack(scan.broken)
 
-    const summary = {
+    const summary: NamespaceBackupSummary = {
       ns: namespace,
       key,
       exportedAt,
       ...scan,
+      ...(chainBase
+        ? { type: 'incremental', base: chainBase.key, links: chainBase.links + 1 }
+        : { type: 'full', links: 0 }),
     }
+    // An incremental dump is the head of its chain even when nothing changed;
+    // only an empty full export defers to an earlier non-empty one.
     let keepPreviousLatest = false
-    if (scan.rows === 0) {
+    if (scan.rows === 0 && !chainBase) {
       try {
         const previous = await files.get(`${backupPrefix(namespace)}latest.json`)
         if (previous) {
@@ -547,6 +1144,7 @@ export function createNamespaceBackupManager<Env>(
       phase: 'export',
       outcome: 'success',
       namespace,
+      type: summary.type,
       durationMs: Date.now() - startedAt,
       rows: summary.rows,
       bytes: summary.bytes,
@@ -555,37 +1153,53 @@ export function createNamespaceBackupManager<Env>(
     return summary
   }
 
-  const importNamespace = async (
+  type TableEntry = {
+    name: string
+    sql: string
+    indexes: string[]
+    /** Incremental dumps only: `delta` tables carry changed keys, `replace` ones every row. */
+    mode?: 'delta' | 'replace'
+    primaryKey: string[]
+  }
+
+  type ValidatedDump = {
+    key: string
+    etag?: string
+    header: {
+      ns?: unknown
+      format?: unknown
+      integrity?: unknown
+      orderedTables?: unknown
+      incremental?: { base?: unknown }
+    }
+    footer: { rows?: unknown; deletes?: unknown; sha256?: unknown }
+    rows: number
+    tableEntries: TableEntry[]
+    deletes: Map<string, unknown[][]>
+  }
+
+  // Reads one dump end to end without touching the namespace. Deleted keys
+  // are kept: restore removes them before any row of the dump is written.
+  const validateDump = async (
     env: Env,
+    files: NamespaceBackupBucket,
     namespace: string,
-    key: string,
-    importOptions: { allowNonEmpty?: boolean } = {}
-  ): Promise<NamespaceRestoreSummary> => {
+    key: string
+  ): Promise<ValidatedDump> => {
     const startedAt = Date.now()
-    const files = options.files(env)
     const validationObject = await files.get(key)
     if (!validationObject?.body) throw new Error(`backup object not found: ${key}`)
 
-    type TableEntry = {
-      name: string
-      sql: string
-      indexes: string[]
-    }
-    let validatedHeader:
-      | {
-          ns?: unknown
-          format?: unknown
-          integrity?: unknown
-          orderedTables?: unknown
-        }
-      | undefined
-    let validatedFooter: { rows?: unknown; sha256?: unknown } | undefined
+    let validatedHeader: ValidatedDump['header'] | undefined
+    let validatedFooter: ValidatedDump['footer'] | undefined
     let validatedRows = 0
+    let validatedDeletes = 0
     const validationDigest = sha256.create()
     const encoder = new TextEncoder()
     const tableEntries: TableEntry[] = []
-    const seenTables = new Set<string>()
-    for await (const line of ndjsonLines(validationObject.body)) {
+    const tablesByName = new Map<string, TableEntry>()
+    const deletes = new Map<string, unknown[][]>()
+    for await (const line of ndjsonLines(await openBody(env, validationObject.body))) {
       const entry = JSON.parse(line) as Record<string, any>
       if (entry.kind === 'header') {
         if (validatedHeader) throw new Error('backup contains multiple headers')
@@ -595,22 +1209,50 @@ export function createNamespaceBackupManager<Env>(
         validatedHeader = entry
       } else if (entry.kind === 'table') {
         const name = String(entry.name ?? '')
-        if (!name || seenTables.has(name)) {
+        if (!name || tablesByName.has(name)) {
           throw new Error(`invalid or duplicate backup table: ${name}`)
         }
-        seenTables.add(name)
-        tableEntries.push({
+        const incremental = validatedHeader?.incremental !== undefined
+        if (incremental && entry.mode !== 'delta' && entry.mode !== 'replace') {
+          throw new Error(`invalid incremental backup table mode: ${String(entry.mode)}`)
+        }
+        const table: TableEntry = {
           name,
           sql: String(entry.sql ?? ''),
           indexes: Array.isArray(entry.indexes)
             ? entry.indexes.map((sql: unknown) => String(sql))
             : [],
-        })
+          ...(incremental ? { mode: entry.mode } : {}),
+          primaryKey: Array.isArray(entry.primaryKey)
+            ? entry.primaryKey.map((column: unknown) => String(column))
+            : [],
+        }
+        if (table.mode === 'delta' && table.primaryKey.length === 0) {
+          throw new Error(`incremental backup table ${name} has no primary key`)
+        }
+        tablesByName.set(name, table)
+        tableEntries.push(table)
       } else if (entry.kind === 'rows') {
-        if (!Array.isArray(entry.rows) || !seenTables.has(String(entry.table))) {
+        if (!Array.isArray(entry.rows) || !tablesByName.has(String(entry.table))) {
           throw new Error('invalid backup rows entry')
         }
         validatedRows += entry.rows.length
+      } else if (entry.kind === 'deletes') {
+        const table = tablesByName.get(String(entry.table))
+        if (
+          table?.mode !== 'delta' ||
+          !Array.isArray(entry.keys) ||
+          entry.keys.some(
+            (values: unknown) =>
+              !Array.isArray(values) || values.length !== table.primaryKey.length
+          )
+        ) {
+          throw new Error('invalid backup deletes entry')
+        }
+        const keys = deletes.get(table.name) ?? []
+        for (const values of entry.keys) keys.push(values)
+        deletes.set(table.name, keys)
+        validatedDeletes += entry.keys.length
       } else if (entry.kind === 'footer') {
         if (validatedFooter) throw new Error('backup contains multiple footers')
         validatedFooter = entry
@@ -627,6 +1269,11 @@ export function createNamespaceBackupManager<Env>(
         `backup row count mismatch: footer says ${validatedFooter.rows}, read ${validatedRows}`
       )
     }
+    if (Number(validatedFooter.deletes ?? 0) !== validatedDeletes) {
+      throw new Error(
+        `backup delete count mismatch: footer says ${validatedFooter.deletes}, read ${validatedDeletes}`
+      )
+    }
 
     if (
       validatedHeader.integrity !== undefined &&
@@ -653,47 +1300,96 @@ export function createNamespaceBackupManager<Env>(
       phase: 'restore_validation',
       outcome: 'success',
       namespace,
+      key,
       durationMs: Date.now() - startedAt,
       rows: validatedRows,
       digest: statedDigest === null ? 'legacy_absent' : 'verified',
     })
+    return {
+      key,
+      etag: validationObject.etag,
+      header: validatedHeader,
+      footer: validatedFooter,
+      rows: validatedRows,
+      tableEntries,
+      deletes,
+    }
+  }
+
+  // The dumps `key` restores from, full backup first.
+  const resolveChain = async (files: NamespaceBackupBucket, key: string) => {
+    const chain = [key]
+    let base = parseDumpKey(key)?.base
+    if (base === undefined) return chain
+    const prefix = key.slice(0, key.lastIndexOf('/') + 1)
+    const byStamp = new Map<string, string>()
+    for (const listedKey of await listKeys(files, prefix)) {
+      const parsed = parseDumpKey(listedKey)
+      if (parsed && listedKey.endsWith('.ndjson')) byStamp.set(parsed.stamp, listedKey)
+    }
+    while (base !== undefined) {
+      const link = byStamp.get(base)
+      if (!link || chain.includes(link)) {
+        throw new Error(`backup chain is broken: ${chain[0]} applies on top of ${base}`)
+      }
+      chain.unshift(link)
+      base = parseDumpKey(link)?.base
+    }
+    return chain
+  }
+
+  const importNamespace = async (
+    env: Env,
+    namespace: string,
+    key: string,
+    importOptions: { allowNonEmpty?: boolean } = {}
+  ): Promise<NamespaceRestoreSummary> => {
+    const startedAt = Date.now()
+    const files = options.files(env)
+    // Every link validates before the namespace is touched, so a corrupt
+    // incremental dump fails the restore rather than stopping it halfway.
+    const chain = await resolveChain(files, key)
+    const dumps: ValidatedDump[] = []
+    for (const link of chain) {
+      const dump = await validateDump(env, files, namespace, link)
+      const previous = dumps.at(-1)
+      const base = dump.header.incremental?.base
+      if (previous ? base !== previous.key : base !== undefined) {
+        throw new Error(
+          `backup ${link} does not apply on top of ${previous?.key ?? 'an empty namespace'}`
+        )
+      }
+      dumps.push(dump)
+    }
+    const [full, ...links] = dumps
+    const validatedHeader = full!.header
+    const tableEntries = full!.tableEntries
 
     // This is the same schema query restore already needed for dependency-safe
     // drops, moved before the first mutation. Default restores are fresh-only;
     // destructive replacement requires an explicit operator override.
-    const liveTableRows = await options.query(
-      env,
-      namespace,
-      "SELECT name, sql FROM sqlite_master WHERE type = 'table' AND sql IS NOT NULL ORDER BY name",
-      []
-    )
-    const liveTableNames = liveTableRows
-      .map((row) => String(row.name ?? ''))
-      .filter((name) => name && !isExcluded(name))
+    const liveTables = await liveApplicationTables(options, env, namespace, isExcluded)
+    const liveTableNames = liveTables.map((table) => table.name)
     if (liveTableNames.length > 0 && importOptions.allowNonEmpty !== true) {
       throw new Error(
         `restore target is not empty (${liveTableNames.length} application tables); pass the explicit replacement override`
       )
     }
 
-    const object = await files.get(key)
-    if (!object?.body) throw new Error(`backup object disappeared during restore: ${key}`)
-    if (validationObject.etag && object.etag && validationObject.etag !== object.etag) {
+    const object = await files.get(full!.key)
+    if (!object?.body) {
+      throw new Error(`backup object disappeared during restore: ${full!.key}`)
+    }
+    if (full!.etag && object.etag && full!.etag !== object.etag) {
       throw new Error('backup object changed between validation and restore')
     }
 
     await options.beforeImport?.(env, namespace)
 
-    for (const name of REPLICATION_BOOKKEEPING_TABLES) {
-      try {
-        await options.query(env, namespace, `DELETE FROM "${quoteIdentifier(name)}"`, [])
-      } catch {
-        // Fresh namespaces do not have every bookkeeping table.
-      }
-    }
+    await clearReplicationBookkeeping(options, env, namespace)
 
     const header = validatedHeader
-    const footer = validatedFooter
+    const footer = full!.footer
     let rowTotal = 0
     let skippedRows = 0
     const tableNames = tableEntries
@@ -702,19 +1398,34 @@ export function createNamespaceBackupManager<Env>(
     const bufferedRows = new Map<string, Record<string, unknown>[]>()
     const insertSql = new Map<string, string>()
 
+    // A primary key makes the insert an upsert: an incremental dump rewrites
+    // rows the dumps before it already restored.
     const statementsForRows = (
       name: string,
-      rows: readonly Record<string, unknown>[]
+      rows: readonly Record<string, unknown>[],
+      primaryKey: readonly string[] = []
     ): NamespaceBackupStatement[] =>
       rows.map((row) => {
         const columns = Object.keys(row)
-        const signature = `${name}\0${columns.join('\0')}`
+        const signature = `${name}\0${columns.join('\0')}\0\0${primaryKey.join('\0')}`
         let sql = insertSql.get(signature)
         if (!sql) {
+          const updates = columns
+            .filter((column) => !primaryKey.includes(column))
+            .map(
+              (column) =>
+                `"${quoteIdentifier(column)}" = excluded."${quoteIdentifier(column)}"`
+            )
           sql =
             `INSERT INTO "${quoteIdentifier(name)}" (` +
             columns.map((column) => `"${quoteIdentifier(column)}"`).join(', ') +
-            `) VALUES (${columns.map(() => '?').join(', ')})`
+            `) VALUES (${columns.map(() => '?').join(', ')})` +
+            (primaryKey.length === 0
+              ? ''
+              : ` ON CONFLICT (${primaryKey.map((column) => `"${quoteIdentifier(column)}"`).join(', ')}) ` +
+                (updates.length > 0
+                  ? `DO UPDATE SET ${updates.join(', ')}`
+                  : 'DO NOTHING'))
           insertSql.set(signature, sql)
         }
         return {
@@ -723,12 +1434,16 @@ export function createNamespaceBackupManager<Env>(
         }
       })
 
-    const insertRows = async (name: string, rows: readonly Record<string, unknown>[]) => {
+    const insertRows = async (
+      name: string,
+      rows: readonly Record<string, unknown>[],
+      primaryKey: readonly string[] = []
+    ) => {
       for (let offset = 0; offset < rows.length; offset += 400) {
         await options.batch(
           env,
           namespace,
-          statementsForRows(name, rows.slice(offset, offset + 400))
+          statementsForRows(name, rows.slice(offset, offset + 400), primaryKey)
         )
       }
       rowTotal += rows.length
@@ -737,13 +1452,10 @@ export function createNamespaceBackupManager<Env>(
     const dropNames = [...new Set([...tableNames, ...liveTableNames])]
     const dropNamesBySqlIdentity = tableIdentities(dropNames)
     const dropDependencies = new Map(
-      liveTableRows
-        .map((row) => ({ name: String(row.name ?? ''), sql: row.sql }))
-        .filter((row) => row.name && !isExcluded(row.name))
-        .map((row) => [
-          row.name,
-          tableDependencies(row.sql, row.name, dropNamesBySqlIdentity),
-        ])
+      liveTables.map((row) => [
+        row.name,
+        tableDependencies(row.sql, row.name, dropNamesBySqlIdentity),
+      ])
     )
     const dropStatements = dependencyOrder(dropNames, dropDependencies)
       .reverse()
@@ -772,7 +1484,7 @@ export function createNamespaceBackupManager<Env>(
       )
     }
 
-    for await (const line of ndjsonLines(object.body)) {
+    for await (const line of ndjsonLines(await openBody(env, object.body))) {
       const entry = JSON.parse(line) as Record<string, any>
       if (entry.kind === 'header') {
       } else if (entry.kind === 'table') {
@@ -817,6 +1529,56 @@ export function createNamespaceBackupManager<Env>(
         `row count mismatch: footer says ${footer.rows}, imported ${rowTotal} + skipped bookkeeping ${skippedRows}`
       )
     }
+
+    for (const link of links) {
+      const linkObject = await files.get(link.key)
+      if (!linkObject?.body) {
+        throw new Error(`backup object disappeared during restore: ${link.key}`)
+      }
+      if (link.etag && linkObject.etag && link.etag !== linkObject.etag) {
+        throw new Error('backup object changed between validation and restore')
+      }
+      const linkEntries = new Map(
+        link.tableEntries
+          .filter((entry) => !isExcluded(entry.name))
+          .map((entry) => [entry.name, entry])
+      )
+      // Every removal runs child-first before any row of the link is written,
+      // the reverse of the parent-first order the rows arrive in.
+      const removals = [...linkEntries.values()].reverse().flatMap((entry) =>
+        entry.mode === 'replace'
+          ? [{ sql: `DELETE FROM "${quoteIdentifier(entry.name)}"` }]
+          : (link.deletes.get(entry.name) ?? []).map((values) => ({
+              sql:
+                `DELETE FROM "${quoteIdentifier(entry.name)}" WHERE ` +
+                entry.primaryKey
+                  .map((column) => `"${quoteIdentifier(column)}" = ?`)
+                  .join(' AND '),
+              params: values,
+            }))
+      )
+      for (let offset = 0; offset < removals.length; offset += 400) {
+        await options.batch(env, namespace, removals.slice(offset, offset + 400))
+      }
+      const linkRowsBefore = rowTotal
+      let linkSkippedRows = 0
+      for await (const line of ndjsonLines(await openBody(env, linkObject.body))) {
+        const entry = JSON.parse(line) as Record<string, any>
+        if (entry.kind !== 'rows') continue
+        const table = linkEntries.get(String(entry.table))
+        if (!table) {
+          linkSkippedRows += entry.rows.length
+          continue
+        }
+        await insertRows(table.name, entry.rows, table.primaryKey)
+      }
+      if (Number(link.footer.rows) !== rowTotal - linkRowsBefore + linkSkippedRows) {
+        throw new Error(
+          `row count mismatch in ${link.key}: footer says ${link.footer.rows}, imported ${rowTotal - linkRowsBefore} + skipped bookkeeping ${linkSkippedRows}`
+        )
+      }
+    }
+
     const counts: Record<string, number> = {}
     for (const name of tableNames) {
       const rows = await options.query(
@@ -828,6 +1590,12 @@ export function createNamespaceBackupManager<Env>(
       counts[name] = Number(rows[0]?.n) || 0
     }
     await options.afterImport?.(env, namespace)
+    // Restored rows never pass through the change log, so the next
+    // incremental export must not chain off a backup taken before this.
+    await files.put(
+      `${backupPrefix(namespace)}restored.json`,
+      JSON.stringify({ key, at: new Date().toISOString() })
+    )
     const summary = {
       ok: true,
       ns: namespace,
@@ -836,6 +1604,7 @@ export function createNamespaceBackupManager<Env>(
       tables: tableNames.length,
       rows: rowTotal,
       counts,
+      chain,
     } as const
     log({
       phase: 'restore',
@@ -844,22 +1613,471 @@ export function createNamespaceBackupManager<Env>(
       durationMs: Date.now() - startedAt,
       rows: rowTotal,
       tables: tableNames.length,
+      links: links.length,
       replacement: importOptions.allowNonEmpty === true,
     })
     return summary
   }
 
+  type ArchiveCursor = { watermark: number; archivedAt: string }
+
+  const readJsonPointer = async <Value>(files: NamespaceBackupBucket, key: string) => {
+    const object = await files.get(key)
+    return object ? ((await object.json()) as Partial<Value>) : null
+  }
+
+  const readArchiveCursor = async (files: NamespaceBackupBucket, namespace: string) => {
+    const cursor = await readJsonPointer<ArchiveCursor>(
+      files,
+      `${backupPrefix(namespace)}archive/cursor.json`
+    )
+    return cursor &&
+      typeof cursor.watermark === 'number' &&
+      typeof cursor.archivedAt === 'string'
+      ? (cursor as ArchiveCursor)
+      : null
+  }
+
+  const archiveChanges = async (
+    env: Env,
+    namespace: string
+  ): Promise<NamespaceArchiveSummary> => {
+    const startedAt = Date.now()
+    const files = options.files(env)
+    const prefix = backupPrefix(namespace)
+    const cursor = await readArchiveCursor(files, namespace)
+    // Taken before the head is read: anything committed earlier is at or
+    // below that head, so the cursor can promise it is archived.
+    const archivedAt = new Date().toISOString()
+    const query: SessionQuery = (sql, params = []) =>
+      options.query(env, namespace, sql, params)
+    // Committed entries never change, so each page can be its own session.
+    const { head, oldest } = await readChangeLogBounds(query)
+    // A first archive starts where the log does, so its segments never claim
+    // watermarks the log had already dropped.
+    let from = cursor?.watermark ?? Math.max(0, (oldest ?? 1) - 1)
+    if (head < from) {
+      throw new Error(
+        `change log head ${head} is behind the archive cursor ${from}; take a full backup and reset ${prefix}archive/`
+      )
+    }
+    if (head > from && (oldest === null || oldest > from + 1)) {
+      throw new Error(
+        `change log no longer reaches the archive cursor ${from}; take a full backup and reset ${prefix}archive/`
+      )
+    }
+    const key = await sealingKey(env)
+    let changeTotal = 0
+    let segments = 0
+    while (from < head) {
+      const changes: ArchivedChange[] = []
+      let to = from
+      while (changes.length < 5_000 && to < head) {
+        const page = await query(
+          'SELECT watermark, table_name, op, row_data, old_data, created_at FROM _zero_changes WHERE watermark > ? AND watermark <= ? ORDER BY watermark LIMIT 1000',
+          [to, head]
+        )
+        for (const row of page) {
+          changes.push({
+            watermark: Number(row.watermark),
+            table: String(row.table_name),
+            op: String(row.op),
+            row: row.row_data ? JSON.parse(String(row.row_data)) : null,
+            old: row.old_data ? JSON.parse(String(row.old_data)) : null,
+            at: changeCommitTimeMs(row.created_at),
+          })
+        }
+        to = page.length < 1000 ? head : Number(page.at(-1)!.watermark)
+      }
+      // A segment covers its whole watermark range, gaps included, so replay
+      // can tell a missing segment from a range nothing was committed in.
+      const digest = sha256.create()
+      const encoder = new TextEncoder()
+      const lines: ArchiveLine[] = [
+        {
+          kind: 'header',
+          format: options.format,
+          integrity: 'sha256',
+          ns: namespace,
+          archive: { from: from + 1, to },
+          archivedAt,
+        },
+      ]
+      for (let offset = 0; offset < changes.length; offset += 500) {
+        lines.push({ kind: 'changes', changes: changes.slice(offset, offset + 500) })
+      }
+      let text = ''
+      for (const line of lines) {
+        const encoded = `${JSON.stringify(line)}\n`
+        digest.update(encoder.encode(encoded))
+        text += encoded
+      }
+      const footer: ArchiveLine = {
+        kind: 'footer',
+        changes: changes.length,
+        sha256: hex(digest.digest()),
+      }
+      text += `${JSON.stringify(footer)}\n`
+      const sealer = await createBackupSealer({ compression: options.compression, key })
+      if (sealer) {
+        const plain = encoder.encode(text)
+        const sealed: Uint8Array[] = [sealer.manifestLine]
+        for (let offset = 0; offset < plain.byteLength; offset += partBytes) {
+          sealed.push(await sealer.seal(plain.subarray(offset, offset + partBytes)))
+        }
+        const bytes = new Uint8Array(
+          sealed.reduce((total, chunk) => total + chunk.byteLength, 0)
+        )
+        let offset = 0
+        for (const chunk of sealed) {
+          bytes.set(chunk, offset)
+          offset += chunk.byteLength
+        }
+        await files.put(archiveSegmentKey(prefix, from + 1, to), bytes)
+      } else {
+        await files.put(archiveSegmentKey(prefix, from + 1, to), text)
+      }
+      await files.put(
+        `${prefix}archive/cursor.json`,
+        JSON.stringify({
+          watermark: to,
+          archivedAt: cursor?.archivedAt ?? new Date(0).toISOString(),
+        })
+      )
+      changeTotal += changes.length
+      segments++
+      from = to
+    }
+    await files.put(
+      `${prefix}archive/cursor.json`,
+      JSON.stringify({ watermark: head, archivedAt })
+    )
+    log({
+      phase: 'archive',
+      outcome: 'success',
+      namespace,
+      durationMs: Date.now() - startedAt,
+      changes: changeTotal,
+      segments,
+    })
+    return {
+      ns: namespace,
+      watermark: head,
+      changes: changeTotal,
+      segments,
+      archivedAt,
+    }
+  }
+
+  const readDumpHeader = async (env: Env, files: NamespaceBackupBucket, key: string) => {
+    const object = await files.get(key)
+    if (!object?.body) return null
+    for await (const line of ndjsonLines(await openBody(env, object.body))) {
+      const entry = JSON.parse(line) as Record<string, unknown>
+      return entry.kind === 'header' ? entry : null
+    }
+    return null
+  }
+
+  const restoreToTime = async (
+    env: Env,
+    namespace: string,
+    at: Date | number | string,
+    restoreOptions: { target?: string } = {}
+  ): Promise<NamespacePointInTimeRestoreSummary> => {
+    const startedAt = Date.now()
+    const time =
+      at instanceof Date ? at.getTime() : typeof at === 'number' ? at : Date.parse(at)
+    if (!Number.isFinite(time)) {
+      throw new Error(`invalid point-in-time restore timestamp: ${String(at)}`)
+    }
+    const restoredTo = new Date(time).toISOString()
+    const target = restoreOptions.target ?? namespace
+    const files = options.files(env)
+    const prefix = backupPrefix(namespace)
+
+    // Catch the archive up first. A source that cannot be reached any more
+    // (the reason for the restore, sometimes) leaves what was archived.
+    try {
+      await archiveChanges(env, namespace)
+    } catch (error) {
+      log({
+        phase: 'pitr_archive',
+        outcome: 'error',
+        namespace,
+        error: errorMessage(error),
+      })
+    }
+    const cursor = await readArchiveCursor(files, namespace)
+    if (!cursor || Date.parse(cursor.archivedAt) < time) {
+      throw new Error(
+        `change archive for ${namespace} reaches only ${cursor?.archivedAt ?? 'nothing'}; cannot restore to ${restoredTo}`
+      )
+    }
+
+    // The newest dump exported by `at` that records its change-log position.
+    // A restore since then rewrote rows the log never saw, so nothing older
+    // than it replays forward past it.
+    const restored = await readJsonPointer<{ at: string }>(
+      files,
+      `${prefix}restored.json`
+    ).catch(() => null)
+    const restoredAt = Date.parse(String(restored?.at))
+    const candidates = (await listKeys(files, prefix))
+      .map((key) => ({ key, parsed: parseDumpKey(key) }))
+      .filter((dump) => dump.parsed && dump.key.endsWith('.ndjson'))
+      .filter((dump) => Number(dump.parsed!.stamp) <= time)
+      .sort((left, right) => Number(right.parsed!.stamp) - Number(left.parsed!.stamp))
+    let base: { key: string; watermark: number } | null = null
+    for (const candidate of candidates) {
+      const header = await readDumpHeader(env, files, candidate.key)
+      const exportedAt = Date.parse(String(header?.exportedAt))
+      if (!(exportedAt <= time) || typeof header?.watermark !== 'number') continue
+      if (restoredAt > exportedAt && restoredAt <= time) break
+      base = { key: candidate.key, watermark: header.watermark }
+      break
+    }
+    if (!base) {
+      throw new Error(
+        `no backup of ${namespace} taken by ${restoredTo} can be replayed forward`
+      )
+    }
+
+    const segments = (await listKeys(files, `${prefix}archive/`))
+      .map((key) => {
+        const match = ARCHIVE_SEGMENT_KEY.exec(key)
+        return match ? { key, from: Number(match[1]), to: Number(match[2]) } : null
+      })
+      .filter((segment) => segment !== null)
+      .sort((left, right) => left.from - right.from || left.to - right.to)
+    const needed: typeof segments = []
+    let next = base.watermark + 1
+    for (const segment of segments) {
+      if (segment.to < next) continue
+      if (segment.from > next) break
+      needed.push(segment)
+      next = segment.to + 1
+    }
+    if (next <= cursor.watermark) {
+      throw new Error(
+        `change archive for ${namespace} is missing changes from watermark ${next}`
+      )
+    }
+
+    const restore = await importNamespace(env, target, base.key)
+
+    const published = new Map(
+      (
+        await options
+          .query(
+            env,
+            target,
+            'SELECT physical_table, table_name FROM _orez_cdc_tables WHERE publish != 0',
+            []
+          )
+          .catch(() => [])
+      ).map((row) => [String(row.table_name), String(row.physical_table)])
+    )
+    const shapes = new Map<string, { types: Map<string, string>; primaryKey: string[] }>()
+    const shapeOf = async (table: string) => {
+      const physical = published.get(table)
+      if (!physical) throw new Error(`archived change for unknown table ${table}`)
+      let shape = shapes.get(physical)
+      if (!shape) {
+        const columns = await options.query(
+          env,
+          target,
+          `PRAGMA table_info("${quoteIdentifier(physical)}")`,
+          []
+        )
+        shape = {
+          types: new Map(
+            columns.map((column) => [String(column.name), String(column.type ?? '')])
+          ),
+          primaryKey: columns
+            .filter((column) => Number(column.pk) > 0)
+            .sort((left, right) => Number(left.pk) - Number(right.pk))
+            .map((column) => String(column.name)),
+        }
+        if (shape.primaryKey.length === 0) {
+          throw new Error(`archived table ${physical} has no primary key to replay by`)
+        }
+        shapes.set(physical, shape)
+      }
+      return { physical, ...shape }
+    }
+    const deleteStatement = (
+      shape: Awaited<ReturnType<typeof shapeOf>>,
+      image: Record<string, unknown>
+    ): NamespaceBackupStatement => ({
+      sql:
+        `DELETE FROM "${quoteIdentifier(shape.physical)}" WHERE ` +
+        shape.primaryKey
+          .map((column) => `"${quoteIdentifier(column)}" = ?`)
+          .join(' AND '),
+      params: shape.primaryKey.map((column) =>
+        storageValue(shape.types.get(column) ?? '', image[column])
+      ),
+    })
+    const upsertStatement = (
+      shape: Awaited<ReturnType<typeof shapeOf>>,
+      image: Record<string, unknown>
+    ): NamespaceBackupStatement => {
+      const columns = Object.keys(image)
+      const updates = columns
+        .filter((column) => !shape.primaryKey.includes(column))
+        .map(
+          (column) =>
+            `"${quoteIdentifier(column)}" = excluded."${quoteIdentifier(column)}"`
+        )
+      return {
+        sql:
+          `INSERT INTO "${quoteIdentifier(shape.physical)}" (` +
+          columns.map((column) => `"${quoteIdentifier(column)}"`).join(', ') +
+          `) VALUES (${columns.map(() => '?').join(', ')}) ON CONFLICT (` +
+          shape.primaryKey.map((column) => `"${quoteIdentifier(column)}"`).join(', ') +
+          `) ${updates.length > 0 ? `DO UPDATE SET ${updates.join(', ')}` : 'DO NOTHING'}`,
+        params: columns.map((column) =>
+          storageValue(shape.types.get(column) ?? '', image[column])
+        ),
+      }
+    }
+
+    let replayed = 0
+    let applied = base.watermark
+    let reachedTime = false
+    for (const segment of needed) {
+      if (reachedTime) break
+      const object = await files.get(segment.key)
+      if (!object?.body) throw new Error(`archive segment disappeared: ${segment.key}`)
+      // A segment is applied only once it has read back whole and verified.
+      const digest = sha256.create()
+      const encoder = new TextEncoder()
+      const changes: ArchivedChange[] = []
+      let footer: Extract<ArchiveLine, { kind: 'footer' }> | undefined
+      for await (const line of ndjsonLines(await openBody(env, object.body))) {
+        const entry = JSON.parse(line) as ArchiveLine
+        if (entry.kind === 'footer') {
+          footer = entry
+          continue
+        }
+        digest.update(encoder.encode(`${line}\n`))
+        if (entry.kind === 'changes' && Array.isArray(entry.changes)) {
+          for (const change of entry.changes) changes.push(change)
+        } else if (entry.kind !== 'header') {
+          throw new Error(
+            `unsupported archive entry kind: ${String((entry as { kind?: unknown }).kind)}`
+          )
+        }
+      }
+      if (!footer || Number(footer.changes) !== changes.length) {
+        throw new Error(`archive segment is truncated: ${segment.key}`)
+      }
+      if (footer.sha256 !== hex(digest.digest())) {
+        throw new Error(`archive segment sha256 digest mismatch: ${segment.key}`)
+      }
+      const statements: NamespaceBackupStatement[] = []
+      for (const change of changes) {
+        if (change.watermark <= applied) continue
+        if (change.at > time) {
+          reachedTime = true
+          break
+        }
+        const shape = await shapeOf(String(change.table))
+        const { row } = change
+        const before = change.op === 'DELETE' ? (change.old ?? row) : change.old
+        const image = change.op === 'DELETE' ? before : row
+        if (!image) {
+          throw new Error(
+            `archived change ${change.watermark} for ${change.table} carries no row image`
+          )
+        }
+        if (change.op === 'DELETE') {
+          statements.push(deleteStatement(shape, image))
+        } else {
+          const keyMoved =
+            before &&
+            shape.primaryKey.some(
+              (column) => String(before[column]) !== String(image[column])
+            )
+          if (keyMoved) statements.push(deleteStatement(shape, before))
+          statements.push(upsertStatement(shape, image))
+        }
+        applied = change.watermark
+        replayed++
+      }
+      for (let offset = 0; offset < statements.length; offset += 400) {
+        await options.batch(env, target, statements.slice(offset, offset + 400))
+      }
+    }
+
+    const counts: Record<string, number> = {}
+    for (const name of Object.keys(restore.counts)) {
+      const rows = await options.query(
+        env,
+        target,
+        `SELECT COUNT(*) AS n FROM "${quoteIdentifier(name)}"`,
+        []
+      )
+      counts[name] = Number(rows[0]?.n) || 0
+    }
+    const archivedTables = new Set(published.values())
+    const summary: NamespacePointInTimeRestoreSummary = {
+      ...restore,
+      counts,
+      restoredTo,
+      replayed,
+      unarchivedTables: Object.keys(counts).filter((name) => !archivedTables.has(name)),
+    }
+    log({
+      phase: 'pitr',
+      outcome: 'success',
+      namespace,
+      target,
+      durationMs: Date.now() - startedAt,
+      replayed,
+      base: base.key,
+    })
+    return summary
+  }
+
   const pruneBackups = async (env: Env, namespace: string) => {
     const files = options.files(env)
     const prefix = backupPrefix(namespace)
-    const listed = await files.list({ prefix })
-    const dumps = (listed.objects ?? [])
-      .filter((object) => /\/\d+\.(ndjson|json)$/.test(object.key))
+    const dumps = (await listKeys(files, prefix))
+      .map((key) => ({ key, parsed: parseDumpKey(key) }))
+      .filter((dump) => dump.parsed !== null)
       .sort((left, right) => (left.key < right.key ? -1 : 1))
     const retained = namespace === controlPlaneNamespace ? keepControlPlane : keep
-    const excess = dumps.slice(0, Math.max(0, dumps.length - retained))
-    if (excess.length > 0) {
-      await files.delete(excess.map((object) => object.key))
+    // The newest dumps are the restore points kept; an incremental one is only
+    // restorable with every dump back to its full backup, so those stay too.
+    const byStamp = new Map(dumps.map((dump) => [dump.parsed!.stamp, dump]))
+    const kept = new Set(dumps.slice(Math.max(0, dumps.length - retained)))
+    for (const dump of [...kept]) {
+      let base = dump.parsed!.base
+      while (base !== undefined) {
+        const ancestor = byStamp.get(base)
+        if (!ancestor || kept.has(ancestor)) break
+        kept.add(ancestor)
+        base = ancestor.parsed!.base
+      }
+    }
+    const excess = dumps.filter((dump) => !kept.has(dump))
+    await deleteKeys(
+      files,
+      excess.map((object) => object.key)
+    )
+    // Replay starts from a retained dump, so archived changes it already
+    // holds are never read again.
+    const oldest = dumps.find((dump) => kept.has(dump))
+    const header = oldest ? await readDumpHeader(env, files, oldest.key) : null
+    if (typeof header?.watermark === 'number') {
+      const floor = header.watermark
+      const replayed = (await listKeys(files, `${prefix}archive/`)).filter((key) => {
+        const match = ARCHIVE_SEGMENT_KEY.exec(key)
+        return match !== null && Number(match[2]) <= floor
+      })
+      await deleteKeys(files, replayed)
     }
   }
 
@@ -883,6 +2101,7 @@ export function createNamespaceBackupManager<Env>(
         break
       }
       try {
+        if (options.archive) await archiveChanges(env, namespace)
         const marker = await readMarker(env, namespace)
         const latest = await options
           .files(env)
@@ -894,7 +2113,9 @@ export function createNamespaceBackupManager<Env>(
             continue
           }
         }
-        const summary = await exportNamespace(env, namespace)
+        const summary = await exportNamespace(env, namespace, {
+          incremental: options.fullBackupEvery !== undefined,
+        })
         await pruneBackups(env, namespace)
         exported++
         log({
@@ -930,6 +2151,8 @@ export function createNamespaceBackupManager<Env>(
     readMarker,
     exportNamespace,
     importNamespace,
+    archiveChanges,
+    restoreToTime,
     pruneBackups,
     runScheduledBackups,
   }
@@ -0,0 +1,139 @@
+// @ts-expect-error - CJS module
+import BedrockSqlite from 'bedrock-sqlite'
+import { describe, expect, it, vi } from 'vitest'
+
+import { createNamespaceCloner } from './namespace-clone.js'
+
+const BetterSqlite3 = BedrockSqlite.Database
+type Database = InstanceType<typeof BetterSqlite3>
+
+function sqliteCloner(databases: Record<string, Database>, pageRows?: number) {
+  const beforeImport = vi.fn(async () => {})
+  const run = (namespace: string, sql: string, params: readonly unknown[]) => {
+    const statement = databases[namespace]!.prepare(sql)
+    if (statement.reader) return statement.all(...params)
+    statement.run(...params)
+    return []
+  }
+  const cloner = createNamespaceCloner({
+    pageRows,
+    excludedTables: ['_test_schema'],
+    query: async (_env, namespace, sql, params) => run(namespace, sql, params),
+    readSession: (_env, namespace, work) =>
+      work(async (sql, params = []) => run(namespace, sql, params)),
+    batch: async (_env, namespace, statements) => {
+      const db = databases[namespace]!
+      db.exec('BEGIN')
+      try {
+        for (const statement of statements) {
+          db.prepare(statement.sql).run(...(statement.params ?? []))
+        }
+        db.exec('COMMIT')
+      } catch (error) {
+        db.exec('ROLLBACK')
+        throw error
+      }
+    },
+    beforeImport,
+  })
+  return { cloner, beforeImport }
+}
+
+function rowsOf(db: Database, table: string) {
+  return db.prepare(`SELECT * FROM "${table}" ORDER BY 1, 2`).all()
+}
+
+function sourceDatabase() {
+  const db = new BetterSqlite3(':memory:')
+  db.exec('PRAGMA foreign_keys = ON')
+  db.exec(
+    'CREATE TABLE _zero_changes (watermark INTEGER PRIMARY KEY AUTOINCREMENT, table_name TEXT NOT NULL, op TEXT NOT NULL)'
+  )
+  db.exec('CREATE TABLE _test_schema (id INTEGER PRIMARY KEY, version TEXT NOT NULL)')
+  db.exec('CREATE TABLE "app_0.clients" ("clientID" TEXT PRIMARY KEY)')
+  // the child sorts before its parent, so creation order has to follow the key
+  db.exec(
+    'CREATE TABLE membership (workspaceId TEXT NOT NULL, userId TEXT NOT NULL REFERENCES "user"(id), role TEXT, PRIMARY KEY (workspaceId, userId)) WITHOUT ROWID'
+  )
+  db.exec('CREATE TABLE "user" (id TEXT PRIMARY KEY, email TEXT NOT NULL, avatar BLOB)')
+  db.exec('CREATE INDEX user_email ON "user" (email)')
+  db.exec("INSERT INTO _zero_changes (table_name, op) VALUES ('public.user', 'INSERT')")
+  db.exec("INSERT INTO _test_schema VALUES (1, 'v7')")
+  db.exec('INSERT INTO "app_0.clients" VALUES (\'client-1\')')
+  db.exec(
+    "INSERT INTO \"user\" VALUES ('u1', 'ada@example.com', x'0102'), ('u2', 'grace@example.com', NULL), ('u3', 'bot@example.com', NULL)"
+  )
+  db.exec(
+    "INSERT INTO membership VALUES ('w1', 'u1', 'owner'), ('w1', 'u2', 'member'), ('w1', 'u3', 'member'), ('w2', 'u1', 'member')"
+  )
+  return db
+}
+
+describe('namespace clone', () => {
+  it('copies application tables parent-first through the row transform', async () => {
+    const source = sourceDatabase()
+    const target = new BetterSqlite3(':memory:')
+    target.exec('PRAGMA foreign_keys = ON')
+    target.exec(
+      'CREATE TABLE _test_schema (id INTEGER PRIMARY KEY, version TEXT NOT NULL)'
+    )
+    const { cloner, beforeImport } = sqliteCloner({ source, target }, 2)
+
+    const summary = await cloner.cloneNamespace({}, 'source', 'target', {
+      transform: async (row, { table }) => {
+        if (table === 'user') {
+          if (row.id === 'u3') return null
+          return { ...row, email: `${row.id}@scrubbed.invalid` }
+        }
+        return table === 'membership' && row.userId === 'u3' ? null : row
+      },
+    })
+
+    expect(summary).toEqual({
+      ok: true,
+      source: 'source',
+      target: 'target',
+      tables: 2,
+      rows: 5,
+      droppedRows: 2,
+      counts: { user: 2, membership: 3 },
+    })
+    expect(beforeImport).toHaveBeenCalledWith({}, 'target')
+    expect(rowsOf(target, 'user')).toEqual([
+      { id: 'u1', email: 'u1@scrubbed.invalid', avatar: Buffer.from([1, 2]) },
+      { id: 'u2', email: 'u2@scrubbed.invalid', avatar: null },
+    ])
+    expect(rowsOf(target, 'membership')).toEqual([
+      { workspaceId: 'w1', userId: 'u1', role: 'owner' },
+      { workspaceId: 'w1', userId: 'u2', role: 'member' },
+      { workspaceId: 'w2', userId: 'u1', role: 'member' },
+    ])
+    const names = target
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type IN ('table', 'index') AND sql IS NOT NULL ORDER BY name"
+      )
+      .all()
+      .map((row: { name: string }) => row.name)
+    expect(names).toEqual(['_test_schema', 'membership', 'user', 'user_email'])
+    expect(rowsOf(target, '_test_schema')).toEqual([])
+    source.close()
+    target.close()
+  })
+
+  it('refuses a target that already holds application tables', async () => {
+    const source = sourceDatabase()
+    const target = new BetterSqlite3(':memory:')
+    target.exec('CREATE TABLE note (id TEXT PRIMARY KEY)')
+    const { cloner, beforeImport } = sqliteCloner({ source, target })
+
+    await expect(cloner.cloneNamespace({}, 'source', 'target')).rejects.toThrow(
+      'clone target target is not empty (1 application tables)'
+    )
+    await expect(cloner.cloneNamespace({}, 'source', 'source')).rejects.toThrow(
+      'clone target must differ from its source'
+    )
+    expect(beforeImport).not.toHaveBeenCalled()
+    source.close()
+    target.close()
+  })
+})
@@ -0,0 +1,219 @@
+import {
+  clearReplicationBookkeeping,
+  dependencyOrder,
+  errorMessage,
+  isNamespaceInternalTable,
+  liveApplicationTables,
+  quoteIdentifier,
+  tableDependencies,
+  tableIdentities,
+  tablePages,
+  type NamespaceBackupOptions,
+} from './namespace-backup.js'
+
+export type NamespaceCloneRow = Record<string, unknown>
+
+/**
+ * Rewrite or drop one source row on its way into the clone. Returning null
+ * leaves the row out; rows that reference it are the callback's to drop too.
+ */
+export type NamespaceCloneTransform = (
+  row: NamespaceCloneRow,
+  context: { table: string }
+) => NamespaceCloneRow | null | Promise<NamespaceCloneRow | null>
+
+export interface NamespaceCloneSummary {
+  ok: true
+  source: string
+  target: string
+  tables: number
+  rows: number
+  /** Source rows the transform left out. */
+  droppedRows: number
+  counts: Record<string, number>
+}
+
+export interface NamespaceClonerOptions<Env> extends Pick<
+  NamespaceBackupOptions<Env>,
+  'readSession' | 'query' | 'batch' | 'beforeImport' | 'excludedTables'
+> {
+  pageRows?: number
+}
+
+export interface NamespaceCloner<Env> {
+  /**
+   * Copy every application table of `source` into the empty namespace
+   * `target`. The source is read in one session, so the clone is a state the
+   * source actually held; its writers wait for the copy to finish.
+   */
+  cloneNamespace(
+    env: Env,
+    source: string,
+    target: string,
+    options?: { transform?: NamespaceCloneTransform }
+  ): Promise<NamespaceCloneSummary>
+}
+
+export function createNamespaceCloner<Env>(
+  options: NamespaceClonerOptions<Env>
+): NamespaceCloner<Env> {
+  const pageRows = options.pageRows ?? 200
+  if (!Number.isSafeInteger(pageRows) || pageRows < 1) {
+    throw new TypeError('pageRows must be a positive safe integer')
+  }
+  const excludedTables = new Set(options.excludedTables ?? [])
+  const isExcluded = (table: string) =>
+    excludedTables.has(table) || isNamespaceInternalTable(table)
+
+  const log = (fields: Record<string, unknown>) => {
+    console.log(JSON.stringify({ event: 'orez_clone', ...fields }))
+  }
+
+  const cloneNamespace = async (
+    env: Env,
+    source: string,
+    target: string,
+    cloneOptions: { transform?: NamespaceCloneTransform } = {}
+  ): Promise<NamespaceCloneSummary> => {
+    const startedAt = Date.now()
+    if (source === target) throw new Error('clone target must differ from its source')
+    const liveTargetTables = await liveApplicationTables(options, env, target, isExcluded)
+    if (liveTargetTables.length > 0) {
+      throw new Error(
+        `clone target ${target} is not empty (${liveTargetTables.length} application tables)`
+      )
+    }
+
+    await options.beforeImport?.(env, target)
+    // A fresh object may already hold its own change log. The clone's clients
+    // start from an empty one rather than from positions in the source's.
+    await clearReplicationBookkeeping(options, env, target)
+
+    let rowTotal = 0
+    let droppedRows = 0
+    const counts: Record<string, number> = {}
+    const insertSql = new Map<string, string>()
+    const insertRows = async (name: string, rows: readonly NamespaceCloneRow[]) => {
+      if (rows.length === 0) return
+      await options.batch(
+        env,
+        target,
+        rows.map((row) => {
+          const columns = Object.keys(row)
+          const signature = `${name}\0${columns.join('\0')}`
+          let sql = insertSql.get(signature)
+          if (!sql) {
+            sql =
+              `INSERT INTO "${quoteIdentifier(name)}" (` +
+              columns.map((column) => `"${quoteIdentifier(column)}"`).join(', ') +
+              `) VALUES (${columns.map(() => '?').join(', ')})`
+            insertSql.set(signature, sql)
+          }
+          return { sql, params: columns.map((column) => row[column]) }
+        })
+      )
+    }
+
+    try {
+      const tableCount = await options.readSession(env, source, async (read) => {
+        const master = await read(
+          "SELECT name, sql, type, tbl_name FROM sqlite_master WHERE type IN ('table', 'index') AND sql IS NOT NULL ORDER BY name",
+          []
+        )
+        const tables = master.filter(
+          (row) => row.type === 'table' && !isExcluded(String(row.name))
+        )
+        const names = tables.map((row) => String(row.name))
+        const namesBySqlIdentity = tableIdentities(names)
+        const ordered = dependencyOrder(
+          names,
+          new Map(
+            tables.map((row) => [
+              String(row.name),
+              tableDependencies(row.sql, String(row.name), namesBySqlIdentity),
+            ])
+          )
+        )
+        const createSql = new Map(
+          tables.map((row) => [String(row.name), String(row.sql)])
+        )
+
+        // Parents are created and filled before the tables that reference them.
+        for (let offset = 0; offset < ordered.length; offset += 40) {
+          await options.batch(
+            env,
+            target,
+            ordered
+              .slice(offset, offset + 40)
+              .map((name) => ({ sql: createSql.get(name)! }))
+          )
+        }
+
+        for (const name of ordered) {
+          counts[name] = 0
+          for await (const page of tablePages(
+            read,
+            name,
+            createSql.get(name),
+            () => pageRows
+          )) {
+            const rows: NamespaceCloneRow[] = []
+            for (const row of page) {
+              const cloned = cloneOptions.transform
+                ? await cloneOptions.transform(row, { table: name })
+                : row
+              if (cloned) rows.push(cloned)
+              else droppedRows++
+            }
+            await insertRows(name, rows)
+            counts[name] += rows.length
+            rowTotal += rows.length
+          }
+        }
+
+        const indexes = master
+          .filter(
+            (row) => row.type === 'index' && createSql.has(String(row.tbl_name ?? ''))
+          )
+          .map((row) => ({ sql: String(row.sql) }))
+        for (let offset = 0; offset < indexes.length; offset += 400) {
+          await options.batch(env, target, indexes.slice(offset, offset + 400))
+        }
+        return ordered.length
+      })
+
+      log({
+        phase: 'clone',
+        outcome: 'success',
+        source,
+        target,
+        durationMs: Date.now() - startedAt,
+        tables: tableCount,
+        rows: rowTotal,
+        droppedRows,
+      })
+      return {
+        ok: true,
+        source,
+        target,
+        tables: tableCount,
+        rows: rowTotal,
+        droppedRows,
+        counts,
+      }
+    } catch (error) {
+      log({
+        phase: 'clone',
+        outcome: 'error',
+        source,
+        target,
+        durationMs: Date.now() - startedAt,
+        rows: rowTotal,
+        error: errorMessage(error),
+      })
+      throw error
+    }
+  }
+
+  return { cloneNamespace }
+}
@@ -13,6 +13,17 @@ function quoteIdent(name: string): string {
   return `"${name.replace(/"/g, '""')}"`
 }
 
+/**
+ * A change's commit time in epoch milliseconds. The worker writes
+ * `created_at` itself, because a change log created before millisecond
+ * timestamps keeps its unixepoch() default; the seconds already logged there
+ * are told apart by magnitude.
+ */
+export function changeCommitTimeMs(createdAt: unknown): number {
+  const value = Number(createdAt)
+  return value < 10_000_000_000 ? value * 1_000 : value
+}
+
 function finitePositiveNumber(value: unknown): number {
   const number = Number(value ?? 0)
   return Number.isFinite(number) && number > 0 ? number : 0
@@ -36,7 +47,7 @@ export class DurableWatermarkState {
   ensureTables(): void {
     if (this.tablesReady) return
     this.sql.exec(
-      "CREATE TABLE IF NOT EXISTS _zero_changes (watermark INTEGER PRIMARY KEY AUTOINCREMENT, table_name TEXT NOT NULL, op TEXT NOT NULL CHECK (op IN ('INSERT', 'UPDATE', 'DELETE')), row_data TEXT, old_data TEXT, created_at INTEGER NOT NULL DEFAULT (unixepoch()))"
+      "CREATE TABLE IF NOT EXISTS _zero_changes (watermark INTEGER PRIMARY KEY AUTOINCREMENT, table_name TEXT NOT NULL, op TEXT NOT NULL CHECK (op IN ('INSERT', 'UPDATE', 'DELETE')), row_data TEXT, old_data TEXT, created_at INTEGER NOT NULL DEFAULT (CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER)))"
     )
     this.sql.exec(
       `CREATE TABLE IF NOT EXISTS ${quoteIdent(WATERMARK_STATE_TABLE)} (id INTEGER PRIMARY KEY CHECK (id = 1), last_value INTEGER NOT NULL DEFAULT 0)`
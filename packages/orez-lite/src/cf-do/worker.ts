@@ -11,6 +11,7 @@ import {
   classifySql,
   isSqlMutation,
   isSqlRowMutation,
+  KeyedWriteBudgetExceededError,
   RollingRowWriteBudget,
   stripPublicPrefix,
   trackedChangeRow,
@@ -40,7 +41,11 @@ import {
   ZSYNC_CHANGES_TABLE,
   ZSYNC_LOG_SEGMENTS_TABLE,
 } from './tx-journal.js'
-import { DurableWatermarkState, type DurableSqlStorage } from './watermark.js'
+import {
+  changeCommitTimeMs,
+  DurableWatermarkState,
+  type DurableSqlStorage,
+} from './watermark.js'
 
 import type {
   ApplicationSqlClient,
@@ -630,9 +635,25 @@ export class ZeroDO extends DurableObject {
   // to shape the response.
   private writeBudgetErrorResponse(error: unknown): Response | null {
     if (!(error instanceof WriteBudgetExceededError)) return null
-    return Response.json(error.toJSON(), { status: 429 })
+    return Response.json(error.toJSON(), {
+      status: 429,
+      headers:
+        error instanceof KeyedWriteBudgetExceededError
+          ? { 'retry-after': String(Math.ceil(error.retryAfterMs / 1_000)) }
+          : undefined,
+    })
   }
 
+  /**
+   * Runs before a native Zero push (the socket `push` message or the
+   * `/zero/push` route) applies any mutation. A subclass metering push authors
+   * throws KeyedWriteBudgetExceededError here to refuse the whole push.
+   */
+  protected nativePushWillApply(_body: unknown): void {}
+
+  /** Change-log rows a native push wrote, counted even when it failed partway. */
+  protected nativePushDidApply(_body: unknown, _rows: number): void {}
+
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env)
     this.sql = ctx.storage.sql
@@ -1115,13 +1136,27 @@ export class ZeroDO extends DurableObject {
 
   private handlePush(socket: WebSocket, attachment: SocketAttachment, body: PushBody) {
     const mutations = Array.isArray(body?.mutations) ? body.mutations : []
+    try {
+      this.nativePushWillApply(body)
+    } catch (err) {
+      if (!(err instanceof KeyedWriteBudgetExceededError)) throw err
+      this.sendJSON(socket, [
+        'error',
+        { kind: 'MutationRateLimited', message: err.message },
+      ])
+      return
+    }
     const before = this.watermark()
     const mutationResults: any[] = []
     const lastMutationIDChanges: Record<string, number> = {}
-    for (const m of mutations) {
-      const result = this.applyMutation(m)
-      mutationResults.push({ id: { clientID: m.clientID, id: m.id }, result })
-      lastMutationIDChanges[m.clientID] = m.id
+    try {
+      for (const m of mutations) {
+        const result = this.applyMutation(m)
+        mutationResults.push({ id: { clientID: m.clientID, id: m.id }, result })
+        lastMutationIDChanges[m.clientID] = m.id
+      }
+    } finally {
+      this.nativePushDidApply(body, this.watermark() - before)
     }
     this.sendJSON(socket, ['pushResponse', { mutations: mutationResults }])
     const after = this.watermark()
@@ -1137,14 +1172,19 @@ export class ZeroDO extends DurableObject {
   private async handleHttpPush(request: Request): Promise<Response> {
     try {
       const body = (await request.json()) as any
+      this.nativePushWillApply(body)
       const before = this.watermark()
       const mutations = Array.isArray(body?.mutations) ? body.mutations : []
       const mutationResults: any[] = []
       const lastMutationIDChanges: Record<string, number> = {}
-      for (const m of mutations) {
-        const result = this.applyMutation(m)
-        mutationResults.push({ id: { clientID: m.clientID, id: m.id }, result })
-        lastMutationIDChanges[m.clientID] = m.id
+      try {
+        for (const m of mutations) {
+          const result = this.applyMutation(m)
+          mutationResults.push({ id: { clientID: m.clientID, id: m.id }, result })
+          lastMutationIDChanges[m.clientID] = m.id
+        }
+      } finally {
+        this.nativePushDidApply(body, this.watermark() - before)
       }
       const after = this.watermark()
       const changes = after > before ? this.readChangesSince(before) : []
@@ -2767,12 +2807,13 @@ export class ZeroDO extends DurableObject {
     this.watermarks.ensureTables()
     const watermark = this.watermarks.next()
     this.sql.exec(
-      'INSERT INTO _zero_changes (watermark, table_name, op, row_data, old_data) VALUES (?, ?, ?, ?, ?)',
+      'INSERT INTO _zero_changes (watermark, table_name, op, row_data, old_data, created_at) VALUES (?, ?, ?, ?, ?, ?)',
       watermark,
       tableName,
       op,
       rowData ? JSON.stringify(rowData) : null,
-      oldData ? JSON.stringify(oldData) : null
+      oldData ? JSON.stringify(oldData) : null,
+      Date.now()
     )
     this.watermarks.mark(watermark)
   }
@@ -2793,12 +2834,13 @@ export class ZeroDO extends DurableObject {
     this.watermarks.ensureTables()
     const rows = this.sql
       .exec(
-        `INSERT INTO _zero_changes (table_name, op, row_data, old_data)
-         SELECT table_name, op, row_data, old_data
+        `INSERT INTO _zero_changes (table_name, op, row_data, old_data, created_at)
+         SELECT table_name, op, row_data, old_data, ?
          FROM _zero_pending_changes
          WHERE transaction_id = ? AND publish != 0
          ORDER BY id
          RETURNING watermark`,
+        Date.now(),
         transactionID
       )
       .toArray()
@@ -2831,12 +2873,7 @@ export class ZeroDO extends DurableObject {
         const oldData = row.old_data ? JSON.parse(String(row.old_data)) : null
         return {
           watermark: Number(row.watermark),
-          // Existing databases store unixepoch() seconds. Accept millisecond
-          // values too so a future precision migration is wire-compatible.
-          commitTimeMs:
-            Number(row.created_at) < 10_000_000_000
-              ? Number(row.created_at) * 1_000
-              : Number(row.created_at),
+          commitTimeMs: changeCommitTimeMs(row.created_at),
           tableName,
           op: String(row.op),
           rowData: rowData ? this.normalizeRow(tableName, rowData) : null,
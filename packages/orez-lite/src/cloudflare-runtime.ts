@@ -32,6 +32,7 @@ export {
 } from './cf-do/lite-data-worker.js'
 export type {
   OrezApplicationPushContext,
+  OrezApplicationPushOptions,
   OrezApplicationPushResponse,
   OrezApplicationSqlCommitContext,
   OrezAppSchemaDescriptor,
@@ -41,11 +42,14 @@ export type {
   OrezDataWorkerResult,
   OrezExecutionContext,
   OrezErrorContext,
+  OrezKeyedWriteBudget,
+  OrezNamespaceCloneSummary,
   OrezRequestContext,
   OrezResolvedDataRequest,
   OrezScheduledEvent,
   OrezSchemaMigrationOptions,
   OrezSchemaStatus,
+  OrezWriteBudgetKeyScope,
 } from './cf-do/lite-data-worker.js'
 export { createNamespaceBackupManager } from './cf-do/namespace-backup.js'
 export type {
@@ -53,7 +57,14 @@ export type {
   NamespaceBackupManager,
   NamespaceBackupObject,
   NamespaceBackupOptions,
+  NamespaceBackupSeal,
   NamespaceBackupStatement,
   NamespaceBackupSummary,
   NamespaceRestoreSummary,
 } from './cf-do/namespace-backup.js'
+export type { BackupCompression, BackupEncryptionKey } from './cf-do/backup-seal.js'
+export type {
+  NamespaceCloneRow,
+  NamespaceCloneSummary,
+  NamespaceCloneTransform,
+} from './cf-do/namespace-clone.js'
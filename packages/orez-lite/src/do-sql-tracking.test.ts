@@ -3,6 +3,8 @@ import { describe, expect, it } from 'vitest'
 import {
   isSqlMutation,
   isSqlRowMutation,
+  KeyedRowWriteBudget,
+  KeyedWriteBudgetExceededError,
   RollingRowWriteBudget,
   trackedChangeRow,
   WriteBudgetExceededError,
@@ -137,6 +139,69 @@ describe('RollingRowWriteBudget', () => {
   })
 })
 
+describe('KeyedRowWriteBudget', () => {
+  it('limits only the key over budget and lets it back in as its window ages', () => {
+    let now = 1_000
+    const meter = new KeyedRowWriteBudget({
+      scope: 'user',
+      budgetRows: 10,
+      windowMs: 5_000,
+      now: () => now,
+    })
+    meter.record('noisy', 6)
+    now = 3_000
+    // admitted under budget and charged after, so one write can overshoot
+    meter.assertOpen('noisy')
+    expect(meter.record('noisy', 8)).toEqual({
+      key: 'noisy',
+      windowRows: 14,
+      limited: true,
+      retryAfterMs: 4_000,
+    })
+    meter.record('quiet', 2)
+
+    let rejected: unknown
+    try {
+      meter.assertOpen('noisy')
+    } catch (error) {
+      rejected = error
+    }
+    expect(rejected).toBeInstanceOf(KeyedWriteBudgetExceededError)
+    expect(rejected).toBeInstanceOf(WriteBudgetExceededError)
+    expect(JSON.parse(JSON.stringify(rejected))).toEqual({
+      error: 'writeBudgetExceeded',
+      windowRows: 14,
+      budget: 10,
+      scope: 'user',
+      key: 'noisy',
+      retryAfterMs: 4_000,
+    })
+    expect(() => meter.assertOpen('quiet')).not.toThrow()
+    expect(meter.status()).toEqual({
+      scope: 'user',
+      budget: 10,
+      windowMs: 5_000,
+      trackedKeys: 2,
+      limitedKeys: 1,
+      keys: [
+        { key: 'noisy', windowRows: 14, limited: true, retryAfterMs: 4_000 },
+        { key: 'quiet', windowRows: 2, limited: false, retryAfterMs: null },
+      ],
+    })
+
+    now = 7_000
+    expect(() => meter.assertOpen('noisy')).not.toThrow()
+    expect(meter.status().keys[0]).toEqual({
+      key: 'noisy',
+      windowRows: 8,
+      limited: false,
+      retryAfterMs: null,
+    })
+    now = 20_000
+    expect(meter.status()).toMatchObject({ trackedKeys: 0, keys: [] })
+  })
+})
+
 describe('isSqlMutation', () => {
   it('keeps reads open and recognizes direct and CTE writes', () => {
     expect(isSqlMutation('select 1')).toBe(false)
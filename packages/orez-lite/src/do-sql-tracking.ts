@@ -247,6 +247,188 @@ export class RollingRowWriteBudget {
   }
 }
 
+export interface KeyedRowWriteBudgetOptions extends RowWriteBudgetOptions {
+  /** What the keys name (`user`, `mutator`, ...), echoed in status and errors. */
+  scope: string
+}
+
+export interface KeyedRowWriteBudgetKeyStatus {
+  key: string
+  windowRows: number
+  limited: boolean
+  /** Milliseconds until the key's window drops back under budget. */
+  retryAfterMs: number | null
+}
+
+export interface KeyedRowWriteBudgetStatus {
+  scope: string
+  budget: number
+  windowMs: number
+  trackedKeys: number
+  limitedKeys: number
+  /** Heaviest keys first, capped so a wide tenant cannot bloat the response. */
+  keys: KeyedRowWriteBudgetKeyStatus[]
+}
+
+/**
+ * One key over its own budget. The rest of the object keeps writing, so
+ * unlike the namespace circuit this is a throttle the caller retries through.
+ */
+export class KeyedWriteBudgetExceededError extends WriteBudgetExceededError {
+  constructor(
+    readonly scope: string,
+    readonly key: string,
+    windowRows: number,
+    budget: number,
+    windowMs: number,
+    readonly retryAfterMs: number
+  ) {
+    super(windowRows, budget, windowMs)
+    this.message = `${scope} ${key} ${this.message}`
+    this.name = 'KeyedWriteBudgetExceededError'
+  }
+
+  toJSON(): {
+    error: string
+    windowRows: number | null
+    budget: number
+    scope: string
+    key: string
+    retryAfterMs: number
+  } {
+    return {
+      ...super.toJSON(),
+      scope: this.scope,
+      key: this.key,
+      retryAfterMs: this.retryAfterMs,
+    }
+  }
+}
+
+type KeyedRowWriteSamples = { rows: number; samples: { at: number; rows: number }[] }
+
+const KEYED_STATUS_LIMIT = 20
+
+/**
+ * Rolling row counters per key inside one Durable Object isolate.
+ *
+ * Keys are admitted while under budget and charged after the fact, so one
+ * write can carry a key past its budget; the key then waits until enough of
+ * its window ages out. Nothing is sticky or persisted: an evicted object
+ * forgets every key, which errs toward letting a tenant back in.
+ */
+export class KeyedRowWriteBudget {
+  readonly #scope: string
+  readonly #budgetRows: number
+  readonly #windowMs: number
+  readonly #bucketMs: number
+  readonly #now: () => number
+  #keys = new Map<string, KeyedRowWriteSamples>()
+
+  constructor(options: KeyedRowWriteBudgetOptions) {
+    if (!Number.isSafeInteger(options.budgetRows) || options.budgetRows < 1)
+      throw new TypeError('budgetRows must be a positive safe integer')
+    if (!Number.isSafeInteger(options.windowMs) || options.windowMs < 1)
+      throw new TypeError('windowMs must be a positive safe integer')
+    this.#scope = options.scope
+    this.#budgetRows = options.budgetRows
+    this.#windowMs = options.windowMs
+    this.#bucketMs = Math.min(1_000, options.windowMs)
+    this.#now = options.now
+  }
+
+  #prune(key: string, now: number): KeyedRowWriteSamples | undefined {
+    const entry = this.#keys.get(key)
+    if (!entry) return undefined
+    const cutoff = now - this.#windowMs
+    let remove = 0
+    while (
+      remove < entry.samples.length &&
+      entry.samples[remove]!.at + this.#bucketMs <= cutoff
+    ) {
+      entry.rows -= entry.samples[remove]!.rows
+      remove++
+    }
+    if (remove > 0) entry.samples.splice(0, remove)
+    if (entry.samples.length === 0) {
+      this.#keys.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  #retryAfterMs(entry: KeyedRowWriteSamples, now: number): number | null {
+    if (entry.rows < this.#budgetRows) return null
+    let rows = entry.rows
+    for (const sample of entry.samples) {
+      rows -= sample.rows
+      if (rows < this.#budgetRows) {
+        return Math.max(1, sample.at + this.#bucketMs + this.#windowMs - now)
+      }
+    }
+    return this.#windowMs
+  }
+
+  #keyStatus(key: string, now: number): KeyedRowWriteBudgetKeyStatus {
+    const entry = this.#prune(key, now)
+    const retryAfterMs = entry ? this.#retryAfterMs(entry, now) : null
+    return {
+      key,
+      windowRows: entry?.rows ?? 0,
+      limited: retryAfterMs !== null,
+      retryAfterMs,
+    }
+  }
+
+  assertOpen(key: string): void {
+    const status = this.#keyStatus(key, this.#now())
+    if (status.retryAfterMs === null) return
+    throw new KeyedWriteBudgetExceededError(
+      this.#scope,
+      key,
+      status.windowRows,
+      this.#budgetRows,
+      this.#windowMs,
+      status.retryAfterMs
+    )
+  }
+
+  record(key: string, rowsWritten: unknown): KeyedRowWriteBudgetKeyStatus {
+    const now = this.#now()
+    const rows = Number(rowsWritten)
+    if (!Number.isSafeInteger(rows) || rows <= 0) return this.#keyStatus(key, now)
+    let entry = this.#prune(key, now)
+    if (!entry) {
+      // A new key is the only way the map grows, so it pays for the sweep.
+      for (const tracked of [...this.#keys.keys()]) this.#prune(tracked, now)
+      entry = { rows: 0, samples: [] }
+      this.#keys.set(key, entry)
+    }
+    const bucketAt = Math.floor(now / this.#bucketMs) * this.#bucketMs
+    const last = entry.samples[entry.samples.length - 1]
+    if (last?.at === bucketAt) last.rows += rows
+    else entry.samples.push({ at: bucketAt, rows })
+    entry.rows += rows
+    return this.#keyStatus(key, now)
+  }
+
+  status(): KeyedRowWriteBudgetStatus {
+    const now = this.#now()
+    const keys = [...this.#keys.keys()]
+      .map((key) => this.#keyStatus(key, now))
+      .filter((status) => status.windowRows > 0)
+      .sort((left, right) => right.windowRows - left.windowRows)
+    return {
+      scope: this.#scope,
+      budget: this.#budgetRows,
+      windowMs: this.#windowMs,
+      trackedKeys: keys.length,
+      limitedKeys: keys.filter((status) => status.limited).length,
+      keys: keys.slice(0, KEYED_STATUS_LIMIT),
+    }
+  }
+}
+
 const SQL_MUTATION_RE =
   /(?:^|;)\s*(?:insert|update|delete|replace|create|alter|drop|truncate|vacuum|reindex)\b/i
 const SQL_ROW_MUTATION_RE = /(?:^|;)\s*(?:insert|update|delete|replace)\b/i
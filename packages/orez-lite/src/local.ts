@@ -9,6 +9,17 @@ import {
   type NativeHostCallbacks,
   type NativeHostWorkerRetention,
 } from './native.js'
+import {
+  startRealtimeServer,
+  type RealtimeServer,
+  type RealtimeServerOptions,
+} from './realtime-server.js'
+
+export {
+  startRealtimeServer,
+  type RealtimeServer,
+  type RealtimeServerOptions,
+} from './realtime-server.js'
 
 type LocalSchema = {
   tables: Record<string, { name: string }>
@@ -26,6 +37,11 @@ export interface LocalSyncHostConfig {
   workerRetention?: NativeHostWorkerRetention
   changeLogRows?: number
   startupTimeoutMs?: number
+  /**
+   * serve streaming fields and presence beside the native host, on their own
+   * port: subscribers on `/realtime/subscribe`, producers on `/realtime/produce`
+   */
+  realtime?: Omit<RealtimeServerOptions, 'host'>
 }
 
 export interface LocalSyncHostExit {
@@ -36,6 +52,7 @@ export interface LocalSyncHostExit {
 
 export interface LocalSyncHost {
   child: ChildProcess
+  realtime: RealtimeServer | null
   exited: Promise<LocalSyncHostExit>
   close(): Promise<void>
 }
@@ -135,7 +152,8 @@ export async function startLocalSyncHost(
   })
 
   const readyDeadline = Date.now() + (config.startupTimeoutMs ?? 30_000)
-  while (Date.now() < readyDeadline) {
+  let ready = false
+  while (!ready && Date.now() < readyDeadline) {
     if (startError) throw startError
     if (child.exitCode !== null || child.signalCode !== null) {
       throw new Error(
@@ -147,24 +165,40 @@ export async function startLocalSyncHost(
         `http://${config.host ?? '127.0.0.1'}:${config.port}/admin/health`,
         { headers: { 'x-admin-key': adminToken } }
       )
-      if (response.ok) {
-        return {
-          child,
-          exited,
-          async close() {
-            if (child.exitCode !== null || child.signalCode !== null) return
-            expectedExit = true
-            child.kill('SIGTERM')
-            await exited
-          },
-        }
-      }
+      ready = response.ok
     } catch {}
-    await new Promise((resolveReady) => setTimeout(resolveReady, 100))
+    if (!ready) await new Promise((resolveReady) => setTimeout(resolveReady, 100))
+  }
+
+  if (!ready) {
+    expectedExit = true
+    child.kill('SIGTERM')
+    await exited
+    throw new Error(`native sync host did not become ready on port ${config.port}`)
   }
 
-  expectedExit = true
-  child.kill('SIGTERM')
-  await exited
-  throw new Error(`native sync host did not become ready on port ${config.port}`)
+  let realtime: RealtimeServer | null = null
+  try {
+    if (config.realtime) {
+      realtime = await startRealtimeServer({ ...config.realtime, host: config.host })
+    }
+  } catch (error) {
+    expectedExit = true
+    child.kill('SIGTERM')
+    await exited
+    throw error
+  }
+
+  return {
+    child,
+    realtime,
+    exited,
+    async close() {
+      await realtime?.close()
+      if (child.exitCode !== null || child.signalCode !== null) return
+      expectedExit = true
+      child.kill('SIGTERM')
+      await exited
+    },
+  }
 }
@@ -0,0 +1,139 @@
+import { createSchema, string, table } from '@rocicorp/zero'
+import {
+  canonicalTopic,
+  defineStreamingFields,
+  encodeFrame,
+} from 'orez-sync-executor/realtime'
+import { afterEach, describe, expect, it } from 'vitest'
+import WebSocket from 'ws'
+
+import { startRealtimeServer, type RealtimeServer } from './realtime-server.js'
+
+const message = table('message')
+  .columns({ id: string(), content: string() })
+  .primaryKey('id')
+
+const streaming = defineStreamingFields(createSchema({ tables: [message] }), {
+  message: {
+    content: { maxBytes: 100_000, maxUpdatesPerSecond: 60, maxBytesPerSecond: 500_000 },
+  },
+})
+
+const topic = { table: 'message', key: { id: 'm1' }, field: 'content' }
+const topicID = canonicalTopic(streaming.message.content.spec.primaryKey, topic)
+
+function open(
+  url: string,
+  options: WebSocket.ClientOptions & { protocol?: string } = {}
+) {
+  const socket = new WebSocket(url, options.protocol ? [options.protocol] : [], options)
+  const frames: unknown[] = []
+  socket.on('message', (data) => frames.push(JSON.parse(String(data))))
+  const ready = new Promise<void>((resolve, reject) => {
+    socket.once('open', () => resolve())
+    socket.once('unexpected-response', (_, response) =>
+      reject(new Error(`refused with ${response.statusCode}`))
+    )
+    socket.once('error', reject)
+  })
+  return { socket, frames, ready }
+}
+
+async function until(check: () => boolean) {
+  for (let attempt = 0; attempt < 200 && !check(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+  expect(check()).toBe(true)
+}
+
+describe('startRealtimeServer', () => {
+  const servers: RealtimeServer[] = []
+
+  afterEach(async () => {
+    for (const server of servers.splice(0)) await server.close()
+  })
+
+  async function start(
+    overrides: Partial<Parameters<typeof startRealtimeServer>[0]> = {}
+  ) {
+    const server = await startRealtimeServer({
+      port: 0,
+      streamingManifest: streaming.manifest,
+      authorizeWake: (request) =>
+        request.headers.get('authorization') === 'Bearer alice-token' && {
+          userID: 'alice',
+        },
+      authorizeProduce: (request) => request.headers.get('x-producer-key') === 'secret',
+      ...overrides,
+    })
+    servers.push(server)
+    return `ws://127.0.0.1:${server.port}`
+  }
+
+  it('streams a producer socket into a subscriber socket', async () => {
+    const origin = await start()
+    const token = Buffer.from('alice-token').toString('base64url')
+    const subscriber = open(`${origin}/realtime/subscribe?clientID=c1&clientGroupID=g1`, {
+      protocol: `orez-auth.${token}`,
+    })
+    await subscriber.ready
+    subscriber.socket.send(encodeFrame(['subscribe', { topic }]))
+    await until(() => subscriber.frames.length > 0)
+    expect(subscriber.frames[0]).toMatchObject([
+      'subscribed',
+      { topic: topicID, status: 'active' },
+    ])
+
+    const producer = open(`${origin}/realtime/produce?producerID=worker-1`, {
+      headers: { 'x-producer-key': 'secret' },
+    })
+    await producer.ready
+    producer.socket.send(encodeFrame(['begin', { topic, streamID: 's1' }]))
+    producer.socket.send(
+      encodeFrame([
+        'publish',
+        {
+          update: { topic: topicID, streamID: 's1', seq: 0, op: 'snapshot', value: 'hi' },
+        },
+      ])
+    )
+
+    await until(() => subscriber.frames.length > 1)
+    expect(subscriber.frames.at(-1)).toMatchObject([
+      'field',
+      {
+        updates: [
+          { topic: topicID, streamID: 's1', seq: 0, op: 'snapshot', value: 'hi' },
+        ],
+      },
+    ])
+    subscriber.socket.close()
+    producer.socket.close()
+  })
+
+  it('refuses sockets its callbacks do not authorize', async () => {
+    const origin = await start({ authorizeProduce: undefined })
+    await expect(
+      open(`${origin}/realtime/subscribe?clientID=c1&clientGroupID=g1`).ready
+    ).rejects.toThrow('refused with 401')
+    await expect(
+      open(`${origin}/realtime/produce`, { headers: { 'x-producer-key': 'secret' } })
+        .ready
+    ).rejects.toThrow('refused with 403')
+    await expect(open(`${origin}/wake`).ready).rejects.toThrow('refused with 404')
+  })
+
+  it('drops a subscriber from the hub when its socket closes', async () => {
+    const origin = await start({ authorizePresence: () => true })
+    const token = Buffer.from('alice-token').toString('base64url')
+    const subscriber = open(`${origin}/realtime/subscribe?clientID=c1&clientGroupID=g1`, {
+      protocol: `orez-auth.${token}`,
+    })
+    await subscriber.ready
+    subscriber.socket.send(encodeFrame(['join', { room: 'doc-1' }]))
+    await until(() => servers[0].host.hub.activeRooms === 1)
+
+    subscriber.socket.close()
+    await until(() => servers[0].host.hub.activeRooms === 0)
+  })
+})
@@ -0,0 +1,358 @@
+import { createHash, randomUUID } from 'node:crypto'
+import { createServer, type IncomingMessage, type Server } from 'node:http'
+
+import { createSocketHost, isPresenceTopic } from 'orez-sync-executor/realtime'
+
+import type { Duplex } from 'node:stream'
+import type {
+  HostConnection,
+  HubLimits,
+  HubOptions,
+  RealtimeIdentity,
+  RealtimeSocketHost,
+  StreamingManifest,
+} from 'orez-sync-executor/realtime'
+
+// The realtime routes of sync-cf-host, served from Node for local development:
+// `/realtime/subscribe` takes the place of the Durable Object's `/wake` socket
+// for field and presence subscribers, and `/realtime/produce` is the same
+// producer route. Both run on the shared socket host, so a generation worker
+// pointed here behaves exactly as it will against the deployed namespace.
+
+export interface RealtimeServerOptions {
+  port: number
+  host?: string
+  streamingManifest: StreamingManifest
+  /**
+   * Identify a subscriber, as sync-cf-host's `authorizeWake` does: the client's
+   * `orez-auth.<token>` subprotocol is presented as the ordinary Authorization
+   * header, and the answer must carry a userID.
+   */
+  authorizeWake(
+    request: Request
+  ): boolean | { userID: string } | Promise<boolean | { userID: string }>
+  /**
+   * Authorize a field subscription. The deployed host reads the client group's
+   * query membership; a local runner has no engine to read it from, so absent
+   * means every subscription from an identified socket is active. Supply this
+   * to reproduce production denials in development.
+   */
+  authorizeSubscribe?: (
+    identity: RealtimeIdentity,
+    topic: Parameters<HubOptions['authorizeSubscribe']>[1],
+    spec: Parameters<HubOptions['authorizeSubscribe']>[2]
+  ) => boolean | Promise<boolean>
+  /** Authorize a producer socket. Absent refuses every producer, as deployed. */
+  authorizeProduce?(request: Request): boolean | Promise<boolean>
+  /** Authorize a presence join. Absent refuses every join, as deployed. */
+  authorizePresence?(room: string, identity: RealtimeIdentity): boolean | Promise<boolean>
+  limits?: Partial<HubLimits>
+}
+
+export interface RealtimeServer {
+  port: number
+  host: RealtimeSocketHost
+  close(): Promise<void>
+}
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+// realtime frames are small JSON; a larger message is a broken or hostile peer
+const MAX_MESSAGE_BYTES = 1024 * 1024
+
+export async function startRealtimeServer(
+  options: RealtimeServerOptions
+): Promise<RealtimeServer> {
+  if (!options.streamingManifest) {
+    throw new TypeError('realtime server streamingManifest is required')
+  }
+  if (typeof options.authorizeWake !== 'function') {
+    throw new TypeError('realtime server authorizeWake is required')
+  }
+  if (!Number.isSafeInteger(options.port) || options.port < 0) {
+    throw new TypeError('realtime server port must be a non-negative integer')
+  }
+
+  const realtime = createSocketHost({
+    manifest: options.streamingManifest,
+    limits: options.limits,
+    authorizeSubscribe: async (identity, topic, spec) => {
+      if (isPresenceTopic(topic)) {
+        if (!options.authorizePresence) {
+          return { status: 'denied', reason: 'server serves no presence rooms' }
+        }
+        return (await options.authorizePresence(topic.room, identity))
+          ? { status: 'active' }
+          : { status: 'denied', reason: 'not allowed in this room' }
+      }
+      if (!options.authorizeSubscribe) return { status: 'active' }
+      return (await options.authorizeSubscribe(identity, topic, spec))
+        ? { status: 'active' }
+        : { status: 'denied', reason: 'row is not in this client group' }
+    },
+  })
+  const sockets = new Set<Duplex>()
+
+  const server: Server = createServer((_, response) => {
+    response.writeHead(426, { 'content-type': 'application/json' })
+    response.end(JSON.stringify({ error: 'websocket upgrade required' }))
+  })
+
+  server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    sockets.add(socket)
+    socket.once('close', () => sockets.delete(socket))
+    socket.on('error', () => socket.destroy())
+    void upgrade(request, socket, head).catch(() => refuse(socket, 500, 'internal error'))
+  })
+
+  async function upgrade(
+    request: IncomingMessage,
+    socket: Duplex,
+    head: Buffer
+  ): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    if (url.pathname === '/realtime/produce') {
+      if (
+        !options.authorizeProduce ||
+        !(await options.authorizeProduce(toRequest(request)))
+      ) {
+        refuse(socket, 403, 'forbidden')
+        return
+      }
+      const producerID = url.searchParams.get('producerID') ?? randomUUID()
+      attach(request, socket, head, null, (channel) =>
+        realtime.acceptProducer(channel, producerID)
+      )
+      return
+    }
+    if (url.pathname !== '/realtime/subscribe') {
+      refuse(socket, 404, 'not found')
+      return
+    }
+    const clientID = url.searchParams.get('clientID')
+    const clientGroupID = url.searchParams.get('clientGroupID')
+    if (!clientID || !clientGroupID) {
+      refuse(socket, 400, 'clientID and clientGroupID are required')
+      return
+    }
+    const wake = await options.authorizeWake(wakeRequest(request))
+    if (!wake) {
+      refuse(socket, 401, 'missing wake capability')
+      return
+    }
+    // every subscription is authorized against this userID, so a bare `true`
+    // would open a socket whose subscriptions can never be checked
+    if (typeof wake !== 'object') {
+      refuse(socket, 401, 'wake capability must identify a user')
+      return
+    }
+    const identity: RealtimeIdentity = { userID: wake.userID, clientID, clientGroupID }
+    const protocol = request.headers['sec-websocket-protocol']?.split(',')[0]?.trim()
+    attach(request, socket, head, protocol ?? null, (channel) =>
+      realtime.acceptSubscriber(channel, identity, clientID)
+    )
+  }
+
+  await new Promise<void>((resolveListen, rejectListen) => {
+    server.once('error', rejectListen)
+    server.listen(options.port, options.host ?? '127.0.0.1', () => resolveListen())
+  })
+  const address = server.address()
+
+  return {
+    port: typeof address === 'object' && address ? address.port : options.port,
+    host: realtime,
+    async close() {
+      for (const socket of sockets) socket.destroy()
+      await new Promise<void>((resolveClose) => server.close(() => resolveClose()))
+    },
+  }
+}
+
+// Complete the handshake and pump frames between the socket and its host
+// connection until either side closes.
+function attach(
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  protocol: string | null,
+  accept: (channel: { send(data: string): void }) => HostConnection
+): void {
+  const key = request.headers['sec-websocket-key']
+  if (request.headers['sec-websocket-version'] !== '13' || typeof key !== 'string') {
+    refuse(socket, 400, 'unsupported websocket handshake')
+    return
+  }
+  const accepted = createHash('sha1')
+    .update(key + WEBSOCKET_GUID)
+    .digest('base64')
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accepted}`,
+      ...(protocol ? [`Sec-WebSocket-Protocol: ${protocol}`] : []),
+      '',
+      '',
+    ].join('\r\n')
+  )
+
+  const connection = accept({
+    send: (data) => {
+      if (socket.writable) socket.write(encodeFrame(0x1, Buffer.from(data)))
+    },
+  })
+  let closed = false
+  const close = () => {
+    if (closed) return
+    closed = true
+    connection.close()
+  }
+  socket.once('close', close)
+
+  // a client may send its first frame in the same packet as the handshake
+  let buffered = Buffer.from(head)
+  let fragments: Buffer[] = []
+  const onData = (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk])
+    for (;;) {
+      const frame = decodeFrame(buffered)
+      if (frame === 'incomplete') return
+      if (frame === 'invalid') {
+        socket.end(encodeFrame(0x8, closePayload(1002)))
+        return
+      }
+      buffered = buffered.subarray(frame.length)
+      switch (frame.opcode) {
+        case 0x0:
+        case 0x1: {
+          fragments.push(frame.payload)
+          if (
+            fragments.reduce((total, part) => total + part.length, 0) > MAX_MESSAGE_BYTES
+          ) {
+            socket.end(encodeFrame(0x8, closePayload(1009)))
+            return
+          }
+          if (!frame.fin) break
+          const text = Buffer.concat(fragments).toString('utf8')
+          fragments = []
+          // the same keepalive the deployed host answers
+          if (text === 'ping') socket.write(encodeFrame(0x1, Buffer.from('pong')))
+          else connection.handleMessage(text)
+          break
+        }
+        case 0x8:
+          socket.end(encodeFrame(0x8, frame.payload.subarray(0, 2)))
+          return
+        case 0x9:
+          socket.write(encodeFrame(0xa, frame.payload))
+          break
+        case 0xa:
+          break
+        default:
+          // binary frames carry nothing in the realtime protocol
+          socket.end(encodeFrame(0x8, closePayload(1003)))
+          return
+      }
+    }
+  }
+  socket.on('data', onData)
+  if (buffered.length > 0) onData(Buffer.alloc(0))
+}
+
+type DecodedFrame = {
+  fin: boolean
+  opcode: number
+  payload: Buffer
+  length: number
+}
+
+function decodeFrame(buffer: Buffer): DecodedFrame | 'incomplete' | 'invalid' {
+  if (buffer.length < 2) return 'incomplete'
+  const fin = (buffer[0] & 0x80) !== 0
+  const opcode = buffer[0] & 0x0f
+  // a client must mask every frame it sends
+  if ((buffer[1] & 0x80) === 0) return 'invalid'
+  let length = buffer[1] & 0x7f
+  let offset = 2
+  if (length === 126) {
+    if (buffer.length < 4) return 'incomplete'
+    length = buffer.readUInt16BE(2)
+    offset = 4
+  } else if (length === 127) {
+    if (buffer.length < 10) return 'incomplete'
+    const long = buffer.readBigUInt64BE(2)
+    if (long > BigInt(MAX_MESSAGE_BYTES)) return 'invalid'
+    length = Number(long)
+    offset = 10
+  }
+  if (length > MAX_MESSAGE_BYTES) return 'invalid'
+  if (buffer.length < offset + 4 + length) return 'incomplete'
+  const mask = buffer.subarray(offset, offset + 4)
+  const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length))
+  for (let index = 0; index < payload.length; index++) payload[index] ^= mask[index % 4]
+  return { fin, opcode, payload, length: offset + 4 + length }
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length])
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4)
+    header.writeUInt16BE(payload.length, 2)
+    header[1] = 126
+  } else {
+    header = Buffer.alloc(10)
+    header.writeBigUInt64BE(BigInt(payload.length), 2)
+    header[1] = 127
+  }
+  header[0] = 0x80 | opcode
+  return Buffer.concat([header, payload])
+}
+
+function closePayload(code: number): Buffer {
+  const payload = Buffer.alloc(2)
+  payload.writeUInt16BE(code)
+  return payload
+}
+
+function refuse(socket: Duplex, status: number, error: string): void {
+  const body = JSON.stringify({ error })
+  socket.end(
+    `HTTP/1.1 ${status} ${status === 404 ? 'Not Found' : 'Refused'}\r\n` +
+      'Connection: close\r\n' +
+      'Content-Type: application/json\r\n' +
+      `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`
+  )
+}
+
+function toRequest(request: IncomingMessage, headers = toHeaders(request)): Request {
+  const origin = `http://${request.headers.host ?? 'localhost'}`
+  return new Request(new URL(request.url ?? '/', origin), { headers })
+}
+
+function toHeaders(request: IncomingMessage): Headers {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (typeof value === 'string') headers.set(name, value)
+    else if (Array.isArray(value)) for (const item of value) headers.append(name, item)
+  }
+  return headers
+}
+
+// A browser cannot set headers on a WebSocket, so the client carries its Zero
+// auth token as an `orez-auth.<base64url>` subprotocol. Normalized exactly as
+// sync-cf-host does, so one authorizeWake serves both.
+function wakeRequest(request: IncomingMessage): Request {
+  const headers = toHeaders(request)
+  const protocol = headers.get('sec-websocket-protocol')?.split(',')[0]?.trim()
+  const encoded = protocol?.startsWith('orez-auth.')
+    ? protocol.slice('orez-auth.'.length)
+    : null
+  if (!headers.has('authorization') && encoded && /^[A-Za-z0-9_-]+$/.test(encoded)) {
+    const token = Buffer.from(encoded, 'base64url').toString('utf8')
+    if (token) headers.set('authorization', `Bearer ${token}`)
+  }
+  return toRequest(request, headers)
+}
@@ -266,6 +266,7 @@ class BrowserSyncHostImpl<
   #checkpointChain: Promise<unknown> = Promise.resolve()
   #executorTransactionKind: 'direct' | 'mutation' = 'direct'
   #fatalError: Error | undefined
+  #outboxTimer: ReturnType<typeof setTimeout> | undefined
   #closed = false
   #closePromise: Promise<void> | undefined
 
@@ -326,8 +327,10 @@ class BrowserSyncHostImpl<
       effects: {
         runBackground: (promise) => promise,
         report: (error) => console.error('browser sync deferred effect failed', error),
+        scheduleOutboxDrain: (timestamp) => this.#scheduleOutboxDrain(timestamp),
       },
       mutators: config.mutators,
+      outbox: config.outbox,
       schema: config.schema,
     })
     this.executor = {
@@ -361,6 +364,10 @@ class BrowserSyncHostImpl<
           this.#rawExecutor.query(claims, work)
         )
       },
+      drainOutbox: () => {
+        this.#assertAccepting()
+        return this.#runQueued('executor-outbox', () => this.#rawExecutor.drainOutbox())
+      },
     }
     this.#retainChanges = String(config.retainChanges ?? 4_096)
   }
@@ -450,6 +457,8 @@ class BrowserSyncHostImpl<
         engine_init_schema(host.#engineDb, config.schema)
         engine_init_query_schema(host.#engineDb)
       })
+      // the snapshot may hold rows whose delivery the last worker never finished
+      if (config.outbox) host.#scheduleOutboxDrain(0)
       return host
     } catch (error) {
       await host.#closeResources()
@@ -457,6 +466,22 @@ class BrowserSyncHostImpl<
     }
   }
 
+  // retries wait in the operation queue like every other database access; a
+  // timer that fires after close() simply finds nothing to do.
+  #scheduleOutboxDrain(timestamp: number): void {
+    clearTimeout(this.#outboxTimer)
+    this.#outboxTimer = setTimeout(
+      () => {
+        this.#outboxTimer = undefined
+        if (this.#closePromise || this.#fatalError) return
+        this.executor
+          .drainOutbox()
+          .catch((error) => console.error('browser sync outbox drain failed', error))
+      },
+      Math.max(0, timestamp - Date.now())
+    )
+  }
+
   #assertAvailable(): void {
     if (this.#fatalError) throw this.#fatalError
     if (this.#closed) throw new Error('browser sync host is closed')
@@ -799,6 +824,7 @@ class BrowserSyncHostImpl<
   }
 
   async #finishClose(): Promise<void> {
+    clearTimeout(this.#outboxTimer)
     await this.#queue.drain()
     // a handed-off snapshot has to land before the database goes away
     await this.#checkpointChain
@@ -4,6 +4,7 @@ import type {
   AuthData,
   ExecResult,
   MutatorRegistry,
+  OutboxOptions,
   SqlStatementMetadata,
   SyncExecutor,
 } from 'orez-sync-executor'
@@ -30,6 +31,7 @@ export type BrowserSyncHostOperation =
   | 'executor-execute'
   | 'executor-transaction'
   | 'executor-query'
+  | 'executor-outbox'
   | 'pull'
   | 'push'
   | 'query'
@@ -80,6 +82,12 @@ export type BrowserSyncHostConfig<
     namespace: string
   ): boolean | Promise<boolean>
   mutators: MutatorRegistry<S>
+  /**
+   * Durable `ctx.defer({ name, payload })` effects. Rows commit with the
+   * mutation and are drained after commit, on retry timers while the worker
+   * lives, and once when the host is created from a restored snapshot.
+   */
+  outbox?: OutboxOptions
   /**
    * The app's ordinary Zero query registry (the `defineQueries` result the
    * client is built with). The host resolves every desired named query
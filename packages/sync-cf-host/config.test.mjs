@@ -19,6 +19,20 @@ describe('sync host config', () => {
       })
     ).not.toThrow()
   })
+
+  test('only accepts an outbox alongside local mutators', () => {
+    expect(() =>
+      validateSyncHostConfig({
+        ...base,
+        mutateUrl: '/push',
+        upstream: { binding: 'APP', namespacePath: '/data' },
+        outbox: { handlers: {} },
+      })
+    ).toThrow('outbox requires mutators')
+    expect(() =>
+      validateSyncHostConfig({ ...base, mutators: {}, outbox: { handlers: {} } })
+    ).not.toThrow()
+  })
 })
 
 const base = {
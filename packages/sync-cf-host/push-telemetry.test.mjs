@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'bun:test'
+
+import { SpanStatusCode, trace } from '@opentelemetry/api'
+
+import { PushTelemetry } from './src/push-telemetry.ts'
+
+function harness() {
+  const values = { duration: [], rows: [], retries: [] }
+  const spans = []
+  const tracer = {
+    startSpan(name, options, context) {
+      const span = {
+        name,
+        options,
+        parent: context ? trace.getSpan(context) : undefined,
+        attributes: { ...options.attributes },
+        status: undefined,
+        endTime: undefined,
+        setAttribute(key, value) {
+          this.attributes[key] = value
+        },
+        setStatus(status) {
+          this.status = status
+        },
+        end(endTime) {
+          this.endTime = endTime
+        },
+      }
+      spans.push(span)
+      return span
+    },
+  }
+  const telemetry = new PushTelemetry(
+    {
+      mutationDuration: { record: (...args) => values.duration.push(args) },
+      mutationRowsWritten: { record: (...args) => values.rows.push(args) },
+      mutationRetries: { add: (...args) => values.retries.push(args) },
+    },
+    tracer
+  )
+  return { telemetry, values, spans }
+}
+
+function mutation(overrides) {
+  return {
+    name: 'message.create',
+    clientID: 'client-1',
+    mutationID: 1,
+    startTimeMs: 1_000,
+    durationMs: 40,
+    rowsWritten: 0,
+    outcome: 'applied',
+    errorName: null,
+    retryAfterMs: null,
+    ...overrides,
+  }
+}
+
+describe('push telemetry', () => {
+  test('records per-mutator metrics and one child span per mutation', () => {
+    const { telemetry, values, spans } = harness()
+    telemetry.recordPush({
+      clientGroupID: 'group-1',
+      startTimeMs: 1_000,
+      durationMs: 120,
+      errorName: null,
+      mutations: [
+        mutation({ rowsWritten: 3 }),
+        mutation({
+          name: 'message.delete',
+          mutationID: 2,
+          startTimeMs: 1_050,
+          durationMs: 10,
+          outcome: 'app_error',
+          errorName: 'NotFoundError',
+        }),
+      ],
+    })
+
+    expect(values.duration).toEqual([
+      [0.04, { mutator: 'message.create', outcome: 'applied' }],
+      [
+        0.01,
+        {
+          mutator: 'message.delete',
+          outcome: 'app_error',
+          'error.type': 'NotFoundError',
+        },
+      ],
+    ])
+    expect(values.rows).toEqual([[3, { mutator: 'message.create' }]])
+    expect(values.retries).toEqual([])
+
+    const [push, create, remove] = spans
+    expect(push).toMatchObject({ name: 'orez.push', endTime: 1_120, status: undefined })
+    expect(push.options.startTime).toBe(1_000)
+    expect(create.parent).toBe(push)
+    expect(create).toMatchObject({
+      name: 'orez.mutation message.create',
+      endTime: 1_040,
+      attributes: { 'orez.rows_written': 3, 'orez.outcome': 'applied' },
+    })
+    expect(remove.parent).toBe(push)
+    expect(remove.status).toEqual({ code: SpanStatusCode.ERROR })
+    expect(remove.attributes['error.type']).toBe('NotFoundError')
+  })
+
+  test('counts retries without marking them failed and flags an aborted push', () => {
+    const { telemetry, values, spans } = harness()
+    telemetry.recordPush({
+      clientGroupID: 'group-1',
+      startTimeMs: 1_000,
+      durationMs: 5,
+      errorName: 'MutationRetryError',
+      mutations: [
+        mutation({
+          outcome: 'retry',
+          errorName: 'MutationRetryError',
+          retryAfterMs: 30_000,
+        }),
+      ],
+    })
+
+    expect(values.retries).toEqual([[1, { mutator: 'message.create' }]])
+    expect(values.rows).toEqual([])
+    expect(spans[0].status).toEqual({ code: SpanStatusCode.ERROR })
+    expect(spans[0].attributes['error.type']).toBe('MutationRetryError')
+    expect(spans[1].status).toBeUndefined()
+    expect(spans[1].attributes['orez.retry_after_ms']).toBe(30_000)
+  })
+})
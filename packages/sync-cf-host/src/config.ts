@@ -39,6 +39,9 @@ export function validateSyncHostConfig<
   if (config.mutateBinding !== undefined && !config.mutateBinding) {
     throw new TypeError('sync host config mutateBinding must not be empty')
   }
+  if (config.outbox !== undefined && !hasMutators) {
+    throw new TypeError('sync host config outbox requires mutators')
+  }
   if (hasMutators && config.upstream) {
     throw new TypeError(
       'sync host config cannot combine local mutators with upstream ingest'
@@ -1,8 +1,9 @@
 import { DurableObject } from 'cloudflare:workers'
 import { createSyncExecutor, isMutationRetryError } from 'orez-sync-executor/core'
-import { createSocketHost } from 'orez-sync-executor/realtime'
+import { createSocketHost, isPresenceTopic } from 'orez-sync-executor/realtime'
 
 import { validateSyncHostConfig } from './config.js'
+import { PushTelemetry } from './push-telemetry.js'
 import { createQueryCompiler } from './query-compiler.js'
 import { resolveQueryPatch } from './query-patch.js'
 import { ServingLagTracker } from './serving-lag.js'
@@ -60,9 +61,11 @@ import type {
 } from 'orez-sync-executor'
 import type {
   HostConnection,
+  PresenceTopic,
   RealtimeIdentity,
   RealtimeSocketHost,
   RealtimeTopic,
+  SubscribeAuthorization,
 } from 'orez-sync-executor/realtime'
 
 const NAMESPACE_HEADER = 'x-orez-sync-namespace'
@@ -161,7 +164,7 @@ type SnapshotPage = {
 type SocketAttachment = {
   clientID: string
   identity?: RealtimeIdentity
-  topics?: RealtimeTopic[]
+  topics?: (RealtimeTopic | PresenceTopic)[]
   // A producer socket, which has no identity and no topics: it holds
   // generations, and generations deliberately do not survive an eviction.
   producerID?: string
@@ -841,6 +844,7 @@ export function createSyncDurableObject<
       this.#executor = config.mutators
         ? createSyncExecutor({
             database,
+            diagnostics: new PushTelemetry(),
             effects: {
               runBackground: (promise) => this.ctx.waitUntil(promise),
               report: (error) => {
@@ -853,8 +857,21 @@ export function createSyncDurableObject<
                   })
                 )
               },
+              // local mutators and upstream ingest are exclusive, so the alarm
+              // is free to carry outbox retries across eviction
+              scheduleOutboxDrain: (timestamp) => {
+                this.ctx.waitUntil(
+                  (async () => {
+                    const current = await this.ctx.storage.getAlarm()
+                    if (current === null || current > timestamp) {
+                      await this.ctx.storage.setAlarm(timestamp)
+                    }
+                  })()
+                )
+              },
             },
             mutators: config.mutators,
+            outbox: config.outbox,
             schema: config.schema,
           })
         : null
@@ -867,6 +884,23 @@ export function createSyncDurableObject<
       if (!config.upstream) {
         ctx.blockConcurrencyWhile(async () => this.#initialize())
       }
+      // rows committed by a previous incarnation whose delivery never finished
+      // have no alarm behind them, so every start drains once
+      if (config.outbox) this.ctx.waitUntil(this.#drainOutbox())
+    }
+
+    async #drainOutbox(): Promise<void> {
+      try {
+        await this.#executor?.drainOutbox()
+      } catch (error) {
+        console.error(
+          JSON.stringify({
+            event: 'sync_outbox_drain_error',
+            hostVersion: config.hostVersion,
+            error: errorMessage(error),
+          })
+        )
+      }
     }
 
     #initialize(): void {
@@ -2148,6 +2182,7 @@ export function createSyncDurableObject<
         // client exactly when the row carrying it is already being synced to
         // that client, so streaming can never widen what somebody can see.
         authorizeSubscribe: (identity, topic) => {
+          if (isPresenceTopic(topic)) return this.#authorizePresence(identity, topic.room)
           const result = this.#wasm(() =>
             engine_authorize_realtime_subscription(
               this.#engineDb,
@@ -2173,6 +2208,21 @@ export function createSyncDurableObject<
       return this.#realtime
     }
 
+    // A room is named by the application, not derived from a row, so there is
+    // no membership to read it from. Without an authorizePresence every join is
+    // refused rather than every room being open to every signed-in user.
+    async #authorizePresence(
+      identity: RealtimeIdentity,
+      room: string
+    ): Promise<SubscribeAuthorization> {
+      if (!config.authorizePresence) {
+        return { status: 'denied', reason: 'namespace serves no presence rooms' }
+      }
+      return (await config.authorizePresence(room, identity, this.env))
+        ? { status: 'active' }
+        : { status: 'denied', reason: 'not allowed in this room' }
+    }
+
     // Replay the sockets that outlived the previous incarnation. Every open
     // socket is replayed, not just the one that woke us: a producer's frames
     // must reach every subscriber of a topic, so restoring only the socket that
@@ -2184,7 +2234,7 @@ export function createSyncDurableObject<
           socket: WebSocket
           identity: RealtimeIdentity
           connectionID: string
-          topics: RealtimeTopic[]
+          topics: (RealtimeTopic | PresenceTopic)[]
         }[] = []
         for (const socket of this.ctx.getWebSockets()) {
           if (this.#realtimeConnections.has(socket)) continue
@@ -2525,6 +2575,10 @@ export function createSyncDurableObject<
     }
 
     async alarm(): Promise<void> {
+      if (!config.upstream) {
+        await this.#drainOutbox()
+        return
+      }
       if (this.ctx.getWebSockets(WAKE_SUBSCRIBER_TAG).length === 0) return
       this.#initialize()
       try {
@@ -0,0 +1,117 @@
+import { context, metrics, SpanStatusCode, trace } from '@opentelemetry/api'
+
+import type { Tracer } from '@opentelemetry/api'
+import type {
+  PushDiagnosticsSink,
+  PushMutationOutcome,
+  PushTrace,
+} from 'orez-sync-executor/core'
+
+type MetricAttributes = Record<string, string | number | boolean>
+type Histogram = { record(value: number, attributes?: MetricAttributes): void }
+type Counter = { add(value: number, attributes?: MetricAttributes): void }
+
+export type PushTelemetryInstruments = {
+  mutationDuration: Histogram
+  mutationRowsWritten: Histogram
+  mutationRetries: Counter
+}
+
+let defaultInstruments: PushTelemetryInstruments | undefined
+
+function instruments(): PushTelemetryInstruments {
+  if (defaultInstruments) return defaultInstruments
+  const meter = metrics.getMeter('orez')
+  defaultInstruments = {
+    mutationDuration: meter.createHistogram('orez.push.mutation.duration', {
+      description:
+        'Time a pushed mutation spent in its transaction, by mutator and outcome.',
+      unit: 's',
+    }),
+    mutationRowsWritten: meter.createHistogram('orez.push.mutation.rows_written', {
+      description: 'Application rows a committed mutation changed, by mutator.',
+      unit: '{row}',
+    }),
+    mutationRetries: meter.createCounter('orez.push.mutation.retries', {
+      description:
+        'Mutations refused with MutationRetryError, which aborts the push for a client retry.',
+      unit: '{rejection}',
+    }),
+  }
+  return defaultInstruments
+}
+
+// outcomes the client sees as a failed mutation. a retry is a deferral and a
+// replay already succeeded once, so neither marks its span as an error.
+const FAILED: ReadonlySet<PushMutationOutcome> = new Set([
+  'app_error',
+  'write_set_error',
+  'rejected',
+  'error',
+])
+
+/**
+ * Turns the executor's per-push trace into metrics and one span per push with
+ * a child per mutation. The trace arrives after the push answers, so spans are
+ * written with their recorded start and end times rather than timed live.
+ */
+export class PushTelemetry implements PushDiagnosticsSink {
+  constructor(
+    private readonly metrics: PushTelemetryInstruments = instruments(),
+    private readonly tracer: Tracer = trace.getTracer('orez')
+  ) {}
+
+  recordPush(push: PushTrace): void {
+    const pushSpan = this.tracer.startSpan('orez.push', {
+      startTime: push.startTimeMs,
+      attributes: {
+        'orez.client_group_id': push.clientGroupID,
+        'orez.mutation_count': push.mutations.length,
+      },
+    })
+    if (push.errorName) {
+      pushSpan.setAttribute('error.type', push.errorName)
+      pushSpan.setStatus({ code: SpanStatusCode.ERROR })
+    }
+    const parent = trace.setSpan(context.active(), pushSpan)
+
+    for (const mutation of push.mutations) {
+      const attributes: MetricAttributes = {
+        mutator: mutation.name,
+        outcome: mutation.outcome,
+      }
+      if (mutation.errorName) attributes['error.type'] = mutation.errorName
+      this.metrics.mutationDuration.record(mutation.durationMs / 1_000, attributes)
+      if (mutation.outcome === 'applied') {
+        this.metrics.mutationRowsWritten.record(mutation.rowsWritten, {
+          mutator: mutation.name,
+        })
+      }
+      if (mutation.outcome === 'retry') {
+        this.metrics.mutationRetries.add(1, { mutator: mutation.name })
+      }
+
+      const span = this.tracer.startSpan(
+        `orez.mutation ${mutation.name}`,
+        {
+          startTime: mutation.startTimeMs,
+          attributes: {
+            'orez.mutator': mutation.name,
+            'orez.client_id': mutation.clientID,
+            'orez.mutation_id': mutation.mutationID,
+            'orez.outcome': mutation.outcome,
+            'orez.rows_written': mutation.rowsWritten,
+            ...(mutation.errorName ? { 'error.type': mutation.errorName } : {}),
+            ...(mutation.retryAfterMs === null
+              ? {}
+              : { 'orez.retry_after_ms': mutation.retryAfterMs }),
+          },
+        },
+        parent
+      )
+      if (FAILED.has(mutation.outcome)) span.setStatus({ code: SpanStatusCode.ERROR })
+      span.end(mutation.startTimeMs + mutation.durationMs)
+    }
+    pushSpan.end(push.startTimeMs + push.durationMs)
+  }
+}
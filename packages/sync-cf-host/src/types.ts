@@ -4,9 +4,10 @@ import type {
   ExecResult,
   MutatorRegistry,
   NormalizedClaims,
+  OutboxOptions,
   SqlStatementMetadata,
 } from 'orez-sync-executor'
-import type { StreamingManifest } from 'orez-sync-executor/realtime'
+import type { RealtimeIdentity, StreamingManifest } from 'orez-sync-executor/realtime'
 
 export interface SyncSql {
   exec(
@@ -77,6 +78,14 @@ export type SyncHostConfig<
   hostVersion: string
   schema: S
   mutators?: MutatorRegistry<S>
+  /**
+   * Durable `ctx.defer({ name, payload })` effects for local mutators. Rows
+   * commit with the mutation in Durable Object SQLite, are delivered after
+   * commit, retried from the Durable Object alarm, and drained again whenever
+   * the object starts, so an eviction between commit and delivery loses
+   * nothing. Requires `mutators`.
+   */
+  outbox?: OutboxOptions
   /**
    * absolute app push path on the delegated mutation service. a successful
    * response must be causally visible through the configured upstream data
@@ -168,6 +177,17 @@ export type SyncHostConfig<
    * runner), so a service binding or a shared secret is the usual check.
    */
   authorizeProduce?: (request: Request, env: Env) => boolean | Promise<boolean>
+  /**
+   * Authorize a subscriber socket joining a presence room (cursors, typing,
+   * who's online). Rooms are application-named, so there is no row membership
+   * to check them against and no default: leaving this unset refuses every
+   * join. `identity` is the one recorded at the authenticated upgrade.
+   */
+  authorizePresence?: (
+    room: string,
+    identity: RealtimeIdentity,
+    env: Env
+  ) => boolean | Promise<boolean>
   /** Server-owned invalidation epoch for permission/schema transforms. */
   queryTransformVersion?: number | ((claims: NormalizedClaims) => number)
   retainChanges?: number
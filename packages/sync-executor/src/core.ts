@@ -16,19 +16,26 @@ export { beginWriteSetCapture } from './write-set.js'
 export type {
   PushDiagnostic,
   PushDiagnosticsOptions,
+  PushDiagnosticsSink,
   PushFailureSummary,
   PushMutationErrorSummary,
+  PushMutationOutcome,
   PushMutationSummary,
+  PushMutationTrace,
   PushRequestSummary,
+  PushTrace,
 } from './diagnostics.js'
 
 export type {
   ApplicationDatabase,
   ApplicationTransaction,
   AuthData,
+  BulkTableCRUD,
   CreateSyncExecutorOptions,
+  CrudOptions,
   DeferredEffect,
   DeferredEffectOptions,
+  DurableEffect,
   EffectScheduler,
   ExecResult,
   JsonPrimitive,
@@ -36,6 +43,9 @@ export type {
   MutationContext,
   MutatorRegistry,
   NormalizedClaims,
+  OutboxDrainResult,
+  OutboxHandler,
+  OutboxOptions,
   PushResult,
   RegisteredMutator,
   ServerTransaction,
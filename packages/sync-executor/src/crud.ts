@@ -1,12 +1,13 @@
 import type {
   ApplicationTransaction,
+  CrudOptions,
   JsonPrimitive,
   JsonValue,
   SqlStatementMetadata,
   ZeroSchemaConfig,
 } from './types.js'
 
-type CrudKind = SqlStatementMetadata['kind']
+export type CrudKind = SqlStatementMetadata['kind']
 
 function quoteIdentifier(value: string): string {
   if (!value) throw new TypeError('SQL identifier must not be empty')
@@ -27,23 +28,33 @@ function valueRecord(value: unknown): Record<string, unknown> {
   return value as Record<string, unknown>
 }
 
-export async function executeCrud(
-  tx: ApplicationTransaction,
-  schema: ZeroSchemaConfig,
-  tableName: string,
-  kind: CrudKind,
-  input: unknown
-): Promise<void> {
+// Durable Object SQL binds at most 100 parameters per statement. SQLite
+// itself allows far more, but a chunk has to fit every host the executor runs on.
+const MAX_STATEMENT_PARAMETERS = 100
+
+type CrudTable = ZeroSchemaConfig['tables'][string]
+type PrimaryKeyValue = Readonly<Record<string, JsonPrimitive>>
+
+type CrudRow = {
+  readonly value: Record<string, unknown>
+  // defined columns in input order; undefined fields are left to the database
+  readonly columns: readonly string[]
+  readonly primaryKey: PrimaryKeyValue
+}
+
+function crudTable(schema: ZeroSchemaConfig, tableName: string): CrudTable {
   // hasOwn, not truthiness: a payload naming an inherited key like toString
   // would otherwise resolve Object.prototype and reach SQL as a real column
   if (!Object.hasOwn(schema.tables, tableName)) {
     throw new TypeError(`unknown table: ${tableName}`)
   }
-  const table = schema.tables[tableName]!
+  return schema.tables[tableName]!
+}
 
+function crudRow(table: CrudTable, tableName: string, input: unknown): CrudRow {
   const value = valueRecord(input)
-  const entries = Object.entries(value).filter(([, field]) => field !== undefined)
-  for (const [column] of entries) {
+  const columns = Object.keys(value).filter((column) => value[column] !== undefined)
+  for (const column of columns) {
     if (!Object.hasOwn(table.columns, column)) {
       throw new TypeError(`unknown column: ${tableName}.${column}`)
     }
@@ -53,90 +64,294 @@ export async function executeCrud(
       throw new TypeError(`missing primary key: ${tableName}.${primaryKey}`)
     }
   }
+  const primaryKey = Object.fromEntries(
+    table.primaryKey.map((column) => [column, value[column] as JsonPrimitive])
+  )
+  return { value, columns, primaryKey }
+}
+
+function conflictColumns(
+  table: CrudTable,
+  tableName: string,
+  options: CrudOptions | undefined
+): readonly string[] {
+  const columns = options?.onConflict
+  if (columns === undefined) return table.primaryKey
+  if (!Array.isArray(columns) || columns.length === 0) {
+    throw new TypeError(`onConflict for ${tableName} must list at least one column`)
+  }
+  for (const column of columns) {
+    if (!Object.hasOwn(table.columns, column)) {
+      throw new TypeError(`unknown column: ${tableName}.${column}`)
+    }
+  }
+  return columns
+}
+
+// consecutive rows sharing a column list, cut at the parameter budget and at a
+// repeated key so that a later row for the same key still lands after the
+// earlier one, as it would have one call at a time
+function chunkRows(
+  rows: readonly CrudRow[],
+  columnsOf: (row: CrudRow) => readonly string[],
+  keysOf: (row: CrudRow) => readonly string[]
+): CrudRow[][] {
+  const chunks: CrudRow[][] = []
+  let chunk: CrudRow[] = []
+  let signature = ''
+  let keys = new Set<string>()
+  for (const row of rows) {
+    const columns = columnsOf(row)
+    const rowSignature = JSON.stringify(columns)
+    const limit = Math.max(1, Math.floor(MAX_STATEMENT_PARAMETERS / columns.length))
+    const rowKeys = keysOf(row)
+    if (
+      chunk.length > 0 &&
+      (rowSignature !== signature ||
+        chunk.length >= limit ||
+        rowKeys.some((key) => keys.has(key)))
+    ) {
+      chunks.push(chunk)
+      chunk = []
+      keys = new Set()
+    }
+    signature = rowSignature
+    for (const key of rowKeys) keys.add(key)
+    chunk.push(row)
+  }
+  if (chunk.length > 0) chunks.push(chunk)
+  return chunks
+}
+
+function placeholders(count: number): string {
+  return `(${Array.from({ length: count }, () => '?').join(', ')})`
+}
+
+export async function executeCrud(
+  tx: ApplicationTransaction,
+  schema: ZeroSchemaConfig,
+  tableName: string,
+  kind: CrudKind,
+  input: unknown,
+  options?: CrudOptions
+): Promise<void> {
+  await executeBulkCrud(tx, schema, tableName, kind, [input], options)
+}
+
+/**
+ * Writes many rows with one statement per chunk. Every row is validated before
+ * the first statement runs, and rows are applied in input order, so the result
+ * matches calling `executeCrud` once per row.
+ */
+export async function executeBulkCrud(
+  tx: ApplicationTransaction,
+  schema: ZeroSchemaConfig,
+  tableName: string,
+  kind: CrudKind,
+  inputs: unknown,
+  options?: CrudOptions
+): Promise<void> {
+  const table = crudTable(schema, tableName)
+  if (!Array.isArray(inputs)) throw new TypeError('CRUD values must be an array')
+  const rows = inputs.map((input) => crudRow(table, tableName, input))
+  if (options?.onConflict !== undefined && kind !== 'upsert') {
+    throw new TypeError(`onConflict applies only to upsert, not ${kind}`)
+  }
+  const conflict = conflictColumns(table, tableName, options)
+  const byPrimaryKey =
+    conflict.length === table.primaryKey.length &&
+    conflict.every((column) => table.primaryKey.includes(column))
+  for (const row of rows) {
+    for (const column of conflict) {
+      if (row.value[column] === undefined) {
+        throw new TypeError(`missing conflict column: ${tableName}.${column}`)
+      }
+    }
+  }
 
   const physicalTable = table.serverName ?? table.name ?? tableName
   const quotedTable = quoteIdentifier(physicalTable)
-  const physicalColumn = (column: string) => table.columns[column]?.serverName ?? column
-  const metadata: SqlStatementMetadata = {
+  const physicalColumn = (column: string) =>
+    quoteIdentifier(table.columns[column]?.serverName ?? column)
+  const encode = (row: CrudRow, column: string) =>
+    encodeValue(table.columns[column]!.type, row.value[column])
+  const metadata = (
+    primaryKeys: Extract<SqlStatementMetadata, { capture: 'exact' }>['primaryKeys']
+  ): SqlStatementMetadata => ({
     table: physicalTable,
     publicTable: tableName,
     kind,
     capture: 'exact',
-    primaryKeys: [],
-  }
-  const primaryKey = Object.fromEntries(
-    table.primaryKey.map((column) => [column, value[column] as JsonPrimitive])
-  ) as Readonly<Record<string, JsonPrimitive>>
-  const primaryKeys = table.primaryKey.map((column) => physicalColumn(column))
-  const whereParams = table.primaryKey.map((column) =>
-    encodeValue(table.columns[column]!.type, value[column])
-  )
+    primaryKeys,
+  })
+  const primaryKeyOf = (row: CrudRow) => [JSON.stringify(row.primaryKey)]
+  const isPrimaryKey = (column: string) => table.primaryKey.includes(column)
+  const keyColumns = table.primaryKey.map(physicalColumn)
+  const keyMatch = (chunk: readonly CrudRow[]) =>
+    chunk.length === 1
+      ? {
+          sql: keyColumns.map((column) => `${column} = ?`).join(' AND '),
+          params: table.primaryKey.map((column) => encode(chunk[0]!, column)),
+        }
+      : {
+          sql: `(${keyColumns.join(', ')}) IN (VALUES ${chunk
+            .map(() => placeholders(keyColumns.length))
+            .join(', ')})`,
+          params: chunk.flatMap((row) =>
+            table.primaryKey.map((column) => encode(row, column))
+          ),
+        }
 
   if (kind === 'delete') {
-    const where = primaryKeys
-      .map((column) => `${quoteIdentifier(column)} = ?`)
-      .join(' AND ')
-    await tx.exec(`DELETE FROM ${quotedTable} WHERE ${where}`, whereParams, {
-      ...metadata,
-      primaryKeys: [{ before: primaryKey }],
-    })
+    for (const chunk of chunkRows(rows, () => table.primaryKey, primaryKeyOf)) {
+      const where = keyMatch(chunk)
+      await tx.exec(
+        `DELETE FROM ${quotedTable} WHERE ${where.sql}`,
+        where.params,
+        metadata(chunk.map((row) => ({ before: row.primaryKey })))
+      )
+    }
     return
   }
 
   if (kind === 'update') {
-    const mutable = entries.filter(([column]) => !table.primaryKey.includes(column))
-    if (mutable.length === 0) return
-    const params = mutable.map(([column, field]) =>
-      encodeValue(table.columns[column]!.type, field)
+    const changing = rows.filter((row) =>
+      row.columns.some((column) => !isPrimaryKey(column))
     )
-    const set = mutable
-      .map(([column]) => `${quoteIdentifier(physicalColumn(column))} = ?`)
-      .join(', ')
-    const where = primaryKeys
-      .map((column) => `${quoteIdentifier(column)} = ?`)
-      .join(' AND ')
-    await tx.exec(
-      `UPDATE ${quotedTable} SET ${set} WHERE ${where}`,
-      [...params, ...whereParams],
-      {
-        ...metadata,
-        primaryKeys: [{ before: primaryKey, after: primaryKey }],
-      }
+    const mutableOf = (row: CrudRow) =>
+      row.columns.filter((column) => !isPrimaryKey(column))
+    const chunks = chunkRows(
+      changing,
+      (row) => [...table.primaryKey, ...mutableOf(row)],
+      primaryKeyOf
     )
+    for (const chunk of chunks) {
+      const mutable = mutableOf(chunk[0]!)
+      const primaryKeys = chunk.map((row) => ({
+        before: row.primaryKey,
+        after: row.primaryKey,
+      }))
+      if (chunk.length === 1) {
+        const where = keyMatch(chunk)
+        const set = mutable.map((column) => `${physicalColumn(column)} = ?`).join(', ')
+        await tx.exec(
+          `UPDATE ${quotedTable} SET ${set} WHERE ${where.sql}`,
+          [...mutable.map((column) => encode(chunk[0]!, column)), ...where.params],
+          metadata(primaryKeys)
+        )
+        continue
+      }
+      // positional names keep the VALUES columns from shadowing the table's own
+      const columns = [...table.primaryKey, ...mutable]
+      const alias = (index: number) => `"c${index}"`
+      const set = mutable
+        .map(
+          (column, index) =>
+            `${physicalColumn(column)} = "v".${alias(table.primaryKey.length + index)}`
+        )
+        .join(', ')
+      const where = keyColumns
+        .map((column, index) => `${quotedTable}.${column} = "v".${alias(index)}`)
+        .join(' AND ')
+      await tx.exec(
+        `WITH "v" (${columns.map((_, index) => alias(index)).join(', ')}) AS (VALUES ${chunk
+          .map(() => placeholders(columns.length))
+          .join(', ')}) UPDATE ${quotedTable} SET ${set} FROM "v" WHERE ${where}`,
+        chunk.flatMap((row) => columns.map((column) => encode(row, column))),
+        metadata(primaryKeys)
+      )
+    }
     return
   }
 
-  const columns = entries.map(([column]) => column)
-  const params = entries.map(([column, field]) =>
-    encodeValue(table.columns[column]!.type, field)
+  const conflictKeyOf = (row: CrudRow) =>
+    JSON.stringify(conflict.map((column) => encode(row, column)))
+  const chunks = chunkRows(
+    rows,
+    (row) => row.columns,
+    byPrimaryKey ? primaryKeyOf : (row) => [...primaryKeyOf(row), conflictKeyOf(row)]
   )
-  const insert = `INSERT INTO ${quotedTable} (${columns
-    .map((column) => quoteIdentifier(physicalColumn(column)))
-    .join(', ')}) VALUES (${params.map(() => '?').join(', ')})`
-  const conflict = primaryKeys.map(quoteIdentifier).join(', ')
-
-  if (kind === 'insert') {
-    await tx.exec(`${insert} ON CONFLICT (${conflict}) DO NOTHING`, params, {
-      ...metadata,
-      primaryKeys: [{ after: primaryKey }],
-    })
-    return
+  for (const chunk of chunks) {
+    const columns = chunk[0]!.columns
+    const insert = `INSERT INTO ${quotedTable} (${columns
+      .map(physicalColumn)
+      .join(', ')}) VALUES ${chunk.map(() => placeholders(columns.length)).join(', ')}`
+    const params = chunk.flatMap((row) => columns.map((column) => encode(row, column)))
+    const target = conflict.map(physicalColumn).join(', ')
+
+    if (kind === 'insert') {
+      await tx.exec(
+        `${insert} ON CONFLICT (${target}) DO NOTHING`,
+        params,
+        metadata(chunk.map((row) => ({ after: row.primaryKey })))
+      )
+      continue
+    }
+
+    // the primary key never moves on conflict: a unique-key match keeps the
+    // existing row's key, which exact capture needs to declare up front
+    const existing = byPrimaryKey
+      ? new Map(chunk.map((row) => [conflictKeyOf(row), row.primaryKey]))
+      : await existingPrimaryKeys(chunk)
+    const mutable = columns.filter(
+      (column) => !isPrimaryKey(column) && !conflict.includes(column)
+    )
+    const action =
+      mutable.length === 0
+        ? 'DO NOTHING'
+        : `DO UPDATE SET ${mutable
+            .map(
+              (column) => `${physicalColumn(column)} = excluded.${physicalColumn(column)}`
+            )
+            .join(', ')}`
+    await tx.exec(
+      `${insert} ON CONFLICT (${target}) ${action}`,
+      params,
+      metadata(
+        chunk.map((row) => {
+          const primaryKey = existing.get(conflictKeyOf(row))
+          return primaryKey
+            ? { before: primaryKey, after: primaryKey }
+            : { after: row.primaryKey }
+        })
+      )
+    )
   }
 
-  const mutable = columns.filter((column) => !table.primaryKey.includes(column))
-  const action =
-    mutable.length === 0
-      ? 'DO NOTHING'
-      : `DO UPDATE SET ${mutable
-          .map((column) => {
-            const physical = quoteIdentifier(physicalColumn(column))
-            return `${physical} = excluded.${physical}`
+  async function existingPrimaryKeys(
+    chunk: readonly CrudRow[]
+  ): Promise<Map<string, PrimaryKeyValue>> {
+    const select = [
+      ...table.primaryKey.map(
+        (column, index) => `${physicalColumn(column)} AS "k${index}"`
+      ),
+      ...conflict.map((column, index) => `${physicalColumn(column)} AS "u${index}"`),
+    ].join(', ')
+    const found = await tx.query(
+      `SELECT ${select} FROM ${quotedTable} WHERE (${conflict
+        .map(physicalColumn)
+        .join(', ')}) IN (VALUES ${chunk
+        .map(() => placeholders(conflict.length))
+        .join(', ')})`,
+      chunk.flatMap((row) => conflict.map((column) => encode(row, column)))
+    )
+    return new Map(
+      found.map((row) => [
+        JSON.stringify(conflict.map((_, index) => row[`u${index}`])),
+        Object.fromEntries(
+          table.primaryKey.map((column, index) => {
+            const field = row[`k${index}`]
+            return [
+              column,
+              table.columns[column]!.type === 'boolean' && typeof field === 'number'
+                ? field === 1
+                : (field as JsonPrimitive),
+            ]
           })
-          .join(', ')}`
-  await tx.exec(`${insert} ON CONFLICT (${conflict}) ${action}`, params, {
-    ...metadata,
-    primaryKeys: [{ before: primaryKey, after: primaryKey }],
-  })
+        ),
+      ])
+    )
+  }
 }
 
 export function isJsonValue(value: unknown): value is JsonValue {
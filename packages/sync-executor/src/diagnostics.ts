@@ -49,6 +49,53 @@ export type PushDiagnosticsOptions = {
   callback(diagnostic: PushDiagnostic): void | Promise<void>
 }
 
+/**
+ * how one pushed mutation ended. `retry` aborted the push without consuming the
+ * id; `rejected` is a request the executor refused (out of order, wrong user);
+ * `error` is anything else that escaped the push.
+ */
+export type PushMutationOutcome =
+  | 'applied'
+  | 'already_processed'
+  | 'app_error'
+  | 'retry'
+  | 'write_set_error'
+  | 'rejected'
+  | 'error'
+
+export type PushMutationTrace = {
+  readonly name: string
+  readonly clientID: string
+  readonly mutationID: number
+  readonly startTimeMs: number
+  // the mutation's transaction, not the effects that run after it commits
+  readonly durationMs: number
+  // rows its statements changed; zero unless it committed
+  readonly rowsWritten: number
+  readonly outcome: PushMutationOutcome
+  // for an app error, the name the mutator's own error carried
+  readonly errorName: string | null
+  readonly retryAfterMs: number | null
+}
+
+export type PushTrace = {
+  readonly clientGroupID: string
+  readonly startTimeMs: number
+  readonly durationMs: number
+  // in push order, ending at the mutation that aborted the push if one did
+  readonly mutations: readonly PushMutationTrace[]
+  // set when the push threw instead of answering
+  readonly errorName: string | null
+}
+
+/**
+ * receives one trace per push the executor runs, after it answers or throws.
+ * a sink that throws is logged and ignored rather than failing the push.
+ */
+export type PushDiagnosticsSink = {
+  recordPush(trace: PushTrace): void | Promise<void>
+}
+
 type RecordValue = Record<string, unknown>
 
 function isRecord(value: unknown): value is RecordValue {
@@ -218,3 +265,15 @@ export async function reportPushDiagnostics(
     console.error('[sync-executor] diagnostics callback failed', error)
   }
 }
+
+export async function recordPushTrace(
+  sink: PushDiagnosticsSink | undefined,
+  trace: PushTrace
+): Promise<void> {
+  if (!sink) return
+  try {
+    await sink.recordPush(trace)
+  } catch (error) {
+    console.error('[sync-executor] diagnostics sink failed', error)
+  }
+}
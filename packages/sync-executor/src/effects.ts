@@ -1,17 +1,37 @@
-import type { DeferredEffect, DeferredEffectOptions, EffectScheduler } from './types.js'
+import { isDurableEffect, type Outbox } from './outbox.js'
+
+import type {
+  DeferredEffect,
+  DeferredEffectOptions,
+  DurableEffect,
+  EffectScheduler,
+} from './types.js'
+
+export type EffectEntry = {
+  readonly effect: DeferredEffect | DurableEffect
+  readonly barrier: boolean
+}
 
 export type EffectAttempt = {
-  readonly defer: (effect: DeferredEffect, options?: DeferredEffectOptions) => void
+  readonly defer: (
+    effect: DeferredEffect | DurableEffect,
+    options?: DeferredEffectOptions
+  ) => void
   close(): void
-  entries(): readonly { readonly effect: DeferredEffect; readonly barrier: boolean }[]
+  entries(): readonly EffectEntry[]
+  durable(): readonly DurableEffect[]
 }
 
-export function createEffectAttempt(): EffectAttempt {
-  const effects: { effect: DeferredEffect; barrier: boolean }[] = []
+export function createEffectAttempt(outbox?: Outbox): EffectAttempt {
+  const effects: EffectEntry[] = []
   let open = true
   return {
     defer(effect, options) {
       if (!open) throw new Error('cannot defer an effect after the transaction attempt')
+      if (isDurableEffect(effect)) {
+        if (!outbox) throw new Error('durable effects require the executor outbox option')
+        outbox.validate(effect)
+      }
       effects.push({ effect, barrier: options?.barrier === true })
     },
     close() {
@@ -20,21 +40,42 @@ export function createEffectAttempt(): EffectAttempt {
     entries() {
       return effects
     },
+    durable() {
+      return effects.map(({ effect }) => effect).filter(isDurableEffect)
+    },
   }
 }
 
+// durable entries are already rows in the outbox by the time this runs, so
+// they are delivered by draining it rather than called here. a durable barrier
+// waits for that first attempt only: a failure is retried from the outbox, not
+// thrown into the push that committed it.
 export async function runCommittedEffects(
-  entries: readonly { readonly effect: DeferredEffect; readonly barrier: boolean }[],
-  scheduler: EffectScheduler
+  entries: readonly EffectEntry[],
+  scheduler: EffectScheduler,
+  outbox?: Outbox
 ): Promise<void> {
-  const barriers = entries.filter((entry) => entry.barrier)
-  await Promise.all(barriers.map(({ effect }) => Promise.resolve().then(effect)))
+  const inMemory = entries.filter(
+    (entry): entry is { effect: DeferredEffect; barrier: boolean } =>
+      !isDurableEffect(entry.effect)
+  )
+  const durable = entries.filter((entry) => isDurableEffect(entry.effect))
+  const drainOutbox = () => outbox!.drain().then(() => {})
+  const durableBarrier = durable.some((entry) => entry.barrier)
+
+  const barriers = inMemory.filter((entry) => entry.barrier)
+  await Promise.all([
+    ...barriers.map(({ effect }) => Promise.resolve().then(effect)),
+    ...(durableBarrier ? [drainOutbox()] : []),
+  ])
 
-  const background = entries.filter((entry) => !entry.barrier)
-  if (background.length === 0) return
-  const promise = Promise.allSettled(
-    background.map(({ effect }) => Promise.resolve().then(effect))
-  ).then((results) => {
+  const background = inMemory.filter((entry) => !entry.barrier)
+  const drainInBackground = durable.length > 0 && !durableBarrier
+  if (background.length === 0 && !drainInBackground) return
+  const promise = Promise.allSettled([
+    ...background.map(({ effect }) => Promise.resolve().then(effect)),
+    ...(drainInBackground ? [drainOutbox()] : []),
+  ]).then((results) => {
     for (const result of results) {
       if (result.status === 'rejected') scheduler.report(result.reason)
     }
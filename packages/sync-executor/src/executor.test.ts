@@ -1091,3 +1091,415 @@ describe('sync executor', () => {
     expect(storedLMID(sqlite)).toBe(1)
   })
 })
+
+describe('push diagnostics sink', () => {
+  function pushOf(...mutations: [name: string, id: number][]) {
+    const body = push('unused')
+    return {
+      ...body,
+      mutations: mutations.map(([name, id]) => ({ ...body.mutations[0]!, name, id })),
+    }
+  }
+
+  test('records each mutation with its outcome, rows written and error class', async () => {
+    const { database } = sqliteDatabase()
+    class QuotaError extends Error {
+      name = 'QuotaError'
+    }
+    const mutators = {
+      load: async ({ tx }) => {
+        await tx.mutate.item.insertMany([
+          { id: 'a', value: 'v' },
+          { id: 'b', value: 'v' },
+        ])
+      },
+      refuse: async () => {
+        throw new QuotaError('over quota')
+      },
+      later: async () => {
+        throw new MutationRetryError(5_000)
+      },
+    } satisfies MutatorRegistry<typeof schema>
+    const recordPush = vi.fn()
+    const executor = createSyncExecutor({
+      database,
+      diagnostics: { recordPush },
+      effects,
+      mutators,
+      schema,
+    })
+
+    await executor.push(pushOf(['load', 1], ['refuse', 2]), { userID: 'user-1' })
+    await expect(
+      executor.push(pushOf(['load', 1], ['later', 3]), { userID: 'user-1' })
+    ).rejects.toThrow('mutation cannot be applied yet')
+
+    expect(recordPush).toHaveBeenCalledTimes(2)
+    const [first, second] = recordPush.mock.calls.map(([trace]) => trace)
+    expect(first).toMatchObject({
+      clientGroupID: 'group-1',
+      errorName: null,
+      mutations: [
+        { name: 'load', mutationID: 1, outcome: 'applied', rowsWritten: 2 },
+        {
+          name: 'refuse',
+          mutationID: 2,
+          outcome: 'app_error',
+          rowsWritten: 0,
+          errorName: 'QuotaError',
+          retryAfterMs: null,
+        },
+      ],
+    })
+    expect(second).toMatchObject({
+      errorName: 'MutationRetryError',
+      mutations: [
+        { name: 'load', outcome: 'already_processed', rowsWritten: 0 },
+        { name: 'later', outcome: 'retry', retryAfterMs: 5_000 },
+      ],
+    })
+    for (const trace of [first, second]) {
+      expect(trace.durationMs).toBeGreaterThanOrEqual(0)
+      for (const mutation of trace.mutations) {
+        expect(mutation.startTimeMs).toBeGreaterThanOrEqual(trace.startTimeMs)
+      }
+    }
+  })
+
+  test('a failing sink does not fail the push', async () => {
+    const { database } = sqliteDatabase()
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const executor = createSyncExecutor({
+      database,
+      diagnostics: {
+        recordPush() {
+          throw new Error('exporter down')
+        },
+      },
+      effects,
+      mutators: { noop: async () => {} } satisfies MutatorRegistry<typeof schema>,
+      schema,
+    })
+
+    await expect(executor.push(push('noop'), { userID: 'user-1' })).resolves.toEqual({
+      pushResponse: {
+        mutations: [{ id: { clientID: 'client-1', id: 1 }, result: {} }],
+      },
+    })
+    expect(error).toHaveBeenCalledWith(
+      '[sync-executor] diagnostics sink failed',
+      expect.any(Error)
+    )
+    error.mockRestore()
+  })
+})
+
+describe('bulk crud', () => {
+  const contact = table('contact')
+    .columns({ id: string(), email: string(), name: string() })
+    .primaryKey('id')
+  const contactSchema = createSchema({ tables: [item, contact] })
+
+  function statements(prepare: { mock: { calls: unknown[][] } }, prefix: string) {
+    return prepare.mock.calls
+      .map(([sql]) => String(sql))
+      .filter((sql) => sql.startsWith(prefix))
+  }
+
+  // keys the latest mutation committed
+  function committedKeys(sqlite: DatabaseSync) {
+    return packedPayload(sqlite)
+      .transactions.at(-1)!
+      .changes.map(([, key]) => key.id)
+      .sort()
+  }
+
+  test('writes one statement per parameter-bounded chunk with exact keys', async () => {
+    const { database, sqlite } = sqliteDatabase()
+    sqlite.prepare('INSERT INTO item (id, value) VALUES (?, ?)').run('r000', 'original')
+    const ids = Array.from(
+      { length: 120 },
+      (_, index) => `r${String(index).padStart(3, '0')}`
+    )
+    const mutators = {
+      load: async ({ tx }) => {
+        await tx.mutate.item.insertMany(ids.map((id) => ({ id, value: 'new' })))
+      },
+      revise: async ({ tx }) => {
+        await tx.mutate.item.updateMany([
+          { id: 'r001', value: 'first' },
+          { id: 'missing', value: 'ignored' },
+          { id: 'r001', value: 'second' },
+        ])
+        await tx.mutate.item.deleteMany(ids.slice(100).map((id) => ({ id })))
+      },
+    } satisfies MutatorRegistry<typeof schema>
+    const executor = createSyncExecutor({ database, effects, mutators, schema })
+    const prepare = vi.spyOn(sqlite, 'prepare')
+
+    await executor.push(push('load'), { userID: 'user-1' })
+    // two parameters a row fits fifty rows a statement
+    expect(statements(prepare, 'INSERT INTO "item"')).toHaveLength(3)
+    expect(sqlite.prepare("SELECT value FROM item WHERE id = 'r000'").get()).toEqual({
+      value: 'original',
+    })
+    expect(committedKeys(sqlite)).toEqual(ids.slice(1))
+
+    prepare.mockClear()
+    await executor.push(push('revise', 2), { userID: 'user-1' })
+    // the repeated key starts a second statement so the later value wins
+    expect(statements(prepare, 'WITH "v"')).toHaveLength(1)
+    expect(statements(prepare, 'UPDATE "item"')).toHaveLength(1)
+    expect(statements(prepare, 'DELETE FROM "item"')).toHaveLength(1)
+    expect(sqlite.prepare("SELECT value FROM item WHERE id = 'r001'").get()).toEqual({
+      value: 'second',
+    })
+    expect(sqlite.prepare('SELECT COUNT(*) AS count FROM item').get()).toEqual({
+      count: 100,
+    })
+    expect(committedKeys(sqlite)).toEqual(['r001', ...ids.slice(100)].sort())
+  })
+
+  test('upserts on a declared unique index and keeps the existing primary key', async () => {
+    const { database, sqlite } = sqliteDatabase()
+    sqlite.exec(`
+      CREATE TABLE contact (id TEXT PRIMARY KEY, email TEXT NOT NULL, name TEXT NOT NULL);
+      CREATE UNIQUE INDEX contact_email ON contact (email);
+      INSERT INTO contact VALUES ('c1', 'ada@example.com', 'Ada');
+    `)
+    const mutators = {
+      importContacts: async ({ tx }) => {
+        await tx.mutate.contact.upsertMany(
+          [
+            { id: 'import-1', email: 'ada@example.com', name: 'Ada Lovelace' },
+            { id: 'import-2', email: 'grace@example.com', name: 'Grace' },
+          ],
+          { onConflict: ['email'] }
+        )
+        await tx.mutate.contact.upsert(
+          { id: 'import-3', email: 'grace@example.com', name: 'Grace Hopper' },
+          { onConflict: ['email'] }
+        )
+      },
+    } satisfies MutatorRegistry<typeof contactSchema>
+    const executor = createSyncExecutor({
+      database,
+      effects,
+      mutators,
+      schema: contactSchema,
+    })
+
+    await expect(
+      executor.push(push('importContacts'), { userID: 'user-1' })
+    ).resolves.toEqual({
+      pushResponse: {
+        mutations: [{ id: { clientID: 'client-1', id: 1 }, result: {} }],
+      },
+    })
+    expect(sqlite.prepare('SELECT * FROM contact ORDER BY id').all()).toEqual([
+      { id: 'c1', email: 'ada@example.com', name: 'Ada Lovelace' },
+      { id: 'import-2', email: 'grace@example.com', name: 'Grace Hopper' },
+    ])
+    expect(committedKeys(sqlite)).toEqual(['c1', 'import-2'])
+  })
+
+  test('validates every row before the first statement runs', async () => {
+    const { database, sqlite } = sqliteDatabase()
+    const mutators = {
+      partial: async ({ tx }) => {
+        await tx.mutate.item.insertMany([
+          { id: 'a', value: 'v' },
+          { value: 'no key' } as never,
+        ])
+      },
+      wrongKind: async ({ tx }) => {
+        await tx.mutate.item.upsertMany([{ id: 'a', value: 'v' }], {
+          onConflict: ['nope' as never],
+        })
+      },
+    } satisfies MutatorRegistry<typeof schema>
+    const executor = createSyncExecutor({ database, effects, mutators, schema })
+    const prepare = vi.spyOn(sqlite, 'prepare')
+
+    await expect(
+      executor.push(push('partial'), { userID: 'user-1' })
+    ).resolves.toMatchObject({
+      pushResponse: {
+        mutations: [
+          { result: { error: 'app', message: 'missing primary key: item.id' } },
+        ],
+      },
+    })
+    await expect(
+      executor.push(push('wrongKind', 2), { userID: 'user-1' })
+    ).resolves.toMatchObject({
+      pushResponse: {
+        mutations: [{ result: { error: 'app', message: 'unknown column: item.nope' } }],
+      },
+    })
+    expect(statements(prepare, 'INSERT INTO "item"')).toEqual([])
+  })
+})
+
+describe('durable outbox', () => {
+  const claims = { userID: 'user-1' }
+
+  function outboxRows(sqlite: DatabaseSync, table = '_zsync_outbox') {
+    return sqlite
+      .prepare(`SELECT "name", "payload", "attempts" FROM "${table}" ORDER BY "id"`)
+      .all()
+  }
+
+  test('commits rows with the mutation and delivers them after commit', async () => {
+    const { database, sqlite } = sqliteDatabase()
+    const sent: unknown[] = []
+    const mutators = {
+      create: async ({ tx, ctx }) => {
+        await tx.mutate.item.insert({ id: 'a', value: 'sent' })
+        ctx.defer({ name: 'email', payload: { to: 'ada@example.com' } })
+      },
+      denied: async ({ tx, ctx }) => {
+        await tx.mutate.item.insert({ id: 'b', value: 'rolled back' })
+        ctx.defer({ name: 'email', payload: { to: 'cyd@example.com' } })
+        throw new Error('denied')
+      },
+      unknown: async ({ ctx }) => {
+        ctx.defer({ name: 'sms' })
+      },
+    } satisfies MutatorRegistry<typeof schema>
+    const executor = createSyncExecutor({
+      database,
+      effects,
+      mutators,
+      schema,
+      outbox: {
+        handlers: {
+          email: (payload) => {
+            expect(outboxRows(sqlite)).toHaveLength(1)
+            sent.push(payload)
+          },
+        },
+      },
+    })
+
+    await executor.push(push('create'), claims)
+    expect(sent).toEqual([{ to: 'ada@example.com' }])
+    expect(outboxRows(sqlite)).toEqual([])
+
+    const denied = await executor.push(push('denied', 2), claims)
+    expect(denied.pushResponse).toMatchObject({
+      mutations: [{ result: { error: 'app', message: 'denied' } }],
+    })
+    const unknown = await executor.push(push('unknown', 3), claims)
+    expect(unknown.pushResponse).toMatchObject({
+      mutations: [{ result: { error: 'app', message: 'unknown outbox handler: sms' } }],
+    })
+    expect(sent).toHaveLength(1)
+    expect(outboxRows(sqlite)).toEqual([])
+  })
+
+  test('retries with backoff and dead-letters after maxAttempts', async () => {
+    const { database, sqlite } = sqliteDatabase()
+    let now = 1_000
+    const scheduled: number[] = []
+    const reported: unknown[] = []
+    const scheduler: EffectScheduler = {
+      runBackground: (promise) => promise,
+      report: (error) => reported.push(error),
+      scheduleOutboxDrain: (timestamp) => scheduled.push(timestamp),
+    }
+    const executor = createSyncExecutor({
+      database,
+      effects: scheduler,
+      mutators: {
+        notify: async ({ ctx }) => ctx.defer({ name: 'webhook', payload: 1 }),
+      },
+      schema,
+      outbox: {
+        handlers: {
+          webhook: () => {
+            throw new Error('503 from hooks.example.com')
+          },
+        },
+        maxAttempts: 3,
+        initialBackoffMs: 100,
+        now: () => now,
+      },
+    })
+
+    await executor.execute('notify', null, claims)
+    expect(scheduled).toEqual([1_100])
+    expect(outboxRows(sqlite)).toEqual([{ name: 'webhook', payload: '1', attempts: 1 }])
+
+    // not due yet
+    await expect(executor.drainOutbox()).resolves.toMatchObject({ failed: 0 })
+    now = 1_100
+    await expect(executor.drainOutbox()).resolves.toEqual({
+      delivered: 0,
+      failed: 1,
+      deadLettered: 0,
+      nextAttemptAt: 1_300,
+    })
+    now = 1_300
+    await expect(executor.drainOutbox()).resolves.toEqual({
+      delivered: 0,
+      failed: 0,
+      deadLettered: 1,
+      nextAttemptAt: null,
+    })
+    expect(outboxRows(sqlite)).toEqual([])
+    expect(
+      sqlite
+        .prepare(`SELECT "name", "attempts", "lastError" FROM "_zsync_outbox_dead"`)
+        .all()
+    ).toEqual([{ name: 'webhook', attempts: 3, lastError: '503 from hooks.example.com' }])
+    expect(reported).toHaveLength(3)
+  })
+
+  test('a restarted executor drains rows committed before the restart', async () => {
+    const { database, sqlite } = sqliteDatabase()
+    const mutators = {
+      create: async ({ tx, ctx }) => {
+        await tx.mutate.item.insert({ id: 'a', value: 'queued' })
+        ctx.defer({ name: 'email', payload: 'welcome' })
+      },
+    } satisfies MutatorRegistry<typeof schema>
+    const crashed = createSyncExecutor({
+      database,
+      effects: { runBackground: () => {}, report: () => {} },
+      mutators,
+      schema,
+      // the host dies while the post-commit delivery is still in flight
+      outbox: { handlers: { email: () => new Promise(() => {}) } },
+    })
+    await crashed.push(push('create'), claims)
+    expect(outboxRows(sqlite)).toEqual([
+      { name: 'email', payload: '"welcome"', attempts: 0 },
+    ])
+
+    const sent: unknown[] = []
+    const restarted = createSyncExecutor({
+      database,
+      effects,
+      mutators,
+      schema,
+      outbox: { handlers: { email: (payload) => void sent.push(payload) } },
+    })
+    await expect(restarted.drainOutbox()).resolves.toMatchObject({ delivered: 1 })
+    expect(sent).toEqual(['welcome'])
+    expect(outboxRows(sqlite)).toEqual([])
+  })
+
+  test('durable effects require the outbox option', async () => {
+    const { database } = sqliteDatabase()
+    const executor = createSyncExecutor({
+      database,
+      effects,
+      mutators: { notify: async ({ ctx }) => ctx.defer({ name: 'email' }) },
+      schema,
+    })
+    await expect(executor.execute('notify', null, claims)).rejects.toThrow(
+      /require the executor outbox option/
+    )
+  })
+})
@@ -1,11 +1,14 @@
 import { isJsonValue } from './crud.js'
-import { reportPushDiagnostics, type PushDiagnosticsOptions } from './diagnostics.js'
 import {
-  createEffectAttempt,
-  runCommittedEffects,
-  type EffectAttempt,
-} from './effects.js'
+  recordPushTrace,
+  reportPushDiagnostics,
+  type PushDiagnosticsOptions,
+  type PushMutationOutcome,
+  type PushMutationTrace,
+} from './diagnostics.js'
+import { createEffectAttempt, runCommittedEffects, type EffectEntry } from './effects.js'
 import { MutationApplicationError, SyncExecutorRequestError } from './errors.js'
+import { createOutbox } from './outbox.js'
 import {
   commitPackedLedger,
   initializePackedLedger,
@@ -156,6 +159,24 @@ function applicationErrorDetails(error: unknown): JsonValue | undefined {
   return undefined
 }
 
+// read by name like the guards above, so an error class from another copy of
+// this package is classified the same
+function mutationOutcome(error: unknown): PushMutationOutcome {
+  if (isMutationRetryError(error)) return 'retry'
+  if (isMutationWriteSetError(error)) return 'write_set_error'
+  if (isMutationApplicationError(error)) return 'app_error'
+  if (isRecord(error) && error.name === 'SyncExecutorRequestError') return 'rejected'
+  return 'error'
+}
+
+function errorName(error: unknown): string {
+  if (isMutationApplicationError(error)) {
+    const details = error.details
+    if (isRecord(details) && typeof details.name === 'string') return details.name
+  }
+  return error instanceof Error && error.name ? error.name : 'Error'
+}
+
 function validateClaims(claims: NormalizedClaims): void {
   if (!claims || typeof claims.userID !== 'string' || claims.userID.length === 0) {
     throw new SyncExecutorRequestError(403, 'authenticated claims require a userID')
@@ -238,8 +259,12 @@ export function createSyncExecutor<S extends Schema>(
   options: CreateSyncExecutorOptions<S>
 ): SyncExecutor<S> {
   const { database, effects, mutators, schema } = options
+  const outbox = options.outbox
+    ? createOutbox(database, options.outbox, effects)
+    : undefined
   let ledgerInitialization: Promise<void> | undefined
-  const ensureLedger = () => (ledgerInitialization ??= initializeLedger(database))
+  const ensureLedger = () =>
+    (ledgerInitialization ??= initializeLedger(database).then(() => outbox?.initialize()))
   const beginApplicationWrite = (applicationTx: ApplicationTransaction) =>
     beginWriteSetCapture(schema, applicationTx)
 
@@ -248,12 +273,12 @@ export function createSyncExecutor<S extends Schema>(
     args: JsonValue,
     claims: NormalizedClaims,
     identity: { clientGroupID: string; clientID: string; mutationID: number } | undefined
-  ): Promise<readonly ReturnType<EffectAttempt['entries']>[number][]> {
+  ): Promise<readonly EffectEntry[]> {
     await ensureLedger()
-    let committedEffects: ReturnType<EffectAttempt['entries']> = []
+    let committedEffects: readonly EffectEntry[] = []
     await database.transaction(async (applicationTx) => {
       const writeSet = await beginApplicationWrite(applicationTx)
-      const attempt = createEffectAttempt()
+      const attempt = createEffectAttempt(outbox)
       const tx = createServerTransaction(
         schema,
         writeSet.transaction,
@@ -274,6 +299,7 @@ export function createSyncExecutor<S extends Schema>(
           }
       try {
         await mutator({ tx, args, ctx })
+        await outbox?.enqueue(applicationTx, attempt.durable())
         await writeSet.commit()
         attempt.close()
         committedEffects = attempt.entries()
@@ -301,122 +327,163 @@ export function createSyncExecutor<S extends Schema>(
       }
       await ensureLedger()
 
-      const results: Array<{
-        id: { clientID: string; id: number }
-        result:
-          | Record<string, never>
-          | { error: 'alreadyProcessed'; details: string }
-          | { error: 'app'; message: string; details?: JsonValue }
-      }> = []
-
-      for (const mutation of push.mutations) {
-        if (mutation.name === CLEANUP_RESULTS_MUTATION_NAME) continue
-        const id = { clientID: mutation.clientID, id: mutation.id }
-        let committedEffects: ReturnType<EffectAttempt['entries']> = []
-        try {
-          const decision = await database.transaction(async (applicationTx) => {
-            const current = await preflight(
-              applicationTx,
-              push.clientGroupID,
-              mutation.clientID,
-              mutation.id,
-              claims.userID
-            )
-            if (current.kind === 'replay') return current
-
-            const writeSet = await beginApplicationWrite(applicationTx)
-            const attempt = createEffectAttempt()
-            const tx = createServerTransaction(
-              schema,
-              writeSet.transaction,
-              mutation.clientID,
-              mutation.id
-            )
-            try {
+      const pushStart = Date.now()
+      const pushClock = performance.now()
+      const traces: PushMutationTrace[] = []
+      let pushError: unknown
+      try {
+        const results: Array<{
+          id: { clientID: string; id: number }
+          result:
+            | Record<string, never>
+            | { error: 'alreadyProcessed'; details: string }
+            | { error: 'app'; message: string; details?: JsonValue }
+        }> = []
+
+        for (const mutation of push.mutations) {
+          if (mutation.name === CLEANUP_RESULTS_MUTATION_NAME) continue
+          const id = { clientID: mutation.clientID, id: mutation.id }
+          let committedEffects: readonly EffectEntry[] = []
+          const mutationStart = Date.now()
+          const mutationClock = performance.now()
+          let rowsWritten = 0
+          const observe = (outcome: PushMutationOutcome, error?: unknown) => {
+            traces.push({
+              name: mutation.name,
+              clientID: mutation.clientID,
+              mutationID: mutation.id,
+              startTimeMs: mutationStart,
+              durationMs: performance.now() - mutationClock,
+              rowsWritten: outcome === 'applied' ? rowsWritten : 0,
+              outcome,
+              errorName: error === undefined ? null : errorName(error),
+              retryAfterMs: isMutationRetryError(error) ? error.retryAfterMs : null,
+            })
+          }
+          try {
+            const decision = await database.transaction(async (applicationTx) => {
+              const current = await preflight(
+                applicationTx,
+                push.clientGroupID,
+                mutation.clientID,
+                mutation.id,
+                claims.userID
+              )
+              if (current.kind === 'replay') return current
+
+              const writeSet = await beginApplicationWrite(applicationTx)
+              const attempt = createEffectAttempt(outbox)
+              const tx = createServerTransaction(
+                schema,
+                writeSet.transaction,
+                mutation.clientID,
+                mutation.id
+              )
               try {
-                // resolved in here so an unknown name is an application error
-                // too: a stale client naming a removed mutator would otherwise
-                // retry it forever and block its later mutation ids
-                if (!Object.hasOwn(mutators, mutation.name)) {
-                  throw new Error(`unknown mutator: ${mutation.name}`)
+                try {
+                  // resolved in here so an unknown name is an application error
+                  // too: a stale client naming a removed mutator would otherwise
+                  // retry it forever and block its later mutation ids
+                  if (!Object.hasOwn(mutators, mutation.name)) {
+                    throw new Error(`unknown mutator: ${mutation.name}`)
+                  }
+                  await mutators[mutation.name]!({
+                    tx,
+                    args: mutation.args[0] ?? null,
+                    ctx: {
+                      source: 'zero-push',
+                      claims,
+                      clientGroupID: push.clientGroupID,
+                      clientID: mutation.clientID,
+                      mutationID: mutation.id,
+                      defer: attempt.defer,
+                    },
+                  })
+                } catch (error) {
+                  throw toApplicationError(error)
                 }
-                await mutators[mutation.name]!({
-                  tx,
-                  args: mutation.args[0] ?? null,
-                  ctx: {
-                    source: 'zero-push',
-                    claims,
-                    clientGroupID: push.clientGroupID,
-                    clientID: mutation.clientID,
-                    mutationID: mutation.id,
-                    defer: attempt.defer,
-                  },
+                await outbox?.enqueue(applicationTx, attempt.durable())
+                await writeSet.commit({
+                  clientGroupID: push.clientGroupID,
+                  clientID: mutation.clientID,
+                  mutationID: mutation.id,
                 })
+                rowsWritten = writeSet.rowsWritten()
+                attempt.close()
+                committedEffects = attempt.entries()
+                return current
               } catch (error) {
-                throw toApplicationError(error)
+                attempt.close()
+                throw error
               }
-              await writeSet.commit({
-                clientGroupID: push.clientGroupID,
-                clientID: mutation.clientID,
-                mutationID: mutation.id,
+            })
+
+            if (decision.kind === 'replay') {
+              results.push({
+                id,
+                result: {
+                  error: 'alreadyProcessed',
+                  details: `Ignoring mutation from ${mutation.clientID} with ID ${mutation.id} as it was already processed. Expected: ${decision.expected}`,
+                },
               })
-              attempt.close()
-              committedEffects = attempt.entries()
-              return current
-            } catch (error) {
-              attempt.close()
+              observe('already_processed')
+              continue
+            }
+            results.push({ id, result: {} })
+            observe('applied')
+            await runCommittedEffects(committedEffects, effects, outbox)
+          } catch (error) {
+            if (!isMutationApplicationError(error)) {
+              observe(mutationOutcome(error), error)
               throw error
             }
-          })
-
-          if (decision.kind === 'replay') {
+            await database.transaction(async (applicationTx) => {
+              const decision = await preflight(
+                applicationTx,
+                push.clientGroupID,
+                mutation.clientID,
+                mutation.id,
+                claims.userID
+              )
+              if (decision.kind === 'applied') {
+                await commitPackedLedger(applicationTx, [], {
+                  clientGroupID: push.clientGroupID,
+                  clientID: mutation.clientID,
+                  mutationID: mutation.id,
+                })
+              }
+            })
             results.push({
               id,
               result: {
-                error: 'alreadyProcessed',
-                details: `Ignoring mutation from ${mutation.clientID} with ID ${mutation.id} as it was already processed. Expected: ${decision.expected}`,
+                error: 'app',
+                message: error.message,
+                ...(error.details === undefined ? {} : { details: error.details }),
               },
             })
-            continue
+            observe('app_error', error)
           }
-          results.push({ id, result: {} })
-          await runCommittedEffects(committedEffects, effects)
-        } catch (error) {
-          if (!isMutationApplicationError(error)) throw error
-          await database.transaction(async (applicationTx) => {
-            const decision = await preflight(
-              applicationTx,
-              push.clientGroupID,
-              mutation.clientID,
-              mutation.id,
-              claims.userID
-            )
-            if (decision.kind === 'applied') {
-              await commitPackedLedger(applicationTx, [], {
-                clientGroupID: push.clientGroupID,
-                clientID: mutation.clientID,
-                mutationID: mutation.id,
-              })
-            }
-          })
-          results.push({
-            id,
-            result: {
-              error: 'app',
-              message: error.message,
-              ...(error.details === undefined ? {} : { details: error.details }),
-            },
-          })
         }
+        return { pushResponse: { mutations: results } }
+      } catch (error) {
+        pushError = error
+        throw error
+      } finally {
+        await recordPushTrace(options.diagnostics, {
+          clientGroupID: push.clientGroupID,
+          startTimeMs: pushStart,
+          durationMs: performance.now() - pushClock,
+          mutations: traces,
+          errorName: pushError === undefined ? null : errorName(pushError),
+        })
       }
-      return { pushResponse: { mutations: results } }
     },
 
     async execute(name, args, claims): Promise<void> {
       validateClaims(claims)
       if (!Object.hasOwn(mutators, name)) throw new Error(`unknown mutator: ${name}`)
       const committed = await runMutation(mutators[name]!, args, claims, undefined)
-      await runCommittedEffects(committed, effects)
+      await runCommittedEffects(committed, effects, outbox)
     },
 
     async transaction<Value>(
@@ -446,6 +513,14 @@ export function createSyncExecutor<S extends Schema>(
         return value
       })
     },
+
+    async drainOutbox() {
+      if (!outbox) {
+        return { delivered: 0, failed: 0, deadLettered: 0, nextAttemptAt: null }
+      }
+      await ensureLedger()
+      return outbox.drain()
+    },
   }
 }
 
@@ -0,0 +1,214 @@
+import { isJsonValue } from './crud.js'
+
+import type {
+  ApplicationDatabase,
+  ApplicationTransaction,
+  DurableEffect,
+  EffectScheduler,
+  OutboxDrainResult,
+  OutboxOptions,
+} from './types.js'
+
+// one drain delivers at most this many rows; anything still due past it is
+// picked up by the drain scheduled for "now" at the end of this one.
+const DRAIN_BATCH = 100
+
+type OutboxRow = {
+  id: number | bigint
+  name: string
+  payload: string
+  attempts: number | bigint
+}
+
+type DeliveryOutcome = 'delivered' | 'failed' | 'deadLettered'
+
+export type Outbox = {
+  validate(effect: DurableEffect): void
+  initialize(): Promise<void>
+  enqueue(tx: ApplicationTransaction, effects: readonly DurableEffect[]): Promise<void>
+  drain(): Promise<OutboxDrainResult>
+}
+
+export function isDurableEffect(effect: unknown): effect is DurableEffect {
+  return typeof effect === 'object' && effect !== null
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function validateOutboxOptions(options: OutboxOptions): void {
+  if (!options.handlers || typeof options.handlers !== 'object') {
+    throw new TypeError('outbox.handlers is required')
+  }
+  for (const [name, value] of Object.entries({
+    maxAttempts: options.maxAttempts ?? 8,
+    initialBackoffMs: options.initialBackoffMs ?? 1_000,
+    maxBackoffMs: options.maxBackoffMs ?? 300_000,
+  })) {
+    if (!Number.isSafeInteger(value) || value < 1) {
+      throw new TypeError(`outbox.${name} must be a positive safe integer`)
+    }
+  }
+}
+
+// the outbox is what makes a deferred effect at-least-once. the row is written
+// in the mutation's own transaction, so it exists exactly when the mutation
+// committed, and it is deleted only after its handler resolves. a crash between
+// the two re-delivers on the next drain; handlers that must not repeat have to
+// dedupe on `delivery.id`.
+export function createOutbox(
+  database: ApplicationDatabase,
+  options: OutboxOptions,
+  scheduler: EffectScheduler
+): Outbox {
+  validateOutboxOptions(options)
+  const { handlers } = options
+  const maxAttempts = options.maxAttempts ?? 8
+  const initialBackoffMs = options.initialBackoffMs ?? 1_000
+  const maxBackoffMs = options.maxBackoffMs ?? 300_000
+  const now = options.now ?? Date.now
+  // a row stays due until its delivery settles, so concurrent drains (the one
+  // after a commit and a host timer) share the attempt instead of repeating it
+  const inFlight = new Map<number, Promise<DeliveryOutcome>>()
+  let fallbackTimer: ReturnType<typeof setTimeout> | undefined
+
+  const scheduleDrain = (timestamp: number) => {
+    if (scheduler.scheduleOutboxDrain) {
+      scheduler.scheduleOutboxDrain(timestamp)
+      return
+    }
+    clearTimeout(fallbackTimer)
+    fallbackTimer = setTimeout(
+      () => void drain().catch((error) => scheduler.report(error)),
+      Math.max(0, timestamp - now())
+    )
+  }
+
+  const backoff = (attempt: number) =>
+    Math.min(maxBackoffMs, initialBackoffMs * 2 ** (attempt - 1))
+
+  async function deliver(row: OutboxRow): Promise<DeliveryOutcome> {
+    const id = Number(row.id)
+    const attempt = Number(row.attempts) + 1
+    const handler = Object.hasOwn(handlers, row.name) ? handlers[row.name] : undefined
+    try {
+      // a handler removed by a deploy can never succeed, so it dead-letters
+      // on the first attempt instead of burning the whole retry budget
+      if (!handler) throw new Error(`unknown outbox handler: ${row.name}`)
+      await handler(JSON.parse(row.payload), { id, attempt })
+    } catch (error) {
+      scheduler.report(error)
+      if (!handler || attempt >= maxAttempts) {
+        await database.transaction(async (tx) => {
+          await tx.exec(
+            `INSERT INTO "_zsync_outbox_dead"
+               ("id", "name", "payload", "attempts", "lastError", "createdAt", "failedAt")
+             SELECT "id", "name", "payload", ?, ?, "createdAt", ?
+             FROM "_zsync_outbox" WHERE "id" = ?`,
+            [attempt, errorMessage(error), now(), id]
+          )
+          await tx.exec(`DELETE FROM "_zsync_outbox" WHERE "id" = ?`, [id])
+        })
+        return 'deadLettered'
+      }
+      await database.transaction((tx) =>
+        tx.exec(
+          `UPDATE "_zsync_outbox"
+           SET "attempts" = ?, "nextAttemptAt" = ?, "lastError" = ?
+           WHERE "id" = ?`,
+          [attempt, now() + backoff(attempt), errorMessage(error), id]
+        )
+      )
+      return 'failed'
+    }
+    await database.transaction((tx) =>
+      tx.exec(`DELETE FROM "_zsync_outbox" WHERE "id" = ?`, [id])
+    )
+    return 'delivered'
+  }
+
+  async function drain(): Promise<OutboxDrainResult> {
+    const rows = await database.query<OutboxRow>(
+      `SELECT "id" AS "id", "name" AS "name", "payload" AS "payload",
+              "attempts" AS "attempts"
+       FROM "_zsync_outbox" WHERE "nextAttemptAt" <= ?
+       ORDER BY "id" LIMIT ${DRAIN_BATCH}`,
+      [now()]
+    )
+    const outcomes = await Promise.all(
+      rows.map((row) => {
+        const id = Number(row.id)
+        let delivery = inFlight.get(id)
+        if (!delivery) {
+          delivery = deliver(row).finally(() => inFlight.delete(id))
+          inFlight.set(id, delivery)
+        }
+        return delivery
+      })
+    )
+    const [next] = await database.query<{ next: number | bigint | null }>(
+      `SELECT MIN("nextAttemptAt") AS "next" FROM "_zsync_outbox"`
+    )
+    const nextAttemptAt = next?.next == null ? null : Number(next.next)
+    if (nextAttemptAt !== null) scheduleDrain(nextAttemptAt)
+    return {
+      delivered: outcomes.filter((outcome) => outcome === 'delivered').length,
+      failed: outcomes.filter((outcome) => outcome === 'failed').length,
+      deadLettered: outcomes.filter((outcome) => outcome === 'deadLettered').length,
+      nextAttemptAt,
+    }
+  }
+
+  return {
+    validate(effect) {
+      if (typeof effect.name !== 'string' || !Object.hasOwn(handlers, effect.name)) {
+        throw new Error(`unknown outbox handler: ${String(effect.name)}`)
+      }
+      if (effect.payload !== undefined && !isJsonValue(effect.payload)) {
+        throw new Error(`outbox payload for ${effect.name} must be JSON`)
+      }
+    },
+
+    async initialize() {
+      await database.transaction(async (tx) => {
+        // AUTOINCREMENT so a dead-lettered id is never handed to a new row
+        await tx.exec(`CREATE TABLE IF NOT EXISTS "_zsync_outbox" (
+          "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+          "name" TEXT NOT NULL,
+          "payload" TEXT NOT NULL,
+          "attempts" INTEGER NOT NULL,
+          "nextAttemptAt" INTEGER NOT NULL,
+          "lastError" TEXT,
+          "createdAt" INTEGER NOT NULL
+        )`)
+        await tx.exec(
+          `CREATE INDEX IF NOT EXISTS "_zsync_outbox_due" ON "_zsync_outbox" ("nextAttemptAt")`
+        )
+        await tx.exec(`CREATE TABLE IF NOT EXISTS "_zsync_outbox_dead" (
+          "id" INTEGER PRIMARY KEY,
+          "name" TEXT NOT NULL,
+          "payload" TEXT NOT NULL,
+          "attempts" INTEGER NOT NULL,
+          "lastError" TEXT NOT NULL,
+          "createdAt" INTEGER NOT NULL,
+          "failedAt" INTEGER NOT NULL
+        )`)
+      })
+    },
+
+    async enqueue(tx, effects) {
+      const createdAt = now()
+      for (const effect of effects) {
+        await tx.exec(
+          `INSERT INTO "_zsync_outbox"
+             ("name", "payload", "attempts", "nextAttemptAt", "createdAt")
+           VALUES (?, ?, 0, ?, ?)`,
+          [effect.name, JSON.stringify(effect.payload ?? null), createdAt, createdAt]
+        )
+      }
+    },
+
+    drain,
+  }
+}
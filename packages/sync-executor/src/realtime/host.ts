@@ -2,9 +2,12 @@
 //
 // A stream has exactly three directions, and there is one applier for each:
 //
-//   applyClientFrame    subscriber -> hub    subscribe, unsubscribe
+//   applyClientFrame    subscriber -> hub    subscribe, unsubscribe, join, leave,
+//                                            presence-set, broadcast
 //   applyProducerFrame  producer   -> hub    begin, publish
-//   applyHostFrame      hub        -> store  subscribed, field, subscribe-error
+//   applyHostFrame      hub        -> store  subscribed, field, subscribe-error,
+//                                            presence, presence-error,
+//                                            broadcast-event
 //
 // Everything else in a surface is channel plumbing: a MessagePort, a
 // WebSocket, or a direct call. Keeping the routing here is what lets a new
@@ -28,9 +31,20 @@ export function applyClientFrame(
   connection: HubConnection,
   frame: ClientFrame
 ): Promise<void> {
-  return frame[0] === 'subscribe'
-    ? hub.subscribe(connection, frame[1].topic)
-    : hub.unsubscribe(connection, frame[1].topic)
+  switch (frame[0]) {
+    case 'subscribe':
+      return hub.subscribe(connection, frame[1].topic)
+    case 'unsubscribe':
+      return hub.unsubscribe(connection, frame[1].topic)
+    case 'join':
+      return hub.join(connection, frame[1].room)
+    case 'leave':
+      return hub.leave(connection, frame[1].room)
+    case 'presence-set':
+      return hub.setPresence(connection, frame[1].room, frame[1].state)
+    case 'broadcast':
+      return hub.broadcast(connection, frame[1].room, frame[1].event, frame[1].payload)
+  }
 }
 
 // Apply one producer frame.
@@ -86,6 +100,15 @@ export function applyHostFrame(store: RealtimeStore, frame: HostFrame): void {
     case 'subscribe-error':
       store.handleSubscribeError(frame[1].topic, frame[1].reason)
       return
+    case 'presence':
+      store.handlePresence(frame[1])
+      return
+    case 'presence-error':
+      store.handlePresenceError(frame[1].room, frame[1].reason)
+      return
+    case 'broadcast-event':
+      store.handleBroadcast(frame[1])
+      return
     case 'wake':
       return
   }
@@ -746,6 +746,32 @@ describe('realtime hub', () => {
     expect(errors).toEqual([])
   })
 
+  it('holds the room peer limit across joins awaiting authorization together', async () => {
+    let admit!: () => void
+    const gate = new Promise<SubscribeAuthorization>((resolve) => {
+      admit = () => resolve({ status: 'active' })
+    })
+    const limited = new RealtimeHub({
+      manifest: streaming.manifest,
+      authorizeSubscribe: () => gate,
+      limits: { maxPeersPerRoom: 1 },
+    })
+    const errors: string[] = []
+    const peer = (suffix: string): HubConnection => ({
+      id: `conn-${suffix}`,
+      identity: identity(suffix),
+      send: (frame) => {
+        const [kind, body] = frame as [string, { reason?: string }]
+        if (kind === 'presence-error') errors.push(body.reason!)
+      },
+    })
+    const joins = [limited.join(peer('a'), 'doc-1'), limited.join(peer('b'), 'doc-1')]
+    admit()
+    await Promise.all(joins)
+    expect(limited.peersIn('doc-1').map((joined) => joined.id)).toEqual(['conn-a'])
+    expect(errors).toEqual(['room is at its peer limit'])
+  })
+
   it('validates a replace-mode value at the hub, not only at the producer', async () => {
     const { producer } = makePublisher()
     const partsTopic: RealtimeTopic = {
@@ -15,7 +15,12 @@ import { resolveTopic } from './manifest.js'
 import { canonicalEncode } from './store.js'
 
 import type { StreamingFieldSpec, StreamingManifest } from './manifest.js'
-import type { FieldUpdate, RealtimeTopic } from './protocol.js'
+import type {
+  FieldUpdate,
+  PresencePeer,
+  PresenceTopic,
+  RealtimeTopic,
+} from './protocol.js'
 
 export type RealtimeIdentity = {
   readonly userID: string
@@ -49,6 +54,10 @@ export type HubLimits = {
   readonly maxBatchBytes: number
   // how long ready updates wait to be coalesced into one frame
   readonly batchWindowMs: number
+  readonly maxRoomsPerConnection: number
+  readonly maxPeersPerRoom: number
+  // one connection's presence state, and one broadcast payload, encoded
+  readonly maxPresenceBytes: number
 }
 
 export const DEFAULT_HUB_LIMITS: HubLimits = {
@@ -57,6 +66,9 @@ export const DEFAULT_HUB_LIMITS: HubLimits = {
   maxTopicsPerNamespace: 4096,
   maxBatchBytes: 512 * 1024,
   batchWindowMs: 25,
+  maxRoomsPerConnection: 32,
+  maxPeersPerRoom: 256,
+  maxPresenceBytes: 8 * 1024,
 }
 
 export type HubOptions = {
@@ -65,10 +77,14 @@ export type HubOptions = {
   // synchronously, while the browser worker serializes every database access
   // through a write queue, so the hub awaits either way rather than forcing one
   // host to fake the other's shape.
+  //
+  // A presence room arrives here too, with no spec: rooms are named by the
+  // application rather than derived from a row, so only the host can say who
+  // may join one. Anything but `active` refuses the join.
   readonly authorizeSubscribe: (
     identity: RealtimeIdentity,
-    topic: RealtimeTopic,
-    spec: StreamingFieldSpec
+    topic: RealtimeTopic | PresenceTopic,
+    spec: StreamingFieldSpec | null
   ) => Promise<SubscribeAuthorization> | SubscribeAuthorization
   readonly limits?: Partial<HubLimits>
   // injected so tests drive batching deterministically
@@ -86,6 +102,10 @@ type Generation = {
   producer: HubProducer | undefined
 }
 
+// connection id -> that connection's slot. Keyed by connection rather than
+// user so two tabs are two peers, and closing one leaves the other online.
+type Room = Map<string, { readonly connection: HubConnection; state: unknown }>
+
 export class RealtimeHub {
   readonly #manifest: StreamingManifest
   readonly #authorize: HubOptions['authorizeSubscribe']
@@ -105,6 +125,15 @@ export class RealtimeHub {
   readonly #outbox = new Map<string, FieldUpdate[]>()
   #flushScheduled = false
 
+  readonly #rooms = new Map<string, Room>()
+  readonly #connectionRooms = new Map<string, Set<string>>()
+  // connection -> room -> peer -> latest slot, or null once the peer left.
+  // Last write wins inside a window, which is the coalescing presence wants.
+  readonly #presenceOutbox = new Map<
+    string,
+    Map<string, Map<string, PresencePeer | null>>
+  >()
+
   // One chain per connection so its subscribe and unsubscribe frames apply in
   // arrival order even though authorization may await. Without it, a
   // subscribe/unsubscribe pair sent back to back could resolve out of order and
@@ -262,8 +291,13 @@ export class RealtimeHub {
       if (this.#subscribers.get(topicID)?.size === 0) this.#subscribers.delete(topicID)
     }
     this.#connectionTopics.delete(connectionID)
+    for (const room of this.#connectionRooms.get(connectionID) ?? []) {
+      this.#leaveRoom(connectionID, room)
+    }
+    this.#connectionRooms.delete(connectionID)
     this.#connections.delete(connectionID)
     this.#outbox.delete(connectionID)
+    this.#presenceOutbox.delete(connectionID)
   }
 
   #removeSubscription(connectionID: string, topicID: string): void {
@@ -311,6 +345,202 @@ export class RealtimeHub {
     }
   }
 
+  // ---- presence -----------------------------------------------------------
+
+  // Queued on the same per-connection chain as field subscriptions, so a
+  // presence-set sent right after a join applies after the join's
+  // authorization settles instead of being refused for a room not yet joined.
+  join(connection: HubConnection, room: string): Promise<void> {
+    const epoch = this.#connectionEpoch.get(connection.id) ?? 0
+    return this.#enqueue(connection.id, () => this.#join(connection, room, epoch))
+  }
+
+  leave(connection: HubConnection, room: string): Promise<void> {
+    return this.#enqueue(connection.id, () => {
+      if (!this.#connectionRooms.get(connection.id)?.delete(room)) return
+      this.#leaveRoom(connection.id, room)
+    })
+  }
+
+  setPresence(connection: HubConnection, room: string, state: unknown): Promise<void> {
+    return this.#enqueue(connection.id, () => {
+      const peers = this.#memberRoom(connection, room)
+      if (!peers) return
+      if (byteLength(canonicalEncode(state)) > this.#limits.maxPresenceBytes) {
+        connection.send([
+          'presence-error',
+          { room, reason: 'presence state exceeds maxPresenceBytes' },
+        ])
+        return
+      }
+      peers.get(connection.id)!.state = state
+      this.#queuePresence(room, connection.id, {
+        id: connection.id,
+        userID: connection.identity.userID,
+        state,
+      })
+    })
+  }
+
+  // Fanned out at once rather than batched: a broadcast is an event, and
+  // coalescing two "typing" pings into one would change what was said.
+  broadcast(
+    connection: HubConnection,
+    room: string,
+    event: string,
+    payload: unknown
+  ): Promise<void> {
+    return this.#enqueue(connection.id, () => {
+      const peers = this.#memberRoom(connection, room)
+      if (!peers) return
+      if (byteLength(canonicalEncode(payload)) > this.#limits.maxPresenceBytes) {
+        connection.send([
+          'presence-error',
+          { room, reason: 'broadcast payload exceeds maxPresenceBytes' },
+        ])
+        return
+      }
+      const from = { id: connection.id, userID: connection.identity.userID }
+      for (const [peerID, peer] of peers) {
+        if (peerID === connection.id) continue
+        peer.connection.send(['broadcast-event', { room, from, event, payload }])
+      }
+    })
+  }
+
+  async #join(connection: HubConnection, room: string, epoch: number): Promise<void> {
+    if (!this.#isCurrent(connection.id, epoch)) return
+    this.#connections.set(connection.id, connection)
+    const joined = this.#connectionRooms.get(connection.id) ?? new Set<string>()
+    const early = this.#joinRefusal(connection.id, joined, room)
+    if (early) {
+      connection.send(['presence-error', { room, reason: early }])
+      return
+    }
+
+    const authorization = await this.#authorize(connection.identity, { room }, null)
+    if (!this.#isCurrent(connection.id, epoch)) return
+    if (authorization.status !== 'active') {
+      const reason =
+        authorization.status === 'denied'
+          ? authorization.reason
+          : 'presence rooms take no pending authorization'
+      connection.send(['presence-error', { room, reason }])
+      return
+    }
+    // joins from other connections may have filled the room meanwhile
+    const refusal = this.#joinRefusal(connection.id, joined, room)
+    if (refusal) {
+      connection.send(['presence-error', { room, reason: refusal }])
+      return
+    }
+
+    joined.add(room)
+    this.#connectionRooms.set(connection.id, joined)
+    let peers = this.#rooms.get(room)
+    if (!peers) {
+      peers = new Map()
+      this.#rooms.set(room, peers)
+    }
+    const rejoin = peers.has(connection.id)
+    if (!rejoin) peers.set(connection.id, { connection, state: null })
+    // the joiner's own batched deltas are superseded by the full room below
+    this.#presenceOutbox.get(connection.id)?.delete(room)
+    connection.send([
+      'presence',
+      {
+        room,
+        sync: true,
+        self: connection.id,
+        peers: [...peers].map(([id, peer]) => toPeer(id, peer)),
+        left: [],
+      },
+    ])
+    if (!rejoin) {
+      this.#queuePresence(
+        room,
+        connection.id,
+        toPeer(connection.id, peers.get(connection.id)!)
+      )
+    }
+  }
+  #joinRefusal(connectionID: string, joined: Set<string>, room: string): string | null {
+    // a rejoin after reconnect is not a new membership
+    if (joined.has(room) || this.#rooms.get(room)?.has(connectionID)) return null
+    if (joined.size >= this.#limits.maxRoomsPerConnection) {
+      return 'connection is at its room limit'
+    }
+    if (
+      !this.#rooms.has(room) &&
+      this.#rooms.size >= this.#limits.maxTopicsPerNamespace
+    ) {
+      return 'namespace is at its active topic limit'
+    }
+    if ((this.#rooms.get(room)?.size ?? 0) >= this.#limits.maxPeersPerRoom) {
+      return 'room is at its peer limit'
+    }
+    return null
+  }
+
+  #memberRoom(connection: HubConnection, room: string): Room | undefined {
+    const peers = this.#rooms.get(room)
+    if (peers?.has(connection.id)) return peers
+    connection.send(['presence-error', { room, reason: 'not joined to this room' }])
+    return undefined
+  }
+
+  #leaveRoom(connectionID: string, room: string): void {
+    this.#presenceOutbox.get(connectionID)?.delete(room)
+    const peers = this.#rooms.get(room)
+    if (!peers?.delete(connectionID)) return
+    if (peers.size === 0) this.#rooms.delete(room)
+    else this.#queuePresence(room, connectionID, null)
+  }
+
+  // Record one peer's change for everybody else in the room.
+  #queuePresence(room: string, peerID: string, peer: PresencePeer | null): void {
+    const peers = this.#rooms.get(room)
+    if (!peers) return
+    let queued = false
+    for (const connectionID of peers.keys()) {
+      if (connectionID === peerID) continue
+      let rooms = this.#presenceOutbox.get(connectionID)
+      if (!rooms) {
+        rooms = new Map()
+        this.#presenceOutbox.set(connectionID, rooms)
+      }
+      let changes = rooms.get(room)
+      if (!changes) {
+        changes = new Map()
+        rooms.set(room, changes)
+      }
+      changes.set(peerID, peer)
+      queued = true
+    }
+    if (queued) this.#scheduleFlush()
+  }
+
+  #flushPresence(): void {
+    const outbox = [...this.#presenceOutbox]
+    this.#presenceOutbox.clear()
+    for (const [connectionID, rooms] of outbox) {
+      const connection = this.#connections.get(connectionID)
+      if (!connection) continue
+      for (const [room, changes] of rooms) {
+        const peers: PresencePeer[] = []
+        const left: string[] = []
+        for (const [peerID, peer] of changes) {
+          if (peer) peers.push(peer)
+          else left.push(peerID)
+        }
+        connection.send([
+          'presence',
+          { room, sync: false, self: connectionID, peers, left },
+        ])
+      }
+    }
+  }
+
   // ---- producers ----------------------------------------------------------
 
   // Open a generation. A newer generation always supersedes an older one for
@@ -479,6 +709,7 @@ export class RealtimeHub {
   // it lets its runtime go idle.
   flush(): void {
     this.#flushScheduled = false
+    if (this.#presenceOutbox.size > 0) this.#flushPresence()
     if (this.#outbox.size === 0) return
     const outbox = [...this.#outbox]
     this.#outbox.clear()
@@ -516,6 +747,14 @@ export class RealtimeHub {
     return this.#subscribers.size
   }
 
+  get activeRooms(): number {
+    return this.#rooms.size
+  }
+
+  peersIn(room: string): readonly PresencePeer[] {
+    return [...(this.#rooms.get(room) ?? [])].map(([id, peer]) => toPeer(id, peer))
+  }
+
   generationFor(
     topicID: string
   ): { readonly streamID: string; readonly seq: number } | undefined {
@@ -524,6 +763,13 @@ export class RealtimeHub {
   }
 }
 
+function toPeer(
+  id: string,
+  peer: { readonly connection: HubConnection; readonly state: unknown }
+): PresencePeer {
+  return { id, userID: peer.connection.identity.userID, state: peer.state }
+}
+
 function describe(topic: RealtimeTopic): string {
   return `${topic.table}.${topic.field}`
 }
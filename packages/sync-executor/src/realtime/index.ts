@@ -23,8 +23,11 @@ export {
   canonicalTopic,
   decodeFrame,
   encodeFrame,
+  isClientFrame,
   isLegacyWake,
+  isPresenceTopic,
   LEGACY_WAKE_FRAME,
+  presenceTopic,
   TOPIC_SEPARATOR,
 } from './protocol.js'
 export type {
@@ -32,6 +35,8 @@ export type {
   ClientFrame,
   FieldUpdate,
   HostFrame,
+  PresencePeer,
+  PresenceTopic,
   ProducerFrame,
   ProducerHostFrame,
   RealtimeKeyValue,
@@ -40,6 +45,9 @@ export type {
 
 export { canonicalEncode, RealtimeStore } from './store.js'
 export type {
+  PresenceBroadcast,
+  PresenceState,
+  PresenceStatus,
   RealtimeStoreOptions,
   StreamingFieldState,
   StreamingPhase,
@@ -70,7 +78,11 @@ export { createLocalRealtime } from './local.js'
 export type { LocalRealtime, LocalRealtimeOptions } from './local.js'
 
 export { BrowserRealtime, connectRealtimePort } from './message-port.js'
-export type { BrowserRealtimeOptions, MembershipReader } from './message-port.js'
+export type {
+  BrowserRealtimeOptions,
+  MembershipReader,
+  PresenceAuthorizer,
+} from './message-port.js'
 
 // Frame routing. One applier per direction; every surface is built from these.
 export { applyClientFrame, applyHostFrame, applyProducerFrame } from './host.js'
@@ -89,4 +101,5 @@ export { createSocketProducer } from './producer-socket.js'
 export type { ProducerSocket, SocketProducer } from './producer-socket.js'
 
 // The React binding lives in on-zero, which already owns the React peer
-// dependency. orez-lite stays framework-free: see on-zero's useStreamingField.
+// dependency. orez-lite stays framework-free: see on-zero's useStreamingField
+// and usePresence.
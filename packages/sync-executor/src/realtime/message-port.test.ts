@@ -131,6 +131,22 @@ describe('realtime over a MessagePort', () => {
     expect(errors[0]).toContain('client group does not belong to this user')
   })
 
+  it('refuses presence rooms unless the worker authorizes them', async () => {
+    const errors: string[] = []
+    const channel = new MessageChannel()
+    channels.push(channel)
+    realtime.connect(channel.port2, identity)
+    channel.port2.start()
+    const client = connectRealtimePort(channel.port1, { onError: (m) => errors.push(m) })
+
+    client.store.joinRoom('doc-1', () => {})
+    await settle()
+
+    expect(errors).toEqual([
+      'presence refused for room doc-1: worker serves no presence rooms',
+    ])
+  })
+
   it('answers pending for a row whose membership the server has not recorded', async () => {
     members.delete('message:m1')
     const client = connect()
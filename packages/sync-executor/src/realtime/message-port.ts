@@ -13,7 +13,7 @@
 import { applyClientFrame, applyHostFrame } from './host.js'
 import { RealtimeHub } from './hub.js'
 import { createProducer, inProcessTransport } from './producer.js'
-import { decodeFrame, encodeFrame } from './protocol.js'
+import { decodeFrame, encodeFrame, isClientFrame, isPresenceTopic } from './protocol.js'
 import { RealtimeStore } from './store.js'
 
 import type {
@@ -24,7 +24,7 @@ import type {
 } from './hub.js'
 import type { StreamingManifest } from './manifest.js'
 import type { RealtimeProducer } from './producer.js'
-import type { HostFrame, RealtimeTopic } from './protocol.js'
+import type { HostFrame, PresenceTopic, RealtimeTopic } from './protocol.js'
 import type { RealtimePublisher } from './publisher.js'
 import type { FieldWriter } from './writer.js'
 
@@ -36,9 +36,18 @@ export type MembershipReader = (
   key: Readonly<Record<string, boolean | null | number | string>>
 ) => Promise<{ readonly ownsGroup: boolean; readonly authorized: boolean }>
 
+// Decides who may join a presence room. Absent refuses every join, as the
+// socket hosts do, so a page that works here doesn't start failing once it is
+// served by a deployed host.
+export type PresenceAuthorizer = (
+  identity: RealtimeIdentity,
+  topic: PresenceTopic
+) => Promise<SubscribeAuthorization> | SubscribeAuthorization
+
 export type BrowserRealtimeOptions = {
   readonly manifest: StreamingManifest
   readonly readMembership: MembershipReader
+  readonly authorizePresence?: PresenceAuthorizer
   readonly onError?: (message: string) => void
 }
 
@@ -52,6 +61,11 @@ export class BrowserRealtime {
     this.#hub = new RealtimeHub({
       manifest: options.manifest,
       authorizeSubscribe: async (identity, topic): Promise<SubscribeAuthorization> => {
+        if (isPresenceTopic(topic)) {
+          return options.authorizePresence
+            ? options.authorizePresence(identity, topic)
+            : { status: 'denied', reason: 'worker serves no presence rooms' }
+        }
         const { ownsGroup, authorized } = await options.readMembership(
           identity,
           topic.table,
@@ -120,9 +134,9 @@ export class BrowserRealtime {
       if (typeof raw !== 'string') return
       const frame = decodeFrame(raw)
       if (!frame) return
-      // A subscriber channel is never a publish channel. Only subscribe and
-      // unsubscribe are accepted here, whatever else a port sends.
-      if (frame[0] !== 'subscribe' && frame[0] !== 'unsubscribe') return
+      // A subscriber channel is never a publish channel. Only subscriber frames
+      // are accepted here, whatever else a port sends.
+      if (!isClientFrame(frame)) return
       void applyClientFrame(this.#hub, connection, frame)
     }
 
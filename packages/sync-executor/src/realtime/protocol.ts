@@ -64,11 +64,60 @@ export function canonicalTopic(
   return `${topic.table}${TOPIC_SEPARATOR}${topic.field}${TOPIC_SEPARATOR}${key}`
 }
 
+// ---- presence -------------------------------------------------------------
+//
+// A presence topic is a room rather than a row's column. It has no producer
+// and no generation: every connection in the room is a writer, each owns one
+// state slot (a cursor, a "typing" flag, whatever the app puts there), and the
+// slot disappears with the connection. Broadcasts ride the same room for
+// events that are not state at all. Neither is ever persisted, so like field
+// values they cost latency when lost and never correctness.
+
+export type PresenceTopic = {
+  readonly room: string
+}
+
+export type PresencePeer = {
+  // the connection, not the user: one user in two tabs is two peers
+  readonly id: string
+  readonly userID: string
+  readonly state: unknown
+}
+
+export function isPresenceTopic(
+  topic: RealtimeTopic | PresenceTopic
+): topic is PresenceTopic {
+  return 'room' in topic
+}
+
+// A room's wire identity. The leading separator keeps it disjoint from every
+// field topic, which always starts with a non-empty table name.
+export function presenceTopic(room: string): string {
+  return `${TOPIC_SEPARATOR}presence${TOPIC_SEPARATOR}${room}`
+}
+
 // ---- client -> host -------------------------------------------------------
 
 export type SubscribeFrame = readonly ['subscribe', { readonly topic: RealtimeTopic }]
 export type UnsubscribeFrame = readonly ['unsubscribe', { readonly topic: RealtimeTopic }]
-export type ClientFrame = SubscribeFrame | UnsubscribeFrame
+export type JoinFrame = readonly ['join', { readonly room: string }]
+export type LeaveFrame = readonly ['leave', { readonly room: string }]
+// replaces this connection's whole slot; null clears it without leaving
+export type SetPresenceFrame = readonly [
+  'presence-set',
+  { readonly room: string; readonly state: unknown },
+]
+export type BroadcastFrame = readonly [
+  'broadcast',
+  { readonly room: string; readonly event: string; readonly payload: unknown },
+]
+export type ClientFrame =
+  | SubscribeFrame
+  | UnsubscribeFrame
+  | JoinFrame
+  | LeaveFrame
+  | SetPresenceFrame
+  | BroadcastFrame
 
 // ---- producer -> host -----------------------------------------------------
 //
@@ -181,7 +230,46 @@ export type FieldUpdate =
 export type FieldFrame = readonly ['field', { readonly updates: readonly FieldUpdate[] }]
 export type WakeFrame = readonly ['wake', Record<string, never>]
 
-export type HostFrame = FieldFrame | SubscribeErrorFrame | SubscribedFrame | WakeFrame
+// `sync` carries the whole room and replaces whatever the client held: it is
+// the answer to a join, so a rejoin after reconnect cannot leave ghosts behind.
+// Otherwise `peers` are changed slots and `left` are connections gone since the
+// last frame, coalesced over the batching window so a cursor moving at frame
+// rate costs one frame per window, not one per move.
+export type PresenceFrame = readonly [
+  'presence',
+  {
+    readonly room: string
+    readonly sync: boolean
+    readonly self: string
+    readonly peers: readonly PresencePeer[]
+    readonly left: readonly string[]
+  },
+]
+
+export type PresenceErrorFrame = readonly [
+  'presence-error',
+  { readonly room: string; readonly reason: string },
+]
+
+// never echoed to the sender, which already knows what it said
+export type BroadcastEventFrame = readonly [
+  'broadcast-event',
+  {
+    readonly room: string
+    readonly from: { readonly id: string; readonly userID: string }
+    readonly event: string
+    readonly payload: unknown
+  },
+]
+
+export type HostFrame =
+  | FieldFrame
+  | SubscribeErrorFrame
+  | SubscribedFrame
+  | WakeFrame
+  | PresenceFrame
+  | PresenceErrorFrame
+  | BroadcastEventFrame
 
 // The legacy notification-only channel sent the bare text "wake". It stays
 // accepted so an old client against a new host, or a new client against the
@@ -194,6 +282,22 @@ export function isLegacyWake(raw: string): boolean {
 
 export type AnyFrame = ClientFrame | HostFrame | ProducerFrame | ProducerHostFrame
 
+const CLIENT_FRAME_KINDS: ReadonlySet<string> = new Set<ClientFrame[0]>([
+  'subscribe',
+  'unsubscribe',
+  'join',
+  'leave',
+  'presence-set',
+  'broadcast',
+])
+
+// What a subscriber channel accepts. Every surface filters with this rather
+// than its own list, so a new subscriber frame cannot be live on one transport
+// and silently dropped by another.
+export function isClientFrame(frame: AnyFrame): frame is ClientFrame {
+  return CLIENT_FRAME_KINDS.has(frame[0])
+}
+
 export function encodeFrame(frame: AnyFrame): string {
   return JSON.stringify(frame)
 }
@@ -218,6 +322,71 @@ export function decodeFrame(raw: string): AnyFrame | undefined {
       const topic = (body as { topic?: unknown }).topic
       return isTopic(topic) ? ([kind, { topic }] as ClientFrame) : undefined
     }
+    case 'join':
+    case 'leave': {
+      const room = (body as { room?: unknown }).room
+      return isRoom(room) ? ([kind, { room }] as ClientFrame) : undefined
+    }
+    case 'presence-set': {
+      const { room, state } = body as { room?: unknown; state?: unknown }
+      return isRoom(room) ? ['presence-set', { room, state: state ?? null }] : undefined
+    }
+    case 'broadcast': {
+      const { room, event, payload } = body as {
+        room?: unknown
+        event?: unknown
+        payload?: unknown
+      }
+      if (!isRoom(room) || typeof event !== 'string' || !event) return undefined
+      return ['broadcast', { room, event, payload: payload ?? null }]
+    }
+    case 'presence': {
+      const { room, sync, self, peers, left } = body as Record<string, unknown>
+      if (!isRoom(room) || typeof sync !== 'boolean' || typeof self !== 'string') {
+        return undefined
+      }
+      if (!Array.isArray(peers) || !peers.every(isPeer)) return undefined
+      const decoded = peers as PresencePeer[]
+      if (!Array.isArray(left) || !left.every((id) => typeof id === 'string')) {
+        return undefined
+      }
+      return [
+        'presence',
+        {
+          room,
+          sync,
+          self,
+          peers: decoded.map(({ id, userID, state }) => ({
+            id,
+            userID,
+            state: state ?? null,
+          })),
+          left,
+        },
+      ]
+    }
+    case 'presence-error': {
+      const { room, reason } = body as { room?: unknown; reason?: unknown }
+      if (!isRoom(room) || typeof reason !== 'string') return undefined
+      return ['presence-error', { room, reason }]
+    }
+    case 'broadcast-event': {
+      const { room, from, event, payload } = body as Record<string, unknown>
+      if (!isRoom(room) || typeof event !== 'string') return undefined
+      const sender = from as { id?: unknown; userID?: unknown } | null | undefined
+      if (typeof sender?.id !== 'string' || typeof sender.userID !== 'string') {
+        return undefined
+      }
+      return [
+        'broadcast-event',
+        {
+          room,
+          from: { id: sender.id, userID: sender.userID },
+          event,
+          payload: payload ?? null,
+        },
+      ]
+    }
     case 'subscribed': {
       const { topic, status } = body as { topic?: unknown; status?: unknown }
       if (typeof topic !== 'string') return undefined
@@ -302,6 +471,16 @@ function decodeUpdate(update: unknown): FieldUpdate | undefined {
   }
 }
 
+function isRoom(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0
+}
+
+function isPeer(value: unknown): value is PresencePeer {
+  if (!value || typeof value !== 'object') return false
+  const { id, userID } = value as Record<string, unknown>
+  return typeof id === 'string' && typeof userID === 'string'
+}
+
 function isTopic(value: unknown): value is RealtimeTopic {
   if (!value || typeof value !== 'object') return false
   const { table, key, field } = value as Record<string, unknown>
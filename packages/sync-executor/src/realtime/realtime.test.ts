@@ -242,6 +242,33 @@ describe('frame codec', () => {
     expect(decodeFrame(encodeFrame(frame as never))).toEqual(frame)
   })
 
+  it('round-trips presence frames', () => {
+    const frames = [
+      ['join', { room: 'doc-1' }],
+      ['presence-set', { room: 'doc-1', state: { cursor: 4 } }],
+      ['broadcast', { room: 'doc-1', event: 'typing', payload: null }],
+      [
+        'presence',
+        {
+          room: 'doc-1',
+          sync: false,
+          self: 'c1',
+          peers: [{ id: 'c2', userID: 'u2', state: { cursor: 1 } }],
+          left: ['c3'],
+        },
+      ],
+      [
+        'broadcast-event',
+        { room: 'doc-1', from: { id: 'c2', userID: 'u2' }, event: 'typing', payload: 1 },
+      ],
+    ]
+    for (const frame of frames) {
+      expect(decodeFrame(encodeFrame(frame as never))).toEqual(frame)
+    }
+    expect(decodeFrame('["join",{"room":""}]')).toBeUndefined()
+    expect(decodeFrame('["broadcast",{"room":"r","payload":1}]')).toBeUndefined()
+  })
+
   it('accepts the legacy bare wake frame', () => {
     expect(decodeFrame('wake')).toEqual(['wake', {}])
   })
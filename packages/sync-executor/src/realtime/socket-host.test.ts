@@ -9,12 +9,16 @@
 import { createSchema, string, table } from '@rocicorp/zero'
 import { describe, expect, it } from 'vitest'
 
+import { applyHostFrame } from './host.js'
 import { defineStreamingFields } from './manifest.js'
-import { canonicalTopic, encodeFrame } from './protocol.js'
+import { canonicalTopic, decodeFrame, encodeFrame, isPresenceTopic } from './protocol.js'
 import { createSocketHost } from './socket-host.js'
+import { RealtimeStore } from './store.js'
 
-import type { SubscribeAuthorization } from './hub.js'
-import type { FieldUpdate, RealtimeTopic } from './protocol.js'
+import type { RealtimeIdentity, SubscribeAuthorization } from './hub.js'
+import type { FieldUpdate, HostFrame, RealtimeTopic } from './protocol.js'
+import type { HostConnection } from './socket-host.js'
+import type { PresenceBroadcast } from './store.js'
 
 const message = table('message')
   .columns({ id: string(), content: string() })
@@ -46,7 +50,12 @@ function socket() {
   }
 }
 
-const build = (authorize: () => SubscribeAuthorization = () => ({ status: 'active' })) =>
+const build = (
+  authorize: (
+    identity: RealtimeIdentity,
+    topic: Parameters<typeof isPresenceTopic>[0]
+  ) => SubscribeAuthorization = () => ({ status: 'active' })
+) =>
   createSocketHost({
     manifest: streaming.manifest,
     authorizeSubscribe: authorize,
@@ -256,3 +265,174 @@ describe('socket host', () => {
     expect(host.hub.activeTopics).toBe(0)
   })
 })
+
+describe('presence rooms', () => {
+  // a page: a store whose frames reach the host through a subscriber socket.
+  // Delivery to the page is a macrotask, as it is over a real socket, so a
+  // test can re-point the page at a rehydrated connection before it reacts.
+  function page(host: ReturnType<typeof build>, userID: string, connectionID: string) {
+    const errors: string[] = []
+    const target: { connection?: HostConnection } = {}
+    const store = new RealtimeStore({
+      send: (frame) => target.connection?.handleMessage(encodeFrame(frame as never)),
+      onError: (message) => errors.push(message),
+    })
+    const pageSocket = {
+      send: (raw: string) => {
+        setTimeout(() => applyHostFrame(store, decodeFrame(raw) as HostFrame), 0)
+      },
+    }
+    const identity = {
+      userID,
+      clientID: connectionID,
+      clientGroupID: `g-${connectionID}`,
+    }
+    target.connection = host.acceptSubscriber(pageSocket, identity, connectionID)
+    return { store, target, socket: pageSocket, identity, errors }
+  }
+
+  // joins wait on authorization, and every frame back to a page is a task
+  const settle = async () => {
+    for (let turn = 0; turn < 8; turn++) {
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+  }
+
+  it('shows each page the others, their state, and who left', async () => {
+    const host = build()
+    const alice = page(host, 'alice', 'conn-a')
+    const bob = page(host, 'bob', 'conn-b')
+
+    const releaseAlice = alice.store.joinRoom('doc-1', () => {})
+    alice.store.setPresence('doc-1', { cursor: 3 })
+    bob.store.joinRoom('doc-1', () => {})
+    await settle()
+
+    expect(bob.store.readPresence('doc-1')).toMatchObject({
+      status: 'joined',
+      self: 'conn-b',
+      others: [{ id: 'conn-a', userID: 'alice', state: { cursor: 3 } }],
+    })
+    expect(alice.store.readPresence('doc-1').others).toEqual([
+      { id: 'conn-b', userID: 'bob', state: null },
+    ])
+
+    bob.store.setPresence('doc-1', { typing: true })
+    await settle()
+    expect(alice.store.readPresence('doc-1').others[0].state).toEqual({ typing: true })
+
+    releaseAlice()
+    await settle()
+    expect(bob.store.readPresence('doc-1').others).toEqual([])
+    expect(host.hub.peersIn('doc-1').map((peer) => peer.id)).toEqual(['conn-b'])
+  })
+
+  it('removes a peer when its socket closes', async () => {
+    const host = build()
+    const alice = page(host, 'alice', 'conn-a')
+    const bob = page(host, 'bob', 'conn-b')
+    alice.store.joinRoom('doc-1', () => {})
+    bob.store.joinRoom('doc-1', () => {})
+    await settle()
+
+    bob.target.connection!.close()
+    expect(host.hub.peersIn('doc-1').map((peer) => peer.id)).toEqual(['conn-a'])
+    await settle()
+    expect(alice.store.readPresence('doc-1').others).toEqual([])
+
+    alice.target.connection!.close()
+    expect(host.hub.activeRooms).toBe(0)
+  })
+
+  it('delivers a broadcast to everyone but the sender', async () => {
+    const host = build()
+    const alice = page(host, 'alice', 'conn-a')
+    const bob = page(host, 'bob', 'conn-b')
+    const heard: Record<string, PresenceBroadcast[]> = { alice: [], bob: [] }
+    alice.store.joinRoom(
+      'doc-1',
+      () => {},
+      (event) => heard.alice.push(event)
+    )
+    bob.store.joinRoom(
+      'doc-1',
+      () => {},
+      (event) => heard.bob.push(event)
+    )
+    await settle()
+
+    alice.store.broadcast('doc-1', 'reaction', { emoji: 'wave' })
+    await settle()
+
+    expect(heard.alice).toEqual([])
+    expect(heard.bob).toEqual([
+      {
+        from: { id: 'conn-a', userID: 'alice' },
+        event: 'reaction',
+        payload: { emoji: 'wave' },
+      },
+    ])
+  })
+
+  it('refuses a join the host does not authorize', async () => {
+    const host = build((_, topic) =>
+      isPresenceTopic(topic) && topic.room === 'private'
+        ? { status: 'denied', reason: 'not invited' }
+        : { status: 'active' }
+    )
+    const alice = page(host, 'alice', 'conn-a')
+    alice.store.joinRoom('private', () => {})
+    await settle()
+
+    expect(alice.store.readPresence('private').status).toBe('error')
+    expect(alice.errors).toEqual(['presence refused for room private: not invited'])
+    expect(host.hub.activeRooms).toBe(0)
+    alice.store.broadcast('private', 'poke', null)
+    await settle()
+    expect(host.hub.peersIn('private')).toEqual([])
+  })
+
+  it('refuses presence state over the byte limit', async () => {
+    const host = build()
+    const alice = page(host, 'alice', 'conn-a')
+    alice.store.joinRoom('doc-1', () => {})
+    await settle()
+
+    alice.store.setPresence('doc-1', 'x'.repeat(10_000))
+    await settle()
+    expect(alice.errors).toEqual([
+      'presence refused for room doc-1: presence state exceeds maxPresenceBytes',
+    ])
+    expect(host.hub.peersIn('doc-1')[0].state).toBeNull()
+  })
+
+  // a cold start keeps the membership, and the page refills its own slot from
+  // the sync its rejoin is answered with
+  it('rejoins rooms for a socket that outlived the hub', async () => {
+    const first = build()
+    const alice = page(first, 'alice', 'conn-a')
+    alice.store.joinRoom('doc-1', () => {})
+    alice.store.setPresence('doc-1', { cursor: 7 })
+    await settle()
+    const persisted = alice.target.connection!.topics()
+    expect(persisted).toEqual([{ room: 'doc-1' }])
+
+    // the object is evicted: a brand new host, nothing carried over in memory
+    const revived = build()
+    const [restored] = await revived.rehydrate([
+      {
+        socket: alice.socket,
+        identity: alice.identity,
+        connectionID: 'conn-a',
+        topics: persisted,
+      },
+    ])
+    alice.target.connection = restored
+    expect(revived.hub.peersIn('doc-1')[0].state).toBeNull()
+    await settle()
+
+    expect(revived.hub.peersIn('doc-1')).toEqual([
+      { id: 'conn-a', userID: 'alice', state: { cursor: 7 } },
+    ])
+  })
+})
@@ -13,10 +13,10 @@
 
 import { applyClientFrame, applyProducerFrame } from './host.js'
 import { RealtimeHub } from './hub.js'
-import { decodeFrame, encodeFrame } from './protocol.js'
+import { decodeFrame, encodeFrame, isClientFrame, isPresenceTopic } from './protocol.js'
 
 import type { HubConnection, HubProducer, HubOptions, RealtimeIdentity } from './hub.js'
-import type { RealtimeTopic } from './protocol.js'
+import type { PresenceTopic, RealtimeTopic } from './protocol.js'
 
 export type HostSocket = {
   send(data: string): void
@@ -27,10 +27,14 @@ export type HostSocket = {
 // back to `rehydrate`. The two are the same type on purpose: a runtime that
 // stores one and replays the other is the shape of a bug nobody notices until a
 // hibernation, which is the hardest case to reproduce.
+//
+// Joined presence rooms are listed alongside field topics. Only the membership
+// is kept: a peer's state is ephemeral, and the client re-sends its own when it
+// sees the room re-synced.
 export type HostConnection = {
   handleMessage(raw: string): void
   close(): void
-  topics(): readonly RealtimeTopic[]
+  topics(): readonly (RealtimeTopic | PresenceTopic)[]
 }
 
 export type RealtimeSocketHost = {
@@ -69,7 +73,7 @@ export type RealtimeSocketHost = {
       socket: HostSocket
       identity: RealtimeIdentity
       connectionID: string
-      topics: readonly RealtimeTopic[]
+      topics: readonly (RealtimeTopic | PresenceTopic)[]
     }[]
   ): Promise<readonly HostConnection[]>
   flush(): void
@@ -87,12 +91,12 @@ export function createSocketHost(options: HubOptions): RealtimeSocketHost {
     connectionID: string
   ): {
     connection: HubConnection
-    owned: Map<string, RealtimeTopic>
+    owned: Map<string, RealtimeTopic | PresenceTopic>
     host: HostConnection
   } => {
     // keyed for dedup, valued with the structured topic so `topics()` can hand
     // back something `rehydrate` accepts without a second parser
-    const owned = new Map<string, RealtimeTopic>()
+    const owned = new Map<string, RealtimeTopic | PresenceTopic>()
     const connection: HubConnection = {
       id: connectionID,
       identity,
@@ -107,9 +111,12 @@ export function createSocketHost(options: HubOptions): RealtimeSocketHost {
         // A subscriber channel is never a publish channel, whatever arrives on
         // it. Producer frames are not merely ignored by the hub here; they are
         // refused before reaching it.
-        if (frame[0] !== 'subscribe' && frame[0] !== 'unsubscribe') return
+        if (!isClientFrame(frame)) return
         if (frame[0] === 'subscribe') owned.set(topicKey(frame[1].topic), frame[1].topic)
-        else owned.delete(topicKey(frame[1].topic))
+        else if (frame[0] === 'unsubscribe') owned.delete(topicKey(frame[1].topic))
+        else if (frame[0] === 'join')
+          owned.set(topicKey({ room: frame[1].room }), { room: frame[1].room })
+        else if (frame[0] === 'leave') owned.delete(topicKey({ room: frame[1].room }))
         void applyClientFrame(hub, connection, frame)
       },
       close(): void {
@@ -161,7 +168,8 @@ export function createSocketHost(options: HubOptions): RealtimeSocketHost {
           // so a membership that comes back is picked up at the next eviction
           // instead of being forgotten here.
           owned.set(topicKey(topic), topic)
-          await hub.subscribe(connection, topic)
+          if (isPresenceTopic(topic)) await hub.join(connection, topic.room)
+          else await hub.subscribe(connection, topic)
         }
         restored.push(host)
       }
@@ -175,6 +183,6 @@ export function createSocketHost(options: HubOptions): RealtimeSocketHost {
 // Dedup key only. Never persisted and never parsed back: `topics()` hands out
 // the structured topic, so there is no second encoding to keep in agreement
 // with canonicalTopic.
-function topicKey(topic: RealtimeTopic): string {
+function topicKey(topic: RealtimeTopic | PresenceTopic): string {
   return JSON.stringify(topic)
 }
@@ -1,10 +1,12 @@
 import { createBuilder } from '@rocicorp/zero'
 import { asQueryInternals } from '@rocicorp/zero/bindings'
 
-import { executeCrud } from './crud.js'
+import { executeBulkCrud, executeCrud } from './crud.js'
 
+import type { CrudKind } from './crud.js'
 import type {
   ApplicationTransaction,
+  CrudOptions,
   JsonValue,
   ServerTransaction,
   TransactionQueryFormat,
@@ -17,21 +19,28 @@ export function createServerTransaction<S extends Schema>(
   clientID = '',
   mutationID = 0
 ): ServerTransaction<S> {
-  const mutate: Record<string, Record<string, (value: unknown) => Promise<void>>> = {}
+  const mutate: Record<
+    string,
+    Record<string, (value: unknown, options?: CrudOptions) => Promise<void>>
+  > = {}
   for (const tableName of Object.keys(schema.tables)) {
+    const single = (kind: CrudKind) => (value: unknown, options?: CrudOptions) =>
+      executeCrud(applicationTx, schema, tableName, kind, value, options)
+    const bulk = (kind: CrudKind) => (values: unknown, options?: CrudOptions) =>
+      executeBulkCrud(applicationTx, schema, tableName, kind, values, options)
     Object.defineProperty(mutate, tableName, {
       configurable: true,
       enumerable: true,
       writable: true,
       value: {
-        insert: (value: unknown) =>
-          executeCrud(applicationTx, schema, tableName, 'insert', value),
-        upsert: (value: unknown) =>
-          executeCrud(applicationTx, schema, tableName, 'upsert', value),
-        update: (value: unknown) =>
-          executeCrud(applicationTx, schema, tableName, 'update', value),
-        delete: (value: unknown) =>
-          executeCrud(applicationTx, schema, tableName, 'delete', value),
+        insert: single('insert'),
+        upsert: single('upsert'),
+        update: single('update'),
+        delete: single('delete'),
+        insertMany: bulk('insert'),
+        upsertMany: bulk('upsert'),
+        updateMany: bulk('update'),
+        deleteMany: bulk('delete'),
       },
     })
   }
@@ -1,8 +1,14 @@
+import type { PushDiagnosticsSink } from './diagnostics.js'
 import type {
+  DeleteID,
   HumanReadable,
+  InsertValue,
   Query,
   Schema,
   ServerTransaction as ZeroServerTransaction,
+  TableSchema,
+  UpdateValue,
+  UpsertValue,
 } from '@rocicorp/zero'
 
 export type JsonPrimitive = string | number | boolean | null
@@ -111,14 +117,54 @@ export type DeferredEffectOptions = {
   readonly barrier?: boolean
 }
 
+/**
+ * an effect recorded in the outbox instead of held in memory. `name` picks a
+ * handler from the executor's `outbox.handlers`, since a closure cannot be
+ * stored; the row commits with the mutation and survives a host restart.
+ */
+export type DurableEffect = {
+  readonly name: string
+  readonly payload?: JsonValue
+}
+
+export type OutboxHandler = (
+  payload: JsonValue,
+  delivery: { readonly id: number; readonly attempt: number }
+) => void | Promise<void>
+
+export type OutboxOptions = {
+  readonly handlers: Readonly<Record<string, OutboxHandler>>
+  /** Attempts before a row moves to the dead-letter table. Defaults to 8. */
+  readonly maxAttempts?: number
+  /** First retry delay, doubled per attempt. Defaults to 1,000ms. */
+  readonly initialBackoffMs?: number
+  /** Retry delay cap. Defaults to five minutes. */
+  readonly maxBackoffMs?: number
+  readonly now?: () => number
+}
+
+export type OutboxDrainResult = {
+  readonly delivered: number
+  readonly failed: number
+  readonly deadLettered: number
+  /** earliest retry still pending, or null when the outbox is empty */
+  readonly nextAttemptAt: number | null
+}
+
 export type EffectScheduler = {
   runBackground(promise: Promise<void>): void | Promise<void>
   report(error: unknown): void
+  /**
+   * ask the host to call `drainOutbox()` at `timestamp`. hosts without their
+   * own timer (an alarm, a work queue) can omit it and the executor falls back
+   * to setTimeout, which does not survive a restart.
+   */
+  scheduleOutboxDrain?(timestamp: number): void
 }
 
 export type MutationContext = {
   readonly claims: NormalizedClaims
-  defer(effect: DeferredEffect, options?: DeferredEffectOptions): void
+  defer(effect: DeferredEffect | DurableEffect, options?: DeferredEffectOptions): void
 } & (
   | {
       readonly source: 'zero-push'
@@ -131,10 +177,38 @@ export type MutationContext = {
     }
 )
 
-export type ServerTransaction<S extends Schema> = ZeroServerTransaction<
-  S,
-  ApplicationTransaction
->
+export type CrudOptions<Column extends string = string> = {
+  /** upsert only: the columns of a unique index to match instead of the primary key */
+  readonly onConflict?: readonly Column[]
+}
+
+/**
+ * server-only additions to each `tx.mutate` table. The `*Many` helpers write
+ * one statement per chunk of rows and behave like the single-row helper called
+ * once per row, in order.
+ */
+export type BulkTableCRUD<T extends TableSchema> = {
+  upsert(
+    value: UpsertValue<T>,
+    options?: CrudOptions<keyof T['columns'] & string>
+  ): Promise<void>
+  insertMany(values: readonly InsertValue<T>[]): Promise<void>
+  upsertMany(
+    values: readonly UpsertValue<T>[],
+    options?: CrudOptions<keyof T['columns'] & string>
+  ): Promise<void>
+  updateMany(values: readonly UpdateValue<T>[]): Promise<void>
+  deleteMany(ids: readonly DeleteID<T>[]): Promise<void>
+}
+
+type ZeroTransaction<S extends Schema> = ZeroServerTransaction<S, ApplicationTransaction>
+
+export type ServerTransaction<S extends Schema> = Omit<ZeroTransaction<S>, 'mutate'> & {
+  readonly mutate: {
+    readonly [Table in keyof S['tables']]: ZeroTransaction<S>['mutate'][Table] &
+      BulkTableCRUD<S['tables'][Table]>
+  }
+}
 
 export type RegisteredMutator<
   S extends Schema = Schema,
@@ -154,6 +228,10 @@ export type CreateSyncExecutorOptions<S extends Schema> = {
   readonly schema: S
   readonly mutators: MutatorRegistry<S>
   readonly effects: EffectScheduler
+  /** enables durable effects: `ctx.defer({ name, payload })` */
+  readonly outbox?: OutboxOptions
+  /** per-push timing, rows written and outcome for every mutation */
+  readonly diagnostics?: PushDiagnosticsSink
 }
 
 export type PushResult = {
@@ -200,6 +278,12 @@ export interface SyncExecutor<S extends Schema> {
     claims: NormalizedClaims,
     work: (tx: ServerTransaction<S>) => Result | Promise<Result>
   ): Promise<Result>
+
+  /**
+   * deliver every due outbox row. hosts call this on start so rows committed
+   * before a restart still go out, and whenever `scheduleOutboxDrain` fires.
+   */
+  drainOutbox(): Promise<OutboxDrainResult>
 }
 
 export type TransactionQuery = Query<string, Schema, unknown>
@@ -132,6 +132,8 @@ export async function beginWriteSetCapture(
 ): Promise<{
   readonly transaction: ApplicationTransaction
   commit(identity?: PackedLedgerIdentity): Promise<void>
+  // rows the application's statements changed so far, for diagnostics
+  rowsWritten(): number
 }> {
   const captureStart = await preparePackedLedger(applicationTx)
 
@@ -140,6 +142,7 @@ export async function beginWriteSetCapture(
   let fatalFailure: unknown
   let exactMode = false
   let rawWrite = false
+  let rowsWritten = 0
   const exactKeys = new Map<string, CapturedPrimaryKey>()
 
   const assertActive = () => {
@@ -171,6 +174,7 @@ export async function beginWriteSetCapture(
           await setMode(false)
           const result = await applicationTx.exec(sql, params, metadata)
           rawWrite ||= result.changes > 0
+          rowsWritten += result.changes
           return result
         }
         try {
@@ -196,21 +200,19 @@ export async function beginWriteSetCapture(
           const actualResultKeys = returned.map((row) =>
             canonicalPrimaryKey(schema, metadata.publicTable, row, 'database result')
           )
-          const expected =
-            returned.length === 0
-              ? []
-              : [
-                  ...new Set(expectedResultKeys(schema, metadata).map(encodedPrimaryKey)),
-                ].sort()
+          // a declared row may return nothing: an insert that hit its conflict
+          // or an update of a missing row. a returned row nobody declared is
+          // the metadata lying about what the statement touches.
+          const expected = new Set(
+            expectedResultKeys(schema, metadata).map(encodedPrimaryKey)
+          )
           const actual = [...new Set(actualResultKeys.map(encodedPrimaryKey))].sort()
-          if (
-            expected.length !== actual.length ||
-            expected.some((key, index) => key !== actual[index])
-          ) {
+          if (actual.some((key) => !expected.has(key))) {
             throw new MutationWriteSetError(
-              `executor write set ${JSON.stringify(expected)} does not match returned write set ${JSON.stringify(actual)}`
+              `executor write set ${JSON.stringify([...expected].sort())} does not match returned write set ${JSON.stringify(actual)}`
             )
           }
+          rowsWritten += returned.length
           if (returned.length > 0) {
             for (const key of actualResultKeys) {
               exactKeys.set(encodedPrimaryKey(key), key)
@@ -237,7 +239,10 @@ export async function beginWriteSetCapture(
       return serialize(async () => {
         await setMode(false)
         const rows = await applicationTx.query<Row>(sql, params)
-        rawWrite ||= /\b(?:INSERT|UPDATE|DELETE|REPLACE)\b/i.test(sql)
+        const write = /\b(?:INSERT|UPDATE|DELETE|REPLACE)\b/i.test(sql)
+        rawWrite ||= write
+        // only the rows a RETURNING clause hands back are visible here
+        if (write) rowsWritten += rows.length
         return rows
       })
     },
@@ -251,6 +256,7 @@ export async function beginWriteSetCapture(
 
   return {
     transaction,
+    rowsWritten: () => rowsWritten,
     async commit(identity?: PackedLedgerIdentity): Promise<void> {
       assertActive()
       try {
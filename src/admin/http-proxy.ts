@@ -1,7 +1,11 @@
 import { createServer, connect, type Socket, type Server } from 'node:net'
 
+import { stripWsExtensions } from './traffic-recorder.js'
+
 import type { ZeroLiteConfig } from '../config.js'
+import type { FaultInjector } from '../faults.js'
 import type { LogStore } from './log-store.js'
+import type { TrafficRecorder } from './traffic-recorder.js'
 
 export interface HttpLogEntry {
   id: number
@@ -148,6 +152,12 @@ function handleOrezRoute(
 //
 // intercepts /__orez/* paths to serve read-only API (logs, status)
 // directly without forwarding to zero-cache.
+//
+// while `recorder` is recording, each new connection is tapped so its HTTP
+// bodies and websocket frames land in the capture file.
+//
+// `faults` sees every forwarded client chunk, so an armed zero-cache kill
+// fires while a request or websocket message is in flight.
 export function startHttpProxy(opts: {
   listenPort: number
   targetPort: number
@@ -155,8 +165,19 @@ export function startHttpProxy(opts: {
   logStore?: LogStore
   config?: ZeroLiteConfig
   startTime?: number
+  recorder?: TrafficRecorder
+  faults?: FaultInjector
 }): Promise<Server> {
-  const { listenPort, targetPort, httpLog, logStore, config, startTime } = opts
+  const {
+    listenPort,
+    targetPort,
+    httpLog,
+    logStore,
+    config,
+    startTime,
+    recorder,
+    faults,
+  } = opts
 
   const server = createServer((client: Socket) => {
     const start = Date.now()
@@ -204,6 +225,16 @@ export function startHttpProxy(opts: {
       // forward to zero-cache
       const target = connect(targetPort, '127.0.0.1')
 
+      const tap = recorder?.tap()
+      if (tap) {
+        // an uncompressed websocket keeps the recorded frames readable
+        chunk = stripWsExtensions(chunk)
+        tap.client(chunk)
+        client.on('data', (c: Buffer) => tap.client(c))
+        target.on('data', (c: Buffer) => tap.server(c))
+        client.on('close', () => tap.close())
+      }
+
       target.setKeepAlive(true, 30_000)
       target.setTimeout(0)
       client.setKeepAlive(true, 30_000)
@@ -211,6 +242,10 @@ export function startHttpProxy(opts: {
 
       target.write(chunk)
       client.pipe(target)
+      if (faults) {
+        faults.requestForwarded()
+        client.on('data', () => faults.requestForwarded())
+      }
 
       // intercept first target chunk to extract response info and log
       target.once('data', (resChunk: Buffer) => {
@@ -0,0 +1,86 @@
+/**
+ * the admin dashboard for multi-project runs. every project serves its own
+ * dashboard on an internal port; the hub answers `/api/projects` itself and
+ * forwards everything else to the project picked by the `orez_project`
+ * cookie, which the dashboard's project switcher sets.
+ */
+import {
+  createServer,
+  request,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http'
+
+export const PROJECT_COOKIE = 'orez_project'
+
+export interface HubProject {
+  name: string
+  zeroPort: number
+  adminPort: number
+  running: boolean
+}
+
+function json(res: ServerResponse, data: unknown, status = 200) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(data))
+}
+
+function selectedProject(req: IncomingMessage): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, value] = part.trim().split('=')
+    if (key === PROJECT_COOKIE && value) return decodeURIComponent(value)
+  }
+  return undefined
+}
+
+export async function startProjectHub(
+  port: number,
+  projects: () => HubProject[]
+): Promise<Server> {
+  const server = createServer((req, res) => {
+    const list = projects()
+    const current = list.find((p) => p.name === selectedProject(req)) ?? list[0]
+
+    if (req.method === 'GET' && req.url === '/api/projects') {
+      json(res, {
+        current: current?.name ?? null,
+        projects: list.map(({ name, zeroPort, running }) => ({
+          name,
+          zeroPort,
+          running,
+        })),
+      })
+      return
+    }
+
+    if (!current?.running || !current.adminPort) {
+      json(res, { ok: false, message: `project "${current?.name}" is not running` }, 503)
+      return
+    }
+    const upstream = request(
+      {
+        host: '127.0.0.1',
+        port: current.adminPort,
+        method: req.method,
+        path: req.url,
+        headers: req.headers,
+      },
+      (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers)
+        upstreamRes.pipe(res)
+      }
+    )
+    upstream.on('error', (err) => {
+      if (res.headersSent) res.destroy()
+      else json(res, { ok: false, message: err.message }, 502)
+    })
+    req.pipe(upstream)
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, '127.0.0.1', () => resolve())
+  })
+  return server
+}
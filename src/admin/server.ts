@@ -1,4 +1,4 @@
-import { existsSync } from 'node:fs'
+import { createReadStream, existsSync } from 'node:fs'
 import {
   createServer,
   type Server,
@@ -8,11 +8,28 @@ import {
 import { resolve } from 'node:path'
 
 import { log } from '../log.js'
+import {
+  getChangeLogSummary,
+  getChangesSince,
+  type ChangeRecord,
+} from '../replication/change-tracker.js'
+import {
+  getReplicationActivity,
+  getReplicationHealth,
+  lsnToString,
+  pauseReplication,
+  resumeReplication,
+} from '../replication/handler.js'
+import { listStoredObjects } from '../s3-local.js'
+import { listSnapshots, type SnapshotInfo } from '../snapshots.js'
 import { getAdminHtml } from './ui.js'
 
 import type { ZeroLiteConfig } from '../config.js'
+import type { FaultInjector } from '../faults.js'
+import type { QueryStatsSort, QueryStatsStore } from '../query-stats.js'
 import type { HttpLogStore } from './http-proxy.js'
 import type { LogStore } from './log-store.js'
+import type { TrafficRecorder } from './traffic-recorder.js'
 import type { PGlite } from '@electric-sql/pglite'
 
 export interface AdminActions {
@@ -20,6 +37,11 @@ export interface AdminActions {
   stopZero?: () => Promise<void>
   resetZero?: () => Promise<void>
   resetZeroFull?: () => Promise<void>
+  saveSnapshot?: (name: string) => Promise<SnapshotInfo>
+  restoreSnapshot?: (name: string) => Promise<SnapshotInfo>
+  deleteSnapshot?: (name: string) => Promise<void>
+  /** apply pending seeds, or empty the app tables and re-seed on reset */
+  seed?: (reset: boolean, profile?: string) => Promise<string[]>
 }
 
 export interface AdminDbInstances {
@@ -36,6 +58,9 @@ export interface AdminServerOpts {
   actions?: AdminActions
   startTime: number
   httpLog?: HttpLogStore
+  queryStats?: QueryStatsStore
+  recorder?: TrafficRecorder
+  faults?: FaultInjector
   db?: AdminDbInstances
 }
 
@@ -65,6 +90,11 @@ const UI_PATHS = new Set([
   '/orez',
   '/s3',
   '/http',
+  '/snapshots',
+  '/objects',
+  '/replication',
+  '/queries',
+  '/faults',
   '/env',
 ])
 
@@ -166,6 +196,180 @@ export function startAdminServer(opts: AdminServerOpts): Promise<Server> {
         return
       }
 
+      if (req.method === 'GET' && url.pathname === '/api/snapshots') {
+        json(res, { snapshots: listSnapshots(config.dataDir) })
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname.startsWith('/api/actions/snapshot-')) {
+        const verb = url.pathname.slice('/api/actions/snapshot-'.length)
+        let name: string | undefined
+        try {
+          name = JSON.parse((await readBody(req)) || '{}').name
+        } catch {
+          json(res, { ok: false, message: 'invalid json body' }, 400)
+          return
+        }
+        if (!name) {
+          json(res, { ok: false, message: 'missing snapshot name' }, 400)
+          return
+        }
+        try {
+          if (verb === 'save') {
+            if (!actions?.saveSnapshot) {
+              json(res, { ok: false, message: 'snapshots not available' }, 400)
+              return
+            }
+            log.orez(`admin: saving snapshot "${name}"`)
+            const snapshot = await actions.saveSnapshot(name)
+            json(res, { ok: true, message: `snapshot "${name}" saved`, snapshot })
+          } else if (verb === 'restore') {
+            if (!actions?.restoreSnapshot) {
+              json(res, { ok: false, message: 'snapshots not available' }, 400)
+              return
+            }
+            log.orez(`admin: restoring snapshot "${name}"`)
+            const snapshot = await actions.restoreSnapshot(name)
+            json(res, { ok: true, message: `snapshot "${name}" restored`, snapshot })
+          } else if (verb === 'delete') {
+            if (!actions?.deleteSnapshot) {
+              json(res, { ok: false, message: 'snapshots not available' }, 400)
+              return
+            }
+            await actions.deleteSnapshot(name)
+            json(res, { ok: true, message: `snapshot "${name}" deleted` })
+          } else {
+            json(res, { ok: false, message: `unknown snapshot action: ${verb}` }, 404)
+          }
+        } catch (err: any) {
+          json(res, { ok: false, message: err?.message ?? 'snapshot failed' }, 400)
+        }
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname === '/api/actions/seed') {
+        if (!actions?.seed) {
+          json(res, { ok: false, message: 'seeding not available' }, 400)
+          return
+        }
+        let body: { reset?: boolean; profile?: string }
+        try {
+          body = JSON.parse((await readBody(req)) || '{}')
+        } catch {
+          json(res, { ok: false, message: 'invalid json body' }, 400)
+          return
+        }
+        try {
+          log.orez(body.reset ? 'admin: resetting and re-seeding' : 'admin: seeding')
+          const applied = await actions.seed(!!body.reset, body.profile || undefined)
+          json(res, {
+            ok: true,
+            message:
+              applied.length > 0
+                ? `applied ${applied.length} seed(s): ${applied.join(', ')}`
+                : 'no pending seeds',
+            applied,
+          })
+        } catch (err: any) {
+          json(res, { ok: false, message: err?.message ?? 'seed failed' }, 400)
+        }
+        return
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/replication') {
+        if (!opts.db) {
+          json(res, { available: false, message: 'database not available' })
+          return
+        }
+        try {
+          const summary = await getChangeLogSummary(opts.db.postgres)
+          const slots = await opts.db.postgres.query<{
+            slot_name: string
+            confirmed_flush_lsn: string
+            active: boolean
+          }>(
+            `SELECT slot_name, confirmed_flush_lsn, active
+             FROM _orez._zero_replication_slots
+             ORDER BY slot_name`
+          )
+          const activity = getReplicationActivity()
+          const tables: Record<
+            string,
+            { pending: Record<string, number>; streamed: Record<string, number> }
+          > = {}
+          for (const row of summary.tables) {
+            tables[row.table] ??= { pending: {}, streamed: {} }
+            tables[row.table].pending[row.op] = row.count
+          }
+          for (const [table, counts] of Object.entries(activity.tables)) {
+            tables[table] ??= { pending: {}, streamed: {} }
+            Object.assign(tables[table].streamed, counts)
+          }
+          json(res, {
+            available: true,
+            ...getReplicationHealth(),
+            watermark: summary.watermark,
+            pendingChanges: summary.pendingChanges,
+            unconfirmedBatchCount: summary.unconfirmedBatchCount,
+            unconfirmedBatches: summary.unconfirmedBatches.map((b) => ({
+              batchLsn: lsnToString(BigInt(b.batchLsn)),
+              batchEnd: b.batchEnd,
+            })),
+            slots: slots.rows,
+            tables: Object.entries(tables)
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([table, counts]) => ({ table, ...counts })),
+          })
+        } catch (err: any) {
+          // native postgres backend: zero-cache reads real WAL, no _orez log
+          json(res, { available: false, message: err?.message ?? 'query failed' })
+        }
+        return
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/replication/changes') {
+        if (!opts.db) {
+          json(res, { entries: [] })
+          return
+        }
+        const table = url.searchParams.get('table') || ''
+        const limit = Number(url.searchParams.get('limit') || '200')
+        try {
+          // streamed rows come from the in-memory ring (the log purges them on
+          // confirm); rows past the streamed watermark haven't gone out yet
+          const { lastStreamedWatermark } = getReplicationHealth()
+          const streamed = getReplicationActivity().recent.map((change) => ({
+            ...tailEntry(change),
+            status: 'streamed',
+            batchLsn: change.batchLsn,
+            streamedAt: change.streamedAt,
+          }))
+          const pending = (
+            await getChangesSince(opts.db.postgres, lastStreamedWatermark, limit)
+          ).map((change) => ({ ...tailEntry(change), status: 'pending' }))
+          const entries = [...streamed, ...pending]
+            .filter((e) => !table || e.table_name.includes(table))
+            .slice(-limit)
+          json(res, { entries, lastStreamedWatermark })
+        } catch (err: any) {
+          json(res, { entries: [], error: err?.message ?? 'query failed' })
+        }
+        return
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/s3/objects') {
+        const prefix = url.searchParams.get('prefix') || ''
+        const limitStr = url.searchParams.get('limit')
+        json(
+          res,
+          listStoredObjects(config.dataDir, {
+            prefix,
+            limit: limitStr ? Number(limitStr) : undefined,
+          })
+        )
+        return
+      }
+
       if (req.method === 'POST' && url.pathname === '/api/actions/clear-logs') {
         logStore.clear()
         json(res, { ok: true, message: 'logs cleared' })
@@ -186,6 +390,219 @@ export function startAdminServer(opts: AdminServerOpts): Promise<Server> {
         return
       }
 
+      if (req.method === 'GET' && url.pathname === '/api/recordings') {
+        json(res, {
+          available: !!opts.recorder,
+          current: opts.recorder?.current() ?? null,
+          recordings: opts.recorder?.list() ?? [],
+        })
+        return
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/recordings/download') {
+        const name = url.searchParams.get('name') || ''
+        const file = opts.recorder?.file(name)
+        if (!file) {
+          json(res, { error: 'recording not found' }, 404)
+          return
+        }
+        res.writeHead(200, {
+          ...CORS_HEADERS,
+          'Content-Type': 'application/x-ndjson',
+          'Content-Disposition': `attachment; filename="${name}"`,
+        })
+        createReadStream(file).pipe(res)
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname === '/api/actions/start-recording') {
+        if (!opts.recorder) {
+          json(res, { ok: false, message: 'recording not available' }, 400)
+          return
+        }
+        try {
+          const recording = opts.recorder.start()
+          json(res, {
+            ok: true,
+            message: `recording to ${recording.name} — reload clients to capture their connections`,
+            recording,
+          })
+        } catch (err: any) {
+          json(res, { ok: false, message: err?.message ?? String(err) }, 409)
+        }
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname === '/api/actions/stop-recording') {
+        const recording = await opts.recorder?.stop()
+        if (!recording) {
+          json(res, { ok: false, message: 'not recording' }, 409)
+          return
+        }
+        json(res, {
+          ok: true,
+          message: `saved ${recording.events} events to ${recording.path}`,
+          recording,
+        })
+        return
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/query-stats') {
+        if (!opts.queryStats) {
+          json(res, {
+            available: false,
+            message: 'query stats are only collected by the pglite proxy',
+          })
+          return
+        }
+        const limitStr = url.searchParams.get('limit')
+        json(res, {
+          available: true,
+          slowQueryMs: config.slowQueryMs,
+          ...opts.queryStats.query({
+            database: url.searchParams.get('db') || undefined,
+            sort: (url.searchParams.get('sort') as QueryStatsSort | null) || undefined,
+            limit: limitStr ? Number(limitStr) : 200,
+          }),
+        })
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname === '/api/actions/clear-query-stats') {
+        opts.queryStats?.clear()
+        json(res, { ok: true, message: 'query stats cleared' })
+        return
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/faults') {
+        if (!opts.faults) {
+          json(res, { available: false })
+          return
+        }
+        json(res, {
+          available: true,
+          zeroRunning: !!actions?.restartZero,
+          ...opts.faults.state(),
+          replicationPausedUntil: getReplicationHealth().pausedUntil,
+        })
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname.startsWith('/api/actions/fault-')) {
+        const faults = opts.faults
+        if (!faults) {
+          json(res, { ok: false, message: 'fault injection not available' }, 400)
+          return
+        }
+        const verb = url.pathname.slice('/api/actions/fault-'.length)
+        let body: Record<string, unknown>
+        try {
+          body = JSON.parse((await readBody(req)) || '{}')
+        } catch {
+          json(res, { ok: false, message: 'invalid json body' }, 400)
+          return
+        }
+        const { pgProxy, pushTarget } = faults.state()
+
+        if (verb === 'pg-latency') {
+          const ms = Number(body.ms ?? 0)
+          if (!pgProxy) {
+            json(res, { ok: false, message: 'pg latency needs the pglite proxy' }, 400)
+            return
+          }
+          if (!Number.isFinite(ms) || ms < 0) {
+            json(res, { ok: false, message: 'ms must be a non-negative number' }, 400)
+            return
+          }
+          const database = typeof body.database === 'string' ? body.database : undefined
+          faults.setPgLatency(ms, database)
+          log.orez(`admin: pg proxy latency ${ms}ms${database ? ` on ${database}` : ''}`)
+          json(res, {
+            ok: true,
+            message: ms > 0 ? `pg proxy latency set to ${ms}ms` : 'pg proxy latency off',
+          })
+        } else if (verb === 'fail-push') {
+          const count = Number(body.count ?? 1)
+          const status = Number(body.status ?? 500)
+          if (!pushTarget) {
+            json(
+              res,
+              { ok: false, message: 'push failures need a single zeroMutateUrl' },
+              400
+            )
+            return
+          }
+          if (!Number.isInteger(count) || count < 0) {
+            json(res, { ok: false, message: 'count must be a non-negative integer' }, 400)
+            return
+          }
+          if (!Number.isInteger(status) || status < 400 || status > 599) {
+            json(res, { ok: false, message: 'status must be 400-599' }, 400)
+            return
+          }
+          faults.failPushes(count, status)
+          log.orez(`admin: failing next ${count} push request(s) with ${status}`)
+          json(res, {
+            ok: true,
+            message:
+              count > 0
+                ? `next ${count} push request(s) fail with ${status}`
+                : 'push failures cleared',
+          })
+        } else if (verb === 'pause-replication') {
+          const seconds = Number(body.seconds ?? 30)
+          if (!pgProxy) {
+            json(
+              res,
+              { ok: false, message: 'replication pause needs the pglite backend' },
+              400
+            )
+            return
+          }
+          if (!Number.isFinite(seconds) || seconds < 0) {
+            json(
+              res,
+              { ok: false, message: 'seconds must be a non-negative number' },
+              400
+            )
+            return
+          }
+          if (seconds === 0) {
+            resumeReplication()
+            log.orez('admin: replication resumed')
+            json(res, { ok: true, message: 'replication resumed' })
+          } else {
+            pauseReplication(seconds * 1000)
+            log.orez(`admin: replication paused for ${seconds}s`)
+            json(res, { ok: true, message: `replication paused for ${seconds}s` })
+          }
+        } else if (verb === 'kill-zero') {
+          if (!actions?.restartZero) {
+            json(res, { ok: false, message: 'zero-cache not running' }, 400)
+            return
+          }
+          if (body.armed === false) {
+            faults.armZeroKill(false)
+            json(res, { ok: true, message: 'zero-cache kill disarmed' })
+            return
+          }
+          faults.armZeroKill(true)
+          log.orez('admin: zero-cache will be killed on the next client request')
+          json(res, {
+            ok: true,
+            message: 'zero-cache will be killed on the next client request',
+          })
+        } else if (verb === 'clear') {
+          faults.clear()
+          if (pgProxy) resumeReplication()
+          log.orez('admin: cleared all faults')
+          json(res, { ok: true, message: 'all faults cleared' })
+        } else {
+          json(res, { ok: false, message: `unknown fault action: ${verb}` }, 404)
+        }
+        return
+      }
+
       // db explorer endpoints
       if (opts.db && req.method === 'GET' && url.pathname === '/api/db/tables') {
         const dbName = url.searchParams.get('db') || 'postgres'
@@ -426,6 +843,26 @@ export function startAdminServer(opts: AdminServerOpts): Promise<Server> {
   })
 }
 
+/** a change-log row for the inspector tail, with the columns an UPDATE changed */
+function tailEntry(change: ChangeRecord) {
+  const changed =
+    change.op === 'UPDATE' && change.row_data && change.old_data
+      ? Object.keys(change.row_data).filter(
+          (col) =>
+            JSON.stringify(change.row_data![col]) !==
+            JSON.stringify(change.old_data![col])
+        )
+      : []
+  return {
+    watermark: change.watermark,
+    table_name: change.table_name,
+    op: change.op,
+    row_data: change.row_data,
+    old_data: change.old_data,
+    changed,
+  }
+}
+
 function getDbInstance(db: AdminDbInstances, name: string): PGlite | null {
   if (name === 'postgres' || name === 'main') return db.postgres
   if (name === 'cvr') return db.cvr
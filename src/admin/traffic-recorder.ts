@@ -0,0 +1,492 @@
+import { createWriteStream, existsSync, mkdirSync, readdirSync, statSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+
+import type { WriteStream } from 'node:fs'
+
+/**
+ * one event in a capture file. a capture is JSONL: a header line
+ * (`{ type: 'capture', version, startedAt }`) followed by these, in arrival
+ * order. `t` is ms since the capture started; `conn` groups the events of one
+ * client connection (one keep-alive HTTP connection or one websocket).
+ */
+export type CaptureEvent =
+  | {
+      t: number
+      conn: number
+      type: 'http-request'
+      method: string
+      path: string
+      headers: Record<string, string>
+      body: string
+      bodyEncoding?: 'base64'
+    }
+  | {
+      t: number
+      conn: number
+      type: 'http-response'
+      status: number
+      headers: Record<string, string>
+      body: string
+      bodyEncoding?: 'base64'
+    }
+  | {
+      t: number
+      conn: number
+      type: 'ws-open'
+      path: string
+      headers: Record<string, string>
+    }
+  | {
+      t: number
+      conn: number
+      type: 'ws-message'
+      from: 'client' | 'server'
+      data: string
+      binary?: true
+    }
+  | { t: number; conn: number; type: 'ws-close'; from: 'client' | 'server' }
+
+export interface CaptureHeader {
+  type: 'capture'
+  version: 1
+  startedAt: string
+}
+
+export interface RecordingInfo {
+  name: string
+  path: string
+  startedAt: string
+  /** known for the recording in progress and the one just stopped */
+  events?: number
+  sizeBytes: number
+}
+
+export interface ConnectionTap {
+  client(chunk: Buffer): void
+  server(chunk: Buffer): void
+  close(): void
+}
+
+export interface TrafficRecorder {
+  /** the in-progress recording, or null */
+  current(): RecordingInfo | null
+  start(): RecordingInfo
+  stop(): Promise<RecordingInfo | null>
+  list(): RecordingInfo[]
+  /** resolve a recording name to its file, or null if it does not exist */
+  file(name: string): string | null
+  /**
+   * start observing a new proxied connection. returns null when not
+   * recording, so idle proxies pay nothing per chunk.
+   */
+  tap(): ConnectionTap | null
+}
+
+// credentials never reach a capture file, which is meant to be shared in bug
+// reports. replay drops the placeholder instead of sending it.
+const CREDENTIAL_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+])
+export const REDACTED = '[redacted]'
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (const [k, v] of Object.entries(headers)) {
+    out[k] = CREDENTIAL_HEADERS.has(k) ? REDACTED : v
+  }
+  return out
+}
+
+// --- wire parsing (shared with `orez replay`) ---
+
+export interface HttpMessage {
+  startLine: string
+  headers: Record<string, string>
+  body: Buffer
+}
+
+function parseHead(raw: string): { startLine: string; headers: Record<string, string> } {
+  const lines = raw.split('\r\n')
+  const headers: Record<string, string> = {}
+  for (let i = 1; i < lines.length; i++) {
+    const idx = lines[i].indexOf(':')
+    if (idx > 0)
+      headers[lines[i].slice(0, idx).toLowerCase()] = lines[i].slice(idx + 1).trim()
+  }
+  return { startLine: lines[0], headers }
+}
+
+/** decode a complete chunked body, or null if more bytes are needed */
+function decodeChunked(buf: Buffer): { body: Buffer; consumed: number } | null {
+  const parts: Buffer[] = []
+  let offset = 0
+  for (;;) {
+    const lineEnd = buf.indexOf('\r\n', offset)
+    if (lineEnd < 0) return null
+    const size = parseInt(buf.subarray(offset, lineEnd).toString('latin1'), 16)
+    offset = lineEnd + 2
+    if (size === 0) {
+      // skip trailers up to the blank line
+      const end = buf.indexOf('\r\n\r\n', offset - 2)
+      if (end < 0) return null
+      return { body: Buffer.concat(parts), consumed: end + 4 }
+    }
+    if (buf.length < offset + size + 2) return null
+    parts.push(buf.subarray(offset, offset + size))
+    offset += size + 2
+  }
+}
+
+/**
+ * incremental HTTP/1.1 message parser for one direction of a connection.
+ * bodies are framed by content-length or chunked encoding; a response with
+ * neither runs until the connection closes (see `end`).
+ */
+export class HttpStreamParser {
+  private buf: Buffer = Buffer.alloc(0)
+  private head: { startLine: string; headers: Record<string, string> } | null = null
+
+  constructor(private readonly kind: 'request' | 'response') {}
+
+  push(chunk: Buffer): HttpMessage[] {
+    this.buf = this.buf.length ? Buffer.concat([this.buf, chunk]) : chunk
+    const out: HttpMessage[] = []
+    for (;;) {
+      if (!this.head) {
+        const end = this.buf.indexOf('\r\n\r\n')
+        if (end < 0) break
+        this.head = parseHead(this.buf.subarray(0, end).toString('latin1'))
+        this.buf = this.buf.subarray(end + 4)
+      }
+      const { headers, startLine } = this.head
+      let body: Buffer
+      if (headers['transfer-encoding']?.toLowerCase().includes('chunked')) {
+        const decoded = decodeChunked(this.buf)
+        if (!decoded) break
+        body = decoded.body
+        this.buf = this.buf.subarray(decoded.consumed)
+      } else if (headers['content-length'] !== undefined) {
+        const len = Number(headers['content-length'])
+        if (this.buf.length < len) break
+        body = this.buf.subarray(0, len)
+        this.buf = this.buf.subarray(len)
+      } else if (
+        this.kind === 'response' &&
+        !/^HTTP\/\S+ (1\d\d|204|304)/.test(startLine)
+      ) {
+        // body runs to connection close
+        break
+      } else {
+        body = Buffer.alloc(0)
+      }
+      out.push({ startLine, headers, body })
+      this.head = null
+      // everything after an upgrade belongs to the new protocol
+      if (isUpgrade(startLine, headers)) break
+    }
+    return out
+  }
+
+  /** bytes received past the last complete message (e.g. frames after a 101) */
+  rest(): Buffer {
+    const rest = this.buf
+    this.buf = Buffer.alloc(0)
+    return rest
+  }
+
+  /** flush a close-delimited response body */
+  end(): HttpMessage | null {
+    if (!this.head) return null
+    const msg = { ...this.head, body: this.buf }
+    this.head = null
+    this.buf = Buffer.alloc(0)
+    return msg
+  }
+}
+
+function isUpgrade(startLine: string, headers: Record<string, string>): boolean {
+  return startLine.startsWith('HTTP/')
+    ? / 101 /.test(startLine)
+    : headers.upgrade?.toLowerCase() === 'websocket'
+}
+
+export interface WsMessage {
+  /** 'close' carries no data */
+  kind: 'text' | 'binary' | 'close'
+  data: Buffer
+}
+
+/** incremental websocket frame parser; reassembles fragmented messages */
+export class WsFrameParser {
+  private buf: Buffer = Buffer.alloc(0)
+  private fragments: Buffer[] = []
+  private fragmentOpcode = 0
+
+  push(chunk: Buffer): WsMessage[] {
+    this.buf = this.buf.length ? Buffer.concat([this.buf, chunk]) : chunk
+    const out: WsMessage[] = []
+    for (;;) {
+      if (this.buf.length < 2) break
+      const fin = (this.buf[0] & 0x80) !== 0
+      const opcode = this.buf[0] & 0x0f
+      const masked = (this.buf[1] & 0x80) !== 0
+      let len = this.buf[1] & 0x7f
+      let offset = 2
+      if (len === 126) {
+        if (this.buf.length < 4) break
+        len = this.buf.readUInt16BE(2)
+        offset = 4
+      } else if (len === 127) {
+        if (this.buf.length < 10) break
+        len = Number(this.buf.readBigUInt64BE(2))
+        offset = 10
+      }
+      const maskOffset = offset
+      if (masked) offset += 4
+      if (this.buf.length < offset + len) break
+      const payload = Buffer.from(this.buf.subarray(offset, offset + len))
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= this.buf[maskOffset + (i % 4)]
+        }
+      }
+      this.buf = this.buf.subarray(offset + len)
+
+      if (opcode === 0x8) {
+        out.push({ kind: 'close', data: payload })
+      } else if (opcode === 0x1 || opcode === 0x2 || opcode === 0x0) {
+        if (opcode !== 0x0) this.fragmentOpcode = opcode
+        this.fragments.push(payload)
+        if (fin) {
+          out.push({
+            kind: this.fragmentOpcode === 0x2 ? 'binary' : 'text',
+            data: Buffer.concat(this.fragments),
+          })
+          this.fragments = []
+        }
+      }
+      // ping/pong are connection upkeep, not protocol traffic
+    }
+    return out
+  }
+}
+
+/** store a body as utf8 when it round-trips, otherwise base64 */
+export function encodeBody(body: Buffer): { body: string; bodyEncoding?: 'base64' } {
+  const text = body.toString('utf8')
+  if (Buffer.from(text, 'utf8').equals(body)) return { body: text }
+  return { body: body.toString('base64'), bodyEncoding: 'base64' }
+}
+
+/**
+ * drop the permessage-deflate offer from a websocket upgrade request head, so
+ * the frames on the wire stay readable. returns the chunk unchanged for
+ * anything else.
+ */
+export function stripWsExtensions(chunk: Buffer): Buffer {
+  const end = chunk.indexOf('\r\n\r\n')
+  if (end < 0) return chunk
+  const head = chunk.subarray(0, end).toString('latin1')
+  if (!/\r\nupgrade:\s*websocket/i.test(head)) return chunk
+  const stripped = head.replace(/\r\nsec-websocket-extensions:[^\r]*/gi, '')
+  return Buffer.concat([Buffer.from(stripped, 'latin1'), chunk.subarray(end)])
+}
+
+// --- recorder ---
+
+const RECORDINGS_DIR = 'recordings'
+
+interface Recording {
+  info: RecordingInfo
+  stream: WriteStream
+  startedAtMs: number
+}
+
+function recordingInfo(path: string, name: string): RecordingInfo {
+  const stat = statSync(path)
+  return {
+    name,
+    path,
+    startedAt: new Date(stat.birthtimeMs || stat.mtimeMs).toISOString(),
+    sizeBytes: stat.size,
+  }
+}
+
+export function createTrafficRecorder(dataDir: string): TrafficRecorder {
+  const dir = resolve(dataDir, RECORDINGS_DIR)
+  let active: Recording | null = null
+  let nextConn = 1
+
+  function write(recording: Recording, event: CaptureEvent) {
+    // a connection tapped by an earlier recording keeps running after it stops
+    if (active !== recording) return
+    const line = JSON.stringify(event) + '\n'
+    recording.stream.write(line)
+    recording.info.events = (recording.info.events ?? 0) + 1
+    recording.info.sizeBytes += Buffer.byteLength(line)
+  }
+
+  function start(): RecordingInfo {
+    if (active) throw new Error(`already recording to ${active.info.name}`)
+    mkdirSync(dir, { recursive: true })
+    const startedAt = new Date()
+    const name = `capture-${startedAt.toISOString().replace(/[:.]/g, '-')}.jsonl`
+    const path = join(dir, name)
+    const header: CaptureHeader = {
+      type: 'capture',
+      version: 1,
+      startedAt: startedAt.toISOString(),
+    }
+    const stream = createWriteStream(path)
+    const line = JSON.stringify(header) + '\n'
+    stream.write(line)
+    active = {
+      info: {
+        name,
+        path,
+        startedAt: header.startedAt,
+        events: 0,
+        sizeBytes: Buffer.byteLength(line),
+      },
+      stream,
+      startedAtMs: startedAt.getTime(),
+    }
+    return { ...active.info }
+  }
+
+  async function stop(): Promise<RecordingInfo | null> {
+    if (!active) return null
+    const { info, stream } = active
+    active = null
+    await new Promise<void>((resolve) => stream.end(resolve))
+    return info
+  }
+
+  function list(): RecordingInfo[] {
+    if (!existsSync(dir)) return []
+    return readdirSync(dir)
+      .filter((f) => f.endsWith('.jsonl'))
+      .map((f) =>
+        active?.info.name === f ? { ...active.info } : recordingInfo(join(dir, f), f)
+      )
+      .sort((a, b) => b.name.localeCompare(a.name))
+  }
+
+  function file(name: string): string | null {
+    if (!/^[\w.-]+\.jsonl$/.test(name)) return null
+    const path = join(dir, name)
+    return existsSync(path) ? path : null
+  }
+
+  function tap(): ConnectionTap | null {
+    const recording = active
+    if (!recording) return null
+    const conn = nextConn++
+    const t = () => Date.now() - recording.startedAtMs
+    const emit = (event: CaptureEvent) => write(recording, event)
+    const requests = new HttpStreamParser('request')
+    const responses = new HttpStreamParser('response')
+    let clientFrames: WsFrameParser | null = null
+    let serverFrames: WsFrameParser | null = null
+    let upgradePath = ''
+    let upgradeHeaders: Record<string, string> = {}
+
+    function frames(from: 'client' | 'server', messages: WsMessage[]) {
+      for (const m of messages) {
+        if (m.kind === 'close') {
+          emit({ t: t(), conn, type: 'ws-close', from })
+        } else if (m.kind === 'binary') {
+          emit({
+            t: t(),
+            conn,
+            type: 'ws-message',
+            from,
+            data: m.data.toString('base64'),
+            binary: true,
+          })
+        } else {
+          emit({ t: t(), conn, type: 'ws-message', from, data: m.data.toString('utf8') })
+        }
+      }
+    }
+
+    return {
+      client(chunk) {
+        if (clientFrames) return frames('client', clientFrames.push(chunk))
+        for (const req of requests.push(chunk)) {
+          const [method, path] = req.startLine.split(' ')
+          if (isUpgrade(req.startLine, req.headers)) {
+            upgradePath = path
+            upgradeHeaders = redactHeaders(req.headers)
+            // the client waits for the 101 before sending frames
+            clientFrames = new WsFrameParser()
+            const rest = requests.rest()
+            if (rest.length) frames('client', clientFrames.push(rest))
+            return
+          }
+          emit({
+            t: t(),
+            conn,
+            type: 'http-request',
+            method,
+            path,
+            headers: redactHeaders(req.headers),
+            ...encodeBody(req.body),
+          })
+        }
+      },
+      server(chunk) {
+        if (serverFrames) return frames('server', serverFrames.push(chunk))
+        for (const res of responses.push(chunk)) {
+          const status = Number(res.startLine.split(' ')[1]) || 0
+          if (status === 101 && clientFrames) {
+            emit({
+              t: t(),
+              conn,
+              type: 'ws-open',
+              path: upgradePath,
+              headers: upgradeHeaders,
+            })
+            serverFrames = new WsFrameParser()
+            const rest = responses.rest()
+            if (rest.length) frames('server', serverFrames.push(rest))
+            return
+          }
+          emit({
+            t: t(),
+            conn,
+            type: 'http-response',
+            status,
+            headers: redactHeaders(res.headers),
+            ...encodeBody(res.body),
+          })
+        }
+      },
+      close() {
+        const res = responses.end()
+        if (res) {
+          emit({
+            t: t(),
+            conn,
+            type: 'http-response',
+            status: Number(res.startLine.split(' ')[1]) || 0,
+            headers: redactHeaders(res.headers),
+            ...encodeBody(res.body),
+          })
+        }
+      },
+    }
+  }
+
+  return {
+    current: () => (active ? { ...active.info } : null),
+    start,
+    stop,
+    list,
+    file,
+    tap,
+  }
+}
@@ -115,6 +115,17 @@ body {
   cursor: pointer;
 }
 .toolbar select:focus { outline: none; border-color: var(--accent); }
+.project-switcher {
+  background: var(--surface);
+  color: var(--text);
+  border: 0.5px solid var(--border);
+  border-radius: 4px;
+  padding: 1px 6px;
+  margin-left: 8px;
+  font-size: 11px;
+  font-family: inherit;
+  cursor: pointer;
+}
 .toolbar input[type="text"] {
   background: var(--surface);
   color: var(--text);
@@ -222,6 +233,58 @@ body {
 .env-table td:first-child { color: var(--accent); white-space: nowrap; }
 .env-table td:last-child { color: var(--text); word-break: break-all; }
 .env-table tr:hover td { background: #111; }
+.snapshot-view {
+  height: 100%;
+  overflow-y: auto;
+  padding: 16px;
+  display: none;
+}
+.snapshot-table td:last-child { text-align: right; white-space: nowrap; }
+.snapshot-table td .action-btn { margin-left: 6px; }
+.objects-view {
+  height: 100%;
+  overflow-y: auto;
+  padding: 0;
+  display: none;
+}
+.objects-table td { white-space: nowrap; }
+.replication-view {
+  height: 100%;
+  overflow-y: auto;
+  padding: 0;
+  display: none;
+}
+.replication-view .section-title {
+  padding: 10px 12px 4px;
+  font-size: 10px;
+  color: var(--text-dim);
+  text-transform: uppercase;
+  letter-spacing: 0.5px;
+}
+.replication-view .env-table td:first-child { width: 220px; }
+.replication-table td { white-space: nowrap; }
+.http-table .status.pending { color: var(--yellow); }
+.http-detail .diff-old { color: var(--red); }
+.objects-table .path { max-width: 600px; overflow: hidden; text-overflow: ellipsis; }
+.queries-view {
+  height: 100%;
+  overflow-y: auto;
+  padding: 0;
+  display: none;
+}
+.queries-table td { white-space: nowrap; }
+.faults-view {
+  height: 100%;
+  overflow-y: auto;
+  padding: 16px;
+  display: none;
+}
+.faults-table td { white-space: nowrap; vertical-align: middle; }
+.faults-table td:first-child { width: 180px; }
+.faults-table input, .faults-table select { width: 70px; margin-right: 6px; }
+.faults-table .fault-state.armed { color: var(--yellow); }
+.queries-table .path { max-width: 520px; overflow: hidden; text-overflow: ellipsis; }
+.http-detail pre { white-space: pre-wrap; word-break: break-all; margin: 0; }
 .http-view {
   height: 100%;
   overflow-y: auto;
@@ -591,6 +654,7 @@ body {
 <body>
   <div class="header" id="admin-header">
     <span class="logo">&#9670; oreZ admin</span>
+    <select class="project-switcher" id="project-switcher" style="display:none" title="project"></select>
     <div class="spacer"></div>
     <span class="badge"><span class="dot"></span> pg <span id="pg-port">-</span></span>
     <span class="badge"><span class="dot"></span> zero <span id="zero-port">-</span></span>
@@ -607,6 +671,11 @@ body {
     <button class="tab" data-source="orez">Orez</button>
     <button class="tab" data-source="s3">S3</button>
     <button class="tab" data-source="http">HTTP</button>
+    <button class="tab" data-source="snapshots">Snapshots</button>
+    <button class="tab" data-source="objects">Objects</button>
+    <button class="tab" data-source="replication">Replication</button>
+    <button class="tab" data-source="queries">Queries</button>
+    <button class="tab" data-source="faults">Faults</button>
     <button class="tab" data-source="env">Env</button>
   </div>
 
@@ -644,11 +713,65 @@ body {
   <div class="toolbar" id="http-toolbar" style="display:none">
     <label>Filter</label>
     <input type="text" id="http-path-filter" placeholder="filter by path...">
+    <span id="recording-status" style="font-size:10px;color:var(--text-dim)"></span>
     <div class="toolbar-actions">
+      <button class="action-btn red" id="record-btn" onclick="toggleRecording(this)">&#x25cf; Record</button>
       <button class="action-btn gray" onclick="doAction('clear-http', this)">&#x2715; Clear</button>
     </div>
   </div>
 
+  <div class="toolbar" id="snapshot-toolbar" style="display:none">
+    <label>Name</label>
+    <input type="text" id="snapshot-name" placeholder="before-migration">
+    <div class="toolbar-actions">
+      <button class="action-btn blue" onclick="snapshotAction('save', document.getElementById('snapshot-name').value.trim(), this)">&#x2913; Save</button>
+    </div>
+  </div>
+
+  <div class="toolbar" id="objects-toolbar" style="display:none">
+    <label>Prefix</label>
+    <input type="text" id="objects-prefix" placeholder="bucket/path/...">
+    <span id="objects-status" style="font-size:10px;color:var(--text-dim)"></span>
+    <div class="toolbar-actions">
+      <button class="action-btn gray" onclick="loadObjects()">&#x21bb; Refresh</button>
+    </div>
+  </div>
+
+  <div class="toolbar" id="replication-toolbar" style="display:none">
+    <label>Table</label>
+    <input type="text" id="replication-table-filter" placeholder="filter changes by table...">
+    <span id="replication-status" style="font-size:10px;color:var(--text-dim)"></span>
+  </div>
+
+  <div class="toolbar" id="queries-toolbar" style="display:none">
+    <label>Database</label>
+    <select id="queries-db">
+      <option value="">all</option>
+      <option value="postgres">postgres</option>
+      <option value="zero_cvr">zero_cvr</option>
+      <option value="zero_cdb">zero_cdb</option>
+    </select>
+    <label>Sort</label>
+    <select id="queries-sort">
+      <option value="total">total time</option>
+      <option value="count">count</option>
+      <option value="p95">exec p95</option>
+      <option value="max">exec max</option>
+      <option value="wait">wait p95</option>
+    </select>
+    <span id="queries-status" style="font-size:10px;color:var(--text-dim)"></span>
+    <div class="toolbar-actions">
+      <button class="action-btn gray" onclick="doAction('clear-query-stats', this)">&#x2715; Reset</button>
+    </div>
+  </div>
+
+  <div class="toolbar" id="faults-toolbar" style="display:none">
+    <span id="faults-status" style="font-size:10px;color:var(--text-dim)"></span>
+    <div class="toolbar-actions">
+      <button class="action-btn gray" onclick="faultAction('clear', {}, this)">&#x2715; Clear all</button>
+    </div>
+  </div>
+
   <div class="content-area">
     <div class="data-view" id="data-view">
       <div class="data-toolbar">
@@ -658,6 +781,10 @@ body {
           <button class="data-sub-tab" data-db="cdb">CDB</button>
           <button class="data-sub-tab" data-db="sqlite">SQLite</button>
         </div>
+        <div class="toolbar-actions">
+          <button class="action-btn blue" onclick="seedAction(false, this)">&#x25b6; Seed</button>
+          <button class="action-btn orange" onclick="seedAction(true, this)">&#x21ba; Reset &amp; seed</button>
+        </div>
       </div>
       <div class="data-content">
         <div class="data-sidebar" id="data-sidebar">
@@ -706,6 +833,115 @@ body {
           <tbody id="env-body"></tbody>
         </table>
       </div>
+      <div class="snapshot-view" id="snapshot-view">
+        <table class="env-table snapshot-table">
+          <thead><tr><th>Name</th><th>Created</th><th>Size</th><th></th></tr></thead>
+          <tbody id="snapshot-body"></tbody>
+        </table>
+      </div>
+      <div class="objects-view" id="objects-view">
+        <table class="http-table objects-table">
+          <thead><tr>
+            <th>Key</th>
+            <th>Type</th>
+            <th>Size</th>
+            <th>Modified</th>
+          </tr></thead>
+          <tbody id="objects-body"></tbody>
+        </table>
+      </div>
+      <div class="replication-view" id="replication-view">
+        <div class="section-title">State</div>
+        <table class="env-table">
+          <tbody id="replication-state"></tbody>
+        </table>
+        <div class="section-title">Tables</div>
+        <table class="http-table replication-table">
+          <thead><tr><th>Table</th><th>In change log</th><th>Streamed</th></tr></thead>
+          <tbody id="replication-tables"></tbody>
+        </table>
+        <div class="section-title">Changes</div>
+        <table class="http-table replication-table">
+          <thead><tr>
+            <th>Time</th>
+            <th>Status</th>
+            <th>Op</th>
+            <th>Table</th>
+            <th>Watermark</th>
+            <th>Batch LSN</th>
+            <th>Changed</th>
+          </tr></thead>
+          <tbody id="replication-changes"></tbody>
+        </table>
+      </div>
+      <div class="queries-view" id="queries-view">
+        <table class="http-table queries-table">
+          <thead><tr>
+            <th>Query</th>
+            <th>DB</th>
+            <th>Application</th>
+            <th>Count</th>
+            <th>Total</th>
+            <th>Exec p50 / p95 / max</th>
+            <th>Wait p50 / p95 / max</th>
+          </tr></thead>
+          <tbody id="queries-body"></tbody>
+        </table>
+      </div>
+      <div class="faults-view" id="faults-view">
+        <table class="env-table faults-table">
+          <thead><tr><th>Fault</th><th>Settings</th><th>State</th><th></th></tr></thead>
+          <tbody>
+            <tr data-fault="pg-latency">
+              <td>PG proxy latency</td>
+              <td>
+                <input type="number" id="fault-latency-ms" min="0" value="200"> ms on
+                <select id="fault-latency-db">
+                  <option value="">all dbs</option>
+                  <option value="postgres">postgres</option>
+                  <option value="zero_cvr">zero_cvr</option>
+                  <option value="zero_cdb">zero_cdb</option>
+                </select>
+              </td>
+              <td class="fault-state" id="fault-latency-state">-</td>
+              <td>
+                <button class="action-btn orange" onclick="faultAction('pg-latency', { ms: Number(document.getElementById('fault-latency-ms').value), database: document.getElementById('fault-latency-db').value }, this)">Apply</button>
+                <button class="action-btn gray" onclick="faultAction('pg-latency', { ms: 0 }, this)">Off</button>
+              </td>
+            </tr>
+            <tr data-fault="fail-push">
+              <td>Fail push requests</td>
+              <td>
+                next <input type="number" id="fault-push-count" min="1" value="1">
+                with <input type="number" id="fault-push-status" min="400" max="599" value="500">
+              </td>
+              <td class="fault-state" id="fault-push-state">-</td>
+              <td>
+                <button class="action-btn orange" onclick="faultAction('fail-push', { count: Number(document.getElementById('fault-push-count').value), status: Number(document.getElementById('fault-push-status').value) }, this)">Arm</button>
+                <button class="action-btn gray" onclick="faultAction('fail-push', { count: 0 }, this)">Clear</button>
+              </td>
+            </tr>
+            <tr data-fault="pause-replication">
+              <td>Pause replication</td>
+              <td>for <input type="number" id="fault-pause-seconds" min="1" value="30"> s</td>
+              <td class="fault-state" id="fault-pause-state">-</td>
+              <td>
+                <button class="action-btn orange" onclick="faultAction('pause-replication', { seconds: Number(document.getElementById('fault-pause-seconds').value) }, this)">Pause</button>
+                <button class="action-btn gray" onclick="faultAction('pause-replication', { seconds: 0 }, this)">Resume</button>
+              </td>
+            </tr>
+            <tr data-fault="kill-zero">
+              <td>Kill zero-cache</td>
+              <td style="color:var(--text-dim)">on the next client request, restart from the Zero tab</td>
+              <td class="fault-state" id="fault-kill-state">-</td>
+              <td>
+                <button class="action-btn red" onclick="faultAction('kill-zero', {}, this)">Arm</button>
+                <button class="action-btn gray" onclick="faultAction('kill-zero', { armed: false }, this)">Disarm</button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
       <div class="http-view" id="http-view">
         <table class="http-table">
           <thead><tr>
@@ -727,7 +963,7 @@ body {
 
 <script>
 // resolve initial tab from url path
-var pathMap = {"/":"data","/data":"data","/all":"","/zero":"zero","/pglite":"pglite","/proxy":"proxy","/orez":"orez","/s3":"s3","/http":"http","/env":"env"};
+var pathMap = {"/":"data","/data":"data","/all":"","/zero":"zero","/pglite":"pglite","/proxy":"proxy","/orez":"orez","/s3":"s3","/http":"http","/snapshots":"snapshots","/objects":"objects","/replication":"replication","/queries":"queries","/faults":"faults","/env":"env"};
 var initPath = window.location.pathname.replace(/\\/$/, "") || "/";
 var initSource = pathMap[initPath] !== undefined ? pathMap[initPath] : "data";
 var standalone = initPath !== "/" && initPath !== "/data" && initPath !== "/all";
@@ -738,8 +974,18 @@ var autoScroll = true;
 var envLoaded = false;
 var isEnvTab = false;
 var isHttpTab = false;
+var isSnapshotsTab = false;
+var isObjectsTab = false;
+var isReplicationTab = false;
+// watermarks whose diff rows are expanded, kept across refreshes
+var replicationOpen = {};
+var isQueriesTab = false;
+// fingerprints whose detail rows are expanded, kept across refreshes
+var queriesOpen = {};
+var isFaultsTab = false;
 var isDataTab = initSource === "data";
 var httpCursor = 0;
+var recordingActive = false;
 var httpAutoScroll = true;
 
 // data explorer state
@@ -750,12 +996,22 @@ var dataActiveTable = null;
 var logView = document.getElementById("log-view");
 var envView = document.getElementById("env-view");
 var httpView = document.getElementById("http-view");
+var snapshotView = document.getElementById("snapshot-view");
+var objectsView = document.getElementById("objects-view");
+var replicationView = document.getElementById("replication-view");
+var queriesView = document.getElementById("queries-view");
+var faultsView = document.getElementById("faults-view");
 var dataView = document.getElementById("data-view");
 var jumpBtn = document.getElementById("jump-btn");
 var toastEl = document.getElementById("toast");
 var toolbar = document.getElementById("toolbar");
 var zeroToolbar = document.getElementById("zero-toolbar");
 var httpToolbar = document.getElementById("http-toolbar");
+var snapshotToolbar = document.getElementById("snapshot-toolbar");
+var objectsToolbar = document.getElementById("objects-toolbar");
+var replicationToolbar = document.getElementById("replication-toolbar");
+var queriesToolbar = document.getElementById("queries-toolbar");
+var faultsToolbar = document.getElementById("faults-toolbar");
 var sqlEditor = document.getElementById("sql-editor");
 var sqlStatus = document.getElementById("sql-status");
 var dataResults = document.getElementById("data-results");
@@ -768,17 +1024,32 @@ function sourceToPath(s) {
 function switchTab(source, pushState) {
   isEnvTab = source === "env";
   isHttpTab = source === "http";
+  isSnapshotsTab = source === "snapshots";
+  isObjectsTab = source === "objects";
+  isReplicationTab = source === "replication";
+  isQueriesTab = source === "queries";
+  isFaultsTab = source === "faults";
   isDataTab = source === "data";
   var isZero = source === "zero";
   if (pushState) history.pushState(null, "", sourceToPath(source));
   logView.style.display = "none";
   envView.style.display = "none";
   httpView.style.display = "none";
+  snapshotView.style.display = "none";
+  objectsView.style.display = "none";
+  replicationView.style.display = "none";
+  queriesView.style.display = "none";
+  faultsView.style.display = "none";
   dataView.style.display = "none";
   dataView.classList.remove("visible");
   toolbar.style.display = "none";
   zeroToolbar.style.display = "none";
   httpToolbar.style.display = "none";
+  snapshotToolbar.style.display = "none";
+  objectsToolbar.style.display = "none";
+  replicationToolbar.style.display = "none";
+  queriesToolbar.style.display = "none";
+  faultsToolbar.style.display = "none";
   logView.parentElement.style.display = "none";
   if (isDataTab) {
     dataView.style.display = "flex";
@@ -788,6 +1059,31 @@ function switchTab(source, pushState) {
     logView.parentElement.style.display = "block";
     envView.style.display = "block";
     if (!envLoaded) loadEnv();
+  } else if (isSnapshotsTab) {
+    logView.parentElement.style.display = "block";
+    snapshotView.style.display = "block";
+    snapshotToolbar.style.display = "flex";
+    loadSnapshots();
+  } else if (isObjectsTab) {
+    logView.parentElement.style.display = "block";
+    objectsView.style.display = "block";
+    objectsToolbar.style.display = "flex";
+    loadObjects();
+  } else if (isReplicationTab) {
+    logView.parentElement.style.display = "block";
+    replicationView.style.display = "block";
+    replicationToolbar.style.display = "flex";
+    fetchReplication();
+  } else if (isQueriesTab) {
+    logView.parentElement.style.display = "block";
+    queriesView.style.display = "block";
+    queriesToolbar.style.display = "flex";
+    fetchQueryStats();
+  } else if (isFaultsTab) {
+    logView.parentElement.style.display = "block";
+    faultsView.style.display = "block";
+    faultsToolbar.style.display = "flex";
+    fetchFaults();
   } else if (isHttpTab) {
     logView.parentElement.style.display = "block";
     httpView.style.display = "block";
@@ -795,6 +1091,7 @@ function switchTab(source, pushState) {
     httpCursor = 0;
     document.getElementById("http-body").innerHTML = "";
     fetchHttp();
+    fetchRecording();
   } else {
     logView.parentElement.style.display = "block";
     logView.style.display = "block";
@@ -852,6 +1149,21 @@ document.getElementById("http-path-filter").addEventListener("input", function()
   }, 300);
 });
 
+var objectsFilterTimeout = null;
+document.getElementById("objects-prefix").addEventListener("input", function() {
+  clearTimeout(objectsFilterTimeout);
+  objectsFilterTimeout = setTimeout(loadObjects, 300);
+});
+
+var replicationFilterTimeout = null;
+document.getElementById("replication-table-filter").addEventListener("input", function() {
+  clearTimeout(replicationFilterTimeout);
+  replicationFilterTimeout = setTimeout(fetchReplication, 300);
+});
+
+document.getElementById("queries-db").addEventListener("change", fetchQueryStats);
+document.getElementById("queries-sort").addEventListener("change", fetchQueryStats);
+
 logView.addEventListener("scroll", function() {
   var atBottom = logView.scrollHeight - logView.scrollTop - logView.clientHeight < 40;
   autoScroll = atBottom;
@@ -991,6 +1303,34 @@ function loadEnv() {
   }).catch(function() {});
 }
 
+// multi-project runs: the hub lists the projects and routes every other
+// request to the one named by the orez_project cookie
+function loadProjects() {
+  fetch("/api/projects").then(function(res) {
+    if (!res.ok) return null;
+    return res.json();
+  }).then(function(data) {
+    if (!data || !data.projects || data.projects.length === 0) return;
+    var select = document.getElementById("project-switcher");
+    select.innerHTML = "";
+    for (var i = 0; i < data.projects.length; i++) {
+      var p = data.projects[i];
+      var opt = document.createElement("option");
+      opt.value = p.name;
+      opt.textContent = p.name + (p.running ? "" : " (stopped)");
+      opt.selected = p.name === data.current;
+      select.appendChild(opt);
+    }
+    select.style.display = "";
+    document.title = data.current + " \u2014 oreZ admin";
+  }).catch(function() {});
+}
+
+document.getElementById("project-switcher").addEventListener("change", function() {
+  document.cookie = "orez_project=" + encodeURIComponent(this.value) + "; path=/";
+  location.reload();
+});
+
 function fetchStatus() {
   fetch("/api/status").then(function(res) { return res.json(); }).then(function(data) {
     document.getElementById("pg-port").textContent = ":" + data.pgPort;
@@ -1028,6 +1368,8 @@ function doAction(action, btn) {
         document.getElementById("http-body").innerHTML = "";
         httpCursor = 0;
       }
+      if (action === "clear-query-stats") fetchQueryStats();
+      if (action === "start-recording" || action === "stop-recording") fetchRecording();
     })
     .catch(function(err) {
       showToast("failed: " + err.message, "error");
@@ -1038,6 +1380,401 @@ function doAction(action, btn) {
     });
 }
 
+function toggleRecording(btn) {
+  doAction(recordingActive ? "stop-recording" : "start-recording", btn);
+}
+
+function fetchRecording() {
+  fetch("/api/recordings").then(function(res) { return res.json(); }).then(function(data) {
+    var btn = document.getElementById("record-btn");
+    var status = document.getElementById("recording-status");
+    if (!data.available) {
+      btn.style.display = "none";
+      return;
+    }
+    recordingActive = !!data.current;
+    btn.innerHTML = recordingActive ? "&#x25a0; Stop" : "&#x25cf; Record";
+    if (data.current) {
+      status.textContent = "recording " + data.current.name + " (" + (data.current.events || 0) + " events, " + fmtSize(data.current.sizeBytes) + ")";
+    } else if (data.recordings.length > 0) {
+      var last = data.recordings[0];
+      status.innerHTML = 'last capture: <a href="/api/recordings/download?name=' + encodeURIComponent(last.name) + '">' + escHtml(last.name) + "</a> (" + fmtSize(last.sizeBytes) + ")";
+    } else {
+      status.textContent = "";
+    }
+  }).catch(function() {});
+}
+
+function loadSnapshots() {
+  fetch("/api/snapshots").then(function(res) { return res.json(); }).then(function(data) {
+    var tbody = document.getElementById("snapshot-body");
+    tbody.innerHTML = "";
+    if (data.snapshots.length === 0) {
+      tbody.innerHTML = '<tr><td colspan="4" style="color:var(--text-dim)">no snapshots yet</td></tr>';
+      return;
+    }
+    for (var i = data.snapshots.length - 1; i >= 0; i--) {
+      var snap = data.snapshots[i];
+      var tr = document.createElement("tr");
+      tr.innerHTML = "<td>" + escHtml(snap.name) + "</td><td>" + escHtml(new Date(snap.createdAt).toLocaleString()) + "</td><td>" + fmtSize(snap.sizeBytes) + "</td><td></td>";
+      tr.lastChild.appendChild(snapshotButton("restore", "orange", "&#x21ba; Restore", snap.name));
+      tr.lastChild.appendChild(snapshotButton("delete", "red", "&#x2715; Delete", snap.name));
+      tbody.appendChild(tr);
+    }
+  }).catch(function() {});
+}
+
+function snapshotButton(verb, color, label, name) {
+  var btn = document.createElement("button");
+  btn.className = "action-btn " + color;
+  btn.innerHTML = label;
+  btn.addEventListener("click", function() { snapshotAction(verb, name, btn); });
+  return btn;
+}
+
+function snapshotAction(verb, name, btn) {
+  if (!name) { showToast("enter a snapshot name", "error"); return; }
+  if (verb === "restore" && !confirm("Restore snapshot '" + name + "'? The current databases and zero replica are replaced.")) return;
+  if (verb === "delete" && !confirm("Delete snapshot '" + name + "'?")) return;
+  btn.disabled = true;
+  var origText = btn.textContent;
+  btn.textContent = "...";
+  fetch("/api/actions/snapshot-" + verb, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: name })
+  })
+    .then(function(res) { return res.json(); })
+    .then(function(data) {
+      showToast(data.message || "done", data.ok ? "success" : "error");
+      if (data.ok && verb === "save") document.getElementById("snapshot-name").value = "";
+      loadSnapshots();
+    })
+    .catch(function(err) {
+      showToast("failed: " + err.message, "error");
+    })
+    .finally(function() {
+      btn.disabled = false;
+      btn.textContent = origText;
+    });
+}
+
+function seedAction(reset, btn) {
+  if (reset && !confirm("Reset and seed? Every app table is emptied and all seeds run again.")) return;
+  btn.disabled = true;
+  var origText = btn.textContent;
+  btn.textContent = "...";
+  fetch("/api/actions/seed", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reset: reset })
+  })
+    .then(function(res) { return res.json(); })
+    .then(function(data) {
+      showToast(data.message || "done", data.ok ? "success" : "error");
+      if (data.ok && !isSqlite) loadTables();
+    })
+    .catch(function(err) {
+      showToast("failed: " + err.message, "error");
+    })
+    .finally(function() {
+      btn.disabled = false;
+      btn.textContent = origText;
+    });
+}
+
+function loadObjects() {
+  var params = new URLSearchParams();
+  var prefix = document.getElementById("objects-prefix").value.trim();
+  if (prefix) params.set("prefix", prefix);
+  fetch("/api/s3/objects?" + params).then(function(res) { return res.json(); }).then(function(data) {
+    var tbody = document.getElementById("objects-body");
+    tbody.innerHTML = "";
+    document.getElementById("objects-status").textContent = data.objects.length + (data.truncated ? "+" : "") + " objects";
+    if (data.objects.length === 0) {
+      tbody.innerHTML = '<tr><td colspan="4" style="color:var(--text-dim)">no objects' + (prefix ? " under this prefix" : " stored (start orez with --s3)") + '</td></tr>';
+      return;
+    }
+    for (var i = 0; i < data.objects.length; i++) {
+      var obj = data.objects[i];
+      var tr = document.createElement("tr");
+      tr.className = "http-row";
+      tr.innerHTML = '<td class="path">' + escHtml(obj.key) + "</td>"
+        + "<td>" + escHtml(obj.contentType) + "</td>"
+        + '<td class="sz">' + fmtSize(obj.size) + "</td>"
+        + '<td class="dur">' + escHtml(new Date(obj.lastModified).toLocaleString()) + "</td>";
+      tr.addEventListener("click", (function(o) {
+        return function() { toggleObjectDetail(this, o); };
+      })(obj));
+      tbody.appendChild(tr);
+    }
+  }).catch(function() {});
+}
+
+function toggleObjectDetail(row, obj) {
+  var next = row.nextElementSibling;
+  if (next && next.classList.contains("http-detail")) {
+    next.classList.toggle("open");
+    return;
+  }
+  var fields = { "etag": obj.etag, "content-type": obj.contentType, "size": obj.size + " bytes", "last-modified": obj.lastModified };
+  var hk = Object.keys(obj.headers).sort();
+  for (var i = 0; i < hk.length; i++) fields[hk[i]] = obj.headers[hk[i]];
+  var html = '<td colspan="4"><div class="hdr-section"><div class="hdr-title">object</div>';
+  for (var key in fields) {
+    html += '<div class="hdr-line"><span class="hdr-key">' + escHtml(key) + '</span>: <span class="hdr-val">' + escHtml(String(fields[key])) + "</span></div>";
+  }
+  html += "</div>";
+  var mk = Object.keys(obj.metadata).sort();
+  html += '<div class="hdr-section"><div class="hdr-title">metadata</div>';
+  if (mk.length === 0) html += '<div class="hdr-line"><span class="hdr-val">none</span></div>';
+  for (var j = 0; j < mk.length; j++) {
+    html += '<div class="hdr-line"><span class="hdr-key">x-amz-meta-' + escHtml(mk[j]) + '</span>: <span class="hdr-val">' + escHtml(obj.metadata[mk[j]]) + "</span></div>";
+  }
+  html += "</div></td>";
+  var detail = document.createElement("tr");
+  detail.className = "http-detail open";
+  detail.innerHTML = html;
+  row.parentNode.insertBefore(detail, row.nextSibling);
+}
+
+function fmtAgo(ts) {
+  if (!ts) return "never";
+  var s = Math.max(0, Math.round((Date.now() - ts) / 1000));
+  if (s < 60) return s + "s ago";
+  if (s < 3600) return Math.floor(s / 60) + "m " + (s % 60) + "s ago";
+  return Math.floor(s / 3600) + "h " + Math.floor((s % 3600) / 60) + "m ago";
+}
+
+function fmtOpCounts(counts) {
+  var parts = [];
+  ["INSERT", "UPDATE", "DELETE", "TRUNCATE"].forEach(function(op) {
+    if (counts[op]) parts.push(op.toLowerCase() + " " + counts[op]);
+  });
+  return parts.length ? parts.join(", ") : "-";
+}
+
+function fetchReplication() {
+  fetch("/api/replication").then(function(res) { return res.json(); }).then(function(data) {
+    var state = document.getElementById("replication-state");
+    var tables = document.getElementById("replication-tables");
+    if (!data.available) {
+      state.innerHTML = '<tr><td colspan="2" style="color:var(--text-dim)">replication inspector unavailable: ' + escHtml(data.message || "") + "</td></tr>";
+      tables.innerHTML = "";
+      return;
+    }
+    var newest = data.unconfirmedBatches.length ? data.unconfirmedBatches[0] : null;
+    var rows = [
+      ["watermark", data.watermark],
+      ["last streamed watermark", data.lastStreamedWatermark],
+      ["changes in log", data.pendingChanges],
+      ["unconfirmed batches", data.unconfirmedBatchCount + (newest ? " (newest " + newest.batchLsn + " \u2192 wm " + newest.batchEnd + ")" : "")],
+      ["confirmed flush lsn", data.confirmedFlushLsn]
+    ];
+    for (var i = 0; i < data.slots.length; i++) {
+      var slot = data.slots[i];
+      rows.push(["slot " + slot.slot_name, slot.confirmed_flush_lsn + (slot.active ? " (active)" : "")]);
+    }
+    rows.push(["last write", fmtAgo(data.lastWriteSignalAt)]);
+    rows.push(["last stream activity", fmtAgo(data.lastStreamActivityAt)]);
+    rows.push(["last confirm", fmtAgo(data.lastConfirmProgressAt)]);
+    state.innerHTML = rows.map(function(r) {
+      return "<tr><td>" + escHtml(r[0]) + "</td><td>" + escHtml(String(r[1])) + "</td></tr>";
+    }).join("");
+    tables.innerHTML = data.tables.length === 0
+      ? '<tr><td colspan="3" style="color:var(--text-dim)">no changes yet</td></tr>'
+      : data.tables.map(function(t) {
+        return '<tr><td class="path">' + escHtml(t.table) + "</td><td>" + fmtOpCounts(t.pending) + "</td><td>" + fmtOpCounts(t.streamed) + "</td></tr>";
+      }).join("");
+  }).catch(function() {});
+
+  var params = new URLSearchParams();
+  var filter = document.getElementById("replication-table-filter").value.trim();
+  if (filter) params.set("table", filter);
+  fetch("/api/replication/changes?" + params).then(function(res) { return res.json(); }).then(function(data) {
+    renderReplicationChanges(data.entries || []);
+  }).catch(function() {});
+}
+
+function renderReplicationChanges(entries) {
+  var tbody = document.getElementById("replication-changes");
+  var pending = entries.filter(function(e) { return e.status === "pending"; }).length;
+  document.getElementById("replication-status").textContent = entries.length + " changes, " + pending + " not yet streamed";
+  tbody.innerHTML = "";
+  if (entries.length === 0) {
+    tbody.innerHTML = '<tr><td colspan="7" style="color:var(--text-dim)">no recent changes</td></tr>';
+    return;
+  }
+  // newest first
+  for (var i = entries.length - 1; i >= 0; i--) {
+    var e = entries[i];
+    var tr = document.createElement("tr");
+    tr.className = "http-row";
+    tr.innerHTML = "<td>" + (e.streamedAt ? fmtTime(e.streamedAt) : "-") + "</td>"
+      + '<td><span class="status ' + (e.status === "pending" ? "pending" : "s2") + '">' + e.status + "</span></td>"
+      + '<td><span class="method ' + (e.op === "INSERT" ? "post" : e.op === "UPDATE" ? "put" : "delete") + '">' + e.op + "</span></td>"
+      + '<td class="path">' + escHtml(e.table_name) + "</td>"
+      + '<td class="dur">' + e.watermark + "</td>"
+      + '<td class="dur">' + (e.batchLsn || "-") + "</td>"
+      + '<td class="sz">' + escHtml(e.changed.join(", ")) + "</td>";
+    tr.addEventListener("click", (function(entry) {
+      return function() {
+        replicationOpen[entry.watermark] = !replicationOpen[entry.watermark];
+        var next = this.nextElementSibling;
+        if (next && next.classList.contains("http-detail")) next.classList.toggle("open");
+      };
+    })(e));
+    tbody.appendChild(tr);
+    var detail = document.createElement("tr");
+    detail.className = "http-detail" + (replicationOpen[e.watermark] ? " open" : "");
+    detail.innerHTML = '<td colspan="7">' + changeDiffHtml(e) + "</td>";
+    tbody.appendChild(detail);
+  }
+}
+
+function fmtMs(ms) {
+  return ms >= 100 ? Math.round(ms) + "ms" : ms.toFixed(1) + "ms";
+}
+
+function fmtTimings(t) {
+  return fmtMs(t.p50) + " / " + fmtMs(t.p95) + " / " + fmtMs(t.max);
+}
+
+function fetchQueryStats() {
+  var params = new URLSearchParams();
+  var db = document.getElementById("queries-db").value;
+  if (db) params.set("db", db);
+  params.set("sort", document.getElementById("queries-sort").value);
+  fetch("/api/query-stats?" + params).then(function(res) { return res.json(); }).then(function(data) {
+    var tbody = document.getElementById("queries-body");
+    var status = document.getElementById("queries-status");
+    if (!data.available) {
+      status.textContent = "";
+      tbody.innerHTML = '<tr><td colspan="7" style="color:var(--text-dim)">' + escHtml(data.message || "query stats unavailable") + "</td></tr>";
+      return;
+    }
+    status.textContent = data.total + " fingerprints since " + fmtTime(data.since)
+      + (data.slowQueryMs > 0 ? ", slow log \u2265 " + data.slowQueryMs + "ms" : ", slow log off");
+    tbody.innerHTML = "";
+    if (data.entries.length === 0) {
+      tbody.innerHTML = '<tr><td colspan="7" style="color:var(--text-dim)">no statements recorded yet</td></tr>';
+      return;
+    }
+    for (var i = 0; i < data.entries.length; i++) {
+      var q = data.entries[i];
+      var key = q.database + "|" + q.applicationName + "|" + q.fingerprint;
+      var tr = document.createElement("tr");
+      tr.className = "http-row";
+      tr.innerHTML = '<td class="path">' + escHtml(q.fingerprint) + "</td>"
+        + "<td>" + escHtml(q.database) + "</td>"
+        + "<td>" + escHtml(q.applicationName || "-") + "</td>"
+        + '<td class="sz">' + q.count + "</td>"
+        + '<td class="dur">' + fmtMs(q.totalExecMs) + "</td>"
+        + '<td class="dur">' + fmtTimings(q.execMs) + "</td>"
+        + '<td class="dur">' + fmtTimings(q.waitMs) + "</td>";
+      tr.addEventListener("click", (function(k) {
+        return function() {
+          queriesOpen[k] = !queriesOpen[k];
+          var next = this.nextElementSibling;
+          if (next && next.classList.contains("http-detail")) next.classList.toggle("open");
+        };
+      })(key));
+      tbody.appendChild(tr);
+      var detail = document.createElement("tr");
+      detail.className = "http-detail" + (queriesOpen[key] ? " open" : "");
+      detail.innerHTML = '<td colspan="7"><div class="hdr-section"><div class="hdr-title">fingerprint</div><pre>' + escHtml(q.fingerprint) + "</pre></div>"
+        + '<div class="hdr-section"><div class="hdr-title">last statement (' + escHtml(fmtAgo(q.lastSeen)) + ")</div><pre>" + escHtml(q.example) + "</pre></div></td>";
+      tbody.appendChild(detail);
+    }
+  }).catch(function() {});
+}
+
+function faultAction(verb, body, btn) {
+  if (verb === "kill-zero" && body.armed !== false && !confirm("Kill zero-cache on the next client request? It stays down until restarted.")) return;
+  btn.disabled = true;
+  var origText = btn.textContent;
+  btn.textContent = "...";
+  fetch("/api/actions/fault-" + verb, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  })
+    .then(function(res) { return res.json(); })
+    .then(function(data) {
+      showToast(data.message || "done", data.ok ? "success" : "error");
+      fetchFaults();
+    })
+    .catch(function(err) {
+      showToast("failed: " + err.message, "error");
+    })
+    .finally(function() {
+      btn.disabled = false;
+      btn.textContent = origText;
+    });
+}
+
+function setFaultState(id, text, armed) {
+  var el = document.getElementById(id);
+  el.textContent = text;
+  el.classList.toggle("armed", armed);
+}
+
+function fetchFaults() {
+  fetch("/api/faults").then(function(res) { return res.json(); }).then(function(data) {
+    var status = document.getElementById("faults-status");
+    if (!data.available) {
+      status.textContent = "fault injection unavailable";
+      return;
+    }
+    var active = [];
+    if (data.pgLatencyMs > 0) {
+      active.push("latency");
+      setFaultState("fault-latency-state", data.pgLatencyMs + "ms on " + (data.pgLatencyDatabase || "all dbs"), true);
+    } else {
+      setFaultState("fault-latency-state", data.pgProxy ? "off" : "needs the pglite proxy", false);
+    }
+    if (data.pushFailures) {
+      active.push("push");
+      setFaultState("fault-push-state", data.pushFailures.remaining + " left (" + data.pushFailures.status + ")", true);
+    } else {
+      setFaultState("fault-push-state", data.pushTarget ? "off, relaying to " + data.pushTarget : "needs a single zeroMutateUrl", false);
+    }
+    if (data.replicationPausedUntil > 0) {
+      active.push("replication");
+      setFaultState("fault-pause-state", "paused, " + Math.ceil((data.replicationPausedUntil - Date.now()) / 1000) + "s left", true);
+    } else {
+      setFaultState("fault-pause-state", data.pgProxy ? "streaming" : "needs the pglite backend", false);
+    }
+    if (data.killZeroArmed) {
+      active.push("kill");
+      setFaultState("fault-kill-state", "armed", true);
+    } else {
+      setFaultState("fault-kill-state", data.zeroRunning ? "off" : "zero-cache not running", false);
+    }
+    status.textContent = active.length ? "active: " + active.join(", ") : "no faults active";
+  }).catch(function() {});
+}
+
+function changeDiffHtml(e) {
+  var html = '<div class="hdr-section">';
+  if (e.op === "UPDATE" && e.old_data && e.row_data) {
+    html += '<div class="hdr-title">changed columns</div>';
+    if (e.changed.length === 0) html += '<div class="hdr-line"><span class="hdr-val">none</span></div>';
+    for (var i = 0; i < e.changed.length; i++) {
+      var col = e.changed[i];
+      html += '<div class="hdr-line"><span class="hdr-key">' + escHtml(col) + '</span>: <span class="diff-old">' + escHtml(JSON.stringify(e.old_data[col])) + '</span> \u2192 <span class="hdr-val">' + escHtml(JSON.stringify(e.row_data[col])) + "</span></div>";
+    }
+    html += '</div><div class="hdr-section">';
+  }
+  var row = e.op === "DELETE" ? e.old_data : e.row_data;
+  html += '<div class="hdr-title">' + (e.op === "DELETE" ? "deleted row" : e.op === "TRUNCATE" ? "truncated" : "row") + "</div>";
+  var keys = Object.keys(row || {});
+  for (var j = 0; j < keys.length; j++) {
+    html += '<div class="hdr-line"><span class="hdr-key">' + escHtml(keys[j]) + '</span>: <span class="hdr-val">' + escHtml(JSON.stringify(row[keys[j]])) + "</span></div>";
+  }
+  return html + "</div>";
+}
+
 function showToast(msg, type) {
   toastEl.textContent = msg;
   toastEl.className = "toast " + type + " show";
@@ -1295,19 +2032,32 @@ sqlEditor.addEventListener("keydown", function(e) {
 
 // --- polling ---
 
+loadProjects();
 fetchStatus();
 setInterval(function() {
   if (document.hidden) return;
   if (isDataTab) return;
-  if (isHttpTab) fetchHttp();
-  else if (!isEnvTab) fetchLogs();
+  if (isHttpTab) {
+    fetchHttp();
+    if (recordingActive) fetchRecording();
+  }
+  else if (isReplicationTab) fetchReplication();
+  else if (isQueriesTab) fetchQueryStats();
+  else if (isFaultsTab) fetchFaults();
+  else if (!isEnvTab && !isSnapshotsTab && !isObjectsTab) fetchLogs();
 }, 1000);
 setInterval(function() { if (!document.hidden) fetchStatus(); }, 5000);
 document.addEventListener("visibilitychange", function() {
   if (document.hidden) return;
   if (isDataTab) return;
-  if (isHttpTab) fetchHttp();
-  else if (!isEnvTab) fetchLogs();
+  if (isHttpTab) {
+    fetchHttp();
+    if (recordingActive) fetchRecording();
+  }
+  else if (isReplicationTab) fetchReplication();
+  else if (isQueriesTab) fetchQueryStats();
+  else if (isFaultsTab) fetchFaults();
+  else if (!isEnvTab && !isSnapshotsTab && !isObjectsTab) fetchLogs();
   fetchStatus();
 });
 window.addEventListener("popstate", function() {
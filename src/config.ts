@@ -43,6 +43,53 @@ export type ContextHookCallback = (ctx: HookContext) => void | Promise<void>
 // opts into the race-free startup barrier and its privileged HookContext URLs.
 export type Hook = string | LegacyHookCallback | ContextHookCallback
 
+/** the user and client a realtime socket authenticated as */
+export interface RealtimeIdentity {
+  readonly userID: string
+  readonly clientID: string
+  readonly clientGroupID: string
+}
+
+/**
+ * options for `realtime`. `orez-lite` is an optional dependency, so its
+ * `RealtimeServerOptions` is mirrored here structurally rather than imported,
+ * and these are handed to it as they are.
+ */
+export interface RealtimeOptions {
+  /** default: 6480, or the next free port after it */
+  port?: number
+  /** the `defineStreamingFields(...).manifest` the app's client uses */
+  streamingManifest: {
+    readonly fields: ReadonlyMap<string, unknown>
+    readonly schemaKey: string
+  }
+  /** identify a subscriber; the answer must carry a userID */
+  authorizeWake(
+    request: Request
+  ): boolean | { userID: string } | Promise<boolean | { userID: string }>
+  /**
+   * authorize a field subscription; absent allows every one. presence rooms
+   * go through `authorizePresence` instead
+   */
+  authorizeSubscribe?: (
+    identity: RealtimeIdentity,
+    topic:
+      | {
+          readonly table: string
+          readonly key: Readonly<Record<string, unknown>>
+          readonly field: string
+        }
+      | { readonly room: string },
+    spec: unknown
+  ) => boolean | Promise<boolean>
+  /** authorize a producer socket; absent refuses every producer */
+  authorizeProduce?(request: Request): boolean | Promise<boolean>
+  /** authorize a presence join; absent refuses every join */
+  authorizePresence?(room: string, identity: RealtimeIdentity): boolean | Promise<boolean>
+  /** hub limits, by orez-lite's `HubLimits` names */
+  limits?: Readonly<Record<string, number>>
+}
+
 export interface ZeroLiteConfig {
   /**
    * database backend:
@@ -58,7 +105,10 @@ export interface ZeroLiteConfig {
   pgUser: string
   pgPassword: string
   migrationsDir: string
+  /** seed file, or directory of .sql/.ts seed modules */
   seedFile: string
+  /** seed profile subdirectory applied after the base seeds ('' for none) */
+  seedProfile: string
   skipZeroCache: boolean
   disableWasmSqlite: boolean
   forceWasmSqlite: boolean
@@ -76,6 +126,7 @@ export interface ZeroLiteConfig {
   checkpointIntervalMs: number // WAL checkpoint interval (default: 5min)
   maxLogFileSize: number // log rotation threshold in bytes (default: 2MB)
   disableDiskLogs: boolean // skip writing logs to disk (default: false)
+  slowQueryMs: number // log statements slower than this to proxy.log (default: 0 = off)
   // lifecycle hooks
   onDbReady?: Hook // after db+proxy ready, before zero-cache
   onDbReadyTimeoutMs?: number // bounded startup-hook/barrier wait (default: 30s)
@@ -112,10 +163,12 @@ export interface OrezConfig {
   migrationsDir?: string
   /** alias for migrationsDir */
   migrations?: string
-  /** seed file path */
+  /** seed file, or directory of .sql/.ts seed modules */
   seedFile?: string
   /** alias for seedFile */
   seed?: string
+  /** seed profile: also apply the seeds in `<seed dir>/<profile>/` */
+  seedProfile?: string
   /** run pglite + proxy only, skip zero-cache */
   skipZeroCache?: boolean
   /** also start a local s3-compatible server */
@@ -158,8 +211,32 @@ export interface OrezConfig {
   maxLogFileSize?: number
   /** disable writing logs to disk (default: false) */
   disableDiskLogs?: boolean
+  /** log the full SQL and parameters of statements slower than this many ms (default: 0 = off) */
+  slowQueryMs?: number
+  /** apply migrations added to the migrations directory while running (default: false) */
+  watchMigrations?: boolean
+  /**
+   * serve streaming fields and presence over websockets, as sync-cf-host does:
+   * subscribers on `/realtime/subscribe`, producers on `/realtime/produce`.
+   * takes the same manifest and authorization callbacks as the deployed host.
+   * needs the optional `orez-lite` package. port defaults to 6480.
+   */
+  realtime?: RealtimeOptions
+  /**
+   * named projects run side by side, each with its own databases, migrations,
+   * seed and zero-cache. top-level options are defaults for every project.
+   * the pg proxy on pgPort routes database `<name>` (and `<name>_cvr`,
+   * `<name>_cdb`) to the matching project.
+   */
+  projects?: Record<string, OrezProjectConfig>
 }
 
+/** one entry of `OrezConfig.projects`; the shared ports stay top-level */
+export type OrezProjectConfig = Omit<
+  OrezConfig,
+  'projects' | 'pgPort' | 'adminPort' | 'disableAdmin'
+>
+
 /** type-safe helper for orez.config.ts */
 export function defineConfig(config: OrezConfig): OrezConfig {
   return config
@@ -178,6 +255,7 @@ export function getConfig(overrides: Partial<ZeroLiteConfig> = {}): ZeroLiteConf
     pgPassword: overrides.pgPassword || 'password',
     migrationsDir: overrides.migrationsDir || '',
     seedFile: overrides.seedFile || 'src/database/seed.sql',
+    seedProfile: overrides.seedProfile || '',
     skipZeroCache: overrides.skipZeroCache || false,
     disableWasmSqlite: overrides.disableWasmSqlite ?? false,
     forceWasmSqlite: overrides.forceWasmSqlite ?? false,
@@ -195,6 +273,7 @@ export function getConfig(overrides: Partial<ZeroLiteConfig> = {}): ZeroLiteConf
     checkpointIntervalMs: overrides.checkpointIntervalMs ?? 5 * 60 * 1000,
     maxLogFileSize: overrides.maxLogFileSize ?? 2 * 1024 * 1024,
     disableDiskLogs: overrides.disableDiskLogs ?? false,
+    slowQueryMs: overrides.slowQueryMs ?? 0,
     onDbReady: overrides.onDbReady,
     onDbReadyTimeoutMs: overrides.onDbReadyTimeoutMs ?? 30_000,
     onHealthy: overrides.onHealthy,
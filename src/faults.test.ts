@@ -0,0 +1,148 @@
+import { createServer, type Server } from 'node:http'
+
+import { PGlite } from '@electric-sql/pglite'
+import postgres from 'postgres'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { getConfig } from './config.js'
+import { canRelayMutateUrl, createFaultInjector, startPushRelay } from './faults.js'
+import { startPgProxy, type PgProxyServer } from './pg-proxy.js'
+
+import type { AddressInfo } from 'node:net'
+
+describe('createFaultInjector', () => {
+  it('counts down push failures and scopes latency by database', () => {
+    const faults = createFaultInjector()
+    faults.failPushes(2, 503)
+    expect(faults.takePushFailure()).toBe(503)
+    expect(faults.state().pushFailures).toEqual({ remaining: 1, status: 503 })
+    expect(faults.takePushFailure()).toBe(503)
+    expect(faults.takePushFailure()).toBeNull()
+
+    faults.setPgLatency(50, 'postgres')
+    expect(faults.pgLatency('postgres')).toBe(50)
+    expect(faults.pgLatency('zero_cvr')).toBe(0)
+    faults.clear()
+    expect(faults.pgLatency('postgres')).toBe(0)
+  })
+
+  it('kills zero-cache once, on the first request after arming', () => {
+    const killZero = vi.fn()
+    const faults = createFaultInjector({ killZero })
+    faults.requestForwarded()
+    faults.armZeroKill(true)
+    faults.requestForwarded()
+    faults.requestForwarded()
+    expect(killZero).toHaveBeenCalledTimes(1)
+    expect(faults.state().killZeroArmed).toBe(false)
+  })
+
+  it('only relays a single concrete mutate url', () => {
+    expect(canRelayMutateUrl('http://localhost:3000/api/push')).toBe(true)
+    expect(canRelayMutateUrl('http://localhost:3000/api/*')).toBe(false)
+    expect(canRelayMutateUrl('http://a/push,http://b/push')).toBe(false)
+  })
+})
+
+describe('startPushRelay', () => {
+  let app: Server
+  let relay: Server | undefined
+
+  afterEach(async () => {
+    relay?.close()
+    await new Promise((resolve) => app.close(resolve))
+  })
+
+  it('forwards pushes and fails the armed ones', async () => {
+    app = createServer((req, res) => {
+      let body = ''
+      req.on('data', (c) => (body += c))
+      req.on('end', () => {
+        res.writeHead(200, { 'content-type': 'application/json' })
+        res.end(JSON.stringify({ url: req.url, body }))
+      })
+    })
+    await new Promise<void>((resolve) => app.listen(0, '127.0.0.1', resolve))
+    const target = `http://127.0.0.1:${(app.address() as AddressInfo).port}/api/push`
+
+    const faults = createFaultInjector()
+    const started = await startPushRelay(target, faults)
+    relay = started.server
+    expect(faults.state().pushTarget).toBe(target)
+
+    const push = () =>
+      fetch(`${started.url}?schema=app&appID=zero`, { method: 'POST', body: '{"m":1}' })
+
+    const ok = await push()
+    expect(ok.status).toBe(200)
+    expect(await ok.json()).toEqual({
+      url: '/api/push?schema=app&appID=zero',
+      body: '{"m":1}',
+    })
+
+    faults.failPushes(1, 502)
+    expect((await push()).status).toBe(502)
+    expect((await push()).status).toBe(200)
+  })
+
+  it('passes response headers through with each cookie kept apart', async () => {
+    app = createServer((req, res) => {
+      res.setHeader('set-cookie', ['a=1; Path=/', 'b=2; Path=/'])
+      res.writeHead(200, { 'content-type': 'application/json', 'x-app': 'yes' })
+      res.end(JSON.stringify({ encoding: req.headers['accept-encoding'] }))
+    })
+    await new Promise<void>((resolve) => app.listen(0, '127.0.0.1', resolve))
+    const target = `http://127.0.0.1:${(app.address() as AddressInfo).port}/api/push`
+    const started = await startPushRelay(target, createFaultInjector())
+    relay = started.server
+
+    const res = await fetch(started.url, { method: 'POST', body: '{}' })
+    expect(res.headers.getSetCookie()).toEqual(['a=1; Path=/', 'b=2; Path=/'])
+    expect(res.headers.get('x-app')).toBe('yes')
+    expect(await res.json()).toEqual({ encoding: 'identity' })
+  })
+})
+
+describe('pg proxy latency', () => {
+  let db: PGlite | undefined
+  let server: PgProxyServer | undefined
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      if (!server) return resolve()
+      server.close(() => resolve())
+    })
+    server = undefined
+    await db?.close()
+    db = undefined
+  })
+
+  it('delays each round trip on the targeted database', async () => {
+    db = new PGlite()
+    await db.waitReady
+    const faults = createFaultInjector()
+    server = await startPgProxy(db, { ...getConfig(), pgPort: 0 }, undefined, faults)
+    const sql = postgres({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      user: 'user',
+      password: 'password',
+      database: 'postgres',
+      max: 1,
+    })
+    try {
+      await sql`SELECT 1`
+      faults.setPgLatency(150, 'postgres')
+      let start = performance.now()
+      await sql`SELECT 1`
+      expect(performance.now() - start).toBeGreaterThanOrEqual(140)
+
+      faults.setPgLatency(150, 'zero_cvr')
+      start = performance.now()
+      await sql`SELECT 1`
+      expect(performance.now() - start).toBeLessThan(140)
+    } finally {
+      await sql.end({ timeout: 1 })
+    }
+  })
+})
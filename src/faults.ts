@@ -0,0 +1,188 @@
+/**
+ * fault injection for rehearsing network and server failures locally.
+ *
+ * the admin dashboard arms faults here and the affected layers consult it:
+ * the pg proxy sleeps before each statement round trip, the push relay
+ * (which zero-cache is pointed at only while push failures are armed)
+ * answers zero-cache's mutate calls with an error status, and the http proxy
+ * kills zero-cache after forwarding the next client request. replication
+ * pauses live in the replication handler (see `pauseReplication`).
+ */
+
+import { createServer, type Server } from 'node:http'
+
+import { log } from './log.js'
+
+import type { AddressInfo } from 'node:net'
+
+export interface FaultState {
+  /** added before every pg proxy round trip, 0 when off */
+  pgLatencyMs: number
+  /** only delay connections to this database, all when unset */
+  pgLatencyDatabase?: string
+  /** remaining mutate calls to fail, and with which status */
+  pushFailures: { remaining: number; status: number } | null
+  /** zero-cache is killed once the next client request is forwarded */
+  killZeroArmed: boolean
+  /** app endpoint behind the push relay, null when pushes aren't relayed */
+  pushTarget: string | null
+  /** pg latency and replication pauses need orez's own pg proxy */
+  pgProxy: boolean
+}
+
+export interface FaultInjector {
+  /** set by startPushRelay */
+  pushTarget: string | null
+  state(): FaultState
+  /** delay for a statement on `database`, 0 when no latency applies */
+  pgLatency(database: string): number
+  setPgLatency(ms: number, database?: string): void
+  failPushes(count: number, status: number): void
+  /** consume one armed push failure, returning its status */
+  takePushFailure(): number | null
+  armZeroKill(armed: boolean): void
+  /** called by the http proxy once a client request is in flight */
+  requestForwarded(): void
+  clear(): void
+}
+
+export function createFaultInjector(
+  opts: {
+    pgProxy?: boolean
+    killZero?: () => void
+  } = {}
+): FaultInjector {
+  let pgLatencyMs = 0
+  let pgLatencyDatabase: string | undefined
+  let pushFailures: FaultState['pushFailures'] = null
+  let killZeroArmed = false
+
+  const injector: FaultInjector = {
+    pushTarget: null,
+    state() {
+      return {
+        pgLatencyMs,
+        pgLatencyDatabase,
+        pushFailures: pushFailures && { ...pushFailures },
+        killZeroArmed,
+        pushTarget: injector.pushTarget,
+        pgProxy: opts.pgProxy ?? true,
+      }
+    },
+    pgLatency(database) {
+      if (pgLatencyMs <= 0) return 0
+      if (pgLatencyDatabase && pgLatencyDatabase !== database) return 0
+      return pgLatencyMs
+    },
+    setPgLatency(ms, database) {
+      pgLatencyMs = Math.max(0, ms)
+      pgLatencyDatabase = pgLatencyMs > 0 ? database || undefined : undefined
+    },
+    failPushes(count, status) {
+      pushFailures = count > 0 ? { remaining: count, status } : null
+    },
+    takePushFailure() {
+      if (!pushFailures) return null
+      const { status } = pushFailures
+      if (--pushFailures.remaining <= 0) pushFailures = null
+      return status
+    },
+    armZeroKill(armed) {
+      killZeroArmed = armed
+    },
+    requestForwarded() {
+      if (!killZeroArmed) return
+      killZeroArmed = false
+      log.orez('fault: killing zero-cache mid-request')
+      opts.killZero?.()
+    },
+    clear() {
+      pgLatencyMs = 0
+      pgLatencyDatabase = undefined
+      pushFailures = null
+      killZeroArmed = false
+    },
+  }
+  return injector
+}
+
+/**
+ * true when ZERO_MUTATE_URL is one concrete url that a relay can stand in
+ * for. url patterns and lists are left alone.
+ */
+export function canRelayMutateUrl(mutateUrl: string): boolean {
+  return !/[*,\s]/.test(mutateUrl) && URL.canParse(mutateUrl)
+}
+
+/**
+ * forwards zero-cache's push (mutate) requests to the app's endpoint, or
+ * answers them with the armed failure status so zero-cache reports a
+ * PushFailed error to the client exactly as it would for a real outage.
+ * with no failure armed every push is passed through unchanged. resolves with
+ * the url zero-cache uses as ZERO_MUTATE_URL.
+ */
+export async function startPushRelay(
+  target: string,
+  faults: FaultInjector
+): Promise<{ server: Server; url: string }> {
+  const targetUrl = new URL(target)
+  faults.pushTarget = target
+
+  const server = createServer(async (req, res) => {
+    const status = faults.takePushFailure()
+    if (status !== null) {
+      log.orez(`fault: failing push with ${status}`)
+      // drain the body so zero-cache sees a clean response, not a reset
+      req.resume()
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: `injected push failure (${status})` }))
+      return
+    }
+
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk as Buffer)
+    // the relay serves the target's path, so the request keeps its query
+    const url = new URL(req.url || '/', targetUrl)
+    const headers = new Headers()
+    for (const [key, value] of Object.entries(req.headers)) {
+      if (key === 'host' || key === 'connection' || key === 'content-length') continue
+      if (value !== undefined) headers.set(key, String(value))
+    }
+    // fetch decodes compressed bodies, so ask for none and the response's own
+    // headers stay true to the bytes passed on
+    headers.set('accept-encoding', 'identity')
+    try {
+      const response = await fetch(url, {
+        method: req.method,
+        headers,
+        body: chunks.length ? Buffer.concat(chunks) : undefined,
+      })
+      const body = Buffer.from(await response.arrayBuffer())
+      const resHeaders: Record<string, string | string[]> = {}
+      response.headers.forEach((value, key) => {
+        // the body goes out whole, so node frames it itself
+        if (key === 'content-length' || key === 'transfer-encoding') return
+        if (key === 'connection' || key === 'set-cookie') return
+        resHeaders[key] = value
+      })
+      const cookies = response.headers.getSetCookie()
+      if (cookies.length) resHeaders['set-cookie'] = cookies
+      res.writeHead(response.status, resHeaders)
+      res.end(body)
+    } catch (err: any) {
+      log.orez(`push relay: ${url.origin} unreachable: ${err?.message || err}`)
+      res.writeHead(502, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: 'push endpoint unreachable' }))
+    }
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve())
+    server.on('error', reject)
+  })
+  const { port } = server.address() as AddressInfo
+  return {
+    server,
+    url: `http://127.0.0.1:${port}${targetUrl.pathname}${targetUrl.search}`,
+  }
+}
@@ -25,6 +25,7 @@ import {
   type HttpLogStore,
 } from './admin/http-proxy.js'
 import { createLogStore, type LogStore } from './admin/log-store.js'
+import { createTrafficRecorder, type TrafficRecorder } from './admin/traffic-recorder.js'
 import {
   isChildProcessRunning,
   isPidRunning,
@@ -33,6 +34,7 @@ import {
   terminateProcessTree,
 } from './child-process.js'
 import { getConfig, getConnectionString } from './config.js'
+import { canRelayMutateUrl, createFaultInjector, startPushRelay } from './faults.js'
 import { log, port, setLogLevel, setLogStore } from './log.js'
 import { PgStartupBarrier, startPgProxy } from './pg-proxy.js'
 import {
@@ -60,12 +62,26 @@ import {
   zeroInconsistencyResetMode,
   type ZeroStartupRetryState,
 } from './recovery.js'
-import { installChangeTracking } from './replication/change-tracker.js'
+import {
+  getAppSchemas,
+  getPublishedSchemaSignature,
+  installChangeTracking,
+  parsePublicationNames,
+} from './replication/change-tracker.js'
 import {
   getReplicationHealth,
   markReplicationProgress,
   resetReplicationState,
+  signalReplicationChange,
 } from './replication/handler.js'
+import { hasAppData, resetSeeds, runSeeds } from './seeds.js'
+import {
+  deleteSnapshot,
+  listSnapshots,
+  restoreSnapshot,
+  saveSnapshot,
+  type SnapshotInfo,
+} from './snapshots.js'
 import {
   applySqliteMode,
   cleanupShim,
@@ -83,6 +99,7 @@ import { probeZeroCacheHttp } from './zero-health.js'
 import { disableZeroLitestreamRestore } from './zero-litestream-patch.js'
 
 import type { Hook, HookContext, ZeroLiteConfig } from './config.js'
+import type { MigrateResult } from './migration-watcher.js'
 import type { PGlite } from '@electric-sql/pglite'
 
 type ZeroChildProcess = ChildProcess & {
@@ -137,9 +154,14 @@ export type {
   LegacyHookCallback,
   LogLevel,
   OrezConfig,
+  OrezProjectConfig,
+  RealtimeIdentity,
+  RealtimeOptions,
   ZeroLiteConfig,
 } from './config.js'
 export { installChangeTracking } from './replication/change-tracker.js'
+export { defineSeed } from './seeds.js'
+export type { SeedContext, SeedFunction, SeedSql } from './seeds.js'
 
 // helper to run a hook (string command or callback function)
 async function runHook(
@@ -258,12 +280,8 @@ function hookUsesStartupBarrier(hook: Hook | undefined): boolean {
 }
 
 function getManagedPublicationConfig(): { names: string[]; managedByOrez: boolean } {
-  const existing = process.env.ZERO_APP_PUBLICATIONS?.trim()
-  if (existing) {
-    const names = existing
-      .split(',')
-      .map((s) => s.trim())
-      .filter(Boolean)
+  const names = parsePublicationNames(process.env.ZERO_APP_PUBLICATIONS)
+  if (names.length > 0) {
     return { names, managedByOrez: false }
   }
 
@@ -331,6 +349,9 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
   const httpLog: HttpLogStore | undefined =
     adminPort > 0 ? createHttpLogStore() : undefined
 
+  // zero protocol capture, started from the admin dashboard (see `orez replay`)
+  const recorder: TrafficRecorder | undefined =
+    adminPort > 0 ? createTrafficRecorder(config.dataDir) : undefined
   log.debug.orez(`data dir: ${resolve(config.dataDir)}`)
   if (config.ephemeralDir) {
     log.debug.orez(`ephemeral cache dir: ${config.ephemeralDir}`)
@@ -428,6 +449,9 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     stopCheckpoint: any,
     stopVacuum: any = () => {}
   let migrationsApplied = 0
+  // only data from an earlier run can stand in for seeds applied before they
+  // were tracked, so it's looked for before this run's migrations
+  let dataBeforeMigrations = false
   let nativePg: import('./native-postgres.js').NativePostgres | undefined
   let pgliteVacuumMs = 0
   let delayedVacuumTimer: ReturnType<typeof setTimeout> | undefined
@@ -455,16 +479,11 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
       process.env.ZERO_APP_PUBLICATIONS = config.zeroPublications
     }
 
-    migrationsApplied = await runMigrations(db, config)
+    dataBeforeMigrations = await hasAppData(db, getManagedPublicationConfig().names)
+    migrationsApplied = (await runMigrations(db, config)).length
   } else {
     // ── PGlite backend (default) ────────────────────────────────────────────
-    instances = config.singleDb
-      ? config.useWorkerThreads
-        ? await createSinglePGliteWorkerInstance(config)
-        : await createSinglePGliteInstance(config)
-      : config.useWorkerThreads
-        ? await createPGliteWorkerInstances(config)
-        : await createPGliteInstances(config)
+    instances = await createPGliteBackendInstances(config)
     db = instances.postgres
 
     // periodic WAL checkpoint
@@ -479,7 +498,8 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     }
 
     // run migrations & change tracking
-    migrationsApplied = await runMigrations(db, config)
+    dataBeforeMigrations = await hasAppData(db, getManagedPublicationConfig().names)
+    migrationsApplied = (await runMigrations(db, config)).length
     log.debug.orez('installing change tracking')
     await installChangeTracking(db)
 
@@ -520,11 +540,21 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
       ? new PgStartupBarrier(`orez-on-db-ready-${randomUUID()}`, onDbReadyTimeoutMs)
       : undefined
 
+  // failure rehearsal from the admin dashboard. latency and replication
+  // pauses act on the pglite proxy, so the native backend only gets the rest.
+  const faults =
+    adminPort > 0
+      ? createFaultInjector({
+          pgProxy: !nativePg,
+          killZero: () => crashZeroCache(),
+        })
+      : undefined
+
   // start tcp proxy (routes connections to correct instance by database name).
   // the native backend needs none: real postgres listens on pgPort itself.
   const pgServer = nativePg
     ? null
-    : await startPgProxy(instances, config, pgStartupBarrier)
+    : await startPgProxy(instances, config, pgStartupBarrier, faults)
 
   const hookConnectionString = (dbName: string): string => {
     const connectionString = getConnectionString(config, dbName)
@@ -540,8 +570,14 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
         `${migrationsApplied} migration${migrationsApplied === 1 ? '' : 's'} applied`
       )
 
-    // seed data if needed
-    await seedIfNeeded(db, config)
+    // apply seeds that haven't run on this database yet
+    const seeded = await runSeeds(db, {
+      seedPath: config.seedFile,
+      profile: config.seedProfile || null,
+      publications: managedPub.names,
+      dataBeforeMigrations,
+    })
+    if (seeded.length > 0) log.orez(`seeded: ${seeded.join(', ')}`)
 
     // run on-db-ready hook (e.g. migrations) before zero-cache starts
     if (config.onDbReady) {
@@ -631,6 +667,27 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     log.debug.orez(`http proxy: public ${config.zeroPort} → internal ${zeroInternalPort}`)
   }
 
+  // zero-cache calls the app's push endpoint through a relay so push failures
+  // can be armed without restarting it; with none armed the relay passes every
+  // push through. url patterns can't be relayed and go to the app directly.
+  let pushRelayServer: import('node:http').Server | null = null
+  let pushRelayUrl: string | null = null
+  const mutateUrl = config.zeroMutateUrl || process.env.ZERO_MUTATE_URL
+  if (faults && mutateUrl && !config.skipZeroCache && canRelayMutateUrl(mutateUrl)) {
+    const relay = await startPushRelay(mutateUrl, faults)
+    pushRelayServer = relay.server
+    pushRelayUrl = relay.url
+    log.debug.orez(`push relay: ${relay.url} → ${mutateUrl}`)
+  }
+
+  // the config zero-cache is launched with: its internal port behind the http
+  // proxy, and the push relay as mutate url
+  const zeroCacheConfig = (): ZeroLiteConfig => ({
+    ...config,
+    ...(httpLog ? { zeroPort: zeroInternalPort } : {}),
+    ...(pushRelayUrl ? { zeroMutateUrl: pushRelayUrl } : {}),
+  })
+
   // start zero-cache
   let zeroCacheProcess: ChildProcess | null = null
   let zeroEnv: Record<string, string> = {}
@@ -639,8 +696,7 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     | ((details: string, source: 'startup' | 'live-log') => void)
     | undefined
   if (!config.skipZeroCache) {
-    // use internal port when http proxy is enabled
-    const zeroConfig = httpLog ? { ...config, zeroPort: zeroInternalPort } : config
+    const zeroConfig = zeroCacheConfig()
 
     // helper to start zero-cache and wait for it (including stability check)
     const tryStartZeroCache = async () => {
@@ -786,6 +842,8 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
         logStore,
         config,
         startTime: Date.now(),
+        recorder,
+        faults,
       })
       log.debug.orez(`http proxy listening on ${config.zeroPort}`)
     }
@@ -835,12 +893,18 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     if (nativePg) await nativePg.terminateZeroBackends()
   }
 
+  // fault injection: SIGKILL with no cleanup, like an OOM kill. the crash
+  // watcher ignores signal exits, so it stays down until restarted.
+  const crashZeroCache = () => {
+    const child = zeroCacheProcess
+    if (child?.pid && isChildProcessRunning(child)) killProcessTree(child.pid, 'SIGKILL')
+  }
+
   // explicit process restart for admin use. unexpected crashes use full state
   // reset below because zero-cache's CVR/change/replica state is coupled.
   const restartZeroCache = async () => {
     await killZeroCache()
-    // use internal port when http proxy is enabled
-    const zeroConfig = httpLog ? { ...config, zeroPort: zeroInternalPort } : config
+    const zeroConfig = zeroCacheConfig()
     const result = await startZeroCache(
       zeroConfig,
       logStore,
@@ -955,7 +1019,9 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
         pgServer?.resetDbState('zero_cdb')
 
         // remove stale zero shard schemas from upstream; these can outlive CVR/CDB
-        // and cause dispatcher errors after full reset.
+        // and cause dispatcher errors after full reset. published app schemas
+        // are spared even when they hold a `clients` or `mutations` table.
+        const appSchemas = await getAppSchemas(db, managedPub.names)
         const shardSchemas = await db.query(
           `SELECT DISTINCT schemaname
            FROM pg_tables
@@ -967,7 +1033,9 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
                'public',
                '_orez'
              )
-             AND schemaname NOT LIKE 'pg_%'`
+             AND schemaname <> ALL($1)
+             AND schemaname NOT LIKE 'pg_%'`,
+          [[...appSchemas]]
         )
         for (const { schemaname } of shardSchemas.rows) {
           const quoted = '"' + schemaname.replace(/"/g, '""') + '"'
@@ -1028,7 +1096,7 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
       // schema-sync transaction while post-reset state settles); the crash
       // watcher deliberately ignores exits while resetInProgress, so without
       // a retry here one bad boot leaves zero-cache down permanently.
-      const zeroConfig = httpLog ? { ...config, zeroPort: zeroInternalPort } : config
+      const zeroConfig = zeroCacheConfig()
       const RESET_START_ATTEMPTS = 3
       for (let attempt = 1; ; attempt++) {
         log.orez(
@@ -1076,6 +1144,157 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     }
   }
 
+  // named snapshots copy postgres/cvr/cdb and the zero replica as one unit.
+  // zero-cache is stopped and every proxy client held off meanwhile, so the
+  // copies agree with each other and a restore resumes sync instead of resyncing.
+  // the guard alone keeps snapshot actions and resets from overlapping.
+  const withSnapshotGuard = async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (nativePg) throw new Error('snapshots are not supported on the postgres backend')
+    if (config.ephemeral) throw new Error('snapshots are not supported in ephemeral mode')
+    if (resetInProgress) throw new Error('a reset or snapshot is already in progress')
+    resetInProgress = true
+    try {
+      return await fn()
+    } finally {
+      resetInProgress = false
+    }
+  }
+  const withSnapshotLock = <T>(fn: () => Promise<T>): Promise<T> =>
+    withSnapshotGuard(async () => {
+      await killZeroCache()
+      stopCheckpoint()
+      stopVacuum()
+      try {
+        return await pgServer!.runExclusive(fn)
+      } finally {
+        stopCheckpoint =
+          config.checkpointIntervalMs > 0
+            ? startPeriodicCheckpoint(instances, config.checkpointIntervalMs)
+            : () => {}
+        stopVacuum =
+          pgliteVacuumMs > 0 ? startPeriodicVacuum(instances, pgliteVacuumMs) : () => {}
+        if (!config.skipZeroCache) await restartZeroCache()
+      }
+    })
+
+  // apply pending seeds (or re-seed) for the dashboard and `orez seed`. proxy
+  // clients are held off so their statements can't interleave with the seed's
+  // on the shared session.
+  const seedAction = async (reset: boolean, profile?: string): Promise<string[]> => {
+    const opts = {
+      seedPath: config.seedFile,
+      profile: (profile ?? config.seedProfile) || null,
+      publications: managedPub.names,
+    }
+    const run = () =>
+      reset ? resetSeeds(instances.postgres, opts) : runSeeds(instances.postgres, opts)
+    const applied = pgServer ? await pgServer.runExclusive(run) : await run()
+    if (!nativePg) signalReplicationChange()
+    return applied
+  }
+
+  // apply migrations added while running (vite plugin, --watch-migrations).
+  // zero-cache only learns about DDL by resyncing. the replica and CVR both
+  // keep the old column set, so a changed shape takes the full reset and
+  // anything else leaves zero-cache running.
+  const migrateAction = async (): Promise<MigrateResult> => {
+    const apply = async () => {
+      const before = await getPublishedSchemaSignature(db, managedPub.names)
+      const applied = await runMigrations(db, config)
+      if (applied.length === 0) return { applied, schemaChanged: false }
+      await syncManagedPublications(db, managedPub.names, managedPub.managedByOrez)
+      if (!nativePg) await installChangeTracking(db)
+      const after = await getPublishedSchemaSignature(db, managedPub.names)
+      return { applied, schemaChanged: before !== after }
+    }
+    const { applied, schemaChanged } = pgServer
+      ? await pgServer.runExclusive(apply)
+      : await apply()
+    if (applied.length === 0) return { applied, zeroReset: false }
+    log.orez(`applied ${applied.length} migration(s): ${applied.join(', ')}`)
+
+    if (!schemaChanged || config.skipZeroCache) {
+      // data-only migrations reach zero-cache through change tracking
+      if (!nativePg) signalReplicationChange()
+      return { applied, zeroReset: false }
+    }
+    log.orez('replicated schema changed, fully resetting zero-cache')
+    await resetZeroState('full')
+    return { applied, zeroReset: true }
+  }
+
+  const saveSnapshotAction = (name: string): Promise<SnapshotInfo> =>
+    withSnapshotLock(async () => {
+      // flush dirty pages so the copies need no wal replay on restore
+      for (const instance of new Set([
+        instances.postgres,
+        instances.cvr,
+        instances.cdb,
+      ])) {
+        await instance.exec('CHECKPOINT')
+      }
+      const info = saveSnapshot(config.dataDir, name, getReplicaDir(config))
+      log.orez(`saved snapshot "${name}"`)
+      return info
+    })
+
+  const restoreSnapshotAction = (name: string): Promise<SnapshotInfo> =>
+    withSnapshotLock(async () => {
+      // fail on an unknown name before closing anything
+      if (!listSnapshots(config.dataDir).some((s) => s.name === name)) {
+        throw new Error(`snapshot "${name}" not found`)
+      }
+      for (const replica of instances.postgresReplicas ?? []) {
+        await replica.close().catch(() => {})
+      }
+      for (const instance of new Set([
+        instances.postgres,
+        instances.cvr,
+        instances.cdb,
+      ])) {
+        await instance.close().catch((e: any) => {
+          log.debug.orez(`close before restore failed: ${e?.message || e}`)
+        })
+      }
+      const reopen = async () => {
+        Object.assign(instances, await createPGliteBackendInstances(config))
+        db = instances.postgres
+        pgServer!.resetAllDbState()
+        resetReplicationState()
+        if (config.readReplicas > 0 && config.useWorkerThreads) {
+          const { createReadReplicas } = await import('./pglite-manager.js')
+          instances.postgresReplicas = await createReadReplicas(
+            db,
+            config.readReplicas,
+            config
+          )
+        }
+      }
+      let info: SnapshotInfo
+      try {
+        info = restoreSnapshot(config.dataDir, name, getReplicaDir(config))
+        await reopen()
+      } catch (err: any) {
+        // a failed restore leaves the live dirs in place: open them again so
+        // zero-cache restarts against working databases instead of closed ones
+        log.orez(
+          `restore of "${name}" failed, reopening current data: ${err?.message || err}`
+        )
+        await reopen()
+        throw err
+      }
+      log.orez(`restored snapshot "${name}"`)
+      return info
+    })
+
+  // deleting only touches the snapshot directory, so it skips stopping zero-cache
+  // but still waits out a save or restore that may be copying it
+  const deleteSnapshotAction = (name: string): Promise<void> =>
+    withSnapshotGuard(async () => {
+      deleteSnapshot(config.dataDir, name)
+      log.orez(`deleted snapshot "${name}"`)
+    })
+
   // pick the reset mode for a recoverable inconsistency and remember when we last
   // used the gentle (CVR-preserving) cache-only path, so a repeat within the
   // window escalates to a full reset instead of looping on cache-only.
@@ -1363,8 +1582,14 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     bankruptcyTimer = setInterval(() => {
       if (shuttingDown || resetInProgress || zeroStopExpected || liveLogRecoveryQueued)
         return
+      const health = getReplicationHealth()
+      // a fault-injected pause is a stall on purpose
+      if (health.pausedUntil > 0) {
+        bankruptcyBaselineAt = Date.now()
+        return
+      }
       const verdict = isReplicationBankrupt(
-        getReplicationHealth(),
+        health,
         Date.now(),
         bankruptcyStallMs,
         bankruptcyBaselineAt
@@ -1391,6 +1616,9 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     stopCheckpoint()
     stopVacuum()
     httpProxyServer?.close()
+    pushRelayServer?.close()
+    // flush an in-progress capture so the file is complete
+    await recorder?.stop()
     await killZeroCache()
     pgServer?.close()
     await Promise.all([
@@ -1421,12 +1649,18 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
   return {
     config,
     stop,
-    db,
+    // a getter, since a snapshot restore reopens the database
+    get db() {
+      return db
+    },
     instances,
     pgPort: config.pgPort,
     zeroPort: config.zeroPort,
     logStore,
     httpLog,
+    queryStats: pgServer?.queryStats,
+    recorder,
+    faults,
     zeroEnv,
     restartZero: config.skipZeroCache ? undefined : restartZeroCache,
     // stop zero-cache without restart (for pg_restore to safely modify schema)
@@ -1435,9 +1669,24 @@ export async function startZeroLite(overrides: Partial<ZeroLiteConfig> = {}) {
     resetZero: config.skipZeroCache ? undefined : () => resetZeroState('cache-only'),
     // full reset: CVR/CDB + replica (for schema changes, used by pg_restore via SIGUSR1)
     resetZeroFull: config.skipZeroCache ? undefined : () => resetZeroState('full'),
+    saveSnapshot: saveSnapshotAction,
+    restoreSnapshot: restoreSnapshotAction,
+    deleteSnapshot: deleteSnapshotAction,
+    seed: seedAction,
+    migrate: migrateAction,
   }
 }
 
+function createPGliteBackendInstances(config: ZeroLiteConfig) {
+  return config.singleDb
+    ? config.useWorkerThreads
+      ? createSinglePGliteWorkerInstance(config)
+      : createSinglePGliteInstance(config)
+    : config.useWorkerThreads
+      ? createPGliteWorkerInstances(config)
+      : createPGliteInstances(config)
+}
+
 /** clean lock files only — keeps replica intact for fast incremental sync on restart.
  *  returns true if any stale lock files were found (indicates unclean shutdown). */
 function cleanupStaleLockFiles(config: ZeroLiteConfig): boolean {
@@ -1498,38 +1747,6 @@ function writeZeroCachePreload(parentPid: number, zeroTitle: string): string {
   return preloadPath
 }
 
-async function seedIfNeeded(db: PGlite, config: ZeroLiteConfig): Promise<void> {
-  // check if we already have data
-  try {
-    const result = await db.query<{ count: string }>(
-      'SELECT count(*) as count FROM public."user"'
-    )
-    if (Number(result.rows[0].count) > 0) {
-      return
-    }
-  } catch {
-    // table might not exist yet
-  }
-
-  log.debug.orez('seeding demo data')
-  const seedFile = resolve(config.seedFile)
-  if (!existsSync(seedFile)) {
-    log.debug.orez('no seed file found, skipping')
-    return
-  }
-
-  const sql = readFileSync(seedFile, 'utf-8')
-  const statements = sql
-    .split('--> statement-breakpoint')
-    .map((s) => s.trim())
-    .filter(Boolean)
-
-  for (const stmt of statements) {
-    await db.exec(stmt)
-  }
-  log.orez('seeded')
-}
-
 async function startZeroCache(
   config: ZeroLiteConfig,
   logStore?: LogStore,
@@ -0,0 +1,79 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { PGlite } from '@electric-sql/pglite'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { watchMigrations, type MigrationWatcher } from './migration-watcher.js'
+import { getPublishedSchemaSignature } from './replication/change-tracker.js'
+
+describe('watchMigrations', () => {
+  let dir: string
+  let watcher: MigrationWatcher | undefined
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'orez-migration-watch-'))
+    mkdirSync(join(dir, 'meta'))
+  })
+
+  afterEach(() => {
+    watcher?.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('debounces a drizzle-kit write into one run', async () => {
+    const migrate = vi.fn(async () => ({ applied: ['0001_items'], zeroReset: true }))
+    const onApplied = vi.fn()
+    watcher = watchMigrations(dir, migrate, { onApplied }, 50)
+
+    writeFileSync(join(dir, '0001_items.sql'), 'CREATE TABLE items (id INT PRIMARY KEY)')
+    writeFileSync(join(dir, 'meta', '_journal.json'), '{"entries":[]}')
+    writeFileSync(join(dir, 'notes.md'), 'ignored')
+    await vi.waitFor(() => expect(onApplied).toHaveBeenCalled())
+    await new Promise((r) => setTimeout(r, 150))
+
+    expect(migrate).toHaveBeenCalledTimes(1)
+    expect(onApplied).toHaveBeenCalledWith({ applied: ['0001_items'], zeroReset: true })
+  })
+
+  it('reports failures and stays quiet when nothing was applied', async () => {
+    const migrate = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('syntax error at or near "TABLEE"'))
+      .mockResolvedValue({ applied: [], zeroReset: false })
+    const onApplied = vi.fn()
+    const onError = vi.fn()
+    watcher = watchMigrations(dir, migrate, { onApplied, onError }, 20)
+
+    writeFileSync(join(dir, '0001_items.sql'), 'CREATE TABLEE items ()')
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled())
+    expect(onError.mock.calls[0][0].message).toContain('TABLEE')
+
+    writeFileSync(join(dir, '0001_items.sql'), '-- reverted')
+    await vi.waitFor(() => expect(migrate).toHaveBeenCalledTimes(2))
+    expect(onApplied).not.toHaveBeenCalled()
+  })
+})
+
+describe('getPublishedSchemaSignature', () => {
+  it('changes with columns and indexes, not with data', async () => {
+    const db = new PGlite()
+    try {
+      await db.exec(`CREATE TABLE items (id INT PRIMARY KEY, title TEXT)`)
+      const base = await getPublishedSchemaSignature(db, [])
+
+      await db.exec(`INSERT INTO items VALUES (1, 'a')`)
+      expect(await getPublishedSchemaSignature(db, [])).toBe(base)
+
+      await db.exec(`CREATE INDEX items_title ON items (title)`)
+      const indexed = await getPublishedSchemaSignature(db, [])
+      expect(indexed).not.toBe(base)
+
+      await db.exec(`ALTER TABLE items ADD COLUMN done BOOLEAN`)
+      expect(await getPublishedSchemaSignature(db, [])).not.toBe(indexed)
+    } finally {
+      await db.close()
+    }
+  })
+})
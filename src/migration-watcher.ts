@@ -0,0 +1,91 @@
+/**
+ * re-applies migrations while oreZ runs, for the vite plugin and
+ * `orez --watch-migrations`.
+ *
+ * drizzle-kit writes the new `.sql` file and then rewrites
+ * `meta/_journal.json`, so bursts of changes are debounced into one run, and
+ * a change that lands mid-run queues exactly one more.
+ */
+import { existsSync, watch } from 'node:fs'
+import { resolve } from 'node:path'
+
+import { log } from './log.js'
+
+export interface MigrateResult {
+  /** migrations applied by this run, in order */
+  applied: string[]
+  /** true when the replicated schema changed and zero-cache was fully reset */
+  zeroReset: boolean
+}
+
+export interface MigrationWatchEvents {
+  /** a migration file changed and migrations are about to run */
+  onChange?: (file: string) => void
+  /** only called when at least one migration was applied */
+  onApplied?: (result: MigrateResult) => void
+  onError?: (err: Error) => void
+}
+
+export interface MigrationWatcher {
+  close(): void
+}
+
+const MIGRATION_FILE = /(\.sql|_journal\.json)$/
+
+export function watchMigrations(
+  migrationsDir: string,
+  migrate: () => Promise<MigrateResult>,
+  events: MigrationWatchEvents = {},
+  debounceMs = 300
+): MigrationWatcher {
+  const dir = resolve(migrationsDir)
+  if (!existsSync(dir)) {
+    log.debug.orez(`not watching migrations: ${dir} does not exist`)
+    return { close() {} }
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let running = false
+  let queued = false
+  let closed = false
+
+  const run = async () => {
+    if (running) {
+      queued = true
+      return
+    }
+    running = true
+    try {
+      const result = await migrate()
+      if (result.applied.length > 0) events.onApplied?.(result)
+    } catch (err: any) {
+      log.orez(`migration failed: ${err?.message ?? err}`)
+      events.onError?.(err instanceof Error ? err : new Error(String(err)))
+    } finally {
+      running = false
+      if (queued && !closed) {
+        queued = false
+        void run()
+      }
+    }
+  }
+
+  const watcher = watch(dir, { recursive: true }, (_event, file) => {
+    if (!file || !MIGRATION_FILE.test(file)) return
+    // an editor's rename-into-place fires once per step
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      events.onChange?.(file)
+      void run()
+    }, debounceMs)
+  })
+  log.debug.orez(`watching migrations in ${dir}`)
+
+  return {
+    close() {
+      closed = true
+      clearTimeout(timer)
+      watcher.close()
+    },
+  }
+}
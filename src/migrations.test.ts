@@ -0,0 +1,155 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { PGlite } from '@electric-sql/pglite'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  getMigrationStatus,
+  migrateDown,
+  migrateRedo,
+  migrateUp,
+  readMigrationFiles,
+} from './migrations.js'
+
+describe('migrations', () => {
+  let db: PGlite
+  let dir: string
+
+  beforeEach(async () => {
+    db = new PGlite()
+    await db.waitReady
+    dir = mkdtempSync(join(tmpdir(), 'orez-migrations-'))
+    writeFileSync(join(dir, '0001_items.sql'), 'CREATE TABLE items (id INT PRIMARY KEY)')
+    writeFileSync(join(dir, '0001_items.down.sql'), 'DROP TABLE items')
+    writeFileSync(
+      join(dir, '0002_tags.sql'),
+      'CREATE TABLE tags (id INT PRIMARY KEY);\n--> statement-breakpoint\nINSERT INTO tags VALUES (1);'
+    )
+    mkdirSync(join(dir, 'down'))
+    writeFileSync(join(dir, 'down', '0002_tags.sql'), 'DROP TABLE tags')
+  })
+
+  afterEach(async () => {
+    await db.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  async function tableExists(name: string): Promise<boolean> {
+    const result = await db.query<{ exists: boolean }>(
+      `SELECT to_regclass($1) IS NOT NULL AS exists`,
+      [`public.${name}`]
+    )
+    return result.rows[0].exists
+  }
+
+  it('pairs forward files with sibling and down/ directory down files', () => {
+    const files = readMigrationFiles(dir)
+    expect(files.map((f) => f.name)).toEqual(['0001_items', '0002_tags'])
+    expect(files[0].downPath).toBe(join(dir, '0001_items.down.sql'))
+    expect(files[1].downPath).toBe(join(dir, 'down', '0002_tags.sql'))
+  })
+
+  it('follows the drizzle journal order', () => {
+    mkdirSync(join(dir, 'meta'))
+    writeFileSync(
+      join(dir, 'meta', '_journal.json'),
+      JSON.stringify({ entries: [{ tag: '0002_tags' }, { tag: '0001_items' }] })
+    )
+    expect(readMigrationFiles(dir).map((f) => f.name)).toEqual([
+      '0002_tags',
+      '0001_items',
+    ])
+  })
+
+  it('applies pending migrations once and records their hashes', async () => {
+    expect(await migrateUp(db, dir)).toEqual(['0001_items', '0002_tags'])
+    expect(await migrateUp(db, dir)).toEqual([])
+
+    const rows = await db.query<{ name: string; hash: string }>(
+      'SELECT name, hash FROM public.migrations ORDER BY id'
+    )
+    expect(rows.rows.map((r) => r.name)).toEqual(['0001_items', '0002_tags'])
+    expect(rows.rows.map((r) => r.hash)).toEqual(
+      readMigrationFiles(dir).map((f) => f.hash)
+    )
+  })
+
+  it('rolls back the last n migrations newest first', async () => {
+    await migrateUp(db, dir)
+
+    expect(await migrateDown(db, dir, 2)).toEqual(['0002_tags', '0001_items'])
+    expect(await tableExists('items')).toBe(false)
+    expect(await tableExists('tags')).toBe(false)
+    expect((await getMigrationStatus(db, dir)).map((s) => s.state)).toEqual([
+      'pending',
+      'pending',
+    ])
+  })
+
+  it('refuses to roll back a migration without a down file', async () => {
+    writeFileSync(join(dir, '0003_notes.sql'), 'CREATE TABLE notes (id INT)')
+    await migrateUp(db, dir)
+
+    await expect(migrateDown(db, dir, 2)).rejects.toThrow(/0003_notes/)
+    // nothing was reverted, including the migration that had a down file
+    expect(await tableExists('tags')).toBe(true)
+  })
+
+  it('redoes only the last applied migration', async () => {
+    await migrateUp(db, dir)
+    await db.exec('INSERT INTO tags VALUES (2)')
+
+    expect(await migrateRedo(db, dir)).toBe('0002_tags')
+    const tags = await db.query<{ id: number }>('SELECT id FROM tags')
+    expect(tags.rows).toEqual([{ id: 1 }])
+  })
+
+  it('refuses to run when an applied file was edited', async () => {
+    await migrateUp(db, dir)
+    writeFileSync(
+      join(dir, '0001_items.sql'),
+      'CREATE TABLE items (id BIGINT PRIMARY KEY)'
+    )
+    writeFileSync(join(dir, '0003_notes.sql'), 'CREATE TABLE notes (id INT)')
+
+    const statuses = await getMigrationStatus(db, dir)
+    expect(statuses.map((s) => [s.name, s.state])).toEqual([
+      ['0001_items', 'changed'],
+      ['0002_tags', 'applied'],
+      ['0003_notes', 'pending'],
+    ])
+    await expect(migrateUp(db, dir)).rejects.toThrow(/changed on disk: 0001_items/)
+    expect(await tableExists('notes')).toBe(false)
+  })
+
+  it('adopts current hashes for migrations applied before checksums', async () => {
+    await db.exec(`
+      CREATE TABLE public.migrations (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        applied_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      CREATE TABLE items (id INT PRIMARY KEY);
+      INSERT INTO public.migrations (name) VALUES ('0001_items');
+    `)
+
+    expect(await migrateUp(db, dir)).toEqual(['0002_tags'])
+    const row = await db.query<{ hash: string | null }>(
+      `SELECT hash FROM public.migrations WHERE name = '0001_items'`
+    )
+    expect(row.rows[0].hash).toBe(readMigrationFiles(dir)[0].hash)
+  })
+
+  it('reports applied migrations whose file is gone as missing', async () => {
+    await migrateUp(db, dir)
+    rmSync(join(dir, '0002_tags.sql'))
+
+    const statuses = await getMigrationStatus(db, dir)
+    expect(statuses.map((s) => [s.name, s.state])).toEqual([
+      ['0001_items', 'applied'],
+      ['0002_tags', 'missing'],
+    ])
+  })
+})
@@ -0,0 +1,266 @@
+/**
+ * sql migrations for the app database.
+ *
+ * a migrations directory holds forward `.sql` files, either listed by a
+ * drizzle `meta/_journal.json` or applied in filename order. a migration may
+ * carry a paired down file: `<name>.down.sql` next to it, or `down/<name>.sql`.
+ * forward files may also be named `<name>.up.sql`.
+ *
+ * applied migrations are recorded in `public.migrations` together with a
+ * sha256 of the forward file. editing a file after it was applied makes every
+ * later run refuse until the edit is reverted or the migration is rolled back.
+ */
+import { createHash } from 'node:crypto'
+import { existsSync, readFileSync, readdirSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+
+import { log } from './log.js'
+
+/** the subset of PGlite (or a wire-protocol wrapper) that migrations need */
+export interface MigrationDb {
+  exec(sql: string): Promise<unknown>
+  query<T>(sql: string, params?: unknown[]): Promise<{ rows: T[] }>
+}
+
+export interface MigrationFile {
+  name: string
+  upPath: string
+  downPath: string | null
+  hash: string
+}
+
+export interface MigrationStatus {
+  name: string
+  /** `changed`: applied, but the file no longer matches its recorded hash */
+  state: 'applied' | 'pending' | 'changed' | 'missing'
+  hasDown: boolean
+  appliedAt: string | null
+}
+
+interface AppliedRow {
+  name: string
+  hash: string | null
+  applied_at: string | null
+}
+
+export function hashMigration(sql: string): string {
+  return createHash('sha256').update(sql).digest('hex')
+}
+
+/** list forward migrations in apply order, with their paired down files */
+export function readMigrationFiles(migrationsDir: string): MigrationFile[] {
+  const dir = resolve(migrationsDir)
+  if (!existsSync(dir)) return []
+
+  // read drizzle journal for correct migration order
+  const journalPath = join(dir, 'meta', '_journal.json')
+  let files: string[]
+  if (existsSync(journalPath)) {
+    const journal = JSON.parse(readFileSync(journalPath, 'utf-8'))
+    files = journal.entries.map((e: { tag: string }) => `${e.tag}.sql`)
+  } else {
+    files = readdirSync(dir)
+      .filter((f) => f.endsWith('.sql') && !f.endsWith('.down.sql'))
+      .sort()
+  }
+
+  return files.map((file) => {
+    const name = file.replace(/(\.up)?\.sql$/, '')
+    const upPath = join(dir, file)
+    const downPath =
+      [join(dir, `${name}.down.sql`), join(dir, 'down', `${name}.sql`)].find((p) =>
+        existsSync(p)
+      ) ?? null
+    return { name, upPath, downPath, hash: hashMigration(readFileSync(upPath, 'utf-8')) }
+  })
+}
+
+async function ensureMigrationsTable(db: MigrationDb): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS public.migrations (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      applied_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `)
+  // tables created before checksums existed get the column added in place
+  await db.exec(`ALTER TABLE public.migrations ADD COLUMN IF NOT EXISTS hash TEXT`)
+}
+
+/** applied migrations, oldest first */
+async function readApplied(db: MigrationDb): Promise<AppliedRow[]> {
+  const result = await db.query<AppliedRow>(
+    `SELECT name, hash, applied_at::text AS applied_at
+     FROM public.migrations
+     ORDER BY id`
+  )
+  return result.rows
+}
+
+/**
+ * refuse to continue if an applied migration's file was edited. rows recorded
+ * before checksums existed adopt the current file's hash.
+ */
+async function verifyApplied(
+  db: MigrationDb,
+  files: MigrationFile[],
+  applied: AppliedRow[]
+): Promise<void> {
+  const byName = new Map(files.map((f) => [f.name, f]))
+  const changed: string[] = []
+  for (const row of applied) {
+    const file = byName.get(row.name)
+    if (!file) continue
+    if (row.hash === null) {
+      await db.query('UPDATE public.migrations SET hash = $1 WHERE name = $2', [
+        file.hash,
+        row.name,
+      ])
+      row.hash = file.hash
+      log.debug.orez(`recorded checksum for migration: ${row.name}`)
+    } else if (row.hash !== file.hash) {
+      changed.push(row.name)
+    }
+  }
+  if (changed.length > 0) throw changedMigrationsError(changed)
+}
+
+export function changedMigrationsError(names: string[]): Error {
+  return new Error(
+    `applied migration(s) changed on disk: ${names.join(', ')} — ` +
+      `revert the edit, or roll back with \`orez migrate down\` before changing it`
+  )
+}
+
+async function execMigrationSql(db: MigrationDb, path: string): Promise<void> {
+  const sql = readFileSync(path, 'utf-8')
+
+  // split by drizzle's statement-breakpoint marker
+  const statements = sql
+    .split('--> statement-breakpoint')
+    .map((s) => s.trim())
+    .filter(Boolean)
+
+  for (const stmt of statements) {
+    await db.exec(stmt)
+  }
+}
+
+export async function getMigrationStatus(
+  db: MigrationDb,
+  migrationsDir: string
+): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(db)
+  const files = readMigrationFiles(migrationsDir)
+  const applied = new Map((await readApplied(db)).map((r) => [r.name, r]))
+
+  const statuses: MigrationStatus[] = files.map((file) => {
+    const row = applied.get(file.name)
+    applied.delete(file.name)
+    return {
+      name: file.name,
+      state: !row
+        ? 'pending'
+        : row.hash !== null && row.hash !== file.hash
+          ? 'changed'
+          : 'applied',
+      hasDown: file.downPath !== null,
+      appliedAt: row?.applied_at ?? null,
+    }
+  })
+  // recorded as applied, but the file is gone
+  for (const row of applied.values()) {
+    statuses.push({
+      name: row.name,
+      state: 'missing',
+      hasDown: false,
+      appliedAt: row.applied_at,
+    })
+  }
+  return statuses
+}
+
+/** apply pending migrations in order, returns the names applied */
+export async function migrateUp(
+  db: MigrationDb,
+  migrationsDir: string
+): Promise<string[]> {
+  await ensureMigrationsTable(db)
+  const files = readMigrationFiles(migrationsDir)
+  const applied = await readApplied(db)
+  await verifyApplied(db, files, applied)
+
+  const appliedNames = new Set(applied.map((r) => r.name))
+  const done: string[] = []
+  for (const file of files) {
+    if (appliedNames.has(file.name)) continue
+    await applyMigration(db, file)
+    done.push(file.name)
+  }
+  return done
+}
+
+async function applyMigration(db: MigrationDb, file: MigrationFile): Promise<void> {
+  log.debug.orez(`applying migration: ${file.name}`)
+  await execMigrationSql(db, file.upPath)
+  await db.query('INSERT INTO public.migrations (name, hash) VALUES ($1, $2)', [
+    file.name,
+    file.hash,
+  ])
+  log.debug.orez(`applied migration: ${file.name}`)
+}
+
+/** roll back the last `count` applied migrations, returns the names reverted */
+export async function migrateDown(
+  db: MigrationDb,
+  migrationsDir: string,
+  count = 1
+): Promise<string[]> {
+  await ensureMigrationsTable(db)
+  const files = readMigrationFiles(migrationsDir)
+  const applied = await readApplied(db)
+  await verifyApplied(db, files, applied)
+
+  const byName = new Map(files.map((f) => [f.name, f]))
+  const targets = applied.slice(-count).reverse()
+
+  // check every target up front so a missing down file can't strand a
+  // partial rollback
+  for (const row of targets) {
+    const file = byName.get(row.name)
+    if (!file) {
+      throw new Error(`cannot roll back ${row.name}: migration file not found`)
+    }
+    if (!file.downPath) {
+      throw new Error(
+        `cannot roll back ${row.name}: no ${row.name}.down.sql or down/${row.name}.sql`
+      )
+    }
+  }
+
+  const done: string[] = []
+  for (const row of targets) {
+    const file = byName.get(row.name)!
+    log.debug.orez(`reverting migration: ${row.name}`)
+    await execMigrationSql(db, file.downPath!)
+    await db.query('DELETE FROM public.migrations WHERE name = $1', [row.name])
+    log.debug.orez(`reverted migration: ${row.name}`)
+    done.push(row.name)
+  }
+  return done
+}
+
+/**
+ * roll back the last applied migration and apply it again, leaving any other
+ * pending migrations pending. returns its name, or null if none was applied.
+ */
+export async function migrateRedo(
+  db: MigrationDb,
+  migrationsDir: string
+): Promise<string | null> {
+  const [name] = await migrateDown(db, migrationsDir, 1)
+  if (!name) return null
+  const file = readMigrationFiles(migrationsDir).find((f) => f.name === name)!
+  await applyMigration(db, file)
+  return name
+}
@@ -18,6 +18,11 @@ import { fromNodeSocket } from 'pg-gateway/node'
 
 import { log } from './log.js'
 import { Mutex } from './mutex.js'
+import {
+  createQueryStatsStore,
+  type QuerySample,
+  type QueryStatsStore,
+} from './query-stats.js'
 import {
   createReplicationFeedbackParser,
   handleReplicationQuery,
@@ -26,6 +31,7 @@ import {
 } from './replication/handler.js'
 
 import type { ZeroLiteConfig } from './config.js'
+import type { FaultInjector } from './faults.js'
 import type { PGliteInstances } from './pglite-manager.js'
 import type { PGlite } from '@electric-sql/pglite'
 
@@ -253,6 +259,63 @@ function extractParseQuery(data: Uint8Array): string | null {
   return textDecoder.decode(data.subarray(queryStart, offset))
 }
 
+/** read a null-terminated string; returns it and the offset past the terminator. */
+function readCString(data: Uint8Array, offset: number): [string, number] {
+  const start = offset
+  while (offset < data.length && data[offset] !== 0) offset++
+  return [textDecoder.decode(data.subarray(start, offset)), offset + 1]
+}
+
+/**
+ * extract the statement name from a Parse (0x50) message, or the statement
+ * or portal name from a Close (0x43) or Execute (0x45) message.
+ */
+function extractMessageName(data: Uint8Array): string {
+  return readCString(data, data[0] === 0x43 ? 6 : 5)[0]
+}
+
+/**
+ * decode a Bind message (0x42): target portal, source statement and the
+ * parameter values. text-format values are decoded, binary ones hex-encoded.
+ */
+function extractBindMessage(data: Uint8Array): {
+  portal: string
+  statement: string
+  params: (string | null)[]
+} {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const [portal, afterPortal] = readCString(data, 5)
+  const [statement, afterStatement] = readCString(data, afterPortal)
+  let offset = afterStatement
+  const formatCount = view.getInt16(offset)
+  offset += 2
+  const formats: number[] = []
+  for (let i = 0; i < formatCount; i++) {
+    formats.push(view.getInt16(offset))
+    offset += 2
+  }
+  const paramCount = view.getInt16(offset)
+  offset += 2
+  const params: (string | null)[] = []
+  for (let i = 0; i < paramCount; i++) {
+    const len = view.getInt32(offset)
+    offset += 4
+    if (len < 0) {
+      params.push(null)
+      continue
+    }
+    const value = data.subarray(offset, offset + len)
+    offset += len
+    const format = formatCount === 1 ? formats[0] : (formats[i] ?? 0)
+    params.push(
+      format === 1
+        ? '\\x' + Buffer.from(value).toString('hex')
+        : textDecoder.decode(value)
+    )
+  }
+  return { portal, statement, params }
+}
+
 /**
  * rebuild a Parse message with a modified query string.
  */
@@ -581,6 +644,20 @@ export interface PgProxyServer extends Server {
    * no-op in shared-instance (singleDb) mode, where one mutex guards all dbs.
    */
   resetDbState(dbName: string): void
+  /**
+   * run `fn` while holding every instance mutex, so no client statement touches
+   * pglite until it settles. snapshots use this to copy or swap data dirs.
+   */
+  runExclusive<T>(fn: () => Promise<T>): Promise<T>
+  /**
+   * fresh transaction state for every db and an empty schema cache. call this
+   * inside runExclusive after replacing all three instances (snapshot restore),
+   * including in shared-instance mode. the held mutexes are kept, so clients
+   * waiting on them are not stranded.
+   */
+  resetAllDbState(): void
+  /** per-statement fingerprint timings for the admin dashboard */
+  queryStats: QueryStatsStore
 }
 
 /**
@@ -650,7 +727,8 @@ export class PgStartupBarrier {
 export async function startPgProxy(
   dbInput: PGlite | PGliteInstances,
   config: ZeroLiteConfig,
-  startupBarrier?: PgStartupBarrier
+  startupBarrier?: PgStartupBarrier,
+  faults?: FaultInjector
 ): Promise<PgProxyServer> {
   // normalize input: single PGlite instance = use it for all databases (backwards compat for tests)
   const instances: PGliteInstances =
@@ -672,6 +750,19 @@ export async function startPgProxy(
     queryClassCache.clear()
   }
 
+  const queryStats = createQueryStatsStore()
+  // fold one executed statement into the fingerprint stats, and log it in
+  // full when it ran past the configured slow-query threshold
+  function recordStatement(sample: QuerySample, params: (string | null)[]) {
+    queryStats.record(sample)
+    if (config.slowQueryMs > 0 && sample.execMs >= config.slowQueryMs) {
+      log.proxy(
+        `slow query ${sample.execMs.toFixed(0)}ms (mutex wait ${sample.waitMs.toFixed(0)}ms) db=${sample.database} app=${sample.applicationName || '-'}: ${sample.sql}` +
+          (params.length > 0 ? ` | params: ${JSON.stringify(params)}` : '')
+      )
+    }
+  }
+
   // per-instance mutexes for serializing pglite access.
   // when all instances are the same object (single-db mode), share one mutex
   // to prevent concurrent protocol messages on the same pglite instance.
@@ -758,7 +849,14 @@ export async function startPgProxy(
     socket.setNoDelay(true)
 
     let dbName = 'postgres'
+    let applicationName = ''
     let isReplicationConnection = false
+    // statement text by prepared statement name, and the statement + bound
+    // parameters by portal name, so Execute timings land on the right query
+    const preparedStatements = new Map<string, string>()
+    const portals = new Map<string, { sql: string; params: (string | null)[] }>()
+    // mutex wait of the current pipeline, charged to its first Execute
+    let pipelineWaitMs = 0
     // track extended protocol writes (Parse with INSERT/UPDATE/DELETE/COPY/TRUNCATE)
     // so we can signal replication on Sync (0x53) after the pipeline completes
     let extWritePending = false
@@ -866,6 +964,7 @@ export async function startPgProxy(
             isReplicationConnection = true
           }
           dbName = params?.database || 'postgres'
+          applicationName = params?.application_name || ''
           log.debug.proxy(
             `connection: db=${dbName} user=${params?.user} replication=${params?.replication || 'none'}`
           )
@@ -910,6 +1009,17 @@ export async function startPgProxy(
             msgType === 0x48
           const isSyncInPipeline = msgType === 0x53 && pipelineMutexHeld
 
+          // injected latency, once per round trip and before the mutex so a
+          // slowed connection doesn't stall the others
+          const latencyMs = faults?.pgLatency(dbName) ?? 0
+          if (
+            latencyMs > 0 &&
+            !pipelineMutexHeld &&
+            (isExtendedMsg || msgType === 0x51)
+          ) {
+            await new Promise((resolve) => setTimeout(resolve, latencyMs))
+          }
+
           if (isExtendedMsg || isSyncInPipeline) {
             // acquire mutex on first message of pipeline
             if (!pipelineMutexHeld) {
@@ -926,6 +1036,7 @@ export async function startPgProxy(
                 )
               }
               pipelineMutexHeld = true
+              pipelineWaitMs = waitMs
               // auto-rollback stale transactions from other connections
               if (txState.status === 0x45 && txState.owner !== socket) {
                 try {
@@ -945,6 +1056,24 @@ export async function startPgProxy(
               }
             }
 
+            // remember statement text and bound parameters for query stats.
+            // Bind without a Parse in this pipeline reuses a named statement.
+            if (msgType === 0x50) {
+              preparedStatements.set(
+                extractMessageName(data),
+                extractParseQuery(data) ?? ''
+              )
+            } else if (msgType === 0x42) {
+              const bind = extractBindMessage(data)
+              portals.set(bind.portal, {
+                sql: preparedStatements.get(bind.statement) ?? '',
+                params: bind.params,
+              })
+            } else if (msgType === 0x43) {
+              const target = data[5] === 0x53 ? preparedStatements : portals
+              target.delete(extractMessageName(data))
+            }
+
             // apply query rewrites
             data = interceptQuery(data)
 
@@ -964,6 +1093,23 @@ export async function startPgProxy(
             proxyStats.totalExecMs += t2 - t1
             proxyStats.count++
 
+            if (msgType === 0x45) {
+              const portal = portals.get(extractMessageName(data))
+              if (portal?.sql) {
+                recordStatement(
+                  {
+                    sql: portal.sql,
+                    database: dbName,
+                    applicationName,
+                    waitMs: pipelineWaitMs,
+                    execMs: t2 - t1,
+                  },
+                  portal.params
+                )
+              }
+              pipelineWaitMs = 0
+            }
+
             // update transaction state
             const rfqStatus = getReadyForQueryStatus(result)
             if (rfqStatus !== null) {
@@ -1083,6 +1229,18 @@ export async function startPgProxy(
             proxyStats.totalWaitMs += t1 - t0
             proxyStats.totalExecMs += t2 - t1
             proxyStats.count++
+            if (queryText) {
+              recordStatement(
+                {
+                  sql: queryText,
+                  database: dbName,
+                  applicationName,
+                  waitMs: t1 - t0,
+                  execMs: t2 - t1,
+                },
+                []
+              )
+            }
             if (proxyStats.count % 200 === 0) {
               log.debug.proxy(
                 `perf: ${proxyStats.count} ops (${proxyStats.batches} batches) | mutex ${proxyStats.totalWaitMs.toFixed(0)}ms | pglite ${proxyStats.totalExecMs.toFixed(0)}ms`
@@ -1150,6 +1308,27 @@ export async function startPgProxy(
     }
   }
 
+  proxyServer.runExclusive = async (fn) => {
+    // fixed order; clients only ever hold one of these at a time
+    const held = [...new Set([mutexes.postgres, mutexes.cvr, mutexes.cdb])]
+    for (const mutex of held) await mutex.acquire()
+    try {
+      return await fn()
+    } finally {
+      for (const mutex of held) mutex.release()
+    }
+  }
+  proxyServer.resetAllDbState = () => {
+    // the mutexes stay: runExclusive holds them, and clients queued on them
+    // resume against the new instances once it lets go
+    const pgTx: PgLiteTxState = { status: 0x49, owner: null }
+    txStates.postgres = pgTx
+    txStates.cvr = sharedInstance ? pgTx : { status: 0x49, owner: null }
+    txStates.cdb = sharedInstance ? pgTx : { status: 0x49, owner: null }
+    invalidateSchemaCache()
+  }
+  proxyServer.queryStats = queryStats
+
   return new Promise((resolve, reject) => {
     server.listen(config.pgPort, '127.0.0.1', () => {
       log.debug.proxy(`listening on port ${config.pgPort}`)
@@ -23,6 +23,7 @@ import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp'
 import { vector } from '@electric-sql/pglite/vector'
 
 import { log } from './log.js'
+import { migrateUp } from './migrations.js'
 import { PGliteWorkerProxy } from './pglite-ipc.js'
 
 import type { ZeroLiteConfig } from './config.js'
@@ -463,70 +464,23 @@ export async function createReadReplicas(
   return replicas as unknown as PGlite[]
 }
 
-/** run pending migrations, returns count of newly applied migrations */
-export async function runMigrations(db: PGlite, config: ZeroLiteConfig): Promise<number> {
+/** run pending migrations, returns the names of the newly applied ones */
+export async function runMigrations(
+  db: PGlite,
+  config: ZeroLiteConfig
+): Promise<string[]> {
   if (!config.migrationsDir) {
     log.debug.orez('no migrations directory configured, skipping')
-    return 0
+    return []
   }
 
   const migrationsDir = resolve(config.migrationsDir)
   if (!existsSync(migrationsDir)) {
     log.debug.orez('no migrations directory found, skipping')
-    return 0
-  }
-
-  // create migrations tracking table
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS public.migrations (
-      id SERIAL PRIMARY KEY,
-      name TEXT NOT NULL UNIQUE,
-      applied_at TIMESTAMPTZ DEFAULT NOW()
-    )
-  `)
-
-  // read drizzle journal for correct migration order
-  const journalPath = join(migrationsDir, 'meta', '_journal.json')
-  let files: string[]
-  if (existsSync(journalPath)) {
-    const journal = JSON.parse(readFileSync(journalPath, 'utf-8'))
-    files = journal.entries.map((e: { tag: string }) => `${e.tag}.sql`)
-  } else {
-    files = readdirSync(migrationsDir)
-      .filter((f) => f.endsWith('.sql'))
-      .sort()
+    return []
   }
 
-  let applied = 0
-  for (const file of files) {
-    const name = file.replace(/\.sql$/, '')
-
-    // check if already applied
-    const result = await db.query<{ count: string }>(
-      'SELECT count(*) as count FROM public.migrations WHERE name = $1',
-      [name]
-    )
-    if (Number(result.rows[0].count) > 0) {
-      continue
-    }
-
-    log.debug.orez(`applying migration: ${name}`)
-    const sql = readFileSync(join(migrationsDir, file), 'utf-8')
-
-    // split by drizzle's statement-breakpoint marker
-    const statements = sql
-      .split('--> statement-breakpoint')
-      .map((s) => s.trim())
-      .filter(Boolean)
-
-    for (const stmt of statements) {
-      await db.exec(stmt)
-    }
-
-    await db.query('INSERT INTO public.migrations (name) VALUES ($1)', [name])
-    log.debug.orez(`applied migration: ${name}`)
-    applied++
-  }
+  const applied = await migrateUp(db, migrationsDir)
 
   log.debug.orez('migrations complete')
   return applied
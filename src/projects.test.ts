@@ -0,0 +1,216 @@
+import { createServer, type Server } from 'node:http'
+
+import { PGlite } from '@electric-sql/pglite'
+import postgres from 'postgres'
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { startProjectHub } from './admin/project-hub.js'
+import { getConfig } from './config.js'
+import { startPgProxy, type PgProxyServer } from './pg-proxy.js'
+import {
+  projectNames,
+  projectSourceFlags,
+  resolveProjectConfig,
+  routeProjectDatabase,
+  startPgRouter,
+  stripFlags,
+} from './projects.js'
+
+import type { AddressInfo } from 'node:net'
+
+describe('project config', () => {
+  it('layers a project over the shared options', () => {
+    const config = resolveProjectConfig(
+      {
+        dataDir: '.dev',
+        logLevel: 'info',
+        migrations: 'db/migrations',
+        seed: 'db/seed.sql',
+        projects: {
+          web: { migrationsDir: 'apps/web/migrations', zeroPort: 4848 },
+          api: {},
+        },
+      },
+      'web'
+    )
+    expect(config).toMatchObject({
+      dataDir: '.dev/web',
+      logLevel: 'info',
+      migrations: 'apps/web/migrations',
+      migrationsDir: undefined,
+      seed: 'db/seed.sql',
+      zeroPort: 4848,
+    })
+    expect(config.projects).toBeUndefined()
+    expect(() => resolveProjectConfig({ projects: {} }, 'nope')).toThrow(
+      /unknown project/
+    )
+  })
+
+  it('routes database names to projects', () => {
+    const names = ['web', 'web2']
+    expect(routeProjectDatabase('web', names)).toEqual({
+      project: 'web',
+      database: 'postgres',
+    })
+    expect(routeProjectDatabase('web2_cvr', names)).toEqual({
+      project: 'web2',
+      database: 'zero_cvr',
+    })
+    expect(routeProjectDatabase('web_cdb', names)).toEqual({
+      project: 'web',
+      database: 'zero_cdb',
+    })
+    expect(routeProjectDatabase('postgres', names)).toBeNull()
+  })
+
+  it("refuses a project named after another project's zero database", () => {
+    expect(projectNames({ projects: { app: {}, app2_cvr: {} } })).toEqual([
+      'app',
+      'app2_cvr',
+    ])
+    expect(() => projectNames({ projects: { app: {}, app_cvr: {} } })).toThrow(
+      /"app_cvr" collides with project "app"/
+    )
+    expect(() =>
+      resolveProjectConfig({ projects: { app_cdb: {}, app: {} } }, 'app')
+    ).toThrow(/"app_cdb" collides with project "app"/)
+  })
+
+  it('passes command-line sources to projects that do not set their own', () => {
+    // the supervisor's config already carries --migrations and --seed-profile
+    const config = {
+      migrations: 'cli/migrations',
+      seedProfile: 'demo',
+      projects: {
+        web: { seedFile: 'apps/web/seed.sql' },
+        api: { migrationsDir: 'apps/api/migrations', seedProfile: 'ci' },
+      },
+    }
+    expect(projectSourceFlags(resolveProjectConfig(config, 'web'))).toEqual([
+      '--migrations=cli/migrations',
+      '--seed=apps/web/seed.sql',
+      '--seed-profile=demo',
+    ])
+    expect(projectSourceFlags(resolveProjectConfig(config, 'api'))).toEqual([
+      '--migrations=apps/api/migrations',
+      '--seed-profile=ci',
+    ])
+  })
+
+  it('strips per-project flags in both spellings', () => {
+    expect(
+      stripFlags(
+        [
+          '--pg-port',
+          '7000',
+          '--log-level=debug',
+          '--seed=x.sql',
+          '--s3',
+          '--data-dir',
+          'd',
+        ],
+        ['pg-port', 'seed', 'data-dir']
+      )
+    ).toEqual(['--log-level=debug', '--s3'])
+  })
+})
+
+describe('startPgRouter', () => {
+  const dbs: PGlite[] = []
+  const servers: { close(cb?: () => void): unknown }[] = []
+
+  afterEach(async () => {
+    for (const server of servers.splice(0)) {
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+    for (const db of dbs.splice(0)) await db.close()
+  })
+
+  async function project(table: string): Promise<number> {
+    const db = new PGlite()
+    await db.exec(`CREATE TABLE ${table} (id INT)`)
+    dbs.push(db)
+    const proxy: PgProxyServer = await startPgProxy(db, { ...getConfig(), pgPort: 0 })
+    servers.push(proxy)
+    return (proxy.address() as AddressInfo).port
+  }
+
+  it('sends each database to its project', async () => {
+    const targets = new Map([
+      ['web', await project('web_items')],
+      ['api', await project('api_items')],
+    ])
+    const router = await startPgRouter(0, targets)
+    servers.push(router)
+    const port = (router.address() as AddressInfo).port
+    const connect = (database: string) =>
+      postgres({
+        host: '127.0.0.1',
+        port,
+        user: 'user',
+        password: 'password',
+        database,
+        max: 1,
+      })
+
+    const web = connect('web')
+    const api = connect('api')
+    const unknown = connect('shop')
+    try {
+      const tables = (rows: { tablename: string }[]) => rows.map((r) => r.tablename)
+      const query = `SELECT tablename FROM pg_tables WHERE schemaname = 'public'`
+      expect(tables(await web.unsafe(query))).toEqual(['web_items'])
+      expect(tables(await api.unsafe(query))).toEqual(['api_items'])
+      await expect(unknown`SELECT 1`).rejects.toThrow(/database "shop" does not exist/)
+    } finally {
+      await Promise.all([web, api, unknown].map((sql) => sql.end({ timeout: 1 })))
+    }
+  })
+})
+
+describe('startProjectHub', () => {
+  const servers: Server[] = []
+
+  afterEach(async () => {
+    for (const server of servers.splice(0)) {
+      await new Promise((resolve) => server.close(resolve))
+    }
+  })
+
+  async function dashboard(name: string): Promise<number> {
+    const server = createServer((req, res) => res.end(`${name} ${req.url}`))
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    servers.push(server)
+    return (server.address() as AddressInfo).port
+  }
+
+  it('forwards to the project chosen by cookie', async () => {
+    const projects = [
+      { name: 'web', zeroPort: 4848, adminPort: await dashboard('web'), running: true },
+      { name: 'api', zeroPort: 4858, adminPort: await dashboard('api'), running: true },
+    ]
+    const hub = await startProjectHub(0, () => projects)
+    servers.push(hub)
+    const base = `http://127.0.0.1:${(hub.address() as AddressInfo).port}`
+
+    expect(await (await fetch(`${base}/api/projects`)).json()).toEqual({
+      current: 'web',
+      projects: [
+        { name: 'web', zeroPort: 4848, running: true },
+        { name: 'api', zeroPort: 4858, running: true },
+      ],
+    })
+    expect(await (await fetch(`${base}/api/status`)).text()).toBe('web /api/status')
+    const res = await fetch(`${base}/api/status`, {
+      headers: { cookie: 'theme=dark; orez_project=api' },
+    })
+    expect(await res.text()).toBe('api /api/status')
+
+    projects[1].running = false
+    const stopped = await fetch(`${base}/api/status`, {
+      headers: { cookie: 'orez_project=api' },
+    })
+    expect(stopped.status).toBe(503)
+  })
+})
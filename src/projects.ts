@@ -0,0 +1,383 @@
+/**
+ * several isolated orez projects behind one command.
+ *
+ * startZeroLite keeps process-wide state (ZERO_APP_PUBLICATIONS, the
+ * replication handler, the admin log store), so each project runs as its own
+ * `orez --project <name>` child with its own data directory, databases and
+ * zero-cache. this process owns the shared entry points: a pg router on
+ * pgPort that picks the project by database name, and the admin dashboard,
+ * which forwards to the selected project's dashboard (see admin/project-hub).
+ */
+import { spawn, type ChildProcess } from 'node:child_process'
+import { createServer, connect, type Server, type Socket } from 'node:net'
+import { join } from 'node:path'
+import { createInterface } from 'node:readline'
+
+import { startProjectHub } from './admin/project-hub.js'
+import { terminateChildProcessTree } from './child-process.js'
+import { log, url } from './log.js'
+import { findPort } from './port.js'
+
+import type { OrezConfig } from './config.js'
+
+const PROJECT_NAME = /^[a-z][a-z0-9_-]*$/
+
+// database name suffix → the database inside the project's own proxy
+const PROJECT_DATABASES: Record<string, string> = {
+  '': 'postgres',
+  _cvr: 'zero_cvr',
+  _cdb: 'zero_cdb',
+}
+
+// postgres startup packet codes
+const SSL_REQUEST = 80877103
+const GSSENC_REQUEST = 80877104
+const CANCEL_REQUEST = 80877102
+
+/** declared project names, in config order */
+export function projectNames(config: OrezConfig): string[] {
+  const names = Object.keys(config.projects ?? {})
+  for (const name of names) {
+    if (!PROJECT_NAME.test(name)) {
+      throw new Error(
+        `invalid project name "${name}": use lowercase letters, digits, _ and -`
+      )
+    }
+    // `app_cvr` would be both a project and app's cvr database to the pg router
+    for (const suffix of Object.keys(PROJECT_DATABASES)) {
+      if (suffix && names.includes(`${name}${suffix}`)) {
+        throw new Error(
+          `project name "${name}${suffix}" collides with project "${name}"'s zero database`
+        )
+      }
+    }
+  }
+  return names
+}
+
+/**
+ * the config one project runs with: top-level options as defaults, the
+ * project's own on top, and a data directory under the shared one.
+ */
+export function resolveProjectConfig(config: OrezConfig, name: string): OrezConfig {
+  const names = projectNames(config)
+  const project = config.projects?.[name]
+  if (!project) {
+    throw new Error(
+      `unknown project "${name}" (configured: ${names.join(', ') || 'none'})`
+    )
+  }
+  const { projects: _, ...shared } = config
+  const merged: OrezConfig = {
+    ...shared,
+    dataDir: join(config.dataDir ?? '.orez', name),
+    ...project,
+  }
+  // a project setting either spelling replaces both spellings of the shared value
+  if (project.migrations !== undefined || project.migrationsDir !== undefined) {
+    merged.migrations = project.migrations ?? project.migrationsDir
+    merged.migrationsDir = undefined
+  }
+  if (project.seed !== undefined || project.seedFile !== undefined) {
+    merged.seed = project.seed ?? project.seedFile
+    merged.seedFile = undefined
+  }
+  return merged
+}
+
+/**
+ * `--migrations`, `--seed` and `--seed-profile` for one project's child. the
+ * supervisor strips these from the forwarded arguments, so values given on its
+ * own command line reach the child here, as defaults the project's config
+ * still overrides.
+ */
+export function projectSourceFlags(project: OrezConfig): string[] {
+  const migrations = project.migrations ?? project.migrationsDir
+  const seed = project.seed ?? project.seedFile
+  return [
+    ...(migrations ? [`--migrations=${migrations}`] : []),
+    ...(seed ? [`--seed=${seed}`] : []),
+    ...(project.seedProfile ? [`--seed-profile=${project.seedProfile}`] : []),
+  ]
+}
+
+/** `web` → web's postgres, `web_cvr` / `web_cdb` → its zero databases */
+export function routeProjectDatabase(
+  database: string,
+  names: string[]
+): { project: string; database: string } | null {
+  for (const name of names) {
+    if (!database.startsWith(name)) continue
+    const target = PROJECT_DATABASES[database.slice(name.length)]
+    if (target) return { project: name, database: target }
+  }
+  return null
+}
+
+function errorResponse(code: string, message: string): Buffer {
+  const fields = Buffer.from(`SFATAL\0VFATAL\0C${code}\0M${message}\0\0`, 'utf-8')
+  const header = Buffer.alloc(5)
+  header[0] = 0x45 // 'E'
+  header.writeInt32BE(fields.length + 4, 1)
+  return Buffer.concat([header, fields])
+}
+
+function parseStartupParams(packet: Buffer): Map<string, string> {
+  const params = new Map<string, string>()
+  const parts = packet.subarray(8).toString('utf-8').split('\0')
+  for (let i = 0; i + 1 < parts.length && parts[i]; i += 2) {
+    params.set(parts[i], parts[i + 1])
+  }
+  return params
+}
+
+function encodeStartup(protocol: number, params: Map<string, string>): Buffer {
+  let body = ''
+  for (const [key, value] of params) body += `${key}\0${value}\0`
+  const payload = Buffer.from(`${body}\0`, 'utf-8')
+  const header = Buffer.alloc(8)
+  header.writeInt32BE(payload.length + 8, 0)
+  header.writeInt32BE(protocol, 4)
+  return Buffer.concat([header, payload])
+}
+
+/**
+ * routes pg connections to projects by database name. only the startup
+ * packet is read and rewritten; everything after it is piped through to the
+ * project's own pg proxy untouched. `targets` maps a project to its proxy
+ * port and is read per connection, so connections for a project that has
+ * exited are refused instead of sent to a dead port. exited projects are not
+ * restarted.
+ */
+export async function startPgRouter(
+  port: number,
+  targets: Map<string, number>
+): Promise<Server> {
+  const server = createServer((socket: Socket) => {
+    let buffered = Buffer.alloc(0)
+    socket.on('error', () => socket.destroy())
+
+    const onData = (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk])
+      while (buffered.length >= 8) {
+        const length = buffered.readInt32BE(0)
+        if (buffered.length < length) return
+        const packet = buffered.subarray(0, length)
+        buffered = buffered.subarray(length)
+        const code = packet.readInt32BE(4)
+
+        if (code === SSL_REQUEST || code === GSSENC_REQUEST) {
+          // no tls between localhost processes; the client retries in plain text
+          socket.write('N')
+          continue
+        }
+        // hold what follows the startup packet until the upstream is piped
+        socket.pause()
+        socket.off('data', onData)
+        if (code === CANCEL_REQUEST) {
+          // cancel packets carry no database, so there is nowhere to route them
+          socket.destroy()
+          return
+        }
+
+        const params = parseStartupParams(packet)
+        const database = params.get('database') ?? params.get('user') ?? ''
+        const route = routeProjectDatabase(database, [...targets.keys()])
+        const targetPort = route && targets.get(route.project)
+        if (!route || !targetPort) {
+          const message = `database "${database}" does not exist (projects: ${[...targets.keys()].join(', ')})`
+          // the socket is paused, so don't wait for the client's FIN
+          socket.write(errorResponse('3D000', message), () => socket.destroy())
+          return
+        }
+        log.debug.orez(`pg router: ${database} → ${route.project}/${route.database}`)
+
+        params.set('database', route.database)
+        const upstream = connect(targetPort, '127.0.0.1', () => {
+          upstream.write(encodeStartup(code, params))
+          if (buffered.length > 0) upstream.write(buffered)
+          socket.pipe(upstream)
+          upstream.pipe(socket)
+        })
+        upstream.on('error', () => socket.destroy())
+        upstream.on('close', () => socket.destroy())
+        socket.on('close', () => upstream.destroy())
+        return
+      }
+    }
+    socket.on('data', onData)
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, '127.0.0.1', () => resolve())
+  })
+  return server
+}
+
+/** what an `orez --project` child sends its supervisor once it is serving */
+export interface ProjectReadyMessage {
+  type: 'orez:project-ready'
+  pgPort: number
+  zeroPort: number
+  adminPort: number
+}
+
+function isProjectReady(msg: unknown): msg is ProjectReadyMessage {
+  return (
+    typeof msg === 'object' &&
+    msg !== null &&
+    Reflect.get(msg, 'type') === 'orez:project-ready'
+  )
+}
+
+export interface ProjectProcess {
+  name: string
+  child: ChildProcess
+  pgPort: number
+  zeroPort: number
+  adminPort: number
+  running: boolean
+}
+
+// flags the supervisor sets per project instead of forwarding
+const PER_PROJECT_FLAGS = [
+  'project',
+  'pg-port',
+  'zero-port',
+  'admin-port',
+  'data-dir',
+  'migrations',
+  'seed',
+  'seed-profile',
+]
+
+/** drop `--flag value` and `--flag=value` for the given flags */
+export function stripFlags(argv: string[], flags: string[]): string[] {
+  const out: string[] = []
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split('=', 2)
+    if (!flags.includes(flag.replace(/^--/, ''))) {
+      out.push(argv[i])
+      continue
+    }
+    // a separate value follows unless it was given inline or is another flag
+    if (inline === undefined && argv[i + 1] && !argv[i + 1].startsWith('-')) i++
+  }
+  return out
+}
+
+function pipeOutput(
+  name: string,
+  stream: NodeJS.ReadableStream,
+  out: NodeJS.WriteStream
+) {
+  const lines = createInterface({ input: stream })
+  lines.on('line', (line) => out.write(`\x1b[2m${name}\x1b[0m ${line}\n`))
+}
+
+/**
+ * start every project as an `orez --project` child, one at a time so their
+ * port searches don't race, behind a shared pg router and admin dashboard.
+ * `argv` is this process's own arguments, forwarded to each child.
+ */
+export async function startProjects(
+  config: OrezConfig,
+  argv: string[]
+): Promise<{ projects: ProjectProcess[]; stop(): Promise<void> }> {
+  const names = projectNames(config)
+  if (names.length === 0) throw new Error('no projects configured')
+  const entry = process.argv[1]
+  const forwarded = stripFlags(argv, PER_PROJECT_FLAGS)
+
+  const routerPort = await findPort(config.pgPort ?? 6434)
+  const targets = new Map<string, number>()
+  const router = await startPgRouter(routerPort, targets)
+
+  const adminEnabled = !config.disableAdmin
+  const hubPort = adminEnabled ? await findPort(config.adminPort ?? 6477) : 0
+  const projects: ProjectProcess[] = []
+  let hub: Server | undefined
+  let stopping = false
+
+  const startProject = (name: string, index: number) =>
+    new Promise<ProjectProcess>((resolve, reject) => {
+      const project = resolveProjectConfig(config, name)
+      const args = [
+        ...forwarded,
+        // `--flag=value`: citty takes a bare value for a subcommand name
+        `--project=${name}`,
+        `--data-dir=${project.dataDir}`,
+        `--pg-port=${routerPort + 1 + index}`,
+        `--zero-port=${project.zeroPort ?? (config.zeroPort ?? 5849) + index * 10}`,
+        `--admin-port=${adminEnabled ? hubPort + 1 + index : 0}`,
+        ...projectSourceFlags(project),
+      ]
+      const env = { ...process.env }
+      if (project.zeroPublications) env.ZERO_APP_PUBLICATIONS = project.zeroPublications
+      const child = spawn(process.execPath, [...process.execArgv, entry, ...args], {
+        env,
+        stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+      })
+      pipeOutput(name, child.stdout!, process.stdout)
+      pipeOutput(name, child.stderr!, process.stderr)
+
+      const proc: ProjectProcess = {
+        name,
+        child,
+        pgPort: 0,
+        zeroPort: 0,
+        adminPort: 0,
+        running: false,
+      }
+      child.on('message', (msg) => {
+        if (!isProjectReady(msg)) return
+        Object.assign(proc, {
+          pgPort: msg.pgPort,
+          zeroPort: msg.zeroPort,
+          adminPort: msg.adminPort,
+          running: true,
+        })
+        targets.set(name, msg.pgPort)
+        resolve(proc)
+      })
+      child.on('exit', (code, signal) => {
+        const wasRunning = proc.running
+        proc.running = false
+        targets.delete(name)
+        if (!wasRunning) {
+          reject(new Error(`project "${name}" exited during startup (${signal ?? code})`))
+        } else if (!stopping) {
+          log.orez(`project "${name}" exited (${signal ?? code})`)
+        }
+      })
+    })
+
+  const stop = async () => {
+    stopping = true
+    await Promise.all(
+      projects.map((p) => terminateChildProcessTree(p.child, { graceMs: 15_000 }))
+    )
+    router.close()
+    hub?.close()
+  }
+
+  try {
+    for (const [index, name] of names.entries()) {
+      log.orez(`starting project "${name}"...`)
+      projects.push(await startProject(name, index))
+    }
+    if (adminEnabled) hub = await startProjectHub(hubPort, () => projects)
+  } catch (err) {
+    await stop()
+    throw err
+  }
+
+  for (const p of projects) {
+    log.orez(
+      `${p.name}: ${url(`postgresql://${config.pgUser ?? 'user'}:${config.pgPassword ?? 'password'}@127.0.0.1:${routerPort}/${p.name}`)} zero ${url(`http://localhost:${p.zeroPort}`)}`
+    )
+  }
+  if (hub) log.orez(`admin: ${url(`http://localhost:${hubPort}`)}`)
+  return { projects, stop }
+}
@@ -83,4 +83,23 @@ describe('publication sync', () => {
 
     expect(altered).toEqual(['bar'])
   })
+
+  test('ensurePublicationHasTables keeps publications that only list non-public tables', async () => {
+    const execs: string[] = []
+    const db = fakeDb(
+      [
+        {
+          match: /FROM pg_publication_tables\s+WHERE pubname = \$1$/,
+          rows: [{ count: '1' }],
+        },
+      ],
+      (sql) => {
+        execs.push(sql)
+      }
+    )
+
+    await ensurePublicationHasTables(db, ['pub'])
+
+    expect(execs).toEqual([])
+  })
 })
@@ -52,6 +52,8 @@ export async function syncManagedPublications(
  * ensure publications have table membership after on-db-ready.
  * handles the case where orez pre-created an empty publication and the app's
  * migration skipped adding tables because the publication already existed.
+ * membership in any schema counts: a publication listing only `app.*` tables
+ * is deliberate and must not be backfilled with public tables.
  */
 export async function ensurePublicationHasTables(
   db: PGlite,
@@ -60,7 +62,7 @@ export async function ensurePublicationHasTables(
   for (const pub of names) {
     const inPub = await db.query<{ count: string }>(
       `SELECT count(*)::text as count FROM pg_publication_tables
-       WHERE pubname = $1 AND schemaname = 'public'`,
+       WHERE pubname = $1`,
       [pub]
     )
     if (Number(inPub.rows[0]?.count) > 0) continue
@@ -0,0 +1,180 @@
+/**
+ * per-statement timing for the pg proxy.
+ *
+ * statements are grouped by a normalized fingerprint (literals and bind
+ * parameters replaced with `?`) together with the connecting database and
+ * application_name, so "which client runs which query how often, and how long
+ * does it wait for the pglite mutex" is answerable from the admin dashboard.
+ * timings keep a bounded window of recent samples for the percentiles.
+ */
+
+export interface QuerySample {
+  sql: string
+  database: string
+  applicationName: string
+  /** time spent waiting for the instance mutex */
+  waitMs: number
+  /** time spent inside pglite */
+  execMs: number
+}
+
+export interface QueryTimings {
+  p50: number
+  p95: number
+  max: number
+}
+
+export interface QueryStatsEntry {
+  fingerprint: string
+  database: string
+  applicationName: string
+  count: number
+  totalExecMs: number
+  waitMs: QueryTimings
+  execMs: QueryTimings
+  /** most recent raw statement text for this fingerprint */
+  example: string
+  lastSeen: number
+}
+
+export type QueryStatsSort = 'total' | 'count' | 'p95' | 'max' | 'wait'
+
+export interface QueryStatsStore {
+  record(sample: QuerySample): void
+  query(opts?: { database?: string; sort?: QueryStatsSort; limit?: number }): {
+    entries: QueryStatsEntry[]
+    total: number
+    since: number
+  }
+  clear(): void
+}
+
+const MAX_FINGERPRINTS = 1_000
+const MAX_SAMPLES = 256
+
+/**
+ * collapse a statement into its shape: comments dropped, whitespace folded,
+ * string/number literals and $n parameters replaced with `?`, and runs of
+ * placeholders (IN lists, multi-row VALUES) folded into one.
+ */
+export function fingerprintQuery(sql: string): string {
+  return sql
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/'(?:[^']|'')*'/g, '?')
+    .replace(/\$\d+/g, '?')
+    .replace(/\b\d+(?:\.\d+)?\b/g, '?')
+    .replace(/\s+/g, ' ')
+    .replace(/\(\s*\?(?:\s*,\s*\?)*\s*\)/g, '(?)')
+    .replace(/\(\?\)(?:\s*,\s*\(\?\))+/g, '(?)')
+    .replace(/\s*;\s*$/, '')
+    .trim()
+}
+
+interface Bucket {
+  fingerprint: string
+  database: string
+  applicationName: string
+  count: number
+  totalExecMs: number
+  maxWaitMs: number
+  maxExecMs: number
+  // ring buffers of the last MAX_SAMPLES timings
+  waitSamples: number[]
+  execSamples: number[]
+  example: string
+  lastSeen: number
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = Math.ceil((p / 100) * sorted.length) - 1
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))]
+}
+
+function timings(samples: number[], max: number): QueryTimings {
+  const sorted = [...samples].sort((a, b) => a - b)
+  return { p50: percentile(sorted, 50), p95: percentile(sorted, 95), max }
+}
+
+const SORTS: Record<QueryStatsSort, (e: QueryStatsEntry) => number> = {
+  total: (e) => e.totalExecMs,
+  count: (e) => e.count,
+  p95: (e) => e.execMs.p95,
+  max: (e) => e.execMs.max,
+  wait: (e) => e.waitMs.p95,
+}
+
+export function createQueryStatsStore(): QueryStatsStore {
+  const buckets = new Map<string, Bucket>()
+  let since = Date.now()
+
+  function record(sample: QuerySample) {
+    const fingerprint = fingerprintQuery(sample.sql)
+    const key = `${sample.database}\0${sample.applicationName}\0${fingerprint}`
+    let bucket = buckets.get(key)
+    if (!bucket) {
+      // evict the least recently seen fingerprint (map order is insertion
+      // order, and hits re-insert below)
+      if (buckets.size >= MAX_FINGERPRINTS) {
+        buckets.delete(buckets.keys().next().value!)
+      }
+      bucket = {
+        fingerprint,
+        database: sample.database,
+        applicationName: sample.applicationName,
+        count: 0,
+        totalExecMs: 0,
+        maxWaitMs: 0,
+        maxExecMs: 0,
+        waitSamples: [],
+        execSamples: [],
+        example: sample.sql,
+        lastSeen: 0,
+      }
+    } else {
+      buckets.delete(key)
+    }
+    buckets.set(key, bucket)
+
+    const slot = bucket.count % MAX_SAMPLES
+    bucket.waitSamples[slot] = sample.waitMs
+    bucket.execSamples[slot] = sample.execMs
+    bucket.count++
+    bucket.totalExecMs += sample.execMs
+    bucket.maxWaitMs = Math.max(bucket.maxWaitMs, sample.waitMs)
+    bucket.maxExecMs = Math.max(bucket.maxExecMs, sample.execMs)
+    bucket.example = sample.sql
+    bucket.lastSeen = Date.now()
+  }
+
+  function query(opts?: { database?: string; sort?: QueryStatsSort; limit?: number }) {
+    let entries: QueryStatsEntry[] = []
+    for (const b of buckets.values()) {
+      if (opts?.database && b.database !== opts.database) continue
+      entries.push({
+        fingerprint: b.fingerprint,
+        database: b.database,
+        applicationName: b.applicationName,
+        count: b.count,
+        totalExecMs: b.totalExecMs,
+        waitMs: timings(b.waitSamples, b.maxWaitMs),
+        execMs: timings(b.execSamples, b.maxExecMs),
+        example: b.example,
+        lastSeen: b.lastSeen,
+      })
+    }
+    const total = entries.length
+    const by = SORTS[opts?.sort ?? 'total'] ?? SORTS.total
+    entries.sort((a, b) => by(b) - by(a))
+    if (opts?.limit) entries = entries.slice(0, opts.limit)
+    return { entries, total, since }
+  }
+
+  function clear() {
+    buckets.clear()
+    since = Date.now()
+  }
+
+  return { record, query, clear }
+}
@@ -9,6 +9,7 @@ import { resolve } from 'node:path'
 import { isChildProcessRunning, terminateChildProcessTree } from './child-process.js'
 import { log } from './log.js'
 import { createPGliteWorker } from './pglite-manager.js'
+import { getAppSchemas, parsePublicationNames } from './replication/change-tracker.js'
 
 import type { PGlite } from '@electric-sql/pglite'
 import type { ChildProcess } from 'node:child_process'
@@ -462,12 +463,19 @@ export async function recoverZeroState(ctx: RecoveryContext): Promise<void> {
   await db.exec(`TRUNCATE _orez._zero_replication_slots`).catch(() => {})
   await db.exec(`ALTER SEQUENCE _orez._zero_watermark RESTART WITH 1`).catch(() => {})
 
-  // drop stale shard schemas
+  // drop stale shard schemas (never a published app schema that happens to
+  // have a `clients` table)
+  const appSchemas = await getAppSchemas(
+    db,
+    parsePublicationNames(process.env.ZERO_APP_PUBLICATIONS)
+  )
   const shardSchemas = await db.query<{ schemaname: string }>(
     `SELECT DISTINCT schemaname FROM pg_tables
      WHERE tablename IN ('clients', 'replicas', 'mutations')
        AND schemaname NOT IN ('pg_catalog', 'information_schema', 'pg_toast', 'public', '_orez')
-       AND schemaname NOT LIKE 'pg_%'`
+       AND schemaname <> ALL($1)
+       AND schemaname NOT LIKE 'pg_%'`,
+    [[...appSchemas]]
   )
   for (const { schemaname } of shardSchemas.rows) {
     await db.exec(`DROP SCHEMA IF EXISTS "${schemaname.replace(/"/g, '""')}" CASCADE`)
@@ -0,0 +1,199 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { createServer, type Server } from 'node:http'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import WebSocket, { WebSocketServer } from 'ws'
+
+import { createHttpLogStore, startHttpProxy } from './admin/http-proxy.js'
+import { createTrafficRecorder } from './admin/traffic-recorder.js'
+import { diffCaptures, foldPokes, readCapture, replayCapture } from './replay.js'
+
+import type { CaptureEvent } from './admin/traffic-recorder.js'
+import type { AddressInfo } from 'node:net'
+
+function serverMessage(conn: number, msg: unknown): CaptureEvent {
+  return { t: 0, conn, type: 'ws-message', from: 'server', data: JSON.stringify(msg) }
+}
+
+function poke(conn: number, id: string, part: object, cancel = false): CaptureEvent[] {
+  return [
+    serverMessage(conn, ['pokeStart', { pokeID: id, baseCookie: null }]),
+    serverMessage(conn, ['pokePart', { pokeID: id, ...part }]),
+    serverMessage(conn, ['pokeEnd', { pokeID: id, cookie: id, cancel }]),
+  ]
+}
+
+describe('foldPokes', () => {
+  it('applies puts, updates and deletes and skips cancelled pokes', () => {
+    const events = [
+      ...poke(1, 'a', {
+        rowsPatch: [
+          { op: 'put', tableName: 'todo', value: { id: '1', title: 'one', done: false } },
+          { op: 'put', tableName: 'todo', value: { id: '2', title: 'two', done: false } },
+        ],
+        gotQueriesPatch: [{ op: 'put', hash: 'q1' }],
+        lastMutationIDChanges: { c1: 3 },
+      }),
+      ...poke(1, 'b', {
+        rowsPatch: [
+          { op: 'update', tableName: 'todo', id: { id: '1' }, merge: { done: true } },
+          { op: 'del', tableName: 'todo', id: { id: '2' } },
+        ],
+      }),
+      ...poke(
+        1,
+        'c',
+        { rowsPatch: [{ op: 'put', tableName: 'todo', value: { id: '3' } }] },
+        true
+      ),
+    ]
+    const state = foldPokes(events, 1)
+    expect(state.pokes).toBe(2)
+    expect(state.rows.get('todo')).toEqual(['{"done":true,"id":"1","title":"one"}'])
+    expect(state.gotQueries).toEqual(['q1'])
+    expect(state.lastMutationIDs).toEqual({ c1: 3 })
+  })
+})
+
+describe('record and replay', () => {
+  let dataDir: string
+  let zero: Server
+  let proxy: import('node:net').Server
+  let rows: { id: string; title: string }[]
+
+  // a stand-in zero-cache: answers changeDesiredQueries with one poke
+  // holding `rows`, and pushes over HTTP with 200
+  beforeEach(async () => {
+    dataDir = mkdtempSync(join(tmpdir(), 'orez-replay-'))
+    rows = [{ id: '1', title: 'hello' }]
+    zero = createServer((req, res) => {
+      let body = ''
+      req.on('data', (c) => (body += c))
+      req.on('end', () => {
+        res.writeHead(200, { 'content-type': 'application/json' })
+        res.end(JSON.stringify({ received: JSON.parse(body || 'null') }))
+      })
+    })
+    const wss = new WebSocketServer({ server: zero })
+    wss.on('connection', (ws) => {
+      ws.send(JSON.stringify(['connected', { wsid: 'x' }]))
+      ws.on('message', (data) => {
+        const [type] = JSON.parse(String(data))
+        if (type !== 'changeDesiredQueries') return
+        ws.send(JSON.stringify(['pokeStart', { pokeID: 'p1', baseCookie: null }]))
+        ws.send(
+          JSON.stringify([
+            'pokePart',
+            {
+              pokeID: 'p1',
+              rowsPatch: rows.map((value) => ({ op: 'put', tableName: 'todo', value })),
+            },
+          ])
+        )
+        ws.send(JSON.stringify(['pokeEnd', { pokeID: 'p1', cookie: '1' }]))
+      })
+    })
+    await new Promise<void>((resolve) => zero.listen(0, '127.0.0.1', resolve))
+  })
+
+  afterEach(async () => {
+    proxy?.close()
+    zero.closeAllConnections()
+    await new Promise((resolve) => zero.close(resolve))
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  async function recordSession() {
+    const recorder = createTrafficRecorder(dataDir)
+    proxy = await startHttpProxy({
+      listenPort: 0,
+      targetPort: (zero.address() as AddressInfo).port,
+      httpLog: createHttpLogStore(),
+      recorder,
+    })
+    const port = (proxy.address() as AddressInfo).port
+    recorder.start()
+
+    const res = await fetch(`http://127.0.0.1:${port}/push`, {
+      method: 'POST',
+      headers: { authorization: 'Bearer secret-token', cookie: 'session=secret' },
+      body: JSON.stringify({ mutations: [1] }),
+    })
+    expect(res.status).toBe(200)
+
+    // the ws client offers permessage-deflate; the proxy must strip it
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/sync/v1/connect?baseCookie=abc`, {
+      headers: { cookie: 'session=secret' },
+    })
+    await new Promise<void>((resolve, reject) => {
+      ws.on('error', reject)
+      ws.on('open', () => ws.send(JSON.stringify(['changeDesiredQueries', {}])))
+      ws.on('message', (data) => {
+        if (String(data).startsWith('["pokeEnd"')) resolve()
+      })
+    })
+    ws.close()
+    await new Promise((r) => setTimeout(r, 50))
+    const info = await recorder.stop()
+    return { info: info!, recorder }
+  }
+
+  it('captures HTTP bodies and websocket frames in both directions', async () => {
+    const { info, recorder } = await recordSession()
+    expect(recorder.list().map((r) => r.name)).toEqual([info.name])
+
+    const { events } = readCapture(info.path)
+    const request = events.find((e) => e.type === 'http-request')
+    expect(request).toMatchObject({
+      method: 'POST',
+      path: '/push',
+      body: '{"mutations":[1]}',
+    })
+    const response = events.find((e) => e.type === 'http-response')
+    expect(response).toMatchObject({
+      status: 200,
+      body: '{"received":{"mutations":[1]}}',
+    })
+    expect(events.find((e) => e.type === 'ws-open')).toMatchObject({
+      path: '/sync/v1/connect?baseCookie=abc',
+      headers: { cookie: '[redacted]' },
+    })
+    expect(request).toMatchObject({
+      headers: { authorization: '[redacted]', cookie: '[redacted]' },
+    })
+    expect(readFileSync(info.path, 'utf-8')).not.toContain('secret')
+    const frames = events.flatMap((e) =>
+      e.type === 'ws-message' ? [`${e.from}:${JSON.parse(e.data)[0]}`] : []
+    )
+    expect(frames).toEqual([
+      'server:connected',
+      'client:changeDesiredQueries',
+      'server:pokeStart',
+      'server:pokePart',
+      'server:pokeEnd',
+    ])
+  })
+
+  it('replays a capture and diffs the synced rows', async () => {
+    const { info } = await recordSession()
+    const capture = readCapture(info.path)
+    const port = (zero.address() as AddressInfo).port
+
+    const same = await replayCapture(capture, { port, speed: 10, settleMs: 100 })
+    expect(same.find((e) => e.type === 'ws-open')).toMatchObject({
+      path: '/sync/v1/connect?baseCookie=',
+    })
+    expect(diffCaptures(capture.events, same)).toEqual([])
+
+    rows = [{ id: '1', title: 'changed' }]
+    const changed = await replayCapture(capture, { port, speed: 10, settleMs: 100 })
+    const [diff] = diffCaptures(capture.events, changed)
+    expect(diff.label).toBe('ws /sync/v1/connect')
+    expect(diff.differences).toEqual([
+      'todo: 1 row(s) only in recording, e.g. {"id":"1","title":"hello"}',
+      'todo: 1 row(s) only in replay, e.g. {"id":"1","title":"changed"}',
+    ])
+  })
+})
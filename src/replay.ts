@@ -0,0 +1,518 @@
+/**
+ * replay a zero protocol capture (recorded from the admin dashboard's HTTP
+ * tab) against a zero-cache, and diff what it syncs.
+ *
+ * client-originated traffic — HTTP requests, websocket upgrades and client
+ * frames — is re-sent at its recorded offsets. server traffic from the
+ * capture is the expectation: pokes from both runs are folded into the final
+ * row state per connection and compared, so differences in poke timing or
+ * batching don't show up as noise.
+ */
+import { randomBytes } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { connect, type Socket } from 'node:net'
+
+import {
+  HttpStreamParser,
+  REDACTED,
+  WsFrameParser,
+  encodeBody,
+} from './admin/traffic-recorder.js'
+
+import type { CaptureEvent, CaptureHeader } from './admin/traffic-recorder.js'
+
+export interface Capture {
+  header: CaptureHeader
+  events: CaptureEvent[]
+}
+
+export function readCapture(path: string): Capture {
+  const lines = readFileSync(path, 'utf-8').split('\n').filter(Boolean)
+  const header = lines.length ? JSON.parse(lines[0]) : null
+  if (header?.type !== 'capture' || header.version !== 1) {
+    throw new Error(`${path} is not an orez capture file`)
+  }
+  return { header, events: lines.slice(1).map((line) => JSON.parse(line)) }
+}
+
+export interface ReplayOptions {
+  port: number
+  host?: string
+  /** playback speed multiplier for the recorded gaps (default: 1) */
+  speed?: number
+  /** how long to keep sockets open for pokes after the last client event */
+  settleMs?: number
+}
+
+// headers that describe the recorded connection rather than the request
+const HOP_HEADERS = new Set([
+  'host',
+  'connection',
+  'content-length',
+  'transfer-encoding',
+  'upgrade',
+  'sec-websocket-key',
+  'sec-websocket-version',
+  'sec-websocket-extensions',
+])
+
+function forwardHeaders(headers: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (const [k, v] of Object.entries(headers)) {
+    if (!HOP_HEADERS.has(k) && v !== REDACTED) out[k] = v
+  }
+  return out
+}
+
+/**
+ * the recorded client resumed from a CVR that only existed in the recording
+ * instance; a fresh instance must sync from scratch instead.
+ */
+function replayPath(path: string): string {
+  const url = new URL(path, 'http://localhost')
+  if (url.searchParams.has('baseCookie')) url.searchParams.set('baseCookie', '')
+  return url.pathname + url.search
+}
+
+function encodeClientFrame(opcode: number, payload: Buffer): Buffer {
+  const len = payload.length
+  const head = len < 126 ? 2 : len < 65536 ? 4 : 10
+  const frame = Buffer.alloc(head + 4 + len)
+  frame[0] = 0x80 | opcode
+  if (len < 126) {
+    frame[1] = 0x80 | len
+  } else if (len < 65536) {
+    frame[1] = 0x80 | 126
+    frame.writeUInt16BE(len, 2)
+  } else {
+    frame[1] = 0x80 | 127
+    frame.writeBigUInt64BE(BigInt(len), 2)
+  }
+  // clients must mask every frame
+  const mask = randomBytes(4)
+  mask.copy(frame, head)
+  for (let i = 0; i < len; i++) {
+    frame[head + 4 + i] = payload[i] ^ mask[i % 4]
+  }
+  return frame
+}
+
+interface ReplaySocket {
+  send(event: Extract<CaptureEvent, { type: 'ws-message' }>): void
+  close(): void
+}
+
+function openWebSocket(
+  host: string,
+  port: number,
+  path: string,
+  headers: Record<string, string>,
+  onMessage: (kind: 'text' | 'binary' | 'close', data: Buffer) => void
+): Promise<ReplaySocket> {
+  return new Promise((resolve, reject) => {
+    const socket: Socket = connect(port, host)
+    const responses = new HttpStreamParser('response')
+    let frames: WsFrameParser | null = null
+
+    socket.on('connect', () => {
+      const lines = [
+        `GET ${path} HTTP/1.1`,
+        `host: ${host}:${port}`,
+        'connection: Upgrade',
+        'upgrade: websocket',
+        'sec-websocket-version: 13',
+        `sec-websocket-key: ${randomBytes(16).toString('base64')}`,
+        ...Object.entries(forwardHeaders(headers)).map(([k, v]) => `${k}: ${v}`),
+      ]
+      socket.write(lines.join('\r\n') + '\r\n\r\n')
+    })
+    socket.on('error', reject)
+    socket.on('close', () => onMessage('close', Buffer.alloc(0)))
+    socket.on('data', (chunk: Buffer) => {
+      if (frames) {
+        for (const m of frames.push(chunk)) onMessage(m.kind, m.data)
+        return
+      }
+      const [res] = responses.push(chunk)
+      if (!res) return
+      if (!/ 101 /.test(res.startLine)) {
+        socket.destroy()
+        reject(
+          new Error(`websocket upgrade failed: ${res.startLine} ${res.body.toString()}`)
+        )
+        return
+      }
+      frames = new WsFrameParser()
+      const rest = responses.rest()
+      if (rest.length) for (const m of frames.push(rest)) onMessage(m.kind, m.data)
+      resolve({
+        send(event) {
+          const binary = event.binary === true
+          socket.write(
+            encodeClientFrame(
+              binary ? 0x2 : 0x1,
+              Buffer.from(event.data, binary ? 'base64' : 'utf8')
+            )
+          )
+        },
+        close() {
+          if (socket.destroyed) return
+          socket.write(encodeClientFrame(0x8, Buffer.alloc(0)))
+          socket.end()
+        },
+      })
+    })
+  })
+}
+
+/**
+ * re-send the client side of a capture and record what the server answers,
+ * as capture events with the recorded connection ids.
+ */
+export async function replayCapture(
+  capture: Capture,
+  opts: ReplayOptions
+): Promise<CaptureEvent[]> {
+  const host = opts.host ?? '127.0.0.1'
+  const speed = opts.speed ?? 1
+  const settleMs = opts.settleMs ?? 3000
+  const out: CaptureEvent[] = []
+  const start = Date.now()
+  const t = () => Date.now() - start
+  // events of one connection run in order; connections run concurrently
+  const chains = new Map<number, Promise<void>>()
+  const sockets = new Map<number, ReplaySocket>()
+
+  const enqueue = (conn: number, fn: () => Promise<void>) => {
+    const prev = chains.get(conn) ?? Promise.resolve()
+    chains.set(
+      conn,
+      prev.then(fn).catch((err) => {
+        out.push({
+          t: t(),
+          conn,
+          type: 'http-response',
+          status: 0,
+          headers: {},
+          body: String(err?.message ?? err),
+        })
+      })
+    )
+  }
+
+  for (const event of capture.events) {
+    const isClientEvent =
+      event.type === 'http-request' ||
+      event.type === 'ws-open' ||
+      (event.type === 'ws-message' && event.from === 'client') ||
+      (event.type === 'ws-close' && event.from === 'client')
+    if (!isClientEvent) continue
+
+    const wait = event.t / speed - t()
+    if (wait > 0) await new Promise((r) => setTimeout(r, wait))
+
+    const { conn } = event
+    if (event.type === 'http-request') {
+      enqueue(conn, async () => {
+        const hasBody = event.method !== 'GET' && event.method !== 'HEAD'
+        const res = await fetch(`http://${host}:${opts.port}${event.path}`, {
+          method: event.method,
+          headers: forwardHeaders(event.headers),
+          body: hasBody
+            ? Buffer.from(event.body, event.bodyEncoding === 'base64' ? 'base64' : 'utf8')
+            : undefined,
+        })
+        out.push({
+          t: t(),
+          conn,
+          type: 'http-response',
+          status: res.status,
+          headers: Object.fromEntries(res.headers),
+          ...encodeBody(Buffer.from(await res.arrayBuffer())),
+        })
+      })
+    } else if (event.type === 'ws-open') {
+      enqueue(conn, async () => {
+        const path = replayPath(event.path)
+        const socket = await openWebSocket(
+          host,
+          opts.port,
+          path,
+          event.headers,
+          (kind, data) => {
+            if (kind === 'close') {
+              out.push({ t: t(), conn, type: 'ws-close', from: 'server' })
+            } else if (kind === 'binary') {
+              out.push({
+                t: t(),
+                conn,
+                type: 'ws-message',
+                from: 'server',
+                data: data.toString('base64'),
+                binary: true,
+              })
+            } else {
+              out.push({
+                t: t(),
+                conn,
+                type: 'ws-message',
+                from: 'server',
+                data: data.toString(),
+              })
+            }
+          }
+        )
+        sockets.set(conn, socket)
+        out.push({ t: t(), conn, type: 'ws-open', path, headers: event.headers })
+      })
+    } else if (event.type === 'ws-message') {
+      enqueue(conn, async () => sockets.get(conn)?.send(event))
+    } else {
+      enqueue(conn, async () => {
+        sockets.get(conn)?.close()
+        sockets.delete(conn)
+      })
+    }
+  }
+
+  await Promise.all(chains.values())
+  await new Promise((r) => setTimeout(r, settleMs))
+  for (const socket of sockets.values()) socket.close()
+  return out
+}
+
+// --- poke folding and diff ---
+
+type Row = Record<string, unknown>
+
+type RowPatchOp =
+  | { op: 'clear' }
+  | { op: 'put'; tableName: string; value: Row }
+  | { op: 'update'; tableName: string; id: Row; merge?: Row; constrain?: string[] }
+  | { op: 'del'; tableName: string; id: Row }
+
+interface PokePart {
+  pokeID: string
+  rowsPatch?: RowPatchOp[]
+  gotQueriesPatch?: { op: 'put' | 'del' | 'clear'; hash: string }[]
+  lastMutationIDChanges?: Record<string, number>
+}
+
+/** the server frames a fold reads; anything else in a capture is skipped */
+type CapturedFrame =
+  | ['pokeStart', { pokeID: string }]
+  | ['pokePart', PokePart]
+  | ['pokeEnd', { pokeID: string; cancel?: boolean }]
+  | ['error', unknown]
+
+export interface SyncState {
+  /** table name → canonical JSON of each synced row */
+  rows: Map<string, string[]>
+  gotQueries: string[]
+  lastMutationIDs: Record<string, number>
+  /** server `error` messages, as JSON */
+  errors: string[]
+  pokes: number
+}
+
+/** JSON with sorted object keys, so equal rows compare equal as strings */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map((k) => [k, v[k]])
+        )
+      : v
+  )
+}
+
+function matches(row: Row, id: Row): boolean {
+  return Object.keys(id).every((k) => canonical(row[k]) === canonical(id[k]))
+}
+
+/**
+ * apply the pokes a connection received, in order, to build the client's
+ * final view: rows per table, the queries it holds, and its mutation ids.
+ * cancelled pokes are dropped, as the client would.
+ */
+export function foldPokes(events: CaptureEvent[], conn: number): SyncState {
+  const tables = new Map<string, Row[]>()
+  const gotQueries = new Set<string>()
+  const lastMutationIDs: Record<string, number> = {}
+  const errors: string[] = []
+  const pending = new Map<string, PokePart[]>()
+  let pokes = 0
+
+  const tableRows = (name: string) => {
+    let rows = tables.get(name)
+    if (!rows) tables.set(name, (rows = []))
+    return rows
+  }
+
+  function apply(part: PokePart) {
+    for (const op of part.rowsPatch ?? []) {
+      if (op.op === 'clear') {
+        tables.clear()
+      } else if (op.op === 'put') {
+        const rows = tableRows(op.tableName)
+        // a put replaces the row with the same primary key; zero rows nearly
+        // always carry `id`, and otherwise the row is matched whole
+        const key = 'id' in op.value ? { id: op.value.id } : op.value
+        const idx = rows.findIndex((r) => matches(r, key))
+        if (idx >= 0) rows[idx] = op.value
+        else rows.push(op.value)
+      } else if (op.op === 'update') {
+        const row = tableRows(op.tableName).find((r) => matches(r, op.id))
+        if (!row) continue
+        Object.assign(row, op.merge ?? {})
+        if (op.constrain) {
+          for (const col of Object.keys(row)) {
+            if (!op.constrain.includes(col)) delete row[col]
+          }
+        }
+      } else if (op.op === 'del') {
+        const rows = tableRows(op.tableName)
+        const idx = rows.findIndex((r) => matches(r, op.id))
+        if (idx >= 0) rows.splice(idx, 1)
+      }
+    }
+    for (const q of part.gotQueriesPatch ?? []) {
+      if (q.op === 'put') gotQueries.add(q.hash)
+      else if (q.op === 'del') gotQueries.delete(q.hash)
+      else if (q.op === 'clear') gotQueries.clear()
+    }
+    Object.assign(lastMutationIDs, part.lastMutationIDChanges ?? {})
+  }
+
+  for (const event of events) {
+    if (event.conn !== conn || event.type !== 'ws-message' || event.from !== 'server') {
+      continue
+    }
+    if (event.binary) continue
+    let msg: CapturedFrame
+    try {
+      msg = JSON.parse(event.data) as CapturedFrame
+    } catch {
+      continue
+    }
+    const [type, body] = msg
+    if (type === 'pokeStart') {
+      pending.set(body.pokeID, [])
+    } else if (type === 'pokePart') {
+      pending.get(body.pokeID)?.push(body)
+    } else if (type === 'pokeEnd') {
+      const parts = pending.get(body.pokeID) ?? []
+      pending.delete(body.pokeID)
+      if (body.cancel) continue
+      for (const part of parts) apply(part)
+      pokes++
+    } else if (type === 'error') {
+      errors.push(canonical(body))
+    }
+  }
+
+  const rows = new Map<string, string[]>()
+  for (const [name, list] of tables) {
+    if (list.length) rows.set(name, list.map(canonical).sort())
+  }
+  return { rows, gotQueries: [...gotQueries].sort(), lastMutationIDs, errors, pokes }
+}
+
+export interface ConnectionDiff {
+  conn: number
+  /** websocket path or `METHOD path` of the connection's first request */
+  label: string
+  differences: string[]
+}
+
+const MAX_EXAMPLES = 3
+
+function multisetDiff(a: string[], b: string[]): { onlyA: string[]; onlyB: string[] } {
+  const counts = new Map<string, number>()
+  for (const x of a) counts.set(x, (counts.get(x) ?? 0) + 1)
+  const onlyB: string[] = []
+  for (const x of b) {
+    const n = counts.get(x) ?? 0
+    if (n > 0) counts.set(x, n - 1)
+    else onlyB.push(x)
+  }
+  const onlyA = [...counts].flatMap(([x, n]) => Array<string>(n).fill(x))
+  return { onlyA, onlyB }
+}
+
+/**
+ * compare a recorded session with its replay, connection by connection:
+ * final synced rows, held queries, mutation ids and server errors for
+ * websockets, and response statuses for HTTP requests. connections without
+ * differences are omitted.
+ */
+export function diffCaptures(
+  recorded: CaptureEvent[],
+  replayed: CaptureEvent[]
+): ConnectionDiff[] {
+  const diffs: ConnectionDiff[] = []
+  const conns = [...new Set(recorded.map((e) => e.conn))].sort((a, b) => a - b)
+
+  for (const conn of conns) {
+    const first = recorded.find((e) => e.conn === conn)!
+    const differences: string[] = []
+    let label: string
+
+    if (first.type === 'ws-open') {
+      label = `ws ${first.path.split('?')[0]}`
+      if (!replayed.some((e) => e.conn === conn && e.type === 'ws-open')) {
+        differences.push('websocket did not open on replay')
+      }
+      const before = foldPokes(recorded, conn)
+      const after = foldPokes(replayed, conn)
+      const tables = new Set([...before.rows.keys(), ...after.rows.keys()])
+      for (const table of [...tables].sort()) {
+        const { onlyA, onlyB } = multisetDiff(
+          before.rows.get(table) ?? [],
+          after.rows.get(table) ?? []
+        )
+        if (onlyA.length) {
+          differences.push(
+            `${table}: ${onlyA.length} row(s) only in recording, e.g. ${onlyA.slice(0, MAX_EXAMPLES).join(', ')}`
+          )
+        }
+        if (onlyB.length) {
+          differences.push(
+            `${table}: ${onlyB.length} row(s) only in replay, e.g. ${onlyB.slice(0, MAX_EXAMPLES).join(', ')}`
+          )
+        }
+      }
+      const queries = multisetDiff(before.gotQueries, after.gotQueries)
+      if (queries.onlyA.length || queries.onlyB.length) {
+        differences.push(
+          `queries: ${queries.onlyA.length} only in recording, ${queries.onlyB.length} only in replay`
+        )
+      }
+      if (canonical(before.lastMutationIDs) !== canonical(after.lastMutationIDs)) {
+        differences.push(
+          `last mutation ids: recorded ${canonical(before.lastMutationIDs)}, replayed ${canonical(after.lastMutationIDs)}`
+        )
+      }
+      for (const error of multisetDiff(before.errors, after.errors).onlyB) {
+        differences.push(`error only in replay: ${error}`)
+      }
+    } else {
+      label =
+        first.type === 'http-request' ? `${first.method} ${first.path}` : `conn ${conn}`
+      const statuses = (events: CaptureEvent[]) =>
+        events.flatMap((e) =>
+          e.conn === conn && e.type === 'http-response' ? [e.status] : []
+        )
+      const before = statuses(recorded)
+      const after = statuses(replayed)
+      if (before.join() !== after.join()) {
+        differences.push(`response statuses: recorded [${before}], replayed [${after}]`)
+      }
+    }
+
+    if (differences.length) diffs.push({ conn, label, differences })
+  }
+  return diffs
+}
@@ -70,6 +70,30 @@ describe('change-tracker', () => {
     expect(changes[1].row_data).toBeNull()
   })
 
+  it('captures TRUNCATE as one data-less change per table', async () => {
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('a', 1), ('b', 2)`)
+    await db.exec(`TRUNCATE public.items`)
+
+    const changes = await getChangesSince(db, 0)
+    expect(changes.map((c) => c.op)).toEqual(['INSERT', 'INSERT', 'TRUNCATE'])
+    expect(changes[2].table_name).toBe('public.items')
+    expect(changes[2].row_data).toBeNull()
+    expect(changes[2].old_data).toBeNull()
+  })
+
+  it('widens the op CHECK of a change log created before TRUNCATE capture', async () => {
+    await db.exec(`
+      ALTER TABLE _orez._zero_changes DROP CONSTRAINT _zero_changes_op_check;
+      ALTER TABLE _orez._zero_changes ADD CONSTRAINT _zero_changes_op_check
+        CHECK (op IN ('INSERT', 'UPDATE', 'DELETE'));
+    `)
+    await installChangeTracking(db)
+
+    await db.exec(`TRUNCATE public.items`)
+    const changes = await getChangesSince(db, 0)
+    expect(changes.map((c) => c.op)).toEqual(['TRUNCATE'])
+  })
+
   it('watermarks increase monotonically', async () => {
     for (let i = 0; i < 5; i++) {
       await db.exec(`INSERT INTO public.items (name, value) VALUES ('item${i}', ${i})`)
@@ -425,3 +449,45 @@ describe('shard table tracking', () => {
     expect(again.rows[0].dropped).toBe('chat_0_a')
   })
 })
+
+describe('non-public schema tracking', () => {
+  let db: PGlite
+
+  usePublicationsEnv('app_pub')
+
+  beforeEach(async () => {
+    resetShardSchemaCache()
+    db = new PGlite()
+    await db.waitReady
+    await db.exec(`
+      CREATE SCHEMA app;
+      CREATE TABLE app.accounts (id TEXT PRIMARY KEY, name TEXT);
+      CREATE TABLE app.clients (id TEXT PRIMARY KEY, label TEXT);
+      CREATE TABLE public.items (id TEXT PRIMARY KEY);
+      CREATE PUBLICATION app_pub FOR TABLE app.accounts, app.clients;
+    `)
+    await installChangeTracking(db)
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  it('tracks published tables under their schema-qualified name', async () => {
+    await db.exec(`INSERT INTO app.accounts VALUES ('a1', 'alice')`)
+    await db.exec(`INSERT INTO public.items VALUES ('i1')`)
+
+    const changes = await getChangesSince(db, 0)
+    expect(changes.map((c) => c.table_name)).toEqual(['app.accounts'])
+  })
+
+  it('does not treat a published schema as a zero shard', async () => {
+    // app.clients looks like a shard table by name; the shard scan must leave
+    // the app schema's triggers alone.
+    await installTriggersOnShardTables(db)
+    await db.exec(`INSERT INTO app.clients VALUES ('c1', 'x')`)
+
+    const changes = await getChangesSince(db, 0)
+    expect(changes.map((c) => c.table_name)).toEqual(['app.clients'])
+  })
+})
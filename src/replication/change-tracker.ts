@@ -5,7 +5,7 @@ const PURGE_BATCH_SIZE = 5000
 export interface ChangeRecord {
   watermark: number
   table_name: string
-  op: 'INSERT' | 'UPDATE' | 'DELETE'
+  op: 'INSERT' | 'UPDATE' | 'DELETE' | 'TRUNCATE'
   row_data: Record<string, unknown> | null
   old_data: Record<string, unknown> | null
 }
@@ -44,7 +44,7 @@ export async function installChangeTracking(db: ChangeTrackingDb): Promise<void>
     CREATE TABLE IF NOT EXISTS _orez._zero_changes (
       watermark BIGINT NOT NULL DEFAULT nextval('_orez._zero_watermark') PRIMARY KEY,
       table_name TEXT NOT NULL,
-      op TEXT NOT NULL CHECK (op IN ('INSERT', 'UPDATE', 'DELETE')),
+      op TEXT NOT NULL CHECK (op IN ('INSERT', 'UPDATE', 'DELETE', 'TRUNCATE')),
       row_data JSONB,
       old_data JSONB
     );
@@ -72,6 +72,26 @@ export async function installChangeTracking(db: ChangeTrackingDb): Promise<void>
     );
   `)
 
+  // data dirs created before TRUNCATE capture carry the old three-op CHECK.
+  // widen it in place (only when it is actually stale, so normal startups
+  // don't rescan the change log to re-validate the constraint).
+  await db.exec(`
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conrelid = '_orez._zero_changes'::regclass
+          AND conname = '_zero_changes_op_check'
+          AND pg_get_constraintdef(oid) NOT LIKE '%TRUNCATE%'
+      ) THEN
+        ALTER TABLE _orez._zero_changes DROP CONSTRAINT _zero_changes_op_check;
+        ALTER TABLE _orez._zero_changes ADD CONSTRAINT _zero_changes_op_check
+          CHECK (op IN ('INSERT', 'UPDATE', 'DELETE', 'TRUNCATE'));
+      END IF;
+    END;
+    $$;
+  `)
+
   // emulate pg_drop_replication_slot(): PGlite has the real built-in, which
   // errors with "replication slot does not exist" for any name we track in the
   // fake _orez._zero_replication_slots table. zero-cache's startup slot-cleanup
@@ -117,6 +137,19 @@ export async function installChangeTracking(db: ChangeTrackingDb): Promise<void>
     $$ LANGUAGE plpgsql;
   `)
 
+  // row triggers never fire for TRUNCATE, so it gets its own statement-level
+  // trigger. the change row carries no data: the replication handler turns it
+  // into a pgoutput Truncate message and zero-cache clears the replica table.
+  await db.exec(`
+    CREATE OR REPLACE FUNCTION public._zero_track_truncate() RETURNS TRIGGER AS $$
+    BEGIN
+      INSERT INTO _orez._zero_changes (table_name, op)
+      VALUES (TG_TABLE_SCHEMA || '.' || TG_TABLE_NAME, 'TRUNCATE');
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+  `)
+
   // install triggers on all public tables
   await installTriggersOnAllTables(db)
 }
@@ -125,62 +158,150 @@ function quoteIdent(name: string): string {
   return '"' + name.replace(/"/g, '""') + '"'
 }
 
+export interface TrackedTable {
+  schemaname: string
+  tablename: string
+}
+
+/**
+ * publication names from a ZERO_APP_PUBLICATIONS value. zero-cache reads the
+ * variable as a comma-separated list, so change tracking must too.
+ */
+export function parsePublicationNames(raw: string | undefined): string[] {
+  return (raw ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+}
+
+/**
+ * the app tables change tracking covers. with publications configured this is
+ * exactly their table list, in whatever schema each table lives (Zero's
+ * schema-qualified publications against real postgres); without one it is
+ * every public table.
+ */
+export async function getTrackedTables(
+  db: ChangeTrackingDb,
+  publications: string[]
+): Promise<TrackedTable[]> {
+  if (publications.length > 0) {
+    const result = await db.query<TrackedTable>(
+      `SELECT DISTINCT schemaname, tablename FROM pg_publication_tables
+       WHERE pubname = ANY($1)
+         AND schemaname <> '_orez'
+         AND tablename NOT LIKE '_zero_%'
+       ORDER BY schemaname, tablename`,
+      [publications]
+    )
+    return result.rows
+  }
+  const all = await db.query<TrackedTable>(
+    `SELECT schemaname, tablename FROM pg_tables
+     WHERE schemaname = 'public'
+       AND tablename NOT IN ('migrations')
+       AND tablename NOT LIKE '_zero_%'`
+  )
+  return all.rows
+}
+
+/**
+ * the shape zero-cache replicates: every tracked table's columns and indexes.
+ * two equal signatures mean a schema change needs no zero-cache resync.
+ */
+export async function getPublishedSchemaSignature(
+  db: ChangeTrackingDb,
+  publications: string[]
+): Promise<string> {
+  const tables = (await getTrackedTables(db, publications))
+    .map((t) => `${t.schemaname}.${t.tablename}`)
+    .sort()
+  if (tables.length === 0) return ''
+  const columns = await db.query(
+    `SELECT table_schema, table_name, column_name, data_type, is_nullable, column_default
+     FROM information_schema.columns
+     WHERE table_schema || '.' || table_name = ANY($1)
+     ORDER BY table_schema, table_name, ordinal_position`,
+    [tables]
+  )
+  const indexes = await db.query(
+    `SELECT schemaname, tablename, indexdef FROM pg_indexes
+     WHERE schemaname || '.' || tablename = ANY($1)
+     ORDER BY schemaname, tablename, indexname`,
+    [tables]
+  )
+  return JSON.stringify([tables, columns.rows, indexes.rows])
+}
+
+/**
+ * schemas holding app tables: public plus every schema a configured
+ * publication reaches into. these are never zero-cache shard schemas, however
+ * their tables are named.
+ */
+export async function getAppSchemas(
+  db: ChangeTrackingDb,
+  publications: string[]
+): Promise<Set<string>> {
+  const schemas = new Set(['public'])
+  if (publications.length === 0) return schemas
+  const result = await db.query<{ schemaname: string }>(
+    `SELECT DISTINCT schemaname FROM pg_publication_tables WHERE pubname = ANY($1)`,
+    [publications]
+  )
+  for (const { schemaname } of result.rows) schemas.add(schemaname)
+  return schemas
+}
+
 async function installTriggersOnAllTables(db: ChangeTrackingDb): Promise<void> {
   // If a publication is configured, respect it strictly. This avoids accidentally
   // streaming private tables when publication membership is temporarily empty.
-  const pubName = process.env.ZERO_APP_PUBLICATIONS?.trim()
-  let tables: { tablename: string }[]
-  if (pubName) {
-    const result = await db.query<{ tablename: string }>(
-      `SELECT tablename FROM pg_publication_tables
-       WHERE pubname = $1
-         AND schemaname = 'public'
-         AND tablename NOT LIKE '_zero_%'`,
-      [pubName]
-    )
-    tables = result.rows
-    if (tables.length > 0) {
-      log.debug.pglite(`using publication "${pubName}" (${tables.length} tables)`)
-    } else {
-      log.pglite(`publication "${pubName}" is empty; installing no public table triggers`)
-    }
-  } else {
-    const all = await db.query<{ tablename: string }>(
-      `SELECT tablename FROM pg_tables
-       WHERE schemaname = 'public'
-         AND tablename NOT IN ('migrations')
-         AND tablename NOT LIKE '_zero_%'`
-    )
-    tables = all.rows
+  const publications = parsePublicationNames(process.env.ZERO_APP_PUBLICATIONS)
+  const tables = await getTrackedTables(db, publications)
+  const pubLabel = publications.map((p) => `"${p}"`).join(', ')
+  if (publications.length === 0) {
     log.debug.pglite(`using all public tables (${tables.length})`)
+  } else if (tables.length > 0) {
+    log.debug.pglite(`using publication ${pubLabel} (${tables.length} tables)`)
+  } else {
+    log.pglite(`publication ${pubLabel} is empty; installing no app table triggers`)
   }
 
-  // drop stale triggers from tables NOT in the publication
+  // drop stale triggers from app tables NOT in the publication
   // (these may exist from a prior install before the publication was created)
-  const publishedSet = new Set(tables.map((t) => t.tablename))
-  const allTriggered = await db.query<{ event_object_table: string }>(
-    `SELECT DISTINCT event_object_table FROM information_schema.triggers
+  const appSchemas = new Set(['public', ...tables.map((t) => t.schemaname)])
+  const publishedSet = new Set(tables.map((t) => `${t.schemaname}.${t.tablename}`))
+  const allTriggered = await db.query<{
+    event_object_schema: string
+    event_object_table: string
+  }>(
+    `SELECT DISTINCT event_object_schema, event_object_table FROM information_schema.triggers
      WHERE trigger_name = '_zero_change_trigger'
-       AND event_object_schema = 'public'`
+       AND event_object_schema = ANY($1)`,
+    [[...appSchemas]]
   )
-  for (const { event_object_table } of allTriggered.rows) {
-    if (!publishedSet.has(event_object_table)) {
-      const quoted = quoteIdent(event_object_table)
-      await db.exec(`DROP TRIGGER IF EXISTS _zero_change_trigger ON public.${quoted}`)
-      log.debug.pglite(
-        `removed stale trigger from non-published table: ${event_object_table}`
-      )
+  for (const { event_object_schema, event_object_table } of allTriggered.rows) {
+    const key = `${event_object_schema}.${event_object_table}`
+    if (!publishedSet.has(key)) {
+      const qualified = `${quoteIdent(event_object_schema)}.${quoteIdent(event_object_table)}`
+      await db.exec(`
+        DROP TRIGGER IF EXISTS _zero_change_trigger ON ${qualified};
+        DROP TRIGGER IF EXISTS _zero_truncate_trigger ON ${qualified};
+      `)
+      log.debug.pglite(`removed stale trigger from non-published table: ${key}`)
     }
   }
 
   let count = 0
-  for (const { tablename } of tables) {
-    const quoted = quoteIdent(tablename)
+  for (const { schemaname, tablename } of tables) {
+    const qualified = `${quoteIdent(schemaname)}.${quoteIdent(tablename)}`
     await db.exec(`
-      DROP TRIGGER IF EXISTS _zero_change_trigger ON public.${quoted};
+      DROP TRIGGER IF EXISTS _zero_change_trigger ON ${qualified};
       CREATE TRIGGER _zero_change_trigger
-        AFTER INSERT OR UPDATE OR DELETE ON public.${quoted}
+        AFTER INSERT OR UPDATE OR DELETE ON ${qualified}
         FOR EACH ROW EXECUTE FUNCTION public._zero_track_change();
+      DROP TRIGGER IF EXISTS _zero_truncate_trigger ON ${qualified};
+      CREATE TRIGGER _zero_truncate_trigger
+        AFTER TRUNCATE ON ${qualified}
+        FOR EACH STATEMENT EXECUTE FUNCTION public._zero_track_truncate();
     `)
     count++
   }
@@ -209,14 +330,22 @@ export function resetShardSchemaCache(): void {
   trackedShardTables.clear()
 }
 
-export async function installTriggersOnShardTables(db: ChangeTrackingDb): Promise<void> {
+export async function installTriggersOnShardTables(
+  db: ChangeTrackingDb,
+  publications = parsePublicationNames(process.env.ZERO_APP_PUBLICATIONS)
+): Promise<void> {
+  // published app schemas (e.g. `app`, `billing`) may well have their own
+  // `clients` table; they are tracked by installTriggersOnAllTables instead.
+  const appSchemas = await getAppSchemas(db, publications)
   const result = await db.query<{ nspname: string }>(
     `SELECT nspname FROM pg_namespace
      WHERE nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast', 'public')
+       AND nspname <> ALL($1)
        AND nspname NOT LIKE 'pg_%'
        AND nspname NOT LIKE 'zero_%'
        AND nspname NOT LIKE '_zero_%'
-       AND nspname NOT LIKE '%/%'`
+       AND nspname NOT LIKE '%/%'`,
+    [[...appSchemas]]
   )
 
   if (result.rows.length === 0) return
@@ -385,6 +514,58 @@ export async function clearStreamedBatches(db: ChangeTrackingDb): Promise<void>
   await db.exec(`DELETE FROM _orez._zero_streamed_batches`)
 }
 
+export interface ChangeLogSummary {
+  watermark: number
+  /** rows still in the change log: not yet streamed, or streamed but unconfirmed */
+  pendingChanges: number
+  tables: { table: string; op: ChangeRecord['op']; count: number }[]
+  unconfirmedBatchCount: number
+  /** newest first, at most 50 */
+  unconfirmedBatches: { batchLsn: number; batchEnd: number }[]
+}
+
+/** snapshot of the change log for the admin replication inspector */
+export async function getChangeLogSummary(
+  db: ChangeTrackingDb
+): Promise<ChangeLogSummary> {
+  const tables = await db.query<{
+    table_name: string
+    op: ChangeRecord['op']
+    n: number
+  }>(
+    `SELECT table_name, op, count(*)::int AS n
+     FROM _orez._zero_changes
+     GROUP BY table_name, op
+     ORDER BY table_name, op`
+  )
+  const batchCount = await db.query<{ n: number }>(
+    'SELECT count(*)::int AS n FROM _orez._zero_streamed_batches'
+  )
+  const batches = await db.query<{
+    batch_lsn: string | number
+    batch_end: string | number
+  }>(
+    `SELECT batch_lsn, batch_end
+     FROM _orez._zero_streamed_batches
+     ORDER BY batch_lsn DESC
+     LIMIT 50`
+  )
+  return {
+    watermark: await getCurrentWatermark(db),
+    pendingChanges: tables.rows.reduce((sum, r) => sum + Number(r.n), 0),
+    tables: tables.rows.map((r) => ({
+      table: r.table_name,
+      op: r.op,
+      count: Number(r.n),
+    })),
+    unconfirmedBatchCount: Number(batchCount.rows[0]?.n ?? 0),
+    unconfirmedBatches: batches.rows.map((r) => ({
+      batchLsn: Number(r.batch_lsn),
+      batchEnd: Number(r.batch_end),
+    })),
+  }
+}
+
 export async function getCurrentWatermark(db: ChangeTrackingDb): Promise<number> {
   const result = await db.query<{ last_value: string; is_called: boolean }>(
     'SELECT last_value, is_called FROM _orez._zero_watermark'
@@ -3,11 +3,12 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 
 import { Mutex } from '../mutex'
 import { usePublicationsEnv } from '../test-env'
-import { installChangeTracking } from './change-tracker'
+import { getChangeLogSummary, installChangeTracking } from './change-tracker'
 import {
   createReplicationFeedbackParser,
   deleteReplicationState,
   extractStartLsn,
+  getReplicationActivity,
   getReplicationHealth,
   handleReplicationQuery,
   handleStartReplication,
@@ -586,6 +587,131 @@ describe('handleStartReplication', () => {
     expect(types).toContain(0x44) // DELETE
   }, 10_000)
 
+  it('keeps streamed changes for the inspector until the log is confirmed', async () => {
+    const { writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+
+    await new Promise((r) => setTimeout(r, 100))
+
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('seen', 1)`)
+    await db.exec(`UPDATE public.items SET value = 2 WHERE name = 'seen'`)
+    signalReplicationChange()
+    await new Promise((r) => setTimeout(r, 700))
+
+    const activity = getReplicationActivity()
+    expect(activity.recent.map((c) => [c.table_name, c.op])).toEqual([
+      ['public.items', 'INSERT'],
+      ['public.items', 'UPDATE'],
+    ])
+    expect(activity.recent[1].old_data).toMatchObject({ value: 1 })
+    expect(activity.recent[1].batchLsn).toMatch(/^[0-9A-F]+\/[0-9A-F]+$/)
+    expect(activity.tables).toEqual({ 'public.items': { INSERT: 1, UPDATE: 1 } })
+    expect(getReplicationHealth().lastStreamedWatermark).toBe(
+      activity.recent[1].watermark
+    )
+
+    // nothing confirmed yet: the rows stay in the log under an open batch
+    const summary = await getChangeLogSummary(db)
+    expect(summary.pendingChanges).toBe(2)
+    expect(summary.unconfirmedBatchCount).toBeGreaterThanOrEqual(1)
+    expect(summary.unconfirmedBatches[0].batchEnd).toBe(activity.recent[1].watermark)
+    expect(summary.tables).toEqual([
+      { table: 'public.items', op: 'INSERT', count: 1 },
+      { table: 'public.items', op: 'UPDATE', count: 1 },
+    ])
+  }, 10_000)
+
+  it('streams TRUNCATE after a RELATION for the truncated table', async () => {
+    const { written, writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+
+    await new Promise((r) => setTimeout(r, 100))
+    await db.exec(`TRUNCATE public.items`)
+    signalReplicationChange()
+    await new Promise((r) => setTimeout(r, 700))
+
+    const types = written.flatMap(extractPayloadTypes)
+    const truncIdx = types.indexOf(0x54)
+    expect(truncIdx).toBeGreaterThan(-1)
+    expect(types.indexOf(0x52)).toBeLessThan(truncIdx) // RELATION first
+    expect(types.indexOf(0x42)).toBeLessThan(truncIdx) // inside BEGIN
+    expect(types.lastIndexOf(0x43)).toBeGreaterThan(truncIdx) // ... COMMIT
+  })
+
+  it('announces a truncated relation once before its later row changes', async () => {
+    const { written, writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+
+    await new Promise((r) => setTimeout(r, 100))
+    await db.exec(`TRUNCATE public.items`)
+    signalReplicationChange()
+    await new Promise((r) => setTimeout(r, 700))
+    await db.exec(`INSERT INTO public.items (name, value) VALUES ('after', 1)`)
+    signalReplicationChange()
+    await new Promise((r) => setTimeout(r, 700))
+
+    const types = written.flatMap(extractPayloadTypes)
+    expect(types.filter((type) => type === 0x52)).toHaveLength(1)
+    expect(types.indexOf(0x54)).toBeLessThan(types.indexOf(0x49))
+  })
+
+  it('streams changes from tables in a published non-public schema', async () => {
+    await db.exec(`
+      CREATE SCHEMA app;
+      CREATE TABLE app.accounts (id TEXT PRIMARY KEY, name TEXT);
+      CREATE PUBLICATION app_pub FOR TABLE app.accounts;
+    `)
+    const saved = process.env.ZERO_APP_PUBLICATIONS
+    process.env.ZERO_APP_PUBLICATIONS = 'app_pub'
+    try {
+      await installChangeTracking(db)
+    } finally {
+      if (saved === undefined) delete process.env.ZERO_APP_PUBLICATIONS
+      else process.env.ZERO_APP_PUBLICATIONS = saved
+    }
+    resetReplicationState(undefined, { ZERO_APP_PUBLICATIONS: 'app_pub' })
+
+    const { written, writer } = createWriter()
+
+    replicationPromise = handleStartReplication(
+      'START_REPLICATION SLOT "s" LOGICAL 0/0',
+      writer,
+      db,
+      testMutex
+    )
+
+    await new Promise((r) => setTimeout(r, 100))
+    await db.exec(`INSERT INTO app.accounts VALUES ('a1', 'alice')`)
+    signalReplicationChange()
+    await new Promise((r) => setTimeout(r, 700))
+
+    const types = written.flatMap(extractPayloadTypes)
+    expect(types).toContain(0x49) // INSERT
+    // RELATION carries the real namespace, not public
+    const text = new TextDecoder().decode(
+      Buffer.concat(written.map((chunk) => Buffer.from(chunk)))
+    )
+    expect(text).toContain('app\0accounts\0')
+  }, 10_000)
+
   it('only sends RELATION once per table', async () => {
     const { written, writer } = createWriter()
 
@@ -17,7 +17,10 @@ import {
   getStreamResumeWatermark,
   purgeConsumedChanges,
   recordStreamedBatch,
+  getAppSchemas,
+  getTrackedTables,
   installTriggersOnShardTables,
+  parsePublicationNames,
   type ChangeRecord,
 } from './change-tracker.js'
 import {
@@ -27,10 +30,12 @@ import {
   encodeInsert,
   encodeUpdate,
   encodeDelete,
+  encodeTruncate,
   encodeKeepalive,
   encodeWrappedChange,
   getTableOid,
   inferColumns,
+  type ColumnInfo,
 } from './pgoutput-encoder.js'
 
 import type { Mutex } from '../mutex.js'
@@ -114,6 +119,7 @@ function lsnFloorFromTime(): bigint {
 // watermarks after slot creation while app writes are already queued; the next
 // streamed transaction still has to land beyond that warmup range.
 interface ReplicationRuntimeState {
+  cachedAppSchemas: Set<string> | null
   cachedColumnTypeOids: Map<string, Map<string, number>> | null
   cachedColumns: Map<string, ReturnType<typeof inferColumns>>
   cachedExcludedColumns: Map<string, Set<string>> | null
@@ -126,9 +132,13 @@ interface ReplicationRuntimeState {
   lastStreamedWatermark: number
   lastWriteSignalAt: number
   log?: (event: Record<string, unknown>) => void
+  /** fault injection: hold changes back until this time */
+  pausedUntil: number
   pendingConfirmLsn: bigint
   processedConfirmLsn: bigint
   publications?: string
+  recentStreamed: StreamedChange[]
+  streamedCounts: Map<string, Partial<Record<ChangeRecord['op'], number>>>
   replicationWakeup: (() => void) | null
   unconfirmedReconnectMs?: string
 }
@@ -141,6 +151,7 @@ function newReplicationState(
   instanceLog?: (event: Record<string, unknown>) => void
 ): ReplicationRuntimeState {
   return {
+    cachedAppSchemas: null,
     cachedColumnTypeOids: null,
     cachedColumns: new Map(),
     cachedExcludedColumns: null,
@@ -153,8 +164,11 @@ function newReplicationState(
     lastStreamedWatermark: 0,
     lastWriteSignalAt: 0,
     log: instanceLog,
+    pausedUntil: 0,
     pendingConfirmLsn: 0n,
     processedConfirmLsn: 0n,
+    recentStreamed: [],
+    streamedCounts: new Map(),
     replicationWakeup: null,
   }
 }
@@ -173,6 +187,12 @@ export interface ReplicationHealth {
   lastWriteSignalAt: number
   lastConfirmProgressAt: number
   lastStreamActivityAt: number
+  /** highest _zero_changes watermark handed to the consumer */
+  lastStreamedWatermark: number
+  /** last flush LSN the consumer confirmed and we purged up to */
+  confirmedFlushLsn: string
+  /** streaming is paused by fault injection until this time, 0 when not */
+  pausedUntil: number
 }
 
 export function getReplicationHealth(instanceId?: string): ReplicationHealth {
@@ -181,6 +201,57 @@ export function getReplicationHealth(instanceId?: string): ReplicationHealth {
     lastWriteSignalAt: state.lastWriteSignalAt,
     lastConfirmProgressAt: state.lastConfirmProgressAt,
     lastStreamActivityAt: state.lastStreamActivityAt,
+    lastStreamedWatermark: state.lastStreamedWatermark,
+    confirmedFlushLsn: lsnToString(state.processedConfirmLsn),
+    pausedUntil: state.pausedUntil > Date.now() ? state.pausedUntil : 0,
+  }
+}
+
+/** a change as it went out on the wire, kept for the admin inspector */
+export interface StreamedChange extends ChangeRecord {
+  batchLsn: string
+  streamedAt: number
+}
+
+// streamed rows are purged once confirmed, so this ring is the only record
+// of what zero-cache was sent
+const RECENT_STREAMED_LIMIT = 500
+
+export interface ReplicationActivity {
+  /** most recent streamed changes, oldest first */
+  recent: StreamedChange[]
+  /** changes streamed since the stream state was last reset, per table */
+  tables: Record<string, Partial<Record<ChangeRecord['op'], number>>>
+}
+
+export function getReplicationActivity(instanceId?: string): ReplicationActivity {
+  const state = replicationState(instanceId)
+  return {
+    recent: [...state.recentStreamed],
+    tables: Object.fromEntries(
+      [...state.streamedCounts].map(([table, counts]) => [table, { ...counts }])
+    ),
+  }
+}
+
+function recordStreamedChanges(
+  state: ReplicationRuntimeState,
+  changes: ChangeRecord[],
+  batchLsn: bigint
+): void {
+  const streamedAt = Date.now()
+  const lsn = lsnToString(batchLsn)
+  for (const change of changes) {
+    const counts = state.streamedCounts.get(change.table_name) ?? {}
+    counts[change.op] = (counts[change.op] ?? 0) + 1
+    state.streamedCounts.set(change.table_name, counts)
+  }
+  const recent = changes
+    .slice(-RECENT_STREAMED_LIMIT)
+    .map((change) => ({ ...change, batchLsn: lsn, streamedAt }))
+  state.recentStreamed.push(...recent)
+  if (state.recentStreamed.length > RECENT_STREAMED_LIMIT) {
+    state.recentStreamed.splice(0, state.recentStreamed.length - RECENT_STREAMED_LIMIT)
   }
 }
 
@@ -266,6 +337,21 @@ export function signalReplicationChange(instanceId?: string) {
   }
 }
 
+/**
+ * hold back streamed changes for `ms` without closing the replication
+ * stream, as a stalled upstream would. writes keep landing in the change log
+ * and go out once the pause ends.
+ */
+export function pauseReplication(ms: number, instanceId?: string): void {
+  replicationState(instanceId).pausedUntil = Date.now() + ms
+}
+
+export function resumeReplication(instanceId?: string): void {
+  const state = replicationState(instanceId)
+  state.pausedUntil = 0
+  state.replicationWakeup?.()
+}
+
 // cached setup results so reconnects skip the expensive mutex-holding setup phase.
 // zero-cache reconnects the replication stream after initial sync, and if setup
 // takes too long (holding the mutex, blocking proxy queries), zero-cache's
@@ -301,7 +387,7 @@ function nextLsn(state: ReplicationRuntimeState): bigint {
   return state.currentLsn
 }
 
-function lsnToString(lsn: bigint): string {
+export function lsnToString(lsn: bigint): string {
   const high = Number(lsn >> 32n)
   const low = Number(lsn & 0xffffffffn)
   return `${high.toString(16).toUpperCase()}/${low.toString(16).toUpperCase()}`
@@ -680,33 +766,20 @@ export async function handleStartReplication(
     await mutex.acquire()
     let relevantSchemas: string[]
     try {
+      const publications = parsePublicationNames(state.publications)
+
       // install change tracking triggers on shard schema tables (e.g. chat_0.clients)
-      await installTriggersOnShardTables(db)
-
-      // set up LISTEN + install notify triggers in one batch
-      const pubName = state.publications
-      let tables: { tablename: string }[]
-      if (pubName) {
-        const result = await db.query<{ tablename: string }>(
-          `SELECT tablename FROM pg_publication_tables
-           WHERE pubname = $1 AND schemaname = 'public' AND tablename NOT LIKE '_zero_%'`,
-          [pubName]
+      await installTriggersOnShardTables(db, publications)
+
+      // set up LISTEN + install notify triggers in one batch. the tracked set
+      // is the publication's table list in every schema it covers.
+      const tables = await getTrackedTables(db, publications)
+      if (publications.length > 0 && tables.length === 0) {
+        log.proxy(
+          `publication "${state.publications}" is empty; installing no app notify triggers`
         )
-        tables = result.rows
-        if (tables.length === 0) {
-          log.proxy(
-            `publication "${pubName}" is empty; installing no public notify triggers`
-          )
-        }
-      } else {
-        const all = await db.query<{ tablename: string }>(
-          `SELECT tablename FROM pg_tables
-           WHERE schemaname = 'public'
-             AND tablename NOT IN ('migrations', '_zero_changes')
-             AND tablename NOT LIKE '_zero_%'`
-        )
-        tables = all.rows
       }
+      state.cachedAppSchemas = new Set(['public', ...tables.map((t) => t.schemaname)])
 
       // combine notify function creation + trigger installations into single exec
       const ddlParts: string[] = [
@@ -717,30 +790,32 @@ export async function handleStartReplication(
         END;
         $$ LANGUAGE plpgsql;`,
       ]
-      for (const { tablename } of tables) {
-        const quoted = '"' + tablename.replace(/"/g, '""') + '"'
+      for (const { schemaname, tablename } of tables) {
+        const qs = '"' + schemaname.replace(/"/g, '""') + '"'
+        const qt = '"' + tablename.replace(/"/g, '""') + '"'
         ddlParts.push(
-          `DROP TRIGGER IF EXISTS _zero_notify_trigger ON public.${quoted};
+          `DROP TRIGGER IF EXISTS _zero_notify_trigger ON ${qs}.${qt};
           CREATE TRIGGER _zero_notify_trigger
-            AFTER INSERT OR UPDATE OR DELETE ON public.${quoted}
+            AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON ${qs}.${qt}
             FOR EACH STATEMENT EXECUTE FUNCTION public._zero_notify_change();`
         )
       }
 
       // discover shard schemas and install their triggers in same batch
+      const appSchemas = [...state.cachedAppSchemas]
       const shardSchemas = await db.query<{ nspname: string }>(
         `SELECT nspname FROM pg_namespace
        WHERE nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast', 'public')
+         AND nspname <> ALL($1)
          AND nspname NOT LIKE 'pg_%'
          AND nspname NOT LIKE 'zero_%'
          AND nspname NOT LIKE '_zero_%'
-         AND nspname NOT LIKE '%/%'`
+         AND nspname NOT LIKE '%/%'`,
+        [appSchemas]
       )
-      relevantSchemas = ['public', ...shardSchemas.rows.map((r) => r.nspname)]
+      relevantSchemas = [...appSchemas, ...shardSchemas.rows.map((r) => r.nspname)]
 
-      const shardClientSchemas = shardSchemas.rows
-        .map((r) => r.nspname)
-        .filter((s) => s !== 'public')
+      const shardClientSchemas = shardSchemas.rows.map((r) => r.nspname)
       if (shardClientSchemas.length > 0) {
         const shardTables = await db.query<{ schemaname: string; tablename: string }>(
           `SELECT schemaname, tablename FROM pg_tables
@@ -766,7 +841,7 @@ export async function handleStartReplication(
 
       await db.exec(ddlParts.join('\n'))
       if (tables.length > 0) {
-        log.proxy(`installed notify triggers on ${tables.length} public table(s)`)
+        log.proxy(`installed notify triggers on ${tables.length} app table(s)`)
       }
     } finally {
       mutex.release()
@@ -818,16 +893,15 @@ export async function handleStartReplication(
             }
             cols.add(row.column_name)
           }
+          // every column gets an entry, text for types without a mapping, so
+          // a TRUNCATE can describe the whole relation before any row streams
           if (row.data_type) {
-            const oid = PG_DATA_TYPE_OIDS[row.data_type]
-            if (oid !== undefined) {
-              let cols = columnTypeOids.get(key)
-              if (!cols) {
-                cols = new Map()
-                columnTypeOids.set(key, cols)
-              }
-              cols.set(row.column_name, oid)
+            let cols = columnTypeOids.get(key)
+            if (!cols) {
+              cols = new Map()
+              columnTypeOids.set(key, cols)
             }
+            cols.set(row.column_name, PG_DATA_TYPE_OIDS[row.data_type] ?? 25)
           }
         }
       }
@@ -1004,7 +1078,10 @@ export async function handleStartReplication(
                 if (mutex.tryAcquire()) {
                   lastShardRescan = performance.now()
                   try {
-                    await installTriggersOnShardTables(db)
+                    await installTriggersOnShardTables(
+                      db,
+                      parsePublicationNames(state.publications)
+                    )
                   } finally {
                     mutex.release()
                   }
@@ -1030,7 +1107,10 @@ export async function handleStartReplication(
           if (mutex.tryAcquire()) {
             lastShardRescan = performance.now()
             try {
-              await installTriggersOnShardTables(db)
+              await installTriggersOnShardTables(
+                db,
+                parsePublicationNames(state.publications)
+              )
             } finally {
               mutex.release()
             }
@@ -1044,6 +1124,20 @@ export async function handleStartReplication(
           break
         }
 
+        // paused from the admin dashboard: keep the wire alive with
+        // keepalives and re-check when woken or the pause runs out
+        const pausedMs = state.pausedUntil - Date.now()
+        if (pausedMs > 0) {
+          const wasSignaled = await waitForWakeup(Math.min(pausedMs, pollIntervalIdle))
+          if (!wasSignaled) {
+            writer.write(
+              encodeKeepalive(state.currentLsn, nowMicros(), newestUnconfirmedLsn > 0n)
+            )
+          }
+          queryPending = true
+          continue
+        }
+
         // try to acquire mutex without blocking proxy connections.
         // post-sync: short backoff since writes signal us directly.
         // pre-sync: yield more generously so zero-cache initial copy can finish.
@@ -1111,19 +1205,23 @@ export async function handleStartReplication(
             `found ${changes.length} changes [${tableSummary}] (wm ${lastWatermark}→${changes[changes.length - 1].watermark}) query=${queryMs.toFixed(1)}ms signal→query=${signalToQueryMs}ms`
           )
           // filter out shard tables that zero-cache doesn't expect.
-          // `clients` advances lmid; `mutations` carries mutation results.
-          // other shard tables (e.g. replicas) crash zero-cache with
-          // "Unknown table" in the change processor.
           const batchEnd = changes[changes.length - 1].watermark
           const preFilterCount = changes.length
-          changes = changes.filter((c) => {
-            const dot = c.table_name.indexOf('.')
-            if (dot === -1) return true
-            const schema = c.table_name.substring(0, dot)
-            if (schema === 'public') return true
-            const table = c.table_name.substring(dot + 1)
-            return table === 'clients' || table === 'mutations'
-          })
+          // a table published after the stream started lives in a schema the
+          // setup scan hasn't seen; re-read the publication before filtering
+          // rather than dropping its changes as shard-internal.
+          if (changes.some((c) => !isStreamedTable(c.table_name, state))) {
+            await mutex.acquire()
+            try {
+              state.cachedAppSchemas = await getAppSchemas(
+                db,
+                parsePublicationNames(state.publications)
+              )
+            } finally {
+              mutex.release()
+            }
+          }
+          changes = changes.filter((c) => isStreamedTable(c.table_name, state))
           log.debug.repl(`filter: ${preFilterCount} → ${changes.length} changes`)
 
           if (changes.length === 0) {
@@ -1183,6 +1281,7 @@ export async function handleStartReplication(
             state
           )
           markBatchAwaitingConfirmation(batchLsn)
+          recordStreamedChanges(state, changes, batchLsn)
           state.lastStreamActivityAt = Date.now()
           lastWatermark = batchEnd
           state.lastStreamedWatermark = batchEnd
@@ -1232,6 +1331,24 @@ export async function handleStartReplication(
   log.repl('poll loop exited')
 }
 
+function isAppSchema(schema: string, state: ReplicationRuntimeState): boolean {
+  return schema === 'public' || (state.cachedAppSchemas?.has(schema) ?? false)
+}
+
+/**
+ * app tables (public or published) always stream. of zero-cache's shard
+ * tables only `clients` (advances lmid) and `mutations` (carries mutation
+ * results) do; others like `replicas` crash zero-cache with "Unknown table"
+ * in the change processor.
+ */
+function isStreamedTable(tableName: string, state: ReplicationRuntimeState): boolean {
+  const dot = tableName.indexOf('.')
+  if (dot === -1) return true
+  if (isAppSchema(tableName.substring(0, dot), state)) return true
+  const table = tableName.substring(dot + 1)
+  return table === 'clients' || table === 'mutations'
+}
+
 async function ensureMetadataForChangedTables(
   db: PGlite,
   mutex: Mutex,
@@ -1260,8 +1377,10 @@ async function ensureMetadataForChangedTables(
 
   if (missing.size === 0) return
 
-  const schemas = [...new Set([...missing.values()].map((entry) => entry.schema))]
-  const tables = [...new Set([...missing.values()].map((entry) => entry.table))]
+  // match (schema, table) pairs, not the cross product: `app.users` arriving
+  // late must not drag in `public.users` metadata or vice versa.
+  const schemas = [...missing.values()].map((entry) => entry.schema)
+  const tables = [...missing.values()].map((entry) => entry.table)
 
   await mutex.acquire()
   try {
@@ -1279,13 +1398,15 @@ async function ensureMetadataForChangedTables(
          ON tc.constraint_name = kcu.constraint_name
          AND tc.table_schema = kcu.table_schema
        WHERE tc.constraint_type = 'PRIMARY KEY'
-         AND tc.table_schema = ANY($1)
-         AND tc.table_name = ANY($2)
+         AND (tc.table_schema::text, tc.table_name::text) IN (
+           SELECT * FROM unnest($1::text[], $2::text[])
+         )
        UNION ALL
        SELECT 'col' AS kind, table_schema, table_name, column_name, data_type, ordinal_position
        FROM information_schema.columns
-       WHERE table_schema = ANY($1)
-         AND table_name = ANY($2)
+       WHERE (table_schema::text, table_name::text) IN (
+         SELECT * FROM unnest($1::text[], $2::text[])
+       )
        ORDER BY table_schema, table_name, kind, ordinal_position`,
       [schemas, tables]
     )
@@ -1311,15 +1432,12 @@ async function ensureMetadataForChangedTables(
           cols.add(row.column_name)
         }
         if (row.data_type) {
-          const oid = PG_DATA_TYPE_OIDS[row.data_type]
-          if (oid !== undefined) {
-            let cols = columnTypeOids.get(key)
-            if (!cols) {
-              cols = new Map()
-              columnTypeOids.set(key, cols)
-            }
-            cols.set(row.column_name, oid)
+          let cols = columnTypeOids.get(key)
+          if (!cols) {
+            cols = new Map()
+            columnTypeOids.set(key, cols)
           }
+          cols.set(row.column_name, PG_DATA_TYPE_OIDS[row.data_type] ?? 25)
         }
       }
     }
@@ -1383,8 +1501,34 @@ async function streamChanges(
       }
     }
 
+    // TRUNCATE carries no row data. pgoutput still requires the relation to
+    // be known by OID, so send RELATION first: the row-shaped one when this
+    // table already streamed, else one built from introspected metadata. The
+    // introspected columns are cached like row-shaped ones, so a later row
+    // change encodes against the relation this stream already announced.
+    if (change.op === 'TRUNCATE') {
+      if (!sentRelations.has(qualifiedKey)) {
+        let columns = state.cachedColumns.get(qualifiedKey)
+        if (!columns) {
+          columns = truncateRelationColumns(
+            qualifiedKey,
+            tableKeyColumns,
+            excludedColumns,
+            columnTypeOids
+          )
+          // a table introspection never saw stays unannounced to the row path
+          if (columns.length > 0) state.cachedColumns.set(qualifiedKey, columns)
+        }
+        const relMsg = encodeRelation(tableOid, schema, tableName, 0x64, columns)
+        messages.push(encodeWrappedChange(lsn, lsn, ts, relMsg))
+        if (columns.length > 0) sentRelations.add(qualifiedKey)
+      }
+      messages.push(encodeWrappedChange(lsn, lsn, ts, encodeTruncate([tableOid])))
+      continue
+    }
+
     // zero-cache expects specific camel-cased keys in shard clients rows
-    if (schema !== 'public' && tableName === 'clients') {
+    if (tableName === 'clients' && !isAppSchema(schema, state)) {
       rowData = normalizeShardClientsRow(rowData)
       oldData = normalizeShardClientsRow(oldData)
     }
@@ -1478,6 +1622,26 @@ async function streamChanges(
   }
 }
 
+function truncateRelationColumns(
+  qualifiedKey: string,
+  tableKeyColumns: Map<string, Set<string>>,
+  excludedColumns: Map<string, Set<string>>,
+  columnTypeOids: Map<string, Map<string, number>>
+): ColumnInfo[] {
+  const keySet = tableKeyColumns.get(qualifiedKey)
+  const excluded = excludedColumns.get(qualifiedKey)
+  const typeOids = columnTypeOids.get(qualifiedKey)
+  const names = new Set([...(typeOids?.keys() ?? []), ...(keySet ?? [])])
+  return [...names]
+    .filter((name) => !excluded?.has(name))
+    .map((name) => ({
+      name,
+      typeOid: typeOids?.get(name) ?? 25,
+      typeMod: -1,
+      isKey: keySet?.has(name) ?? false,
+    }))
+}
+
 function normalizeShardClientsRow(
   row: Record<string, unknown> | null
 ): Record<string, unknown> | null {
@@ -9,6 +9,7 @@ import {
   encodeInsert,
   encodeUpdate,
   encodeDelete,
+  encodeTruncate,
   encodeKeepalive,
   wrapXLogData,
   wrapCopyData,
@@ -327,6 +328,18 @@ describe('pgoutput-encoder', () => {
     })
   })
 
+  describe('encodeTruncate', () => {
+    it('lists each relation oid after the option bits', () => {
+      const buf = encodeTruncate([12345, 67890], 1)
+      expect(buf.length).toBe(1 + 4 + 1 + 8)
+      expect(buf[0]).toBe(0x54) // 'T'
+      expect(r32(buf, 1)).toBe(2)
+      expect(buf[5]).toBe(1)
+      expect(r32(buf, 6)).toBe(12345)
+      expect(r32(buf, 10)).toBe(67890)
+    })
+  })
+
   describe('wrapXLogData', () => {
     it('wraps payload with wal positions', () => {
       const payload = new Uint8Array([1, 2, 3])
@@ -408,6 +421,12 @@ describe('pgoutput-encoder', () => {
       expect(getTableOid('todo_0.clients')).toBe(9663976)
       expect(getTableOid('todo_0.mutations')).toBe(8519194)
     })
+
+    it('keeps the schema boundary when deriving oids', () => {
+      expect(getTableOid('app.user_roles')).not.toBe(getTableOid('app_user.roles'))
+      expect(getTableOid('app.users')).not.toBe(getTableOid('billing.users'))
+      expect(getTableOid('app.users')).not.toBe(getTableOid('public.users'))
+    })
   })
 
   // roundtrip tests: encode with orez → parse with zero-cache's parser
@@ -573,6 +592,21 @@ describe('pgoutput-encoder', () => {
       expect(parsed.key.id).toBe('gone')
     })
 
+    it('TRUNCATE roundtrip', () => {
+      const oid = getTableOid('rt.trunc_test')
+      const cols: ColumnInfo[] = [{ name: 'id', typeOid: 25, typeMod: -1, isKey: true }]
+      const parser = makeParser()
+      parser.parse(encodeRelation(oid, 'public', 'trunc_test', 0x64, cols))
+
+      const parsed = parser.parse(encodeTruncate([oid]))
+      expect(parsed.tag).toBe('truncate')
+      expect(parsed.cascade).toBe(false)
+      expect(parsed.restartIdentity).toBe(false)
+      expect(parsed.relations).toHaveLength(1)
+      expect(parsed.relations[0].name).toBe('trunc_test')
+      expect(parsed.relations[0].keyColumns).toEqual(['id'])
+    })
+
     it('full transaction: BEGIN → RELATION → INSERT → COMMIT', () => {
       const parser = makeParser()
       const lsn = 0x2000000n
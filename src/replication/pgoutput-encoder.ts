@@ -27,7 +27,13 @@ function flattenRelationName(tableName: string): string {
     return '_orez__zero_replication_slots'
   if (schema === '_orez') return `_orez__${name}`
   if (schema === '_zero') return `_zero_${name}`
-  return `${schema}_${name}`
+  // zero's shard schemas (`<app>_<shard>`) keep the flattened name their
+  // existing replicas already know the relation oids by.
+  if (/_\d+$/.test(schema)) return `${schema}_${name}`
+  // other schemas keep the boundary: joining with `_` made `app.user_roles`
+  // and `app_user.roles` share an oid, and two published schemas routinely
+  // hold tables of the same name.
+  return `"${schema.replace(/"/g, '""')}"."${name.replace(/"/g, '""')}"`
 }
 
 function getTableOid(tableName: string): number {
@@ -331,6 +337,20 @@ export function encodeDelete(
   return scratch.slice(0, 6 + tupleLen)
 }
 
+// encode a TRUNCATE message. options is the pgoutput bitmask
+// (1 = CASCADE, 2 = RESTART IDENTITY); every relation listed must already
+// have had its RELATION message sent in this stream.
+export function encodeTruncate(tableOids: number[], options = 0): Uint8Array {
+  const buf = new Uint8Array(1 + 4 + 1 + tableOids.length * 4)
+  buf[0] = 0x54 // 'T'
+  writeInt32(buf, 1, tableOids.length)
+  buf[5] = options
+  for (let i = 0; i < tableOids.length; i++) {
+    writeInt32(buf, 6 + i * 4, tableOids[i])
+  }
+  return buf
+}
+
 // wrap a pgoutput message in XLogData format
 export function wrapXLogData(
   walStart: bigint,
@@ -0,0 +1,446 @@
+import { createHash } from 'node:crypto'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { listStoredObjects, startS3Local } from './s3-local.js'
+
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+describe('s3-local', () => {
+  let dataDir: string
+  let server: Server
+  let endpoint: string
+
+  const keys = [
+    { accessKeyId: 'orez-local', secretAccessKey: 'orez-local-secret' },
+    { accessKeyId: 'orez-ci', secretAccessKey: 'orez-ci-secret' },
+  ]
+
+  function client(accessKeyId: string, secretAccessKey: string) {
+    return new S3Client({
+      endpoint,
+      region: 'us-east-1',
+      forcePathStyle: true,
+      credentials: { accessKeyId, secretAccessKey },
+    })
+  }
+
+  const s3 = () => client(keys[0].accessKeyId, keys[0].secretAccessKey)
+
+  async function read(key: string): Promise<string> {
+    const res = await s3().send(new GetObjectCommand({ Bucket: 'uploads', Key: key }))
+    return res.Body!.transformToString()
+  }
+
+  beforeAll(async () => {
+    dataDir = mkdtempSync(join(tmpdir(), 'orez-s3-'))
+    server = await startS3Local({ port: 0, dataDir, credentials: keys })
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(() => {
+    server.close()
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('round-trips objects signed by the sdk, including keys that need escaping', async () => {
+    await s3().send(
+      new PutObjectCommand({ Bucket: 'uploads', Key: 'docs/a file+(1).txt', Body: 'hi' })
+    )
+    expect(await read('docs/a file+(1).txt')).toBe('hi')
+  })
+
+  it('assembles multipart uploads in part order', async () => {
+    const { UploadId } = await s3().send(
+      new CreateMultipartUploadCommand({
+        Bucket: 'uploads',
+        Key: 'big/video.mp4',
+        ContentType: 'video/webm',
+        Metadata: { source: 'camera' },
+      })
+    )
+    const parts = []
+    for (const [i, body] of ['first-', 'second-', 'third'].entries()) {
+      const { ETag } = await s3().send(
+        new UploadPartCommand({
+          Bucket: 'uploads',
+          Key: 'big/video.mp4',
+          UploadId,
+          PartNumber: i + 1,
+          Body: body,
+        })
+      )
+      parts.push({ ETag, PartNumber: i + 1 })
+    }
+
+    const done = await s3().send(
+      new CompleteMultipartUploadCommand({
+        Bucket: 'uploads',
+        Key: 'big/video.mp4',
+        UploadId,
+        MultipartUpload: { Parts: parts },
+      })
+    )
+    expect(done.ETag).toMatch(/^"[0-9a-f]{32}-3"$/)
+    expect(await read('big/video.mp4')).toBe('first-second-third')
+
+    // metadata sent on create lands on the assembled object
+    const head = await s3().send(
+      new HeadObjectCommand({ Bucket: 'uploads', Key: 'big/video.mp4' })
+    )
+    expect(head.ContentType).toBe('video/webm')
+    expect(head.Metadata).toEqual({ source: 'camera' })
+    expect(head.ETag).toBe(done.ETag)
+
+    // the upload is gone once completed
+    await expect(
+      s3().send(
+        new UploadPartCommand({
+          Bucket: 'uploads',
+          Key: 'big/video.mp4',
+          UploadId,
+          PartNumber: 4,
+          Body: 'late',
+        })
+      )
+    ).rejects.toMatchObject({ name: 'NoSuchUpload' })
+  })
+
+  it('rejects completing with a part that was never uploaded, and aborts', async () => {
+    const { UploadId } = await s3().send(
+      new CreateMultipartUploadCommand({ Bucket: 'uploads', Key: 'big/broken.bin' })
+    )
+    const { ETag } = await s3().send(
+      new UploadPartCommand({
+        Bucket: 'uploads',
+        Key: 'big/broken.bin',
+        UploadId,
+        PartNumber: 1,
+        Body: 'only part',
+      })
+    )
+
+    await expect(
+      s3().send(
+        new CompleteMultipartUploadCommand({
+          Bucket: 'uploads',
+          Key: 'big/broken.bin',
+          UploadId,
+          MultipartUpload: {
+            Parts: [
+              { ETag, PartNumber: 1 },
+              { ETag, PartNumber: 2 },
+            ],
+          },
+        })
+      )
+    ).rejects.toMatchObject({ name: 'InvalidPart' })
+
+    await s3().send(
+      new AbortMultipartUploadCommand({
+        Bucket: 'uploads',
+        Key: 'big/broken.bin',
+        UploadId,
+      })
+    )
+    const list = await s3().send(
+      new ListObjectsV2Command({ Bucket: 'uploads', Prefix: 'big/' })
+    )
+    expect(list.Contents?.map((c) => c.Key)).toEqual(['big/video.mp4'])
+  })
+
+  it('lists with prefix, delimiter and continuation tokens', async () => {
+    for (const key of ['list/a/1', 'list/a/2', 'list/b/1', 'list/c.txt', 'list/d.txt']) {
+      await s3().send(new PutObjectCommand({ Bucket: 'uploads', Key: key, Body: key }))
+    }
+
+    const pages: { keys: string[]; prefixes: string[] }[] = []
+    let token: string | undefined
+    do {
+      const page = await s3().send(
+        new ListObjectsV2Command({
+          Bucket: 'uploads',
+          Prefix: 'list/',
+          Delimiter: '/',
+          MaxKeys: 2,
+          ContinuationToken: token,
+        })
+      )
+      pages.push({
+        keys: (page.Contents ?? []).map((c) => c.Key!),
+        prefixes: (page.CommonPrefixes ?? []).map((p) => p.Prefix!),
+      })
+      token = page.IsTruncated ? page.NextContinuationToken : undefined
+    } while (token)
+
+    expect(pages).toEqual([
+      { keys: [], prefixes: ['list/a/', 'list/b/'] },
+      { keys: ['list/c.txt', 'list/d.txt'], prefixes: [] },
+    ])
+
+    const nested = await s3().send(
+      new ListObjectsV2Command({ Bucket: 'uploads', Prefix: 'list/a' })
+    )
+    expect(nested.Contents?.map((c) => [c.Key, c.Size])).toEqual([
+      ['list/a/1', 8],
+      ['list/a/2', 8],
+    ])
+  })
+
+  it('copies objects, including across buckets', async () => {
+    await s3().send(
+      new PutObjectCommand({ Bucket: 'uploads', Key: 'src.txt', Body: 'copy me' })
+    )
+    await s3().send(
+      new CopyObjectCommand({
+        Bucket: 'archive',
+        Key: 'copied/dst.txt',
+        CopySource: 'uploads/src.txt',
+      })
+    )
+    const res = await s3().send(
+      new GetObjectCommand({ Bucket: 'archive', Key: 'copied/dst.txt' })
+    )
+    expect(await res.Body!.transformToString()).toBe('copy me')
+
+    await expect(
+      s3().send(
+        new CopyObjectCommand({
+          Bucket: 'archive',
+          Key: 'nope.txt',
+          CopySource: 'uploads/missing.txt',
+        })
+      )
+    ).rejects.toMatchObject({ name: 'NoSuchKey' })
+  })
+
+  it('accepts presigned urls from any configured key pair', async () => {
+    for (const key of keys) {
+      const signer = client(key.accessKeyId, key.secretAccessKey)
+      const putUrl = await getSignedUrl(
+        signer,
+        new PutObjectCommand({ Bucket: 'uploads', Key: `presigned/${key.accessKeyId}` }),
+        { expiresIn: 60 }
+      )
+      const put = await fetch(putUrl, { method: 'PUT', body: key.accessKeyId })
+      expect(put.status).toBe(200)
+
+      const getUrl = await getSignedUrl(
+        signer,
+        new GetObjectCommand({ Bucket: 'uploads', Key: `presigned/${key.accessKeyId}` }),
+        { expiresIn: 60 }
+      )
+      expect(await (await fetch(getUrl)).text()).toBe(key.accessKeyId)
+    }
+  })
+
+  it('rejects presigned urls with a wrong secret, unknown key or past expiry', async () => {
+    const command = new GetObjectCommand({ Bucket: 'uploads', Key: 'src.txt' })
+
+    const wrongSecret = await getSignedUrl(
+      client('orez-local', 'not-the-secret'),
+      command
+    )
+    const res1 = await fetch(wrongSecret)
+    expect(res1.status).toBe(403)
+    expect(await res1.text()).toContain('<Code>SignatureDoesNotMatch</Code>')
+
+    const unknownKey = await getSignedUrl(client('someone-else', 'whatever'), command)
+    const res2 = await fetch(unknownKey)
+    expect(res2.status).toBe(403)
+    expect(await res2.text()).toContain('<Code>InvalidAccessKeyId</Code>')
+
+    const expired = await getSignedUrl(s3(), command, {
+      expiresIn: 60,
+      signingDate: new Date(Date.now() - 60 * 60 * 1000),
+    })
+    const res3 = await fetch(expired)
+    expect(res3.status).toBe(403)
+    expect(await res3.text()).toContain('<Code>AccessDenied</Code>')
+
+    // tampering with a signed url invalidates it
+    const valid = await getSignedUrl(s3(), command, { expiresIn: 60 })
+    const res4 = await fetch(valid.replace('src.txt', 'docs/a%20file%2B%281%29.txt'))
+    expect(res4.status).toBe(403)
+  })
+
+  it('still serves unsigned requests', async () => {
+    const res = await fetch(`${endpoint}/uploads/src.txt`)
+    expect(await res.text()).toBe('copy me')
+  })
+
+  describe('object metadata', () => {
+    const body = '0123456789'
+    const etag = `"${createHash('md5').update(body).digest('hex')}"`
+
+    beforeAll(async () => {
+      await s3().send(
+        new PutObjectCommand({
+          Bucket: 'media',
+          Key: 'clip.bin',
+          Body: body,
+          ContentType: 'video/mp4',
+          CacheControl: 'max-age=60',
+          Metadata: { owner: 'nate', 'original-name': 'Clip.MP4' },
+        })
+      )
+    })
+
+    it('keeps content type, cache headers, x-amz-meta-* and an md5 etag', async () => {
+      const head = await s3().send(
+        new HeadObjectCommand({ Bucket: 'media', Key: 'clip.bin' })
+      )
+      expect(head.ContentType).toBe('video/mp4')
+      expect(head.CacheControl).toBe('max-age=60')
+      expect(head.Metadata).toEqual({ owner: 'nate', 'original-name': 'Clip.MP4' })
+      expect(head.ETag).toBe(etag)
+      expect(head.LastModified).toBeInstanceOf(Date)
+
+      const list = await s3().send(new ListObjectsV2Command({ Bucket: 'media' }))
+      expect(list.Contents?.[0].ETag).toBe(etag)
+    })
+
+    it('copies metadata along unless the copy replaces it', async () => {
+      await s3().send(
+        new CopyObjectCommand({
+          Bucket: 'media',
+          Key: 'kept.bin',
+          CopySource: 'media/clip.bin',
+        })
+      )
+      await s3().send(
+        new CopyObjectCommand({
+          Bucket: 'media',
+          Key: 'replaced.bin',
+          CopySource: 'media/clip.bin',
+          MetadataDirective: 'REPLACE',
+          ContentType: 'application/x-custom',
+          Metadata: { owner: 'someone-else' },
+        })
+      )
+
+      const kept = await s3().send(
+        new HeadObjectCommand({ Bucket: 'media', Key: 'kept.bin' })
+      )
+      expect(kept.ContentType).toBe('video/mp4')
+      expect(kept.Metadata).toEqual({ owner: 'nate', 'original-name': 'Clip.MP4' })
+      expect(kept.ETag).toBe(etag)
+
+      const replaced = await s3().send(
+        new HeadObjectCommand({ Bucket: 'media', Key: 'replaced.bin' })
+      )
+      expect(replaced.ContentType).toBe('application/x-custom')
+      expect(replaced.Metadata).toEqual({ owner: 'someone-else' })
+    })
+
+    it('serves byte ranges', async () => {
+      const url = `${endpoint}/media/clip.bin`
+
+      const middle = await fetch(url, { headers: { Range: 'bytes=2-5' } })
+      expect(middle.status).toBe(206)
+      expect(middle.headers.get('content-range')).toBe('bytes 2-5/10')
+      expect(middle.headers.get('content-type')).toBe('video/mp4')
+      expect(await middle.text()).toBe('2345')
+
+      const tail = await fetch(url, { headers: { Range: 'bytes=-3' } })
+      expect(await tail.text()).toBe('789')
+
+      const open = await fetch(url, { headers: { Range: 'bytes=7-' } })
+      expect(open.headers.get('content-range')).toBe('bytes 7-9/10')
+      expect(await open.text()).toBe('789')
+
+      const past = await fetch(url, { headers: { Range: 'bytes=10-' } })
+      expect(past.status).toBe(416)
+      expect(past.headers.get('content-range')).toBe('bytes */10')
+
+      const ranged = await s3().send(
+        new GetObjectCommand({ Bucket: 'media', Key: 'clip.bin', Range: 'bytes=0-0' })
+      )
+      expect(await ranged.Body!.transformToString()).toBe('0')
+    })
+
+    it('answers conditional gets with 304', async () => {
+      const url = `${endpoint}/media/clip.bin`
+      const first = await fetch(url)
+      const lastModified = first.headers.get('last-modified')!
+      expect(first.headers.get('etag')).toBe(etag)
+
+      expect((await fetch(url, { headers: { 'If-None-Match': etag } })).status).toBe(304)
+      expect((await fetch(url, { headers: { 'If-None-Match': '"other"' } })).status).toBe(
+        200
+      )
+      expect(
+        (await fetch(url, { headers: { 'If-Modified-Since': lastModified } })).status
+      ).toBe(304)
+      expect(
+        (
+          await fetch(url, {
+            headers: {
+              'If-Modified-Since': new Date(
+                Date.parse(lastModified) - 60_000
+              ).toUTCString(),
+            },
+          })
+        ).status
+      ).toBe(200)
+      // an etag mismatch wins over a matching date
+      expect(
+        (
+          await fetch(url, {
+            headers: { 'If-None-Match': '"other"', 'If-Modified-Since': lastModified },
+          })
+        ).status
+      ).toBe(200)
+    })
+
+    it('picks up files replaced on disk with a fresh etag', async () => {
+      await new Promise((r) => setTimeout(r, 20))
+      writeFileSync(join(dataDir, 's3', 'media', 'kept.bin'), 'edited by hand')
+
+      const head = await s3().send(
+        new HeadObjectCommand({ Bucket: 'media', Key: 'kept.bin' })
+      )
+      expect(head.ETag).toBe(
+        `"${createHash('md5').update('edited by hand').digest('hex')}"`
+      )
+      expect(head.ContentType).toBe('video/mp4')
+    })
+
+    it('lists stored objects with metadata for the admin dashboard', () => {
+      const { objects, truncated } = listStoredObjects(dataDir, { prefix: 'media/' })
+      expect(truncated).toBe(false)
+      expect(objects.map((o) => o.key)).toEqual([
+        'media/clip.bin',
+        'media/kept.bin',
+        'media/replaced.bin',
+      ])
+      expect(objects[0]).toMatchObject({
+        size: 10,
+        etag,
+        contentType: 'video/mp4',
+        metadata: { owner: 'nate', 'original-name': 'Clip.MP4' },
+        headers: { 'cache-control': 'max-age=60' },
+      })
+      expect(listStoredObjects(dataDir, { prefix: 'media/', limit: 1 }).truncated).toBe(
+        true
+      )
+    })
+  })
+})
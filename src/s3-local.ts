@@ -1,13 +1,24 @@
 /**
  * minimal local s3-compatible server.
- * handles GET/PUT/DELETE/HEAD for object storage.
+ * handles GET/PUT/DELETE/HEAD for object storage, plus ListObjectsV2,
+ * CopyObject and multipart uploads. urls are path-style: /<bucket>/<key>.
+ * objects keep their content type, etag and x-amz-meta-* headers, and GETs
+ * honor Range, If-None-Match and If-Modified-Since.
+ *
+ * when credentials are configured, sigv4-signed requests (Authorization header
+ * or presigned query) are verified against them. unsigned requests are still
+ * served, like a public-read bucket, so plain <img src> urls keep working.
  */
 
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'node:crypto'
 import {
+  copyFileSync,
+  createReadStream,
   existsSync,
   mkdirSync,
   readFileSync,
   readdirSync,
+  rmSync,
   writeFileSync,
   unlinkSync,
   statSync,
@@ -22,9 +33,16 @@ import { join, dirname, extname } from 'node:path'
 
 import { log } from './log.js'
 
+export interface S3Credentials {
+  accessKeyId: string
+  secretAccessKey: string
+}
+
 export interface S3LocalConfig {
   port: number
   dataDir: string
+  /** key pairs accepted for signed requests (default: signatures not checked) */
+  credentials?: S3Credentials[]
 }
 
 const MIME_TYPES: Record<string, string> = {
@@ -44,17 +62,687 @@ const MIME_TYPES: Record<string, string> = {
 function corsHeaders(): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, HEAD, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, HEAD, OPTIONS',
     'Access-Control-Allow-Headers': '*',
-    'Access-Control-Expose-Headers': 'ETag, Content-Length',
+    'Access-Control-Expose-Headers':
+      'ETag, Content-Length, Content-Range, Content-Type, Last-Modified, Accept-Ranges',
+  }
+}
+
+class S3Error extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+function errorXml(code: string, message: string): string {
+  return `<Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error>`
+}
+
+function sendXml(
+  res: ServerResponse,
+  status: number,
+  headers: Record<string, string>,
+  body: string
+) {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/xml' })
+  res.end(`<?xml version="1.0" encoding="UTF-8"?>${body}`)
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
+
+/**
+ * strip aws-chunked framing (`<hex size>[;chunk-signature=..]\r\n<data>\r\n`,
+ * ending in a zero-size chunk and optional trailers). the sdk uses it for
+ * stream bodies; stored as-is the framing would end up inside the object.
+ */
+function decodeAwsChunked(body: Buffer): Buffer {
+  const out: Buffer[] = []
+  let pos = 0
+  while (pos < body.length) {
+    const lineEnd = body.indexOf('\r\n', pos)
+    if (lineEnd < 0) break
+    const size = parseInt(body.subarray(pos, lineEnd).toString().split(';')[0], 16)
+    if (!size) break
+    out.push(body.subarray(lineEnd + 2, lineEnd + 2 + size))
+    pos = lineEnd + 2 + size + 2
+  }
+  return Buffer.concat(out)
+}
+
+async function readObjectBody(req: IncomingMessage): Promise<Buffer> {
+  const body = await readBody(req)
+  const encoding = String(req.headers['content-encoding'] || '')
+  const sha = String(req.headers['x-amz-content-sha256'] || '')
+  if (encoding.includes('aws-chunked') || sha.startsWith('STREAMING-')) {
+    return decodeAwsChunked(body)
+  }
+  return body
+}
+
+function md5(data: Buffer): string {
+  return createHash('md5').update(data).digest('hex')
+}
+
+function normalizeKey(path: string): string {
+  return path
+    .split('/')
+    .filter((s) => s && s !== '..' && s !== '.')
+    .join('/')
+}
+
+// -- object metadata --
+
+/**
+ * per-object metadata, kept in a sidecar tree at `<dataDir>/s3-meta/<key>.json`
+ * so it never shows up as a key. `size` and `mtimeMs` tie a sidecar to the file
+ * it describes: a file replaced on disk by hand gets a fresh etag on its next
+ * read, and keeps its content type and x-amz-meta-* values.
+ */
+interface ObjectMeta {
+  etag: string
+  contentType: string
+  /** x-amz-meta-* values, keyed without the prefix */
+  metadata: Record<string, string>
+  /** representation headers stored with the object (cache-control, ...) */
+  headers: Record<string, string>
+  size: number
+  mtimeMs: number
+}
+
+type WrittenMeta = Pick<ObjectMeta, 'contentType' | 'metadata' | 'headers'>
+
+export interface S3ObjectInfo {
+  /** `<bucket>/<key>` */
+  key: string
+  size: number
+  lastModified: string
+  etag: string
+  contentType: string
+  metadata: Record<string, string>
+  headers: Record<string, string>
+}
+
+const STORED_HEADERS = [
+  'cache-control',
+  'content-disposition',
+  'content-encoding',
+  'content-language',
+  'expires',
+]
+
+function guessContentType(key: string): string {
+  return MIME_TYPES[extname(key).toLowerCase()] || 'application/octet-stream'
+}
+
+function metaPath(metaDir: string, key: string): string {
+  return join(metaDir, `${key}.json`)
+}
+
+/** the content type, x-amz-meta-* and representation headers sent with a write */
+function metaFromRequest(req: IncomingMessage, key: string): WrittenMeta {
+  const metadata: Record<string, string> = {}
+  const headers: Record<string, string> = {}
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value !== 'string') continue
+    if (name.startsWith('x-amz-meta-')) {
+      metadata[name.slice('x-amz-meta-'.length)] = value
+    } else if (STORED_HEADERS.includes(name)) {
+      headers[name] = value
+    }
+  }
+  // aws-chunked is upload framing, not an encoding of the stored object
+  if (headers['content-encoding']) {
+    const encoding = headers['content-encoding']
+      .split(',')
+      .map((e) => e.trim())
+      .filter((e) => e && e !== 'aws-chunked')
+      .join(', ')
+    if (encoding) headers['content-encoding'] = encoding
+    else delete headers['content-encoding']
+  }
+  return {
+    contentType: req.headers['content-type'] || guessContentType(key),
+    metadata,
+    headers,
+  }
+}
+
+function writeObjectMeta(
+  metaDir: string,
+  filePath: string,
+  key: string,
+  fields: WrittenMeta & { etag: string }
+): ObjectMeta {
+  const stat = statSync(filePath)
+  const meta: ObjectMeta = { ...fields, size: stat.size, mtimeMs: stat.mtimeMs }
+  const path = metaPath(metaDir, key)
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, JSON.stringify(meta))
+  return meta
+}
+
+/** an object's metadata, filling in and saving a missing or stale sidecar */
+function readObjectMeta(metaDir: string, filePath: string, key: string): ObjectMeta {
+  const stat = statSync(filePath)
+  let meta: ObjectMeta | null = null
+  try {
+    meta = JSON.parse(readFileSync(metaPath(metaDir, key), 'utf-8'))
+  } catch {}
+  if (meta && meta.size === stat.size && meta.mtimeMs === stat.mtimeMs) return meta
+  return writeObjectMeta(metaDir, filePath, key, {
+    etag: `"${md5(readFileSync(filePath))}"`,
+    contentType: meta?.contentType ?? guessContentType(key),
+    metadata: meta?.metadata ?? {},
+    headers: meta?.headers ?? {},
+  })
+}
+
+function objectHeaders(meta: ObjectMeta): Record<string, string> {
+  const headers: Record<string, string> = {
+    ...meta.headers,
+    'Content-Type': meta.contentType,
+    ETag: meta.etag,
+    'Last-Modified': new Date(meta.mtimeMs).toUTCString(),
+    'Accept-Ranges': 'bytes',
+  }
+  for (const [name, value] of Object.entries(meta.metadata)) {
+    headers[`x-amz-meta-${name}`] = value
+  }
+  return headers
+}
+
+/** If-None-Match takes precedence over If-Modified-Since, as in rfc 9110 */
+function isNotModified(req: IncomingMessage, meta: ObjectMeta): boolean {
+  const ifNoneMatch = req.headers['if-none-match']
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .some((tag) => tag === '*' || tag === meta.etag)
+  }
+  const ifModifiedSince = req.headers['if-modified-since']
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince)
+    // http dates have second precision
+    return !Number.isNaN(since) && Math.floor(meta.mtimeMs / 1000) * 1000 <= since
+  }
+  return false
+}
+
+/**
+ * parse a single `bytes=` range. like S3, multi-range and malformed headers
+ * are ignored and the whole object is served (null).
+ */
+function parseRange(
+  header: string | undefined,
+  size: number
+): { start: number; end: number } | 'unsatisfiable' | null {
+  const m = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null
+  if (!m || (!m[1] && !m[2])) return null
+  if (!m[1]) {
+    // suffix range: the last n bytes
+    const length = Number(m[2])
+    if (length === 0 || size === 0) return 'unsatisfiable'
+    return { start: Math.max(0, size - length), end: size - 1 }
+  }
+  const start = Number(m[1])
+  const end = m[2] ? Math.min(Number(m[2]), size - 1) : size - 1
+  if (start >= size) return 'unsatisfiable'
+  if (end < start) return null
+  return { start, end }
+}
+
+/**
+ * list stored objects with their metadata, keys as `<bucket>/<key>`, for the
+ * admin dashboard. reads the store directly, so orez need not run the server.
+ */
+export function listStoredObjects(
+  dataDir: string,
+  opts: { prefix?: string; limit?: number } = {}
+): { objects: S3ObjectInfo[]; truncated: boolean } {
+  const storageDir = join(dataDir, 's3')
+  const metaDir = join(dataDir, 's3-meta')
+  const prefix = opts.prefix ?? ''
+  const limit = opts.limit ?? 500
+  const keys: string[] = []
+  walkKeys(storageDir, storageDir, keys)
+  const matching = keys.filter((key) => key.startsWith(prefix)).sort()
+
+  const objects = matching.slice(0, limit).map((key): S3ObjectInfo => {
+    const meta = readObjectMeta(metaDir, join(storageDir, key), key)
+    return {
+      key,
+      size: meta.size,
+      lastModified: new Date(meta.mtimeMs).toISOString(),
+      etag: meta.etag,
+      contentType: meta.contentType,
+      metadata: meta.metadata,
+      headers: meta.headers,
+    }
+  })
+  return { objects, truncated: matching.length > limit }
+}
+
+// -- sigv4 --
+
+/** rfc 3986 encoding as sigv4 expects it (encodeURIComponent leaves !'()* alone) */
+function sigv4Encode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest()
+}
+
+function signatureFor(
+  secretAccessKey: string,
+  scope: string[],
+  stringToSign: string
+): string {
+  const [date, region, service] = scope
+  const kDate = hmac(`AWS4${secretAccessKey}`, date)
+  const kRegion = hmac(kDate, region)
+  const kService = hmac(kRegion, service)
+  const kSigning = hmac(kService, 'aws4_request')
+  return createHmac('sha256', kSigning).update(stringToSign).digest('hex')
+}
+
+/** parse `20240101T000000Z` */
+function parseAmzDate(value: string): number {
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value)
+  if (!m) return NaN
+  return Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6])
+}
+
+/**
+ * verify a sigv4 signature from the Authorization header or a presigned url.
+ * returns without checking when the request carries no signature. the payload
+ * hash is taken from the request as signed; bodies are not re-hashed.
+ */
+function verifySignature(req: IncomingMessage, credentials: S3Credentials[]) {
+  const rawUrl = req.url || '/'
+  const queryStart = rawUrl.indexOf('?')
+  const rawPath = queryStart < 0 ? rawUrl : rawUrl.slice(0, queryStart)
+  const rawQuery = queryStart < 0 ? '' : rawUrl.slice(queryStart + 1)
+  const query: [string, string][] = rawQuery
+    .split('&')
+    .filter(Boolean)
+    .map((pair) => {
+      const eq = pair.indexOf('=')
+      const name = eq < 0 ? pair : pair.slice(0, eq)
+      const value = eq < 0 ? '' : pair.slice(eq + 1)
+      return [decodeURIComponent(name), decodeURIComponent(value)]
+    })
+  const param = (name: string) => query.find(([k]) => k === name)?.[1]
+
+  let credential: string
+  let signedHeaders: string
+  let signature: string
+  let amzDate: string
+  let payloadHash: string
+
+  const authorization = req.headers.authorization
+  if (param('X-Amz-Signature') !== undefined) {
+    credential = param('X-Amz-Credential') || ''
+    signedHeaders = param('X-Amz-SignedHeaders') || ''
+    signature = param('X-Amz-Signature') || ''
+    amzDate = param('X-Amz-Date') || ''
+    payloadHash = param('X-Amz-Content-Sha256') || 'UNSIGNED-PAYLOAD'
+
+    const expires = Number(param('X-Amz-Expires') || 0)
+    const signedAt = parseAmzDate(amzDate)
+    if (Number.isNaN(signedAt) || Date.now() > signedAt + expires * 1000) {
+      throw new S3Error(403, 'AccessDenied', 'Request has expired')
+    }
+  } else if (authorization?.startsWith('AWS4-HMAC-SHA256 ')) {
+    const fields = Object.fromEntries(
+      authorization
+        .slice('AWS4-HMAC-SHA256 '.length)
+        .split(',')
+        .map((part) => {
+          const [k, ...v] = part.trim().split('=')
+          return [k, v.join('=')]
+        })
+    )
+    credential = fields.Credential || ''
+    signedHeaders = fields.SignedHeaders || ''
+    signature = fields.Signature || ''
+    amzDate = String(req.headers['x-amz-date'] || '')
+    payloadHash = String(req.headers['x-amz-content-sha256'] || 'UNSIGNED-PAYLOAD')
+  } else {
+    return
+  }
+
+  const [accessKeyId, ...scope] = credential.split('/')
+  const key = credentials.find((c) => c.accessKeyId === accessKeyId)
+  if (!key) {
+    throw new S3Error(
+      403,
+      'InvalidAccessKeyId',
+      'The AWS Access Key Id you provided does not exist in our records.'
+    )
+  }
+
+  const canonicalQuery = query
+    .filter(([k]) => k !== 'X-Amz-Signature')
+    .map(([k, v]) => [sigv4Encode(k), sigv4Encode(v)])
+    .sort(([ak, av], [bk, bv]) =>
+      ak < bk ? -1 : ak > bk ? 1 : av < bv ? -1 : av > bv ? 1 : 0
+    )
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&')
+  const canonicalHeaders = signedHeaders
+    .split(';')
+    .map((name) => {
+      const raw = req.headers[name]
+      const value = Array.isArray(raw) ? raw.join(',') : (raw ?? '')
+      return `${name}:${value.trim().replace(/\s+/g, ' ')}\n`
+    })
+    .join('')
+  const canonicalRequest = [
+    req.method,
+    rawPath,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join('\n')
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope.join('/'),
+    createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n')
+
+  const expected = Buffer.from(signatureFor(key.secretAccessKey, scope, stringToSign))
+  const given = Buffer.from(signature)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    throw new S3Error(
+      403,
+      'SignatureDoesNotMatch',
+      'The request signature we calculated does not match the signature you provided.'
+    )
+  }
+}
+
+// -- ListObjectsV2 --
+
+function walkKeys(root: string, dir: string, keys: string[]) {
+  let entries
+  try {
+    entries = readdirSync(dir, { withFileTypes: true })
+  } catch {
+    return
+  }
+  for (const entry of entries) {
+    const full = join(dir, entry.name)
+    if (entry.isDirectory()) {
+      walkKeys(root, full, keys)
+    } else {
+      keys.push(full.slice(root.length + 1))
+    }
+  }
+}
+
+/**
+ * S3 ListObjectsV2: GET /<bucket>?list-type=2&prefix=&delimiter=&max-keys=
+ * pages like real S3: lexicographic key order, and when more keys remain past
+ * max-keys the response carries IsTruncated plus a NextContinuationToken (the
+ * last returned key or common prefix, matched against continuation-token as an
+ * exclusive start). without paging, every >1000-key listing silently truncated
+ * and callers that diff a listing (backfills, delete-missing sweeps) dropped
+ * real files. keys under a common prefix count once toward max-keys.
+ *
+ * listing the root (no bucket segment) walks the whole store, with keys
+ * relative to it, as earlier versions did.
+ */
+function listObjects(
+  root: string,
+  metaRoot: string,
+  bucket: string,
+  params: URLSearchParams
+): string {
+  const prefix = params.get('prefix') || ''
+  const delimiter = params.get('delimiter') || ''
+  const maxKeys = parseInt(params.get('max-keys') || '1000')
+  const token = params.get('continuation-token')
+  const after = token || params.get('start-after') || ''
+
+  // only walk the directory the prefix pins down
+  const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : ''
+  const keys: string[] = []
+  walkKeys(root, join(root, prefixDir), keys)
+  keys.sort()
+
+  const contents: string[] = []
+  const commonPrefixes: string[] = []
+  let last = ''
+  let truncated = false
+  for (const key of keys) {
+    if (!key.startsWith(prefix)) continue
+    if (key <= after) continue
+    // a token that is a common prefix covers every key beneath it
+    if (delimiter && after.endsWith(delimiter) && key.startsWith(after)) continue
+
+    const rest = key.slice(prefix.length)
+    const cut = delimiter ? rest.indexOf(delimiter) : -1
+    const common = cut >= 0 ? prefix + rest.slice(0, cut + delimiter.length) : null
+    if (common !== null && common === last) continue
+
+    if (contents.length + commonPrefixes.length >= maxKeys) {
+      truncated = true
+      break
+    }
+    if (common !== null) {
+      commonPrefixes.push(common)
+      last = common
+    } else {
+      const meta = readObjectMeta(metaRoot, join(root, key), key)
+      contents.push(
+        `<Contents><Key>${escapeXml(key)}</Key>` +
+          `<LastModified>${new Date(meta.mtimeMs).toISOString()}</LastModified>` +
+          `<ETag>${escapeXml(meta.etag)}</ETag><Size>${meta.size}</Size>` +
+          `<StorageClass>STANDARD</StorageClass></Contents>`
+      )
+      last = key
+    }
+  }
+
+  return (
+    `<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">` +
+    `<Name>${escapeXml(bucket)}</Name><Prefix>${escapeXml(prefix)}</Prefix>` +
+    (delimiter ? `<Delimiter>${escapeXml(delimiter)}</Delimiter>` : '') +
+    `<MaxKeys>${maxKeys}</MaxKeys>` +
+    `<KeyCount>${contents.length + commonPrefixes.length}</KeyCount>` +
+    (token ? `<ContinuationToken>${escapeXml(token)}</ContinuationToken>` : '') +
+    (truncated
+      ? `<IsTruncated>true</IsTruncated><NextContinuationToken>${escapeXml(last)}</NextContinuationToken>`
+      : '<IsTruncated>false</IsTruncated>') +
+    contents.join('') +
+    commonPrefixes
+      .map((p) => `<CommonPrefixes><Prefix>${escapeXml(p)}</Prefix></CommonPrefixes>`)
+      .join('') +
+    `</ListBucketResult>`
+  )
+}
+
+// -- multipart uploads --
+
+/**
+ * in-progress uploads live outside the object store, in
+ * `<dataDir>/s3-uploads/<uploadId>/`, so parts never show up in listings.
+ * each holds `upload.json` (the target key and the metadata sent on create)
+ * and one file per part number.
+ */
+interface UploadInfo extends WrittenMeta {
+  key: string
+}
+
+function openUpload(
+  uploadsDir: string,
+  uploadId: string,
+  key: string
+): { dir: string; upload: UploadInfo } {
+  const dir = join(uploadsDir, uploadId.replace(/[^a-zA-Z0-9-]/g, ''))
+  const infoPath = join(dir, 'upload.json')
+  const upload: UploadInfo | null = existsSync(infoPath)
+    ? JSON.parse(readFileSync(infoPath, 'utf-8'))
+    : null
+  if (upload?.key !== key) {
+    throw new S3Error(
+      404,
+      'NoSuchUpload',
+      'The specified upload does not exist. The upload ID may be invalid, or the upload may have been aborted or completed.'
+    )
+  }
+  return { dir, upload }
+}
+
+function completeMultipartUpload(
+  dir: string,
+  body: string
+): { data: Buffer; etag: string } {
+  const parts = [...body.matchAll(/<Part>([\s\S]*?)<\/Part>/g)].map((m) => ({
+    number: Number(/<PartNumber>(\d+)<\/PartNumber>/.exec(m[1])?.[1]),
+    etag: unescapeXml(/<ETag>([\s\S]*?)<\/ETag>/.exec(m[1])?.[1] || '').replace(/"/g, ''),
+  }))
+  if (parts.length === 0) {
+    throw new S3Error(400, 'MalformedXML', 'You must specify at least one part')
+  }
+
+  const buffers: Buffer[] = []
+  const digests: Buffer[] = []
+  let previous = 0
+  for (const part of parts) {
+    if (!(part.number > previous)) {
+      throw new S3Error(
+        400,
+        'InvalidPartOrder',
+        'The list of parts was not in ascending order.'
+      )
+    }
+    previous = part.number
+    const partPath = join(dir, String(part.number))
+    const data = existsSync(partPath) ? readFileSync(partPath) : null
+    if (!data || md5(data) !== part.etag) {
+      throw new S3Error(
+        400,
+        'InvalidPart',
+        `One or more of the specified parts could not be found: part ${part.number}`
+      )
+    }
+    buffers.push(data)
+    digests.push(createHash('md5').update(data).digest())
+  }
+  // same shape as real S3: md5 of the concatenated part md5s, then part count
+  return {
+    data: Buffer.concat(buffers),
+    etag: `"${md5(Buffer.concat(digests))}-${parts.length}"`,
   }
 }
 
 export function startS3Local(config: S3LocalConfig): Promise<Server> {
   const storageDir = join(config.dataDir, 's3')
+  const metaDir = join(config.dataDir, 's3-meta')
+  const uploadsDir = join(config.dataDir, 's3-uploads')
+  const credentials = config.credentials ?? []
   mkdirSync(storageDir, { recursive: true })
 
-  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+  function isObject(filePath: string): boolean {
+    return existsSync(filePath) && !statSync(filePath).isDirectory()
+  }
+
+  /** GET and HEAD of a single object */
+  function serveObject(
+    req: IncomingMessage,
+    res: ServerResponse,
+    cors: Record<string, string>,
+    filePath: string,
+    key: string
+  ) {
+    if (!isObject(filePath)) {
+      throw new S3Error(404, 'NoSuchKey', 'The specified key does not exist.')
+    }
+    const meta = readObjectMeta(metaDir, filePath, key)
+    const headers = { ...cors, ...objectHeaders(meta) }
+    const metaNames = Object.keys(meta.metadata).map((name) => `x-amz-meta-${name}`)
+    if (metaNames.length > 0) {
+      headers['Access-Control-Expose-Headers'] += `, ${metaNames.join(', ')}`
+    }
+
+    if (isNotModified(req, meta)) {
+      res.writeHead(304, {
+        ...cors,
+        ETag: meta.etag,
+        'Last-Modified': headers['Last-Modified'],
+      })
+      res.end()
+      return
+    }
+
+    const range = parseRange(req.headers.range, meta.size)
+    if (range === 'unsatisfiable') {
+      sendXml(
+        res,
+        416,
+        { ...cors, 'Content-Range': `bytes */${meta.size}` },
+        errorXml('InvalidRange', 'The requested range is not satisfiable')
+      )
+      return
+    }
+    if (range) {
+      res.writeHead(206, {
+        ...headers,
+        'Content-Range': `bytes ${range.start}-${range.end}/${meta.size}`,
+        'Content-Length': String(range.end - range.start + 1),
+      })
+    } else {
+      res.writeHead(200, { ...headers, 'Content-Length': String(meta.size) })
+    }
+    if (req.method === 'HEAD') {
+      res.end()
+      return
+    }
+    // stream so seeking through a large video doesn't load the whole file
+    createReadStream(filePath, range ?? undefined)
+      .on('error', () => res.destroy())
+      .pipe(res)
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
     const headers = corsHeaders()
 
     if (req.method === 'OPTIONS') {
@@ -66,147 +754,203 @@ export function startS3Local(config: S3LocalConfig): Promise<Server> {
     const url = new URL(req.url || '/', `http://localhost:${config.port}`)
 
     // sanitize path to prevent traversal
-    const normalized = url.pathname
-      .split('/')
-      .filter((s) => s && s !== '..' && s !== '.')
-      .join('/')
+    const normalized = normalizeKey(decodeURIComponent(url.pathname))
     const filePath = join(storageDir, normalized)
     if (!filePath.startsWith(storageDir)) {
       res.writeHead(403, headers)
       res.end()
       return
     }
+    const bucket = normalized.split('/')[0]
+
+    if (credentials.length > 0) verifySignature(req, credentials)
 
-    try {
-      switch (req.method) {
-        case 'GET': {
-          // S3 ListObjectsV2: GET /?list-type=2&prefix=...&max-keys=...
-          // pages like real S3: lexicographic key order, and when more keys
-          // remain past max-keys the response carries IsTruncated plus a
-          // NextContinuationToken (the last returned key, matched against
-          // continuation-token as an exclusive start). without this, every
-          // >1000-key listing silently truncated and callers that diff a
-          // listing (backfills, delete-missing sweeps) dropped real files.
-          if (url.searchParams.get('list-type') === '2') {
-            const prefix = url.searchParams.get('prefix') || ''
-            const maxKeys = parseInt(url.searchParams.get('max-keys') || '1000')
-            const after = url.searchParams.get('continuation-token') || ''
-            const baseDir = join(storageDir, prefix)
-            const allKeys: string[] = []
-
-            function walkList(dir: string) {
-              let entries
-              try {
-                entries = readdirSync(dir, { withFileTypes: true })
-              } catch {
-                return
-              }
-              for (const entry of entries) {
-                const full = join(dir, entry.name)
-                if (entry.isDirectory()) {
-                  walkList(full)
-                } else {
-                  const rel = full.slice(storageDir.length + 1)
-                  allKeys.push(rel)
-                }
-              }
-            }
-            walkList(baseDir)
-            allKeys.sort()
-
-            const start = after ? allKeys.findIndex((key) => key > after) : 0
-            const window = start < 0 ? [] : allKeys.slice(start, start + maxKeys)
-            const truncated = start >= 0 && start + window.length < allKeys.length
-            const keysXml = window
-              .map((k) => `<Contents><Key>${k}</Key></Contents>`)
-              .join('')
-            const tokenXml = truncated
-              ? `<IsTruncated>true</IsTruncated><NextContinuationToken>${window[window.length - 1]}</NextContinuationToken>`
-              : '<IsTruncated>false</IsTruncated>'
-            const xml = `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><KeyCount>${window.length}</KeyCount>${tokenXml}${keysXml}</ListBucketResult>`
-            res.writeHead(200, { ...headers, 'Content-Type': 'application/xml' })
-            res.end(xml)
-            return
+    switch (req.method) {
+      case 'GET': {
+        if (url.searchParams.get('list-type') === '2') {
+          const root = bucket ? join(storageDir, bucket) : storageDir
+          const metaRoot = bucket ? join(metaDir, bucket) : metaDir
+          sendXml(
+            res,
+            200,
+            headers,
+            listObjects(root, metaRoot, bucket, url.searchParams)
+          )
+          return
+        }
+        serveObject(req, res, headers, filePath, normalized)
+        break
+      }
+
+      case 'PUT': {
+        // UploadPart: PUT /<bucket>/<key>?partNumber=N&uploadId=..
+        const uploadId = url.searchParams.get('uploadId')
+        if (uploadId) {
+          const partNumber = Number(url.searchParams.get('partNumber'))
+          if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000) {
+            throw new S3Error(400, 'InvalidArgument', 'Part number must be 1-10000.')
           }
+          const { dir } = openUpload(uploadsDir, uploadId, normalized)
+          const body = await readObjectBody(req)
+          writeFileSync(join(dir, String(partNumber)), body)
+          res.writeHead(200, { ...headers, ETag: `"${md5(body)}"` })
+          res.end()
+          return
+        }
 
-          if (!existsSync(filePath) || statSync(filePath).isDirectory()) {
-            res.writeHead(404, {
-              ...headers,
-              'Content-Type': 'application/xml',
-            })
-            res.end('<Error><Code>NoSuchKey</Code></Error>')
-            return
+        // CopyObject: PUT /<bucket>/<key> with x-amz-copy-source: /<bucket>/<key>
+        const copySource = req.headers['x-amz-copy-source']
+        if (typeof copySource === 'string') {
+          const sourceKey = normalizeKey(decodeURIComponent(copySource.split('?')[0]))
+          const sourcePath = join(storageDir, sourceKey)
+          if (!isObject(sourcePath)) {
+            throw new S3Error(404, 'NoSuchKey', 'The specified key does not exist.')
           }
-          const data = readFileSync(filePath)
-          const ext = extname(filePath)
-          const contentType = MIME_TYPES[ext] || 'application/octet-stream'
-          res.writeHead(200, {
-            ...headers,
-            'Content-Type': contentType,
-            'Content-Length': data.length.toString(),
-            ETag: `"${Buffer.from(data).length}"`,
+          const sourceMeta = readObjectMeta(metaDir, sourcePath, sourceKey)
+          mkdirSync(dirname(filePath), { recursive: true })
+          copyFileSync(sourcePath, filePath)
+          // metadata travels with the copy unless the request replaces it
+          const written =
+            req.headers['x-amz-metadata-directive'] === 'REPLACE'
+              ? metaFromRequest(req, normalized)
+              : sourceMeta
+          const meta = writeObjectMeta(metaDir, filePath, normalized, {
+            etag: sourceMeta.etag,
+            contentType: written.contentType,
+            metadata: written.metadata,
+            headers: written.headers,
           })
-          res.end(data)
-          break
+          sendXml(
+            res,
+            200,
+            headers,
+            `<CopyObjectResult><LastModified>${new Date(meta.mtimeMs).toISOString()}</LastModified>` +
+              `<ETag>${escapeXml(meta.etag)}</ETag></CopyObjectResult>`
+          )
+          return
         }
 
-        case 'PUT': {
-          const chunks: Buffer[] = []
-          req.on('data', (chunk: Buffer) => chunks.push(chunk))
-          req.on('end', () => {
-            mkdirSync(dirname(filePath), { recursive: true })
-            const body = Buffer.concat(chunks)
-            writeFileSync(filePath, body)
-            res.writeHead(200, {
-              ...headers,
-              ETag: `"${body.length}"`,
-            })
-            res.end()
+        const body = await readObjectBody(req)
+        mkdirSync(dirname(filePath), { recursive: true })
+        writeFileSync(filePath, body)
+        const meta = writeObjectMeta(metaDir, filePath, normalized, {
+          etag: `"${md5(body)}"`,
+          ...metaFromRequest(req, normalized),
+        })
+        res.writeHead(200, {
+          ...headers,
+          ETag: meta.etag,
+        })
+        res.end()
+        break
+      }
+
+      case 'POST': {
+        // CreateMultipartUpload: POST /<bucket>/<key>?uploads
+        if (url.searchParams.has('uploads')) {
+          const uploadId = randomUUID()
+          const dir = join(uploadsDir, uploadId)
+          const upload: UploadInfo = {
+            key: normalized,
+            ...metaFromRequest(req, normalized),
+          }
+          mkdirSync(dir, { recursive: true })
+          writeFileSync(join(dir, 'upload.json'), JSON.stringify(upload))
+          log.debug.s3(`multipart upload started: ${normalized}`)
+          sendXml(
+            res,
+            200,
+            headers,
+            `<InitiateMultipartUploadResult><Bucket>${escapeXml(bucket)}</Bucket>` +
+              `<Key>${escapeXml(normalized.slice(bucket.length + 1))}</Key>` +
+              `<UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`
+          )
+          return
+        }
+
+        // CompleteMultipartUpload: POST /<bucket>/<key>?uploadId=..
+        const uploadId = url.searchParams.get('uploadId')
+        if (uploadId) {
+          const { dir, upload } = openUpload(uploadsDir, uploadId, normalized)
+          const body = await readBody(req)
+          const { data, etag } = completeMultipartUpload(dir, body.toString('utf-8'))
+          mkdirSync(dirname(filePath), { recursive: true })
+          writeFileSync(filePath, data)
+          writeObjectMeta(metaDir, filePath, normalized, {
+            etag,
+            contentType: upload.contentType,
+            metadata: upload.metadata,
+            headers: upload.headers,
           })
-          break
+          rmSync(dir, { recursive: true, force: true })
+          log.debug.s3(`multipart upload completed: ${normalized} (${data.length} bytes)`)
+          sendXml(
+            res,
+            200,
+            headers,
+            `<CompleteMultipartUploadResult><Location>${escapeXml(url.href)}</Location>` +
+              `<Bucket>${escapeXml(bucket)}</Bucket>` +
+              `<Key>${escapeXml(normalized.slice(bucket.length + 1))}</Key>` +
+              `<ETag>${escapeXml(etag)}</ETag></CompleteMultipartUploadResult>`
+          )
+          return
         }
 
-        case 'DELETE': {
-          // a directory key is not an S3 object — deleting one is a no-op (204),
-          // matching real S3 and the HEAD case above. unlinkSync on a directory
-          // throws EISDIR/EPERM → the outer catch returns 500, which breaks fs
-          // deletes that remove a tree's files and then the now-empty prefix.
-          if (existsSync(filePath) && !statSync(filePath).isDirectory()) {
-            unlinkSync(filePath)
-          }
+        res.writeHead(405, headers)
+        res.end()
+        break
+      }
+
+      case 'DELETE': {
+        // AbortMultipartUpload: DELETE /<bucket>/<key>?uploadId=..
+        const uploadId = url.searchParams.get('uploadId')
+        if (uploadId) {
+          rmSync(openUpload(uploadsDir, uploadId, normalized).dir, {
+            recursive: true,
+            force: true,
+          })
           res.writeHead(204, headers)
           res.end()
-          break
+          return
         }
 
-        case 'HEAD': {
-          if (!existsSync(filePath) || statSync(filePath).isDirectory()) {
-            res.writeHead(404, headers)
-            res.end()
-            return
-          }
-          const stat = statSync(filePath)
-          const ext2 = extname(filePath)
-          res.writeHead(200, {
-            ...headers,
-            'Content-Type': MIME_TYPES[ext2] || 'application/octet-stream',
-            'Content-Length': stat.size.toString(),
-          })
-          res.end()
-          break
+        // a directory key is not an S3 object — deleting one is a no-op (204),
+        // matching real S3 and the HEAD case above. unlinkSync on a directory
+        // throws EISDIR/EPERM → the outer catch returns 500, which breaks fs
+        // deletes that remove a tree's files and then the now-empty prefix.
+        if (isObject(filePath)) {
+          unlinkSync(filePath)
+          rmSync(metaPath(metaDir, normalized), { force: true })
         }
+        res.writeHead(204, headers)
+        res.end()
+        break
+      }
 
-        default:
-          res.writeHead(405, headers)
-          res.end()
+      case 'HEAD': {
+        serveObject(req, res, headers, filePath, normalized)
+        break
       }
-    } catch {
-      res.writeHead(500, {
-        ...headers,
-        'Content-Type': 'application/xml',
-      })
-      res.end('<Error><Code>InternalError</Code></Error>')
+
+      default:
+        res.writeHead(405, headers)
+        res.end()
     }
+  }
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    handle(req, res).catch((err) => {
+      const s3Err =
+        err instanceof S3Error ? err : new S3Error(500, 'InternalError', String(err))
+      if (s3Err.status === 500) log.s3(`request failed: ${s3Err.message}`)
+      // HEAD responses carry no body, so the status is all the client gets
+      if (req.method === 'HEAD') {
+        res.writeHead(s3Err.status, corsHeaders())
+        res.end()
+        return
+      }
+      sendXml(res, s3Err.status, corsHeaders(), errorXml(s3Err.code, s3Err.message))
+    })
   })
 
   return new Promise((resolve, reject) => {
@@ -0,0 +1,118 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { PGlite } from '@electric-sql/pglite'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { readSeedFiles, resetSeeds, runSeeds } from './seeds.js'
+
+describe('seeds', () => {
+  let db: PGlite
+  let dir: string
+
+  beforeEach(async () => {
+    db = new PGlite()
+    await db.waitReady
+    await db.exec(`
+      CREATE TABLE users (id SERIAL PRIMARY KEY, name TEXT NOT NULL);
+      CREATE TABLE posts (id SERIAL PRIMARY KEY, user_id INT REFERENCES users(id), title TEXT);
+    `)
+    dir = mkdtempSync(join(tmpdir(), 'orez-seeds-'))
+    writeFileSync(
+      join(dir, '001_users.sql'),
+      "INSERT INTO users (name) VALUES ('ada');\n--> statement-breakpoint\nINSERT INTO users (name) VALUES ('bob');"
+    )
+    writeFileSync(
+      join(dir, '002_posts.ts'),
+      `export default async ({ sql, profile }: any) => {
+        const [ada] = await sql\`SELECT id FROM users WHERE name = \${'ada'}\`
+        await sql\`INSERT INTO posts (user_id, title) VALUES (\${ada.id}, \${'hello ' + (profile ?? 'base')})\`
+      }`
+    )
+    mkdirSync(join(dir, 'demo'))
+    writeFileSync(
+      join(dir, 'demo', '001_more.sql'),
+      "INSERT INTO users (name) VALUES ('demo')"
+    )
+  })
+
+  afterEach(async () => {
+    await db.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  async function names(): Promise<string[]> {
+    const result = await db.query<{ name: string }>(`SELECT name FROM users ORDER BY id`)
+    return result.rows.map((r) => r.name)
+  }
+
+  it('lists base seeds in order, then the profile seeds', () => {
+    expect(readSeedFiles(dir).map((f) => f.name)).toEqual([
+      '001_users.sql',
+      '002_posts.ts',
+    ])
+    expect(readSeedFiles(dir, 'demo').map((f) => f.name)).toEqual([
+      '001_users.sql',
+      '002_posts.ts',
+      'demo/001_more.sql',
+    ])
+    expect(() => readSeedFiles(dir, 'missing')).toThrow(/not found/)
+  })
+
+  it('applies sql and ts seeds once', async () => {
+    expect(await runSeeds(db, { seedPath: dir })).toEqual([
+      '001_users.sql',
+      '002_posts.ts',
+    ])
+    expect(await names()).toEqual(['ada', 'bob'])
+    const posts = await db.query<{ title: string }>(`SELECT title FROM posts`)
+    expect(posts.rows).toEqual([{ title: 'hello base' }])
+
+    expect(await runSeeds(db, { seedPath: dir })).toEqual([])
+    expect(await names()).toEqual(['ada', 'bob'])
+  })
+
+  it('applies a profile on top of the base seeds', async () => {
+    await runSeeds(db, { seedPath: dir })
+    expect(await runSeeds(db, { seedPath: dir, profile: 'demo' })).toEqual([
+      'demo/001_more.sql',
+    ])
+    expect(await names()).toEqual(['ada', 'bob', 'demo'])
+  })
+
+  it('records seeds as applied on a database that already has data', async () => {
+    await db.exec(`INSERT INTO users (name) VALUES ('existing')`)
+    expect(await runSeeds(db, { seedPath: dir })).toEqual([])
+    expect(await names()).toEqual(['existing'])
+    const tracked = await db.query(`SELECT name FROM _orez._seeds`)
+    expect(tracked.rows).toHaveLength(2)
+  })
+
+  it('still seeds a fresh database whose migrations inserted reference data', async () => {
+    await db.exec(`INSERT INTO users (name) VALUES ('reference')`)
+    expect(await runSeeds(db, { seedPath: dir, dataBeforeMigrations: false })).toEqual([
+      '001_users.sql',
+      '002_posts.ts',
+    ])
+    expect(await names()).toEqual(['reference', 'ada', 'bob'])
+  })
+
+  it('does not re-run an edited seed, reset re-seeds from scratch', async () => {
+    await runSeeds(db, { seedPath: dir })
+    writeFileSync(
+      join(dir, '001_users.sql'),
+      "INSERT INTO users (name) VALUES ('ada'), ('cyd')"
+    )
+    expect(await runSeeds(db, { seedPath: dir })).toEqual([])
+    expect(await names()).toEqual(['ada', 'bob'])
+
+    expect(await resetSeeds(db, { seedPath: dir })).toEqual([
+      '001_users.sql',
+      '002_posts.ts',
+    ])
+    expect(await names()).toEqual(['ada', 'cyd'])
+    const ids = await db.query<{ id: number }>(`SELECT id FROM users ORDER BY id`)
+    expect(ids.rows).toEqual([{ id: 1 }, { id: 2 }])
+  })
+})
@@ -0,0 +1,269 @@
+/**
+ * seed data for the app database.
+ *
+ * the seed path is either one `.sql` file or a directory of `.sql` and `.ts`
+ * (or `.js`/`.mjs`) seed modules applied in filename order. a subdirectory
+ * named after a profile holds extra seeds that only run with that profile
+ * (`--seed-profile=demo` applies `seeds/*` and then `seeds/demo/*`).
+ *
+ * applied seeds are recorded in `_orez._seeds` together with a sha256 of the
+ * file, so a seed runs once per database. editing an applied seed does not
+ * re-run it; `orez seed --reset` empties the app tables and seeds from
+ * scratch.
+ */
+import { createHash } from 'node:crypto'
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs'
+import { basename, join, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+
+import { log } from './log.js'
+import { getTrackedTables } from './replication/change-tracker.js'
+
+import type { MigrationDb } from './migrations.js'
+import type { ChangeTrackingDb } from './replication/change-tracker.js'
+
+/** tagged-template sql client handed to TypeScript seeds */
+export interface SeedSql {
+  /** run one statement, interpolated values are sent as bind parameters */
+  <T = Record<string, unknown>>(
+    strings: TemplateStringsArray,
+    ...values: unknown[]
+  ): Promise<T[]>
+  /** run a statement from a string, with optional `$n` parameters */
+  unsafe<T = Record<string, unknown>>(query: string, params?: unknown[]): Promise<T[]>
+}
+
+export interface SeedContext {
+  sql: SeedSql
+  /** the selected seed profile, null for the base seeds only */
+  profile: string | null
+}
+
+export type SeedFunction = (ctx: SeedContext) => void | Promise<void>
+
+/** type-safe helper for `.ts` seed modules: `export default defineSeed(...)` */
+export function defineSeed(fn: SeedFunction): SeedFunction {
+  return fn
+}
+
+export interface SeedFile {
+  /** path relative to the seed directory, e.g. `demo/010_posts.ts` */
+  name: string
+  path: string
+  kind: 'sql' | 'module'
+  hash: string
+}
+
+export interface SeedOptions {
+  /** seed file or directory */
+  seedPath: string
+  profile?: string | null
+  /** ZERO_APP_PUBLICATIONS, to find the app tables a reset empties */
+  publications?: string[]
+  /**
+   * whether app data was there before this run's migrations, for callers that
+   * migrate first. rows a fresh database's migrations insert don't mean it was
+   * seeded; without this the data is looked for when seeds run
+   */
+  dataBeforeMigrations?: boolean
+}
+
+const SEED_EXTENSIONS = /\.(sql|ts|mts|js|mjs)$/
+
+function hashSeed(path: string): string {
+  return createHash('sha256').update(readFileSync(path)).digest('hex')
+}
+
+function seedFile(name: string, path: string): SeedFile {
+  return {
+    name,
+    path,
+    kind: path.endsWith('.sql') ? 'sql' : 'module',
+    hash: hashSeed(path),
+  }
+}
+
+function listSeedDir(dir: string, prefix: string): SeedFile[] {
+  return readdirSync(dir)
+    .filter((f) => SEED_EXTENSIONS.test(f) && !f.endsWith('.d.ts'))
+    .filter((f) => statSync(join(dir, f)).isFile())
+    .sort()
+    .map((f) => seedFile(prefix + f, join(dir, f)))
+}
+
+/** seeds for `profile` in apply order: base seeds first, then the profile's */
+export function readSeedFiles(seedPath: string, profile?: string | null): SeedFile[] {
+  const path = resolve(seedPath)
+  if (!existsSync(path)) {
+    if (profile) throw new Error(`seed profile "${profile}" needs a seed directory`)
+    return []
+  }
+  if (statSync(path).isFile()) {
+    if (profile) {
+      throw new Error(`seed profile "${profile}" needs a seed directory, got ${path}`)
+    }
+    return [seedFile(basename(path), path)]
+  }
+
+  const files = listSeedDir(path, '')
+  if (profile) {
+    const profileDir = join(path, profile)
+    if (!existsSync(profileDir) || !statSync(profileDir).isDirectory()) {
+      throw new Error(`seed profile "${profile}" not found in ${path}`)
+    }
+    files.push(...listSeedDir(profileDir, `${profile}/`))
+  }
+  return files
+}
+
+export function createSeedSql(db: MigrationDb): SeedSql {
+  const unsafe = async <T>(query: string, params?: unknown[]): Promise<T[]> => {
+    const result = await db.query<T>(query, params ?? [])
+    return result.rows
+  }
+  const sql = (<T>(strings: TemplateStringsArray, ...values: unknown[]) => {
+    let query = strings[0]
+    for (let i = 0; i < values.length; i++) query += `$${i + 1}${strings[i + 1]}`
+    return unsafe<T>(query, values)
+  }) as SeedSql
+  sql.unsafe = unsafe
+  return sql
+}
+
+/**
+ * create the tracking table. returns true when it was just created, which
+ * is the first run on a database seeded before seeds were tracked.
+ */
+async function ensureSeedsTable(db: MigrationDb): Promise<boolean> {
+  const existing = await db.query<{ exists: boolean }>(
+    `SELECT to_regclass('_orez._seeds') IS NOT NULL AS exists`
+  )
+  if (existing.rows[0]?.exists) return false
+  await db.exec(`
+    CREATE SCHEMA IF NOT EXISTS _orez;
+    CREATE TABLE IF NOT EXISTS _orez._seeds (
+      name TEXT PRIMARY KEY,
+      hash TEXT NOT NULL,
+      applied_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `)
+  return true
+}
+
+async function readApplied(
+  db: MigrationDb
+): Promise<Map<string, { hash: string; applied_at: string }>> {
+  const result = await db.query<{ name: string; hash: string; applied_at: string }>(
+    `SELECT name, hash, applied_at::text AS applied_at FROM _orez._seeds`
+  )
+  return new Map(result.rows.map((r) => [r.name, r]))
+}
+
+function quoteIdent(name: string): string {
+  return '"' + name.replace(/"/g, '""') + '"'
+}
+
+/** the tables change tracking covers, as qualified identifiers */
+async function appTables(db: MigrationDb, publications: string[]): Promise<string[]> {
+  const tables = await getTrackedTables(db as unknown as ChangeTrackingDb, publications)
+  return tables.map((t) => `${quoteIdent(t.schemaname)}.${quoteIdent(t.tablename)}`)
+}
+
+/** true when any tracked app table holds a row */
+export async function hasAppData(
+  db: MigrationDb,
+  publications: string[]
+): Promise<boolean> {
+  for (const table of await appTables(db, publications)) {
+    const result = await db.query(`SELECT 1 FROM ${table} LIMIT 1`)
+    if (result.rows.length > 0) return true
+  }
+  return false
+}
+
+async function applySeed(
+  db: MigrationDb,
+  file: SeedFile,
+  profile: string | null
+): Promise<void> {
+  log.debug.orez(`applying seed: ${file.name}`)
+  if (file.kind === 'sql') {
+    // split by drizzle's statement-breakpoint marker
+    const statements = readFileSync(file.path, 'utf-8')
+      .split('--> statement-breakpoint')
+      .map((s) => s.trim())
+      .filter(Boolean)
+    for (const stmt of statements) {
+      await db.exec(stmt)
+    }
+  } else {
+    // keyed by hash so an edited seed is re-imported, not served from cache
+    const mod = await import(`${pathToFileURL(file.path).href}?hash=${file.hash}`)
+    const fn = mod.default ?? mod.seed
+    if (typeof fn !== 'function') {
+      throw new Error(`seed ${file.name} must export a default function`)
+    }
+    await fn({ sql: createSeedSql(db), profile } satisfies SeedContext)
+  }
+  await db.query(
+    `INSERT INTO _orez._seeds (name, hash) VALUES ($1, $2)
+     ON CONFLICT (name) DO UPDATE SET hash = $2, applied_at = NOW()`,
+    [file.name, file.hash]
+  )
+}
+
+/**
+ * apply the seeds that haven't run on this database, returns their names.
+ *
+ * on a database that already held app data before this run's migrations but
+ * has never recorded seeds (seeded before tracking existed) the current seeds
+ * are recorded as applied without running them.
+ */
+export async function runSeeds(db: MigrationDb, opts: SeedOptions): Promise<string[]> {
+  const files = readSeedFiles(opts.seedPath, opts.profile)
+  const created = await ensureSeedsTable(db)
+  if (files.length === 0) return []
+  const publications = opts.publications ?? []
+
+  if (created && (opts.dataBeforeMigrations ?? (await hasAppData(db, publications)))) {
+    for (const file of files) {
+      await db.query(`INSERT INTO _orez._seeds (name, hash) VALUES ($1, $2)`, [
+        file.name,
+        file.hash,
+      ])
+    }
+    log.orez(`database already has data, recorded ${files.length} seed(s) as applied`)
+    return []
+  }
+
+  const applied = await readApplied(db)
+  const done: string[] = []
+  for (const file of files) {
+    const row = applied.get(file.name)
+    if (row) {
+      if (row.hash !== file.hash) {
+        log.orez(
+          `seed ${file.name} changed since it was applied — run \`orez seed --reset\` to re-seed`
+        )
+      }
+      continue
+    }
+    await applySeed(db, file, opts.profile ?? null)
+    done.push(file.name)
+  }
+  return done
+}
+
+/** empty every app table and forget applied seeds, then seed from scratch */
+export async function resetSeeds(db: MigrationDb, opts: SeedOptions): Promise<string[]> {
+  // read up front so a bad profile fails before anything is truncated
+  readSeedFiles(opts.seedPath, opts.profile)
+  await ensureSeedsTable(db)
+  const tables = await appTables(db, opts.publications ?? [])
+  if (tables.length > 0) {
+    await db.exec(`TRUNCATE ${tables.join(', ')} RESTART IDENTITY CASCADE`)
+    log.debug.orez(`truncated ${tables.length} app table(s)`)
+  }
+  await db.exec(`DELETE FROM _orez._seeds`)
+  return runSeeds(db, opts)
+}
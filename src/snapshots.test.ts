@@ -0,0 +1,114 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  deleteSnapshot,
+  listSnapshots,
+  restoreSnapshot,
+  saveSnapshot,
+} from './snapshots.js'
+
+describe('snapshots', () => {
+  let dataDir: string
+
+  // stand-in data dirs: the helpers only move files, so contents are opaque
+  function writeState(tag: string, opts: { replica?: boolean } = {}) {
+    for (const db of ['postgres', 'cvr', 'cdb']) {
+      mkdirSync(join(dataDir, `pgdata-${db}`, 'base'), { recursive: true })
+      writeFileSync(join(dataDir, `pgdata-${db}`, 'base', 'data'), `${db}:${tag}`)
+    }
+    if (opts.replica !== false) {
+      writeFileSync(join(dataDir, 'zero-replica.db'), `replica:${tag}`)
+      writeFileSync(join(dataDir, 'zero-replica.db-wal'), `wal:${tag}`)
+    }
+  }
+
+  function readState(db: string): string {
+    return readFileSync(join(dataDir, `pgdata-${db}`, 'base', 'data'), 'utf-8')
+  }
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'orez-snapshots-'))
+  })
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('restores all databases and the replica as one unit', () => {
+    writeState('before')
+    const info = saveSnapshot(dataDir, 'before-migration')
+    expect(info.databases).toEqual(['postgres', 'cvr', 'cdb'])
+    expect(info.hasReplica).toBe(true)
+
+    writeState('after')
+    restoreSnapshot(dataDir, 'before-migration')
+
+    expect(readState('postgres')).toBe('postgres:before')
+    expect(readState('cvr')).toBe('cvr:before')
+    expect(readState('cdb')).toBe('cdb:before')
+    expect(readFileSync(join(dataDir, 'zero-replica.db'), 'utf-8')).toBe('replica:before')
+    expect(readFileSync(join(dataDir, 'zero-replica.db-wal'), 'utf-8')).toBe('wal:before')
+  })
+
+  it('drops the current replica when the snapshot has none', () => {
+    writeState('before', { replica: false })
+    saveSnapshot(dataDir, 'no-replica')
+    writeState('after')
+
+    restoreSnapshot(dataDir, 'no-replica')
+    expect(existsSync(join(dataDir, 'zero-replica.db'))).toBe(false)
+    expect(existsSync(join(dataDir, 'zero-replica.db-wal'))).toBe(false)
+  })
+
+  it('leaves the live state untouched when a restore fails partway', () => {
+    writeState('before')
+    saveSnapshot(dataDir, 'broken')
+    // the metadata still lists cdb, so its copy fails after the others staged
+    rmSync(join(dataDir, 'snapshots', 'broken', 'pgdata-cdb'), { recursive: true })
+    writeState('after')
+
+    expect(() => restoreSnapshot(dataDir, 'broken')).toThrow()
+    expect(readState('postgres')).toBe('postgres:after')
+    expect(readState('cdb')).toBe('cdb:after')
+    expect(readFileSync(join(dataDir, 'zero-replica.db'), 'utf-8')).toBe('replica:after')
+    expect(readdirSync(dataDir).filter((entry) => entry.includes('restore-'))).toEqual([])
+  })
+
+  it('lists snapshots oldest first and deletes by name', async () => {
+    writeState('a')
+    saveSnapshot(dataDir, 'one')
+    await new Promise((r) => setTimeout(r, 5))
+    saveSnapshot(dataDir, 'two')
+
+    expect(listSnapshots(dataDir).map((s) => s.name)).toEqual(['one', 'two'])
+    deleteSnapshot(dataDir, 'one')
+    expect(listSnapshots(dataDir).map((s) => s.name)).toEqual(['two'])
+  })
+
+  it('refuses duplicate, unknown and unsafe names', () => {
+    writeState('a')
+    saveSnapshot(dataDir, 'one')
+
+    expect(() => saveSnapshot(dataDir, 'one')).toThrow(/already exists/)
+    expect(() => restoreSnapshot(dataDir, 'missing')).toThrow(/not found/)
+    expect(() => deleteSnapshot(dataDir, 'missing')).toThrow(/not found/)
+    expect(() => saveSnapshot(dataDir, '../escape')).toThrow(/invalid snapshot name/)
+  })
+
+  it('refuses to save an empty data dir', () => {
+    expect(() => saveSnapshot(dataDir, 'empty')).toThrow(/no database found/)
+    expect(listSnapshots(dataDir)).toEqual([])
+  })
+})
@@ -0,0 +1,219 @@
+/**
+ * named snapshots of the local database.
+ *
+ * a snapshot is a copy of the PGlite data directories (postgres, cvr, cdb)
+ * together with the zero replica, stored under `<dataDir>/snapshots/<name>`.
+ * the four are saved and restored as one unit so a restored snapshot comes
+ * back with a coherent sync state: the replica, change db and CVR all agree
+ * with the upstream change log, and zero-cache resumes instead of resyncing.
+ *
+ * these helpers only move files. callers must make sure nothing writes to the
+ * directories meanwhile — orez not running, or zero-cache stopped and the proxy
+ * held exclusively (see the snapshot actions in index.ts).
+ */
+import {
+  cpSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import { join, resolve } from 'node:path'
+
+export interface SnapshotInfo {
+  name: string
+  createdAt: string
+  sizeBytes: number
+  /** which PGlite data directories the snapshot holds (single-db mode has one) */
+  databases: string[]
+  hasReplica: boolean
+}
+
+const SNAPSHOT_DATABASES = ['postgres', 'cvr', 'cdb']
+const REPLICA_FILE = 'zero-replica.db'
+const REPLICA_SUFFIXES = ['', '-wal', '-shm', '-wal2']
+const META_FILE = 'snapshot.json'
+
+export function snapshotsDir(dataDir: string): string {
+  return resolve(dataDir, 'snapshots')
+}
+
+export function assertSnapshotName(name: string): void {
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/.test(name)) {
+    throw new Error(
+      `invalid snapshot name "${name}" (letters, digits, '.', '_' and '-', up to 64 chars)`
+    )
+  }
+}
+
+function snapshotPath(dataDir: string, name: string): string {
+  assertSnapshotName(name)
+  return join(snapshotsDir(dataDir), name)
+}
+
+function dirSize(path: string): number {
+  const stat = statSync(path)
+  if (!stat.isDirectory()) return stat.size
+  let total = 0
+  for (const entry of readdirSync(path)) {
+    total += dirSize(join(path, entry))
+  }
+  return total
+}
+
+export function listSnapshots(dataDir: string): SnapshotInfo[] {
+  const dir = snapshotsDir(dataDir)
+  if (!existsSync(dir)) return []
+  const snapshots: SnapshotInfo[] = []
+  for (const entry of readdirSync(dir)) {
+    const metaPath = join(dir, entry, META_FILE)
+    // in-progress saves have no metadata yet
+    if (!existsSync(metaPath)) continue
+    try {
+      snapshots.push(JSON.parse(readFileSync(metaPath, 'utf-8')))
+    } catch {}
+  }
+  return snapshots.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/**
+ * copy the current data directories and replica into a new snapshot.
+ * the copy lands in a temp directory first so a failed save leaves nothing
+ * that `list` or `restore` would pick up.
+ */
+export function saveSnapshot(
+  dataDir: string,
+  name: string,
+  replicaDir = dataDir
+): SnapshotInfo {
+  const target = snapshotPath(dataDir, name)
+  if (existsSync(target)) {
+    throw new Error(`snapshot "${name}" already exists`)
+  }
+
+  const databases = SNAPSHOT_DATABASES.filter((db) =>
+    existsSync(resolve(dataDir, `pgdata-${db}`))
+  )
+  if (databases.length === 0) {
+    throw new Error(`no database found in ${resolve(dataDir)}`)
+  }
+
+  const tmp = join(snapshotsDir(dataDir), `.${name}.tmp-${process.pid}`)
+  rmSync(tmp, { recursive: true, force: true })
+  mkdirSync(tmp, { recursive: true })
+  try {
+    for (const db of databases) {
+      cpSync(resolve(dataDir, `pgdata-${db}`), join(tmp, `pgdata-${db}`), {
+        recursive: true,
+      })
+    }
+    let hasReplica = false
+    for (const suffix of REPLICA_SUFFIXES) {
+      const file = resolve(replicaDir, REPLICA_FILE + suffix)
+      if (!existsSync(file)) continue
+      cpSync(file, join(tmp, REPLICA_FILE + suffix))
+      hasReplica = true
+    }
+
+    const info: SnapshotInfo = {
+      name,
+      createdAt: new Date().toISOString(),
+      sizeBytes: dirSize(tmp),
+      databases,
+      hasReplica,
+    }
+    writeFileSync(join(tmp, META_FILE), JSON.stringify(info, null, 2))
+    renameSync(tmp, target)
+    return info
+  } catch (err) {
+    rmSync(tmp, { recursive: true, force: true })
+    throw err
+  }
+}
+
+/**
+ * replace the current data directories and replica with a snapshot's copies.
+ * a snapshot saved without a replica leaves none behind, so zero-cache does a
+ * fresh initial sync against the restored databases.
+ *
+ * the copies land next to their targets first and are renamed into place only
+ * once all of them succeeded. the live files are moved aside rather than
+ * removed, so a failure at any point puts them back untouched.
+ */
+export function restoreSnapshot(
+  dataDir: string,
+  name: string,
+  replicaDir = dataDir
+): SnapshotInfo {
+  const source = snapshotPath(dataDir, name)
+  const metaPath = join(source, META_FILE)
+  if (!existsSync(metaPath)) {
+    throw new Error(`snapshot "${name}" not found`)
+  }
+  const info: SnapshotInfo = JSON.parse(readFileSync(metaPath, 'utf-8'))
+
+  // every live path a restore replaces, and the snapshot's copy if it has one
+  const tag = `restore-${process.pid}`
+  const swaps = [
+    ...SNAPSHOT_DATABASES.map((db) => ({
+      target: resolve(dataDir, `pgdata-${db}`),
+      from: info.databases.includes(db) ? join(source, `pgdata-${db}`) : null,
+    })),
+    ...REPLICA_SUFFIXES.map((suffix) => {
+      const file = join(source, REPLICA_FILE + suffix)
+      return {
+        target: resolve(replicaDir, REPLICA_FILE + suffix),
+        from: existsSync(file) ? file : null,
+      }
+    }),
+  ].map((swap) => ({
+    ...swap,
+    staged: `${swap.target}.${tag}.tmp`,
+    old: `${swap.target}.${tag}.old`,
+  }))
+  const removeStaged = () => {
+    for (const swap of swaps) rmSync(swap.staged, { recursive: true, force: true })
+  }
+
+  try {
+    for (const swap of swaps) {
+      rmSync(swap.staged, { recursive: true, force: true })
+      if (swap.from) cpSync(swap.from, swap.staged, { recursive: true })
+    }
+  } catch (err) {
+    removeStaged()
+    throw err
+  }
+
+  const moved: typeof swaps = []
+  try {
+    for (const swap of swaps) {
+      rmSync(swap.old, { recursive: true, force: true })
+      if (existsSync(swap.target)) renameSync(swap.target, swap.old)
+      moved.push(swap)
+      if (swap.from) renameSync(swap.staged, swap.target)
+    }
+  } catch (err) {
+    for (const swap of moved.reverse()) {
+      rmSync(swap.target, { recursive: true, force: true })
+      if (existsSync(swap.old)) renameSync(swap.old, swap.target)
+    }
+    removeStaged()
+    throw err
+  }
+
+  for (const swap of swaps) rmSync(swap.old, { recursive: true, force: true })
+  return info
+}
+
+export function deleteSnapshot(dataDir: string, name: string): void {
+  const target = snapshotPath(dataDir, name)
+  if (!existsSync(target)) {
+    throw new Error(`snapshot "${name}" not found`)
+  }
+  rmSync(target, { recursive: true, force: true })
+}
@@ -1,4 +1,5 @@
 import { startZeroLite } from './index.js'
+import { watchMigrations, type MigrationWatcher } from './migration-watcher.js'
 
 import type { Hook, ZeroLiteConfig } from './config.js'
 import type { Server } from 'node:http'
@@ -9,6 +10,8 @@ export interface OrezPluginOptions extends Partial<
 > {
   s3?: boolean
   s3Port?: number
+  /** apply migrations added to migrationsDir while vite runs (default: true) */
+  watchMigrations?: boolean
   // lifecycle hooks - callback functions (preferred for vite) or shell commands
   onDbReady?: Hook
   onHealthy?: Hook
@@ -18,6 +21,7 @@ export function orezPlugin(options?: OrezPluginOptions): Plugin {
   let stop: (() => Promise<void>) | null = null
   let s3Server: Server | null = null
   let adminServer: Server | null = null
+  let migrationWatcher: MigrationWatcher | null = null
 
   return {
     name: 'orez',
@@ -40,6 +44,10 @@ export function orezPlugin(options?: OrezPluginOptions): Plugin {
             stopZero: result.stopZero,
             resetZero: result.resetZero,
             resetZeroFull: result.resetZeroFull,
+            saveSnapshot: result.saveSnapshot,
+            restoreSnapshot: result.restoreSnapshot,
+            deleteSnapshot: result.deleteSnapshot,
+            seed: result.seed,
           },
           startTime: Date.now(),
           db: result.instances,
@@ -54,7 +62,44 @@ export function orezPlugin(options?: OrezPluginOptions): Plugin {
         })
       }
 
+      if (result.config.migrationsDir && options?.watchMigrations !== false) {
+        const logger = server.config.logger
+        let overlayShown = false
+        migrationWatcher = watchMigrations(result.config.migrationsDir, result.migrate, {
+          onChange(file) {
+            logger.info(`[orez] ${file} changed, applying migrations...`, {
+              timestamp: true,
+            })
+          },
+          onApplied({ applied, zeroReset }) {
+            logger.info(
+              `[orez] applied ${applied.join(', ')}${zeroReset ? ', zero-cache reset' : ''}`,
+              { timestamp: true }
+            )
+            server.ws.send({
+              type: 'custom',
+              event: 'orez:migrations',
+              data: { applied, zeroReset },
+            })
+            // a successful run replaces the last failure's overlay
+            if (overlayShown) {
+              overlayShown = false
+              server.ws.send({ type: 'full-reload' })
+            }
+          },
+          onError(err) {
+            logger.error(`[orez] migration failed: ${err.message}`, { timestamp: true })
+            overlayShown = true
+            server.ws.send({
+              type: 'error',
+              err: { message: err.message, stack: err.stack ?? '', plugin: 'orez' },
+            })
+          },
+        })
+      }
+
       server.httpServer?.on('close', async () => {
+        migrationWatcher?.close()
         adminServer?.close()
         s3Server?.close()
         if (stop) {